@@ -0,0 +1,77 @@
+import type { ActiveCharacterAnalysis } from "./activity";
+import type { ActiveCharacterPin } from "./types";
+import { ensureStyles, escapeHtml } from "./ui";
+
+export function openActiveOverridesModal(input: {
+  getAnalysis: () => ActiveCharacterAnalysis | null;
+  onPin: (name: string, pin: ActiveCharacterPin | null) => void;
+  onClear: () => void;
+}): void {
+  ensureStyles();
+  closeActiveOverridesModal();
+
+  const backdrop = document.createElement("div");
+  backdrop.className = "bst-graph-backdrop bst-active-overrides-backdrop";
+  backdrop.addEventListener("click", () => closeActiveOverridesModal());
+  document.body.appendChild(backdrop);
+
+  const modal = document.createElement("div");
+  modal.className = "bst-graph-modal bst-active-overrides-modal";
+  document.body.appendChild(modal);
+
+  const render = (): void => {
+    const analysis = input.getAnalysis();
+    const names = analysis?.allCharacterNames ?? [];
+    const active = new Set(analysis?.activeCharacters ?? []);
+    const pins = analysis?.pins ?? {};
+    const rows = names.map(name => {
+      const pin = pins[name] ?? "";
+      const option = (value: string, label: string): string =>
+        `<option value="${value}" ${pin === value ? "selected" : ""}>${label}</option>`;
+      return `<tr>
+        <th scope="row">${escapeHtml(name)}</th>
+        <td><span class="bst-active-overrides-state ${active.has(name) ? "is-active" : "is-inactive"}">${active.has(name) ? "Active" : "Inactive"}${pin ? ` <span class="fa-solid fa-thumbtack" aria-hidden="true"></span>` : ""}</span></td>
+        <td>
+          <select class="bst-graph-window-select" data-action="pin" data-character="${escapeHtml(name)}" aria-label="Override for ${escapeHtml(name)}">
+            ${option("", "Auto")}${option("active", "Always active")}${option("inactive", "Always inactive")}
+          </select>
+        </td>
+        <td class="bst-active-overrides-reason">${escapeHtml(analysis?.reasons[name] ?? "")}</td>
+      </tr>`;
+    }).join("");
+    modal.innerHTML = `
+      <div class="bst-graph-top">
+        <div class="bst-graph-title">Active Characters</div>
+        <button class="bst-btn bst-close-btn" data-action="close" title="Close active character overrides" aria-label="Close active character overrides">&times;</button>
+      </div>
+      ${names.length ? `
+      <div class="bst-graph-controls">
+        <button type="button" class="bst-btn" data-action="clear" title="Return every character to automatic detection"${Object.keys(pins).length ? "" : " disabled"}>Clear all overrides</button>
+      </div>
+      <table class="bst-relations-table bst-active-overrides-table">
+        <thead><tr><th></th><th scope="col">Now</th><th scope="col">Override</th><th scope="col">Reason</th></tr></thead>
+        <tbody>${rows}</tbody>
+      </table>
+      <div class="bst-graph-hint">Overrides apply to this chat only and last until cleared. They take effect on the tracker cards and prompt injection right away, and on the next extraction.</div>`
+        : `<div class="bst-graph-hint">No tracked characters in this chat.</div>`}
+    `;
+    modal.querySelector('[data-action="close"]')?.addEventListener("click", () => closeActiveOverridesModal());
+    modal.querySelector('[data-action="clear"]')?.addEventListener("click", () => {
+      input.onClear();
+      render();
+    });
+    modal.querySelectorAll<HTMLSelectElement>('[data-action="pin"]').forEach(select => {
+      select.addEventListener("change", () => {
+        const value = select.value;
+        input.onPin(String(select.dataset.character ?? ""), value === "active" || value === "inactive" ? value : null);
+        render();
+      });
+    });
+  };
+  render();
+}
+
+export function closeActiveOverridesModal(): void {
+  document.querySelector(".bst-active-overrides-backdrop")?.remove();
+  document.querySelector(".bst-active-overrides-modal")?.remove();
+}
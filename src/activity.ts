@@ -1,6 +1,24 @@
-import type { BetterSimTrackerSettings, Character, STContext } from "./types";
+import type {
+  ActiveCharacterPin,
+  BetterSimTrackerSettings,
+  Character,
+  PresenceMergePolicy,
+  PresenceVerdict,
+  STContext,
+} from "./types";
+import { describeActivityCue, detectActivityCue, resolveActivityCues, type ActivityCueMatch } from "./activityCues";
 import { isTrackableAiMessage } from "./messageFilter";
 
+export type ActiveCharacterAnalysis = {
+  allCharacterNames: string[];
+  activeCharacters: string[];
+  reasons: Record<string, string>;
+  lookback: number;
+  pins?: Record<string, ActiveCharacterPin>;
+};
+
+export const ACTIVE_PINS_METADATA_KEY = "bstActiveCharacterPins";
+
 function getGroupCharacters(context: STContext): Character[] {
   if (!context.groupId || !context.groups || !context.characters) return [];
   const group = context.groups.find(g => g.id === context.groupId);
@@ -64,15 +82,82 @@ export function getActiveCharacterNames(
   return resolveActiveCharacterAnalysis(context, settings).activeCharacters;
 }
 
+export function readActiveCharacterPins(context: STContext): Record<string, ActiveCharacterPin> {
+  const raw = context.chatMetadata?.[ACTIVE_PINS_METADATA_KEY];
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return {};
+  const pins: Record<string, ActiveCharacterPin> = {};
+  for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+    const name = key.trim();
+    if (name && (value === "active" || value === "inactive")) pins[name] = value;
+  }
+  return pins;
+}
+
+export function setActiveCharacterPin(context: STContext, name: string, pin: ActiveCharacterPin | null): void {
+  const key = name.trim();
+  if (!key) return;
+  const pins = readActiveCharacterPins(context);
+  if (pin) {
+    pins[key] = pin;
+  } else {
+    delete pins[key];
+  }
+  if (!context.chatMetadata || typeof context.chatMetadata !== "object") {
+    context.chatMetadata = {};
+  }
+  context.chatMetadata[ACTIVE_PINS_METADATA_KEY] = pins;
+  context.saveMetadataDebounced?.();
+}
+
+export function clearActiveCharacterPins(context: STContext): number {
+  const count = Object.keys(readActiveCharacterPins(context)).length;
+  if (context.chatMetadata && Object.prototype.hasOwnProperty.call(context.chatMetadata, ACTIVE_PINS_METADATA_KEY)) {
+    delete context.chatMetadata[ACTIVE_PINS_METADATA_KEY];
+    context.saveMetadataDebounced?.();
+  }
+  return count;
+}
+
+export function applyActiveCharacterPins(
+  analysis: ActiveCharacterAnalysis,
+  pins: Record<string, ActiveCharacterPin>,
+): ActiveCharacterAnalysis {
+  const relevant: Record<string, ActiveCharacterPin> = {};
+  for (const name of analysis.allCharacterNames) {
+    if (pins[name]) relevant[name] = pins[name];
+  }
+  if (!Object.keys(relevant).length) return analysis;
+  const heuristicActive = new Set(analysis.activeCharacters);
+  const reasons = { ...analysis.reasons };
+  for (const [name, pin] of Object.entries(relevant)) {
+    const heuristicReason = reasons[name] ?? (heuristicActive.has(name) ? "active" : "inactive");
+    reasons[name] = `pinned ${pin} for this chat; heuristic: ${heuristicReason}`;
+  }
+  const activeCharacters = analysis.allCharacterNames.filter(name =>
+    relevant[name] ? relevant[name] === "active" : heuristicActive.has(name),
+  );
+  return { ...analysis, activeCharacters, reasons, pins: relevant };
+}
+
+export function applyActiveCharacterPinsToNames(names: string[], pins: Record<string, ActiveCharacterPin>): string[] {
+  const out = names.filter(name => pins[name] !== "inactive");
+  for (const [name, pin] of Object.entries(pins)) {
+    if (pin === "active" && !out.includes(name)) out.push(name);
+  }
+  return out;
+}
+
 export function resolveActiveCharacterAnalysis(
   context: STContext,
   settings: BetterSimTrackerSettings,
-): {
-  allCharacterNames: string[];
-  activeCharacters: string[];
-  reasons: Record<string, string>;
-  lookback: number;
-} {
+): ActiveCharacterAnalysis {
+  return applyActiveCharacterPins(resolveHeuristicActivity(context, settings), readActiveCharacterPins(context));
+}
+
+function resolveHeuristicActivity(
+  context: STContext,
+  settings: BetterSimTrackerSettings,
+): ActiveCharacterAnalysis {
   const allNames = getAllTrackedCharacterNames(context);
   const allNamesSet = new Set(allNames);
   const lookback = Math.max(1, settings.activityLookback);
@@ -120,106 +205,56 @@ export function resolveActiveCharacterAnalysis(
     }
   }
 
-  const maxDepartureScan = Math.max(6, lookback * 3);
-  const scanStart = Math.max(0, context.chat.length - maxDepartureScan);
-  const scanSlice = context.chat.slice(scanStart);
-
-  const hasDepartureCue = (text: string, name: string): boolean => {
-    const normalized = text.toLowerCase().replace(/\s+/g, " ").trim();
-    const target = name.toLowerCase().trim();
-    if (!normalized || !target || !normalized.includes(target)) return false;
-    const departureVerbs = [
-      "went",
-      "goes",
-      "left",
-      "leaves",
-      "walked",
-      "walks",
-      "ran",
-      "returns",
-      "returned",
-      "headed",
-      "moved",
-      "retreated",
-      "stayed in",
-      "stays in",
-      "is in",
-    ];
-    const departurePlaces = [
-      "away",
-      "out",
-      "back",
-      "home",
-      "room",
-      "bedroom",
-      "upstairs",
-      "downstairs",
-      "outside",
-      "bathroom",
-      "hallway",
-      "kitchen",
-      "garden",
-      "her room",
-      "his room",
-      "their room",
-    ];
-    const hasVerb = departureVerbs.some(verb => normalized.includes(verb));
-    const hasPlace = departurePlaces.some(place => normalized.includes(place));
-    return hasVerb && hasPlace;
-  };
-
-  for (const name of allNames) {
-    let lastDepartureIndex = -1;
-    for (let i = 0; i < scanSlice.length; i += 1) {
-      const msg = scanSlice[i];
+  const cues = resolveActivityCues(settings);
+  const maxCueScan = Math.max(6, lookback * 3);
+  const scanStart = Math.max(0, context.chat.length - maxCueScan);
+  const findLastCue = (name: string): { index: number; match: ActivityCueMatch } | null => {
+    let last: { index: number; match: ActivityCueMatch } | null = null;
+    for (let i = scanStart; i < context.chat.length; i += 1) {
+      const msg = context.chat[i];
       if (!msg.is_user || msg.is_system) continue;
       const text = String(msg.mes ?? "");
       if (!text.trim()) continue;
-      if (hasDepartureCue(text, name)) {
-        lastDepartureIndex = scanStart + i;
-      }
+      const match = detectActivityCue(text, name, cues);
+      if (match) last = { index: i, match };
     }
-    if (lastDepartureIndex < 0) continue;
-
-    let spokeAfterDeparture = false;
-    for (let i = lastDepartureIndex + 1; i < context.chat.length; i += 1) {
+    return last;
+  };
+  const spokeAfter = (name: string, index: number): boolean => {
+    for (let i = index + 1; i < context.chat.length; i += 1) {
       const msg = context.chat[i];
       if (!isTrackableAiMessage(msg)) continue;
-      if (String(msg.name ?? "").trim() === name) {
-        spokeAfterDeparture = true;
-        break;
-      }
+      if (String(msg.name ?? "").trim() === name) return true;
     }
-    if (!spokeAfterDeparture) {
+    return false;
+  };
+  const lastCues = new Map(allNames.map(name => [name, findLastCue(name)]));
+
+  for (const name of allNames) {
+    const cue = lastCues.get(name);
+    if (!cue) continue;
+    const cueText = `${cue.match.kind} cue ${describeActivityCue(cue.match)} at message ${cue.index}`;
+    if (cue.match.kind === "arrival") {
+      seen.add(name);
+      reasons[name] = cueText;
+    } else if (!spokeAfter(name, cue.index)) {
       seen.delete(name);
-      reasons[name] = `departure cue at message ${lastDepartureIndex}, no speech after`;
+      reasons[name] = `${cueText}, no speech after`;
     } else {
-      reasons[name] = `departure cue at message ${lastDepartureIndex}, but spoke later`;
+      reasons[name] = `${cueText}, but spoke later`;
     }
   }
 
   if (seen.size === 0) {
     const visible = allNames.filter(name => {
-      let lastDepartureIndex = -1;
-      for (let i = 0; i < scanSlice.length; i += 1) {
-        const msg = scanSlice[i];
-        if (!msg.is_user || msg.is_system) continue;
-        const text = String(msg.mes ?? "");
-        if (!text.trim()) continue;
-        if (hasDepartureCue(text, name)) {
-          lastDepartureIndex = scanStart + i;
-        }
-      }
-      if (lastDepartureIndex < 0) return true;
-      for (let i = lastDepartureIndex + 1; i < context.chat.length; i += 1) {
-        const msg = context.chat[i];
-        if (!isTrackableAiMessage(msg)) continue;
-        if (String(msg.name ?? "").trim() === name) {
-          reasons[name] = `fallback visibility: spoke after departure cue at ${lastDepartureIndex}`;
-          return true;
-        }
+      const cue = lastCues.get(name);
+      if (!cue || cue.match.kind === "arrival") return true;
+      const cueText = `departure cue ${describeActivityCue(cue.match)} at ${cue.index}`;
+      if (spokeAfter(name, cue.index)) {
+        reasons[name] = `fallback visibility: spoke after ${cueText}`;
+        return true;
       }
-      reasons[name] = `fallback visibility: hidden after departure cue at ${lastDepartureIndex}`;
+      reasons[name] = `fallback visibility: hidden after ${cueText}`;
       return false;
     });
     const active = visible.length ? visible : allNames;
@@ -239,6 +274,45 @@ export function resolveActiveCharacterAnalysis(
   return { allCharacterNames: allNames, activeCharacters, reasons, lookback };
 }
 
+export function mergePresenceAnalysis(
+  analysis: ActiveCharacterAnalysis,
+  presence: Record<string, PresenceVerdict>,
+  policy: PresenceMergePolicy,
+): ActiveCharacterAnalysis {
+  if (!Object.keys(presence).length) return analysis;
+  const heuristicActive = new Set(analysis.activeCharacters);
+  const reasons = { ...analysis.reasons };
+  const activeCharacters = analysis.allCharacterNames.filter(name => {
+    const heuristic = heuristicActive.has(name);
+    const verdict = presence[name];
+    if (!verdict || analysis.pins?.[name]) return heuristic;
+    const active = policy === "union"
+      ? heuristic || verdict.present
+      : policy === "intersection"
+        ? heuristic && verdict.present
+        : verdict.present;
+    const heuristicReason = reasons[name] ?? (heuristic ? "active" : "inactive");
+    const modelReason = verdict.reason ? ` (${verdict.reason})` : "";
+    reasons[name] = `model: ${verdict.present ? "present" : "absent"}${modelReason}; heuristic: ${heuristicReason}; ${policy} -> ${active ? "active" : "inactive"}`;
+    return active;
+  });
+  if (!activeCharacters.length) {
+    return { ...analysis, reasons };
+  }
+  return { ...analysis, activeCharacters, reasons };
+}
+
+export function simulateActivityMessage(
+  context: STContext,
+  settings: BetterSimTrackerSettings,
+  text: string,
+): { before: ActiveCharacterAnalysis; after: ActiveCharacterAnalysis } {
+  const before = resolveActiveCharacterAnalysis(context, settings);
+  const message = { is_user: true, is_system: false, name: context.name1 ?? "User", mes: text };
+  const after = resolveActiveCharacterAnalysis({ ...context, chat: [...context.chat, message] }, settings);
+  return { before, after };
+}
+
 export function buildRecentContext(context: STContext, messageCount: number): string {
   const chunk = context.chat.slice(-Math.max(1, messageCount));
   return chunk
@@ -0,0 +1,168 @@
+import type { ActivityCueLanguage, BetterSimTrackerSettings } from "./types";
+
+export interface ActivityCueDictionary {
+  departureVerbs: string[];
+  arrivalVerbs: string[];
+  places: string[];
+  negations: string[];
+}
+
+export interface ActivityCueMatch {
+  kind: "departure" | "arrival";
+  verb: string;
+  place?: string;
+}
+
+export const ACTIVITY_CUE_LANGUAGES: Array<{ id: ActivityCueLanguage; label: string }> = [
+  { id: "en", label: "English" },
+  { id: "de", label: "German" },
+  { id: "es", label: "Spanish" },
+  { id: "ja", label: "Japanese" },
+  { id: "pl", label: "Polish" },
+];
+
+export const ACTIVITY_CUE_PACKS: Record<ActivityCueLanguage, ActivityCueDictionary> = {
+  en: {
+    departureVerbs: [
+      "went", "goes", "left", "leaves", "walked", "walks", "ran", "returns", "returned",
+      "headed", "moved", "retreated", "stayed in", "stays in", "is in",
+    ],
+    arrivalVerbs: [
+      "arrives", "arrived", "enters", "entered", "comes in", "came in", "walks in", "walked in",
+      "comes back", "came back", "joins", "joined", "shows up", "showed up", "appears", "appeared",
+    ],
+    places: [
+      "away", "out", "back", "home", "room", "bedroom", "upstairs", "downstairs", "outside",
+      "bathroom", "hallway", "kitchen", "garden", "her room", "his room", "their room",
+    ],
+    negations: [
+      "not", "never", "didn't", "doesn't", "don't", "won't", "isn't", "wasn't", "hasn't",
+      "haven't", "can't", "cannot", "refuses to", "refused to",
+    ],
+  },
+  de: {
+    departureVerbs: [
+      "ging", "geht", "verließ", "verlässt", "lief", "läuft", "rannte", "rennt", "kehrte zurück",
+      "kehrt zurück", "zog sich zurück", "zieht sich zurück", "verschwand", "verschwindet", "blieb in", "bleibt in", "ist im",
+    ],
+    arrivalVerbs: [
+      "kam herein", "kommt herein", "betrat", "betritt", "trat ein", "tritt ein", "kam zurück",
+      "kommt zurück", "erschien", "erscheint", "tauchte auf", "taucht auf", "gesellte sich", "gesellt sich",
+    ],
+    places: [
+      "weg", "raus", "hinaus", "nach hause", "heim", "zimmer", "schlafzimmer", "nach oben",
+      "nach unten", "draußen", "nach draußen", "bad", "badezimmer", "flur", "küche", "garten",
+    ],
+    negations: ["nicht", "nie", "niemals", "kein", "keine", "weigert sich", "weigerte sich"],
+  },
+  es: {
+    departureVerbs: [
+      "se fue", "se va", "fue", "va", "salió", "sale", "caminó", "camina", "corrió", "corre",
+      "volvió a", "vuelve a", "regresó a", "regresa a", "se dirigió", "se dirige", "se retiró",
+      "se retira", "se quedó en", "se queda en", "está en",
+    ],
+    arrivalVerbs: [
+      "llegó", "llega", "entró", "entra", "apareció", "aparece", "se unió", "se une", "volvió",
+      "vuelve", "regresó", "regresa",
+    ],
+    places: [
+      "fuera", "afuera", "casa", "habitación", "cuarto", "dormitorio", "arriba", "abajo", "baño",
+      "pasillo", "cocina", "jardín",
+    ],
+    negations: ["no", "nunca", "jamás", "tampoco", "se niega a", "se negó a"],
+  },
+  ja: {
+    departureVerbs: ["出かけ", "出て行", "出ていっ", "去っ", "去る", "帰っ", "帰る", "戻っ", "戻る", "向かっ", "向かう", "行っ", "行く", "こもっ", "こもる"],
+    arrivalVerbs: ["来た", "来る", "やって来", "やってき", "入ってき", "入って来", "戻ってき", "戻って来", "帰ってき", "帰って来", "現れ", "到着", "合流"],
+    places: ["外", "家", "自宅", "部屋", "寝室", "二階", "一階", "風呂", "浴室", "トイレ", "廊下", "台所", "キッチン", "庭"],
+    negations: ["ない", "なかっ", "ません", "ませんでし"],
+  },
+  pl: {
+    departureVerbs: [
+      "poszedł", "poszła", "poszli", "wyszedł", "wyszła", "wyszli", "odszedł", "odeszła",
+      "wrócił do", "wróciła do", "pobiegł", "pobiegła", "udał się", "udała się", "został w",
+      "została w", "zostaje w", "jest w",
+    ],
+    arrivalVerbs: [
+      "przyszedł", "przyszła", "przyszli", "wszedł", "weszła", "weszli", "przybył", "przybyła",
+      "pojawił się", "pojawiła się", "dołączył", "dołączyła", "wrócił", "wróciła",
+    ],
+    places: [
+      "do domu", "domu", "pokoju", "pokój", "sypialni", "na górę", "na dół", "na zewnątrz",
+      "łazienki", "łazience", "korytarz", "kuchni", "ogrodu", "ogrodzie",
+    ],
+    negations: ["nie", "nigdy", "odmówił", "odmówiła"],
+  },
+};
+
+const SPACELESS_SCRIPT = /[\u3040-\u30ff\u3400-\u9fff]/;
+const CLAUSE_SPLIT = /[.!?;\n。！？；]+/;
+
+function normalizeCueText(text: string): string {
+  return String(text ?? "").toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function containsCue(text: string, cue: string): boolean {
+  if (!cue) return false;
+  if (SPACELESS_SCRIPT.test(cue)) return text.includes(cue);
+  return new RegExp(`(?:^|[^\\p{L}\\p{N}'])${escapeRegExp(cue)}(?:$|[^\\p{L}\\p{N}'])`, "u").test(text);
+}
+
+function longestMatch(text: string, cues: string[]): string | undefined {
+  let best: string | undefined;
+  for (const cue of cues) {
+    if ((!best || cue.length > best.length) && containsCue(text, cue)) best = cue;
+  }
+  return best;
+}
+
+export function sanitizeActivityCueList(input: unknown, maxItems = 100): string[] {
+  const raw = Array.isArray(input) ? input : String(input ?? "").split(/\r?\n/);
+  const out: string[] = [];
+  for (const item of raw) {
+    const cue = normalizeCueText(String(item ?? "")).slice(0, 40);
+    if (!cue || out.includes(cue)) continue;
+    out.push(cue);
+    if (out.length >= maxItems) break;
+  }
+  return out;
+}
+
+export function resolveActivityCues(settings: BetterSimTrackerSettings): ActivityCueDictionary {
+  const languages = settings.activityCueLanguages?.length ? settings.activityCueLanguages : ["en" as const];
+  const merge = (pick: (pack: ActivityCueDictionary) => string[], extra: string[] | undefined): string[] =>
+    sanitizeActivityCueList([...languages.flatMap(language => pick(ACTIVITY_CUE_PACKS[language] ?? ACTIVITY_CUE_PACKS.en)), ...(extra ?? [])], 1000);
+  return {
+    departureVerbs: merge(pack => pack.departureVerbs, settings.activityCueDepartureVerbs),
+    arrivalVerbs: merge(pack => pack.arrivalVerbs, settings.activityCueArrivalVerbs),
+    places: merge(pack => pack.places, settings.activityCuePlaces),
+    negations: merge(pack => pack.negations, settings.activityCueNegations),
+  };
+}
+
+export function detectActivityCue(text: string, name: string, cues: ActivityCueDictionary): ActivityCueMatch | null {
+  const normalized = normalizeCueText(text);
+  const target = normalizeCueText(name);
+  if (!normalized || !target || !normalized.includes(target)) return null;
+  let best: ActivityCueMatch | null = null;
+  for (const clause of normalized.split(CLAUSE_SPLIT)) {
+    if (!clause.trim() || longestMatch(clause, cues.negations)) continue;
+    const departure = longestMatch(clause, cues.departureVerbs);
+    const place = departure ? longestMatch(clause, cues.places) : undefined;
+    const arrival = longestMatch(clause, cues.arrivalVerbs);
+    if (departure && place && (!arrival || departure.length >= arrival.length)) {
+      best = { kind: "departure", verb: departure, place };
+    } else if (arrival) {
+      best = { kind: "arrival", verb: arrival };
+    }
+  }
+  return best;
+}
+
+export function describeActivityCue(match: ActivityCueMatch): string {
+  return match.place ? `"${match.verb}" + "${match.place}"` : `"${match.verb}"`;
+}
@@ -0,0 +1,155 @@
+import { GLOBAL_TRACKER_KEY, STAT_CONSTRAINT_RULE_ID, STAT_DECAY_RULE_ID } from "./constants";
+import type { StatChangeLogEntry, StatRuleDelta, TrackerData } from "./types";
+
+const MAX_CHANGE_LOG_ENTRIES = 400;
+const MAX_CHANGE_REASON_CHARS = 200;
+
+function finiteOr(value: unknown, fallback: number): number {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+export function buildStatChangeLogEntry(input: {
+  owner: string;
+  stat: string;
+  previous: number;
+  rawDelta?: number;
+  confidence: number;
+  breakdown: { next: number; scale: number; limit: number; boundedDelta: number; scaledDelta: number };
+  reason?: string;
+}): StatChangeLogEntry {
+  const clampedDelta = Math.round(input.breakdown.boundedDelta);
+  const reason = String(input.reason ?? "").trim().slice(0, MAX_CHANGE_REASON_CHARS);
+  const entry: StatChangeLogEntry = {
+    owner: input.owner,
+    stat: input.stat,
+    previous: Math.round(finiteOr(input.previous, 0)),
+    rawDelta: Math.round(finiteOr(input.rawDelta, clampedDelta)),
+    confidence: Math.max(0, Math.min(1, finiteOr(input.confidence, 0))),
+    confidenceScale: Number(input.breakdown.scale.toFixed(3)),
+    maxDelta: input.breakdown.limit,
+    clampedDelta,
+    scaledDelta: input.breakdown.scaledDelta,
+    final: input.breakdown.next,
+  };
+  if (reason) entry.reason = reason;
+  return entry;
+}
+
+function normalizeRuleDeltas(raw: unknown): StatRuleDelta[] {
+  if (!Array.isArray(raw)) return [];
+  const out: StatRuleDelta[] = [];
+  for (const item of raw) {
+    if (!item || typeof item !== "object") continue;
+    const row = item as Record<string, unknown>;
+    const ruleId = String(row.ruleId ?? "").trim();
+    const delta = Number(row.delta);
+    if (!ruleId || !Number.isFinite(delta)) continue;
+    out.push({
+      ruleId,
+      label: String(row.label ?? "").trim() || ruleId,
+      phase: row.phase === "before" ? "before" : "after",
+      delta,
+    });
+  }
+  return out;
+}
+
+export function normalizeStatChangeLog(raw: unknown): StatChangeLogEntry[] {
+  if (!Array.isArray(raw)) return [];
+  const out: StatChangeLogEntry[] = [];
+  for (const item of raw) {
+    if (!item || typeof item !== "object") continue;
+    const row = item as Record<string, unknown>;
+    const owner = String(row.owner ?? "").trim();
+    const stat = String(row.stat ?? "").trim();
+    const previous = Number(row.previous);
+    const final = Number(row.final);
+    if (!owner || !stat || !Number.isFinite(previous) || !Number.isFinite(final)) continue;
+    const clampedDelta = finiteOr(row.clampedDelta, final - previous);
+    const entry: StatChangeLogEntry = {
+      owner,
+      stat,
+      previous,
+      rawDelta: finiteOr(row.rawDelta, clampedDelta),
+      confidence: Math.max(0, Math.min(1, finiteOr(row.confidence, 0))),
+      confidenceScale: finiteOr(row.confidenceScale, 1),
+      maxDelta: finiteOr(row.maxDelta, Math.abs(clampedDelta)),
+      clampedDelta,
+      scaledDelta: finiteOr(row.scaledDelta, final - previous),
+      final,
+    };
+    const reason = typeof row.reason === "string" ? row.reason.trim().slice(0, MAX_CHANGE_REASON_CHARS) : "";
+    if (reason) entry.reason = reason;
+    const ruleDeltas = normalizeRuleDeltas(row.ruleDeltas);
+    if (ruleDeltas.length) entry.ruleDeltas = ruleDeltas;
+    if (row.ruleOnly === true) entry.ruleOnly = true;
+    if (row.edited === true) entry.edited = true;
+    out.push(entry);
+    if (out.length >= MAX_CHANGE_LOG_ENTRIES) break;
+  }
+  return out;
+}
+
+export function markStatChangeLogEdits(
+  log: StatChangeLogEntry[] | undefined,
+  edits: Array<{ owner: string; stat: string }>,
+): StatChangeLogEntry[] | undefined {
+  if (!log?.length) return undefined;
+  const editedKeys = new Set(edits.map(edit => `${edit.owner}\u0000${edit.stat}`));
+  return log.map(entry => editedKeys.has(`${entry.owner}\u0000${entry.stat}`) ? { ...entry, edited: true } : { ...entry });
+}
+
+export function filterStatChangeLogToOwners(log: StatChangeLogEntry[], owners: string[]): StatChangeLogEntry[] {
+  return log.filter(entry => entry.owner === GLOBAL_TRACKER_KEY || owners.includes(entry.owner));
+}
+
+export function findStatChangeLogEntry(
+  data: TrackerData | null | undefined,
+  owner: string,
+  stat: string,
+): StatChangeLogEntry | null {
+  return data?.changeLog?.find(entry => entry.owner === owner && entry.stat === stat) ?? null;
+}
+
+function formatSigned(value: number): string {
+  return value > 0 ? `+${value}` : String(value);
+}
+
+export function describeStatChange(entry: StatChangeLogEntry, label: string, currentValue?: number): string[] {
+  const ruleDeltas = entry.ruleDeltas ?? [];
+  const describeRules = (phase: StatRuleDelta["phase"]): string[] => ruleDeltas
+    .filter(rule => rule.phase === phase)
+    .map(rule => rule.ruleId === STAT_DECAY_RULE_ID
+      ? `${rule.label}: ${formatSigned(rule.delta)}.`
+      : rule.ruleId === STAT_CONSTRAINT_RULE_ID
+        ? `Constraint "${rule.label}": ${formatSigned(rule.delta)}.`
+        : `Rule "${rule.label}" ${phase === "before" ? "before" : "after"} the model: ${formatSigned(rule.delta)}.`);
+  const lines = [
+    `${label}: ${entry.previous} → ${entry.final} (${formatSigned(entry.final - entry.previous)})`,
+    ...describeRules("before"),
+  ];
+  if (!entry.ruleOnly) {
+    lines.push(`Model proposed ${formatSigned(entry.rawDelta)} at confidence ${entry.confidence.toFixed(2)}.`);
+    if (entry.clampedDelta !== entry.rawDelta) {
+      lines.push(`Capped to ${formatSigned(entry.clampedDelta)} by the ±${entry.maxDelta} per-turn limit.`);
+    }
+    if (entry.scaledDelta !== entry.clampedDelta) {
+      lines.push(`Confidence dampening scaled it to ${formatSigned(entry.scaledDelta)} (×${entry.confidenceScale.toFixed(2)}).`);
+    }
+    const ruleTotal = ruleDeltas.reduce((sum, rule) => sum + rule.delta, 0);
+    if (entry.previous + ruleTotal + entry.scaledDelta !== entry.final) {
+      lines.push("Clamped to the 0-100 range.");
+    }
+  }
+  lines.push(...describeRules("after"));
+  if (entry.reason) {
+    lines.push(`Reason: ${entry.reason}`);
+  }
+  if (currentValue !== undefined && Math.round(currentValue) !== entry.final) {
+    lines.push(`Edited afterwards to ${Math.round(currentValue)}.`);
+  } else if (entry.edited && currentValue === undefined) {
+    lines.push("Cleared afterwards.");
+  }
+  return lines;
+}
@@ -18,6 +18,7 @@ import type {
   MoodExpressionMap,
   MoodLabel,
   MoodSource,
+  StatKey,
   StExpressionImageOptions,
   STContext,
 } from "./types";
@@ -30,6 +31,7 @@ import {
   normalizeNonNumericArrayItems,
 } from "./customStatRuntime";
 import { isCustomStatTrackableForOwnerToggle } from "./ownerStatToggles";
+import { getBuiltInStatDefinition } from "./statRegistry";
 
 const PANEL_ID = "bst-character-panel";
 const NAME_INPUT_SELECTORS = ["#character_name_pole", "#character_name", "input[name='name']"];
@@ -609,6 +611,7 @@ function renderPanel(input: InitInput, force = false): void {
       `;
     }
     const kind = normalizeCustomStatKind(definition.kind);
+    if (kind === "computed") return "";
     if (kind === "numeric") {
       const rawValue = customNumericDefaultsRaw[id];
       const value = typeof rawValue === "number" && Number.isFinite(rawValue)
@@ -683,13 +686,14 @@ function renderPanel(input: InitInput, force = false): void {
       </label>
     `;
   }).filter(Boolean).join("");
+  const builtInLabel = (key: StatKey): string => getBuiltInStatDefinition(settings, key).label;
   const builtInStatTogglesHtml = [
-    { id: "affection", label: "Affection", available: trackAffection },
-    { id: "trust", label: "Trust", available: trackTrust },
-    { id: "desire", label: "Desire", available: trackDesire },
-    { id: "connection", label: "Connection", available: trackConnection },
-    { id: "mood", label: "Mood", available: trackMood },
-    { id: "lastThought", label: "Last Thought", available: trackLastThought },
+    { id: "affection", label: builtInLabel("affection"), available: trackAffection },
+    { id: "trust", label: builtInLabel("trust"), available: trackTrust },
+    { id: "desire", label: builtInLabel("desire"), available: trackDesire },
+    { id: "connection", label: builtInLabel("connection"), available: trackConnection },
+    { id: "mood", label: builtInLabel("mood"), available: trackMood },
+    { id: "lastThought", label: builtInLabel("lastThought"), available: trackLastThought },
   ]
     .filter(item => item.available)
     .map(item => {
@@ -743,12 +747,12 @@ function renderPanel(input: InitInput, force = false): void {
       <div class="bst-character-toggle-group">${customStatTogglesHtml || `<div class="bst-character-help">No character-trackable custom stats.</div>`}</div>
     </div>
     <div class="bst-character-grid">
-      <label>Affection Default <input type="number" min="0" max="100" step="1" data-bst-default="affection" value="${defaults.affection ?? ""}" ${(trackAffection && isStatEnabled("affection")) ? "" : "disabled"}></label>
-      <label>Trust Default <input type="number" min="0" max="100" step="1" data-bst-default="trust" value="${defaults.trust ?? ""}" ${(trackTrust && isStatEnabled("trust")) ? "" : "disabled"}></label>
-      <label>Desire Default <input type="number" min="0" max="100" step="1" data-bst-default="desire" value="${defaults.desire ?? ""}" ${(trackDesire && isStatEnabled("desire")) ? "" : "disabled"}></label>
-      <label>Connection Default <input type="number" min="0" max="100" step="1" data-bst-default="connection" value="${defaults.connection ?? ""}" ${(trackConnection && isStatEnabled("connection")) ? "" : "disabled"}></label>
-      <label class="bst-character-wide">Mood Default <input type="text" data-bst-default="mood" value="${defaults.mood ?? ""}" placeholder="Neutral" ${(trackMood && isStatEnabled("mood")) ? "" : "disabled"}></label>
-      <label class="bst-character-wide">Last Thought Default
+      <label>${escapeHtml(builtInLabel("affection"))} Default <input type="number" min="0" max="100" step="1" data-bst-default="affection" value="${defaults.affection ?? ""}" ${(trackAffection && isStatEnabled("affection")) ? "" : "disabled"}></label>
+      <label>${escapeHtml(builtInLabel("trust"))} Default <input type="number" min="0" max="100" step="1" data-bst-default="trust" value="${defaults.trust ?? ""}" ${(trackTrust && isStatEnabled("trust")) ? "" : "disabled"}></label>
+      <label>${escapeHtml(builtInLabel("desire"))} Default <input type="number" min="0" max="100" step="1" data-bst-default="desire" value="${defaults.desire ?? ""}" ${(trackDesire && isStatEnabled("desire")) ? "" : "disabled"}></label>
+      <label>${escapeHtml(builtInLabel("connection"))} Default <input type="number" min="0" max="100" step="1" data-bst-default="connection" value="${defaults.connection ?? ""}" ${(trackConnection && isStatEnabled("connection")) ? "" : "disabled"}></label>
+      <label class="bst-character-wide">${escapeHtml(builtInLabel("mood"))} Default <input type="text" data-bst-default="mood" value="${defaults.mood ?? ""}" placeholder="Neutral" ${(trackMood && isStatEnabled("mood")) ? "" : "disabled"}></label>
+      <label class="bst-character-wide">${escapeHtml(builtInLabel("lastThought"))} Default
         <textarea rows="3" maxlength="${LAST_THOUGHT_DEFAULT_MAX_CHARS}" data-bst-default="lastThought" placeholder="Use stat default" ${(trackLastThought && isStatEnabled("lastThought")) ? "" : "disabled"}>${escapeHtml(String(defaults.lastThought ?? ""))}</textarea>
       </label>
       <label class="bst-character-wide">Card Color (optional)
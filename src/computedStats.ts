@@ -0,0 +1,128 @@
+import { GLOBAL_TRACKER_KEY, USER_TRACKER_KEY } from "./constants";
+import {
+  normalizeComputedStatResult,
+  normalizeCustomTextMaxLength,
+  normalizeNonNumericTextValue,
+  resolveCustomStatValueKind,
+} from "./customStatRuntime";
+import { isStatExpressionTruthy, tryCompileStatExpression, type StatExpressionValue } from "./statExpression";
+import { resolveStatReference } from "./statRegistry";
+import type { BetterSimTrackerSettings, CustomNonNumericValue, CustomStatDefinition, TrackerData } from "./types";
+
+export function getComputedStatDefinitions(settings: BetterSimTrackerSettings): CustomStatDefinition[] {
+  return (settings.customStats ?? []).filter(def => def.kind === "computed" && def.track);
+}
+
+function formulaReferences(def: CustomStatDefinition): string[] {
+  return tryCompileStatExpression(def.formula ?? "")?.identifiers ?? [];
+}
+
+// A global computed stat has no character to read per-character stats for, so such references never resolve.
+export function findPerOwnerFormulaReferences(settings: BetterSimTrackerSettings, def: CustomStatDefinition): string[] {
+  return formulaReferences(def).filter(name => {
+    const resolved = resolveStatReference(settings, name);
+    return Boolean(resolved?.builtIn) || Boolean(resolved?.custom && !resolved.custom.globalScope);
+  });
+}
+
+export function orderComputedStatDefinitions(settings: BetterSimTrackerSettings): {
+  ordered: CustomStatDefinition[];
+  blocked: string[];
+} {
+  const defs = getComputedStatDefinitions(settings);
+  const ids = new Set(defs.map(def => def.id));
+  const dependencies = new Map(defs.map(def => [def.id, new Set(
+    formulaReferences(def)
+      .map(name => resolveStatReference(settings, name)?.custom?.id ?? "")
+      .filter(id => id !== def.id && ids.has(id)),
+  )]));
+  const ordered: CustomStatDefinition[] = [];
+  const done = new Set<string>();
+  let pending = defs;
+  while (pending.length) {
+    const ready = pending.filter(def => [...dependencies.get(def.id) ?? []].every(id => done.has(id)));
+    if (!ready.length) break;
+    for (const def of ready) {
+      ordered.push(def);
+      done.add(def.id);
+    }
+    pending = pending.filter(def => !done.has(def.id));
+  }
+  return { ordered, blocked: pending.map(def => def.id) };
+}
+
+export function computedStatOwners(
+  def: CustomStatDefinition,
+  owners: string[],
+  isOwnerStatEnabled?: (owner: string, statId: string) => boolean,
+): string[] {
+  if (def.globalScope) return [GLOBAL_TRACKER_KEY];
+  return owners.filter(owner => {
+    const scoped = owner === USER_TRACKER_KEY ? def.trackUser ?? def.track : def.trackCharacters ?? def.track;
+    return Boolean(scoped) && isOwnerStatEnabled?.(owner, def.id) !== false;
+  });
+}
+
+export function toComputedStatValue(def: CustomStatDefinition, value: StatExpressionValue | null): number | CustomNonNumericValue | undefined {
+  if (value === null) return undefined;
+  const result = normalizeComputedStatResult(def.computedResult);
+  if (result === "boolean") return isStatExpressionTruthy(value);
+  if (result === "text") {
+    const text = normalizeNonNumericTextValue(Array.isArray(value) ? value.join(", ") : String(value), normalizeCustomTextMaxLength(def.textMaxLength));
+    return text || undefined;
+  }
+  const number = typeof value === "boolean" ? Number(value) : typeof value === "number" ? value : Number.NaN;
+  return Number.isFinite(number) ? Math.max(0, Math.min(100, Math.round(number))) : undefined;
+}
+
+export function evaluateComputedStats(input: {
+  settings: BetterSimTrackerSettings;
+  owners: string[];
+  isOwnerStatEnabled?: (owner: string, statId: string) => boolean;
+  resolveValue: (owner: string, name: string) => StatExpressionValue | undefined;
+  writeValue: (owner: string, def: CustomStatDefinition, value: number | CustomNonNumericValue) => void;
+}): void {
+  for (const def of orderComputedStatDefinitions(input.settings).ordered) {
+    const expression = tryCompileStatExpression(def.formula ?? "");
+    if (!expression) continue;
+    const unreadable = new Set(def.globalScope ? findPerOwnerFormulaReferences(input.settings, def) : []);
+    unreadable.add(def.id);
+    for (const owner of computedStatOwners(def, input.owners, input.isOwnerStatEnabled)) {
+      const value = toComputedStatValue(def, expression.evaluate(name => unreadable.has(name) ? undefined : input.resolveValue(owner, name)));
+      if (value !== undefined) input.writeValue(owner, def, value);
+    }
+  }
+}
+
+export function applyComputedStatsToTrackerData(settings: BetterSimTrackerSettings, data: TrackerData, owners: string[]): void {
+  const readOwned = (bucket: Record<string, unknown> | undefined, owner: string, globalScope: boolean): unknown =>
+    bucket?.[globalScope ? GLOBAL_TRACKER_KEY : owner] ?? (globalScope ? undefined : bucket?.[GLOBAL_TRACKER_KEY]);
+  evaluateComputedStats({
+    settings,
+    owners,
+    resolveValue: (owner, name) => {
+      const resolved = resolveStatReference(settings, name);
+      if (resolved?.builtIn) {
+        const raw = data.statistics[resolved.builtIn]?.[owner];
+        return raw === undefined ? undefined : raw as StatExpressionValue;
+      }
+      if (!resolved?.custom) return undefined;
+      const def = resolved.custom;
+      const bucket = resolveCustomStatValueKind(def) === "numeric"
+        ? data.customStatistics?.[def.id]
+        : data.customNonNumericStatistics?.[def.id];
+      return (readOwned(bucket, owner, Boolean(def.globalScope)) ?? def.defaultValue) as StatExpressionValue;
+    },
+    writeValue: (owner, def, value) => {
+      const key = def.globalScope ? GLOBAL_TRACKER_KEY : owner;
+      if (typeof value === "number") {
+        data.customStatistics = { ...data.customStatistics, [def.id]: { ...data.customStatistics?.[def.id], [key]: value } };
+      } else {
+        data.customNonNumericStatistics = {
+          ...data.customNonNumericStatistics,
+          [def.id]: { ...data.customNonNumericStatistics?.[def.id], [key]: value },
+        };
+      }
+    },
+  });
+}
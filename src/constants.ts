@@ -17,7 +17,18 @@ export const NUMERIC_STATS = ["affection", "trust", "desire", "connection"] as c
 
 export const TEXT_STATS = ["mood", "lastThought"] as const;
 
-export const MAX_CUSTOM_STATS = 8;
+export const MAX_CUSTOM_STATS = 32;
+export const MAX_TRIGGER_RULES = 50;
+export const MAX_TRIGGER_ACTIONS = 8;
+export const MAX_STAT_RULES = 50;
+export const STAT_DECAY_RULE_ID = "__decay__";
+export const STAT_CONSTRAINT_RULE_ID = "__constraint__";
+export const MAX_STAT_CONSTRAINTS = 12;
+export const MAX_CONNECTION_PROFILE_ROUTES = 32;
+export const MAX_PAIRWISE_STATS = 4;
+export const MAX_ACTIVITY_CUES_PER_LIST = 100;
+export const MAX_PAIRWISE_PAIRS = 30;
+export const PAIR_KEY_SEPARATOR = "\u2192";
 export const CUSTOM_STAT_ID_REGEX = /^[a-z][a-z0-9_]{1,31}$/;
 export const RESERVED_CUSTOM_STAT_IDS = new Set<string>([
   ...STAT_KEYS,
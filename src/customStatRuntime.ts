@@ -1,5 +1,5 @@
 import { normalizeDateTimeValue } from "./dateTime";
-import type { CustomNonNumericValue, CustomStatKind, DateTimeMode } from "./types";
+import type { ComputedStatResult, CustomNonNumericValue, CustomStatKind, DateTimeMode } from "./types";
 
 export const DEFAULT_CUSTOM_TEXT_MAX_LENGTH = 120;
 export const MIN_CUSTOM_TEXT_MAX_LENGTH = 20;
@@ -7,13 +7,33 @@ export const MAX_CUSTOM_TEXT_MAX_LENGTH = 200;
 export const MAX_CUSTOM_ENUM_OPTIONS = 30;
 export const MAX_CUSTOM_ARRAY_ITEMS = 30;
 
+export type CustomStatValueKind = Exclude<CustomStatKind, "computed">;
+
 export function normalizeCustomStatKind(value: unknown): CustomStatKind {
-  if (value === "enum_single" || value === "boolean" || value === "text_short" || value === "array" || value === "date_time") {
+  if (
+    value === "enum_single" ||
+    value === "boolean" ||
+    value === "text_short" ||
+    value === "array" ||
+    value === "date_time" ||
+    value === "computed"
+  ) {
     return value;
   }
   return "numeric";
 }
 
+export function normalizeComputedStatResult(value: unknown): ComputedStatResult {
+  return value === "boolean" || value === "text" ? value : "number";
+}
+
+export function resolveCustomStatValueKind(stat: { kind?: unknown; computedResult?: unknown }): CustomStatValueKind {
+  const kind = normalizeCustomStatKind(stat.kind);
+  if (kind !== "computed") return kind;
+  const result = normalizeComputedStatResult(stat.computedResult);
+  return result === "boolean" ? "boolean" : result === "text" ? "text_short" : "numeric";
+}
+
 export function normalizeDateTimeMode(value: unknown): DateTimeMode {
   return value === "structured" ? "structured" : "timestamp";
 }
@@ -127,9 +147,10 @@ export function normalizeCustomStatDefaultValue(
     enumOptions?: unknown;
     textMaxLength?: unknown;
     dateTimeMode?: unknown;
+    computedResult?: unknown;
   },
 ): number | string | boolean | string[] {
-  const kind = normalizeCustomStatKind(stat.kind);
+  const kind = resolveCustomStatValueKind(stat);
   const textMaxLength = normalizeCustomTextMaxLength(stat.textMaxLength);
   if (kind === "numeric") {
     const parsed = Math.round(Number(stat.defaultValue) || 50);
@@ -167,7 +188,7 @@ export function normalizeCustomNonNumericValue(
     preserveExplicitEmptyArray?: boolean;
   },
 ): CustomNonNumericValue | undefined {
-  const kind = normalizeCustomStatKind(kindInput);
+  const kind = resolveCustomStatValueKind({ kind: kindInput });
   const textMaxLength = normalizeCustomTextMaxLength(options?.textMaxLength);
   if (kind === "numeric") return undefined;
   if (kind === "boolean") {
@@ -255,3 +255,12 @@ export function toDateTimeInputValue(raw: unknown): string {
   const normalized = normalizeDateTimeValue(raw);
   return normalized ? normalized.replace(" ", "T") : "";
 }
+
+export function minutesBetweenDateTimes(from: unknown, to: unknown): number | null {
+  const start = normalizeDateTimeValue(from);
+  const end = normalizeDateTimeValue(to);
+  const startDate = start ? parseNormalizedToDate(start) : null;
+  const endDate = end ? parseNormalizedToDate(end) : null;
+  if (!startDate || !endDate) return null;
+  return Math.round((endDate.getTime() - startDate.getTime()) / 60_000);
+}
@@ -129,7 +129,7 @@ export function openEditStatsModal(input: {
   const numericDefs = isGlobalCharacter
     ? []
     : getAllNumericStatDefinitions(input.settings).filter(def => {
-      if (!def.track) return false;
+      if (!def.track || def.computed) return false;
       if (def.builtIn) return !isUserCharacter;
       const scope = customScopeById.get(String(def.id ?? "").trim().toLowerCase());
       if (!scope) return !isUserCharacter;
@@ -138,6 +138,7 @@ export function openEditStatsModal(input: {
   const builtInDefs = numericDefs.filter(def => def.builtIn);
   const customDefs = numericDefs.filter(def => !def.builtIn);
   const nonNumericDefs = getNonNumericStatDefinitions(input.settings).filter(def => {
+    if (def.computed) return false;
     if (isGlobalCharacter) {
       if (!def.globalScope) return false;
       const visibility = input.settings.sceneCardStatDisplay?.[def.id]?.visible;
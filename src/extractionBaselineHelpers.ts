@@ -1,4 +1,5 @@
 import { GLOBAL_TRACKER_KEY } from "./constants";
+import { resolveCustomStatValueKind } from "./customStatRuntime";
 import type { BetterSimTrackerSettings, TrackerData } from "./types";
 
 export type TrackerHistoryEntry = {
@@ -25,7 +26,7 @@ export function hasCharacterOwnedTrackedValueForCharacter(
     if (def.globalScope) continue;
     const statId = String(def.id ?? "").trim().toLowerCase();
     if (!statId) continue;
-    const kind = def.kind ?? "numeric";
+    const kind = resolveCustomStatValueKind(def);
     if (kind === "numeric") {
       if (data.customStatistics?.[statId]?.[characterName] !== undefined) return true;
       continue;
@@ -78,7 +79,7 @@ export function overlayLatestGlobalCustomStats(
   for (const def of globalDefs) {
     const statId = String(def.id ?? "").trim().toLowerCase();
     if (!statId) continue;
-    const kind = def.kind ?? "numeric";
+    const kind = resolveCustomStatValueKind(def);
     if (kind === "numeric") {
       const raw = latest.customStatistics?.[statId]?.[GLOBAL_TRACKER_KEY];
       if (typeof raw === "number" && Number.isFinite(raw)) {
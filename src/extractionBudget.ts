@@ -0,0 +1,183 @@
+import { MAX_PAIRWISE_PAIRS } from "./constants";
+import {
+  countExtractionRequests,
+  enabledBuiltInAndTextStats,
+  enabledCustomStats,
+  groupCustomStatsForSequential,
+} from "./extractorHelpers";
+import { getPairwiseStatDefinitions } from "./pairwise";
+import { DEFAULT_PAIRWISE_PROMPT_INSTRUCTION, MAIN_PROMPT } from "./prompts";
+import type { BetterSimTrackerSettings, CustomStatDefinition, StatKey } from "./types";
+
+export const ESTIMATED_CHARS_PER_CONTEXT_MESSAGE = 500;
+const ESTIMATED_PROTOCOL_CHARS = 900;
+const ESTIMATED_CHARACTER_CARD_CHARS = 1500;
+const ESTIMATED_STATE_CHARS_PER_OWNER_STAT = 60;
+const ESTIMATED_CUSTOM_STAT_OVERHEAD_CHARS = 80;
+
+export interface ExtractionBudgetEstimate {
+  characterCount: number;
+  requests: number;
+  maxRequestsWithRetries: number;
+  promptChars: number;
+  largestRequestChars: number;
+}
+
+type EstimatedRequest = {
+  statCount: number;
+  ownerCount: number;
+  instructionChars: number;
+};
+
+function builtInSequentialTemplate(settings: BetterSimTrackerSettings, key: StatKey): string {
+  switch (key) {
+    case "affection": return settings.promptTemplateSequentialAffection;
+    case "trust": return settings.promptTemplateSequentialTrust;
+    case "desire": return settings.promptTemplateSequentialDesire;
+    case "connection": return settings.promptTemplateSequentialConnection;
+    case "mood": return settings.promptTemplateSequentialMood;
+    default: return settings.promptTemplateSequentialLastThought;
+  }
+}
+
+function customStatPromptChars(stat: CustomStatDefinition): number {
+  return ESTIMATED_CUSTOM_STAT_OVERHEAD_CHARS
+    + String(stat.label ?? "").length
+    + String(stat.description ?? "").length
+    + String(stat.behaviorGuidance ?? "").length
+    + (stat.enumOptions ?? []).join(", ").length;
+}
+
+function customGroupTemplate(settings: BetterSimTrackerSettings, group: CustomStatDefinition[]): string {
+  const first = group[0];
+  const override = String(first?.promptOverride ?? first?.sequentialPromptTemplate ?? "");
+  if (override.trim()) return override;
+  return (first?.kind ?? "numeric") === "numeric"
+    ? settings.promptTemplateSequentialCustomNumeric
+    : settings.promptTemplateSequentialCustomNonNumeric;
+}
+
+function sumCustomStatChars(stats: CustomStatDefinition[]): number {
+  return stats.reduce((total, stat) => total + customStatPromptChars(stat), 0);
+}
+
+export function estimateExtractionBudget(
+  settings: BetterSimTrackerSettings,
+  characterCount: number,
+): ExtractionBudgetEstimate {
+  const characters = Math.max(1, Math.round(Number(characterCount) || 1));
+  const builtIns = enabledBuiltInAndTextStats(settings);
+  const customStats = enabledCustomStats(settings);
+  const builtInPrivate = builtIns.filter(stat => stat === "lastThought" && settings.lastThoughtPrivate);
+  const builtInPublic = builtIns.filter(stat => !builtInPrivate.includes(stat));
+  const customPrivate = customStats.filter(stat => Boolean(stat.privateToOwner));
+  const customPublic = customStats.filter(stat => !stat.privateToOwner);
+  const customPublicGroups = groupCustomStatsForSequential(customPublic, settings.enableSequentialStatGroups);
+  const customPrivateGroups = groupCustomStatsForSequential(customPrivate, settings.enableSequentialStatGroups);
+
+  const requests: EstimatedRequest[] = [];
+  const repeatPerCharacter = (request: EstimatedRequest): void => {
+    for (let i = 0; i < characters; i += 1) requests.push(request);
+  };
+  if (settings.sequentialExtraction) {
+    for (const key of builtInPublic) {
+      requests.push({ statCount: 1, ownerCount: characters, instructionChars: builtInSequentialTemplate(settings, key).length });
+    }
+    for (const group of customPublicGroups) {
+      requests.push({
+        statCount: group.length,
+        ownerCount: characters,
+        instructionChars: customGroupTemplate(settings, group).length + sumCustomStatChars(group),
+      });
+    }
+    for (const key of builtInPrivate) {
+      repeatPerCharacter({ statCount: 1, ownerCount: 1, instructionChars: builtInSequentialTemplate(settings, key).length });
+    }
+    for (const group of customPrivateGroups) {
+      repeatPerCharacter({
+        statCount: group.length,
+        ownerCount: 1,
+        instructionChars: customGroupTemplate(settings, group).length + sumCustomStatChars(group),
+      });
+    }
+  } else {
+    const publicCount = builtInPublic.length + customPublic.length;
+    const privateCount = builtInPrivate.length + customPrivate.length;
+    if (publicCount > 0) {
+      requests.push({
+        statCount: publicCount,
+        ownerCount: characters,
+        instructionChars: settings.promptTemplateUnified.length + sumCustomStatChars(customPublic),
+      });
+    }
+    if (privateCount > 0) {
+      repeatPerCharacter({
+        statCount: privateCount,
+        ownerCount: 1,
+        instructionChars: settings.promptTemplateUnified.length + sumCustomStatChars(customPrivate),
+      });
+    }
+  }
+
+  const pairStats = characters >= 2 ? getPairwiseStatDefinitions(settings) : [];
+  if (pairStats.length) {
+    requests.push({
+      statCount: pairStats.length,
+      ownerCount: Math.min(MAX_PAIRWISE_PAIRS, characters * (characters - 1)),
+      instructionChars: DEFAULT_PAIRWISE_PROMPT_INSTRUCTION.length,
+    });
+  }
+
+  const sharedChars = MAIN_PROMPT.length
+    + ESTIMATED_PROTOCOL_CHARS
+    + settings.contextMessages * ESTIMATED_CHARS_PER_CONTEXT_MESSAGE
+    + (settings.includeCharacterCardsInPrompt ? characters * ESTIMATED_CHARACTER_CARD_CHARS : 0)
+    + (settings.includeLorebookInExtraction ? settings.lorebookExtractionMaxChars : 0);
+  const requestChars = requests.map(request =>
+    sharedChars
+    + request.instructionChars
+    + request.ownerCount * request.statCount * ESTIMATED_STATE_CHARS_PER_OWNER_STAT,
+  );
+  const requestCount = countExtractionRequests({
+    sequential: settings.sequentialExtraction,
+    characterCount: characters,
+    builtInPublicStats: builtInPublic.length,
+    builtInPrivateStats: builtInPrivate.length,
+    customPublicStats: customPublic.length,
+    customPrivateStats: customPrivate.length,
+    customPublicGroups: customPublicGroups.length,
+    customPrivateGroups: customPrivateGroups.length,
+  }) + (pairStats.length ? 1 : 0);
+  return {
+    characterCount: characters,
+    requests: requestCount,
+    maxRequestsWithRetries: requestCount * (1 + Math.max(0, settings.maxRetriesPerStat)),
+    promptChars: requestChars.reduce((total, chars) => total + chars, 0),
+    largestRequestChars: requestChars.reduce((max, chars) => Math.max(max, chars), 0),
+  };
+}
+
+export function getExtractionBudgetWarnings(
+  settings: BetterSimTrackerSettings,
+  estimate: ExtractionBudgetEstimate,
+): string[] {
+  const warnings: string[] = [];
+  const maxRequests = settings.extractionBudgetMaxRequests;
+  const maxChars = settings.extractionBudgetMaxPromptChars;
+  if (maxRequests > 0 && estimate.requests > maxRequests) {
+    warnings.push(`Estimated ${estimate.requests} requests per extraction exceeds the budget of ${maxRequests}.`);
+  }
+  if (maxChars > 0 && estimate.promptChars > maxChars) {
+    warnings.push(`Estimated ${estimate.promptChars.toLocaleString("en-US")} prompt characters per extraction exceeds the budget of ${maxChars.toLocaleString("en-US")}.`);
+  }
+  if (warnings.length && settings.sequentialExtraction && !settings.enableSequentialStatGroups) {
+    warnings.push("Enable sequential stat groups and assign custom stats to groups to share requests.");
+  }
+  return warnings;
+}
+
+export function formatExtractionBudgetSummary(estimate: ExtractionBudgetEstimate): string {
+  const characters = `${estimate.characterCount} character${estimate.characterCount === 1 ? "" : "s"}`;
+  const requests = `${estimate.requests} request${estimate.requests === 1 ? "" : "s"}`;
+  return `Estimated per extraction (${characters}): ~${requests} (up to ${estimate.maxRequestsWithRetries} with retries), ~${estimate.promptChars.toLocaleString("en-US")} prompt chars.`;
+}
@@ -0,0 +1,149 @@
+const DB_NAME = "bst-extraction-cache";
+const STORE_NAME = "responses";
+const DB_VERSION = 1;
+
+export type ExtractionCacheKeyInput = {
+  prompt: string;
+  profileId: string;
+  maxTokens: number;
+  truncationLength?: number;
+  jsonSchema?: unknown;
+};
+
+export type ExtractionCacheEntry = {
+  key: string;
+  text: string;
+  createdAt: number;
+  lastUsedAt: number;
+};
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function fnv1a(input: string, seed: number): number {
+  let hash = seed >>> 0;
+  for (let i = 0; i < input.length; i += 1) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+export function hashExtractionPrompt(text: string): string {
+  const high = fnv1a(text, 2166136261).toString(36).padStart(7, "0");
+  const low = fnv1a(text, 0x811c9dc5 ^ 0x5bd1e995).toString(36).padStart(7, "0");
+  return `${high}${low}:${text.length.toString(36)}`;
+}
+
+export function buildExtractionCacheKey(input: ExtractionCacheKeyInput): string {
+  return hashExtractionPrompt(JSON.stringify([
+    input.profileId,
+    Math.max(0, Math.round(Number(input.maxTokens) || 0)),
+    Math.max(0, Math.round(Number(input.truncationLength) || 0)),
+    input.jsonSchema ? JSON.stringify(input.jsonSchema) : "",
+    input.prompt,
+  ]));
+}
+
+export function isExtractionCacheEntryFresh(entry: Pick<ExtractionCacheEntry, "createdAt">, now: number, ttlMs: number): boolean {
+  return ttlMs > 0 && now - entry.createdAt < ttlMs;
+}
+
+export function selectExtractionCacheEvictions(
+  entries: Array<Pick<ExtractionCacheEntry, "key" | "createdAt" | "lastUsedAt">>,
+  now: number,
+  ttlMs: number,
+  maxEntries: number,
+): string[] {
+  const evicted: string[] = [];
+  const kept: Array<Pick<ExtractionCacheEntry, "key" | "lastUsedAt">> = [];
+  for (const entry of entries) {
+    if (isExtractionCacheEntryFresh(entry, now, ttlMs)) kept.push(entry);
+    else evicted.push(entry.key);
+  }
+  const limit = Math.max(0, Math.floor(maxEntries));
+  if (kept.length > limit) {
+    kept.sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+    evicted.push(...kept.slice(0, kept.length - limit).map(entry => entry.key));
+  }
+  return evicted;
+}
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise(resolve => {
+    if (typeof indexedDB === "undefined") {
+      resolve(null);
+      return;
+    }
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: "key" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => resolve(null);
+      request.onblocked = () => resolve(null);
+    } catch {
+      resolve(null);
+    }
+  });
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function readExtractionCache(key: string, ttlMs: number): Promise<string | null> {
+  try {
+    const db = await openDb();
+    if (!db) return null;
+    const store = db.transaction(STORE_NAME, "readwrite").objectStore(STORE_NAME);
+    const entry = await requestToPromise(store.get(key)) as ExtractionCacheEntry | undefined;
+    if (!entry) return null;
+    const now = Date.now();
+    if (!isExtractionCacheEntryFresh(entry, now, ttlMs)) {
+      store.delete(key);
+      return null;
+    }
+    store.put({ ...entry, lastUsedAt: now });
+    return entry.text;
+  } catch {
+    return null;
+  }
+}
+
+export async function writeExtractionCache(key: string, text: string, ttlMs: number, maxEntries: number): Promise<void> {
+  try {
+    const db = await openDb();
+    if (!db) return;
+    const store = db.transaction(STORE_NAME, "readwrite").objectStore(STORE_NAME);
+    const now = Date.now();
+    await requestToPromise(store.put({ key, text, createdAt: now, lastUsedAt: now } satisfies ExtractionCacheEntry));
+    const entries = await requestToPromise(store.getAll()) as ExtractionCacheEntry[];
+    for (const evictedKey of selectExtractionCacheEvictions(entries, now, ttlMs, maxEntries)) {
+      store.delete(evictedKey);
+    }
+  } catch {
+    // Cache writes are best-effort; a failed write only costs a future cache miss.
+  }
+}
+
+export async function clearExtractionCache(): Promise<number> {
+  try {
+    const db = await openDb();
+    if (!db) return 0;
+    const store = db.transaction(STORE_NAME, "readwrite").objectStore(STORE_NAME);
+    const count = await requestToPromise(store.count());
+    await requestToPromise(store.clear());
+    return count;
+  } catch {
+    return 0;
+  }
+}
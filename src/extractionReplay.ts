@@ -0,0 +1,84 @@
+import { hashExtractionPrompt } from "./extractionCache";
+import { extractStatisticsParallel } from "./extractor";
+import { sanitizeSettings } from "./settings";
+import type { GenerateJson } from "./generator";
+import type {
+  BetterSimTrackerSettings,
+  CustomNonNumericStatistics,
+  CustomStatistics,
+  ExtractionReplayCapture,
+  Statistics,
+} from "./types";
+
+export type ExtractionReplayFixture = Omit<ExtractionReplayCapture, "settings"> & {
+  settings: Partial<BetterSimTrackerSettings>;
+};
+
+export type ExtractionReplayResult = Awaited<ReturnType<typeof extractStatisticsParallel>> & {
+  misses: string[];
+};
+
+export type ExtractionReplayExpectation = {
+  statistics?: Partial<Statistics>;
+  customStatistics?: CustomStatistics;
+  customNonNumericStatistics?: CustomNonNumericStatistics;
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+export function createReplayGenerate(responses: Record<string, string>, misses: string[] = []): GenerateJson {
+  return async (prompt, settings) => {
+    const hash = hashExtractionPrompt(prompt);
+    const meta = {
+      profileId: "__replay__",
+      promptChars: prompt.length,
+      maxTokens: settings.maxTokensOverride,
+      durationMs: 0,
+      timestamp: 0,
+    };
+    const text = responses[hash];
+    if (typeof text !== "string") {
+      misses.push(hash);
+      const error = `Replay fixture has no recorded output for prompt ${hash}`;
+      throw Object.assign(new Error(error), { meta: { ...meta, outputChars: 0, error } });
+    }
+    return { text, meta: { ...meta, outputChars: text.length } };
+  };
+}
+
+export function readReplayCaptureFromDiagnostics(report: unknown): ExtractionReplayCapture | null {
+  if (!isRecord(report)) return null;
+  const record = isRecord(report.lastDebugRecord) ? report.lastDebugRecord : report;
+  const replay = record.replay;
+  if (!isRecord(replay) || !isRecord(replay.responses) || !isRecord(replay.settings)) return null;
+  if (!Array.isArray(replay.activeCharacters) || typeof replay.contextText !== "string") return null;
+  return replay as unknown as ExtractionReplayCapture;
+}
+
+export async function replayExtraction(fixture: ExtractionReplayFixture): Promise<ExtractionReplayResult> {
+  const misses: string[] = [];
+  const disabled = fixture.ownerStatDisabled ?? {};
+  const result = await extractStatisticsParallel({
+    generate: createReplayGenerate(fixture.responses, misses),
+    settings: { ...sanitizeSettings(fixture.settings), extractionCacheEnabled: false },
+    userName: fixture.userName,
+    activeCharacters: fixture.activeCharacters,
+    preferredCharacterName: fixture.preferredCharacterName,
+    contextText: fixture.contextText,
+    latestMessageText: fixture.latestMessageText,
+    latestUserMessageText: fixture.latestUserMessageText,
+    previousStatistics: fixture.previousStatistics,
+    previousCustomStatistics: fixture.previousCustomStatistics,
+    previousCustomStatisticsRaw: fixture.previousCustomStatisticsRaw,
+    previousCustomNonNumericStatistics: fixture.previousCustomNonNumericStatistics,
+    previousPairStatistics: fixture.previousPairStatistics,
+    presenceCandidates: fixture.presenceCandidates,
+    hasPriorTrackerData: fixture.hasPriorTrackerData,
+    history: fixture.history ?? [],
+    bypassConfidenceControls: fixture.bypassConfidenceControls,
+    isOwnerStatEnabled: (ownerName, statId) => !(disabled[ownerName] ?? []).includes(statId),
+  });
+  return { ...result, misses };
+}
@@ -1,6 +1,15 @@
-import { GLOBAL_TRACKER_KEY, STAT_KEYS, USER_TRACKER_KEY } from "./constants";
-import { generateJson } from "./generator";
-import { parseCustomDeltaResponse, parseCustomValueResponse, parseUnifiedDeltaResponse } from "./parse";
+import { GLOBAL_TRACKER_KEY, NUMERIC_STATS, STAT_KEYS, USER_TRACKER_KEY } from "./constants";
+import { buildStatChangeLogEntry } from "./changeLog";
+import { hashExtractionPrompt } from "./extractionCache";
+import type { CacheExtractionResponse, GenerateJson } from "./generator";
+import { buildExtractionJsonSchema, buildPairwiseJsonSchema, type JsonSchema } from "./structuredOutput";
+import {
+  parseCustomDeltaResponse,
+  parseCustomValueResponse,
+  parsePairwiseDeltaResponse,
+  parsePresenceResponse,
+  parseUnifiedDeltaResponse,
+} from "./parse";
 import {
   DEFAULT_REPAIR_LAST_THOUGHT_TEMPLATE,
   DEFAULT_REPAIR_MOOD_TEMPLATE,
@@ -8,6 +17,10 @@ import {
   DEFAULT_SEQUENTIAL_CUSTOM_NUMERIC_PROMPT_INSTRUCTION,
   DEFAULT_SEQUENTIAL_PROMPT_INSTRUCTIONS,
   DEFAULT_STRICT_RETRY_TEMPLATE,
+  applyBuiltInStatMeanings,
+  applyChangeReasonRequest,
+  applyPresenceRequest,
+  buildPairwisePrompt,
   buildSequentialCustomNonNumericPrompt,
   buildSequentialCustomNumericPrompt,
   buildSequentialPrompt,
@@ -15,14 +28,27 @@ import {
   buildUnifiedPrompt,
   moodOptions
 } from "./prompts";
-import { normalizeDateTimeWithMode } from "./dateTime";
+import { minutesBetweenDateTimes, normalizeDateTimeWithMode } from "./dateTime";
+import { getAllNumericStatDefinitions, getBuiltInStatPromptMeanings, resolveStatReference } from "./statRegistry";
+import { evaluateComputedStats } from "./computedStats";
+import { getPairwiseStatDefinitions, listCharacterPairs, readPairValue, toPairKey } from "./pairwise";
+import { resolveCustomStatValueKind } from "./customStatRuntime";
+import { evaluateStatConstraints } from "./statConstraints";
+import type { StatExpressionValue } from "./statExpression";
+import { evaluateStatDecay, resolveDecayClockStat } from "./statDecay";
+import { evaluateStatRules } from "./statRules";
 import {
-  applyConfidenceScaledDelta,
+  countExtractionRequests,
   enabledBuiltInAndTextStats,
   enabledCustomStats,
+  explainConfidenceScaledDelta,
+  fillMissingEntries,
+  findMissingStatOwners,
   groupCustomStatsForSequential,
+  resolveConnectionProfileRoute,
   resolveMoodWithConfidence,
   shouldBypassConfidenceControls,
+  type MissingStatOwners,
 } from "./extractorHelpers";
 import {
   buildProgressApply,
@@ -43,8 +69,13 @@ import type {
   CustomStatDefinition,
   CustomStatistics,
   DeltaDebugRecord,
+  ExtractionReplayCapture,
   GenerateRequestMeta,
+  PairStatistics,
+  PresenceVerdict,
+  StatChangeLogEntry,
   StatKey,
+  StatRuleApplication,
   Statistics,
   TrackerData
 } from "./types";
@@ -60,6 +91,10 @@ function emptyStatistics(): Statistics {
   };
 }
 
+function isNumericBuiltInStat(stat: StatKey): boolean {
+  return (NUMERIC_STATS as readonly StatKey[]).includes(stat);
+}
+
 function hasAnyValues(values: Record<string, unknown>): boolean {
   return Object.keys(values).length > 0;
 }
@@ -80,6 +115,29 @@ function hasParsedValues(parsed: ReturnType<typeof parseUnifiedDeltaResponse>):
   );
 }
 
+function builtInParsedValues(
+  parsed: ReturnType<typeof parseUnifiedDeltaResponse>,
+  stat: StatKey,
+): Record<string, unknown> {
+  if (stat === "mood") return parsed.mood;
+  if (stat === "lastThought") return parsed.lastThought;
+  return parsed.deltas[stat];
+}
+
+function mergeParsedBuiltIn(
+  target: ReturnType<typeof parseUnifiedDeltaResponse>,
+  source: ReturnType<typeof parseUnifiedDeltaResponse>,
+): void {
+  fillMissingEntries(target.confidence, source.confidence);
+  fillMissingEntries(target.reasons, source.reasons);
+  fillMissingEntries(target.mood, source.mood);
+  fillMissingEntries(target.lastThought, source.lastThought);
+  for (const key of ["affection", "trust", "desire", "connection"] as const) {
+    fillMissingEntries(target.deltas[key], source.deltas[key]);
+    fillMissingEntries(target.rawDeltas[key], source.rawDeltas[key]);
+  }
+}
+
 function hasValuesForRequestedBuiltInAndTextStats(
   parsed: ReturnType<typeof parseUnifiedDeltaResponse>,
   stats: StatKey[],
@@ -195,7 +253,7 @@ function countMapValuesByStat(values: Record<string, Record<string, unknown>>):
 
 function wait(ms: number): Promise<void> {
   return new Promise(resolve => {
-    window.setTimeout(resolve, ms);
+    setTimeout(resolve, ms);
   });
 }
 
@@ -258,25 +316,35 @@ function resolveLegacyNonNumericFallback(
 }
 
 export async function extractStatisticsParallel(input: {
+  generate: GenerateJson;
+  cacheResponse?: CacheExtractionResponse;
   settings: BetterSimTrackerSettings;
   userName: string;
   activeCharacters: string[];
   preferredCharacterName?: string;
   contextText: string;
+  latestMessageText?: string;
+  latestUserMessageText?: string;
   previousStatistics: Statistics | null;
   previousCustomStatistics?: CustomStatistics | null;
   previousCustomStatisticsRaw?: CustomStatistics | null;
   previousCustomNonNumericStatistics?: CustomNonNumericStatistics | null;
+  previousPairStatistics?: PairStatistics | null;
+  presenceCandidates?: string[];
   hasPriorTrackerData?: boolean;
   history: TrackerData[];
   isCancelled?: () => boolean;
   onProgress?: (done: number, total: number, label?: string) => void;
   isOwnerStatEnabled?: (ownerName: string, statId: string) => boolean;
   bypassConfidenceControls?: boolean;
+  forceFresh?: boolean;
 }): Promise<{
   statistics: Statistics;
   customStatistics: CustomStatistics;
   customNonNumericStatistics: CustomNonNumericStatistics;
+  pairStatistics: PairStatistics;
+  presence: Record<string, PresenceVerdict>;
+  changeLog: StatChangeLogEntry[];
   debug: DeltaDebugRecord | null;
 }> {
   const {
@@ -285,15 +353,22 @@ export async function extractStatisticsParallel(input: {
     activeCharacters,
     preferredCharacterName,
     contextText,
-    previousStatistics,
-    previousCustomStatistics,
+    latestMessageText = "",
+    latestUserMessageText = "",
+    previousStatistics: capturedPreviousStatistics,
+    previousCustomStatistics: capturedPreviousCustomStatistics,
     previousCustomStatisticsRaw,
     previousCustomNonNumericStatistics,
+    previousPairStatistics,
+    presenceCandidates = [],
     hasPriorTrackerData,
     history,
     onProgress,
     isOwnerStatEnabled,
     bypassConfidenceControls = false,
+    forceFresh = false,
+    generate,
+    cacheResponse,
   } = input;
   const builtInAndTextStats = enabledBuiltInAndTextStats(settings).filter(stat =>
     activeCharacters.some(name => isOwnerStatEnabled?.(name, stat) !== false),
@@ -301,6 +376,56 @@ export async function extractStatisticsParallel(input: {
   const customStats = enabledCustomStats(settings).filter(stat =>
     activeCharacters.some(name => isOwnerStatEnabled?.(name, stat.id) !== false),
   );
+  const ruleNumericStats = new Set<string>([
+    ...builtInAndTextStats.filter(stat => (NUMERIC_STATS as readonly string[]).includes(stat)),
+    ...customStats.filter(stat => (stat.kind ?? "numeric") === "numeric").map(stat => stat.id),
+  ]);
+  const ruleGlobalStats = new Set((settings.customStats ?? []).filter(stat => stat.globalScope).map(stat => stat.id));
+  const ruleDefaults = new Map(getAllNumericStatDefinitions(settings).map(def => [def.id, def.defaultValue]));
+  const ruleOwnersForStat = (statId: string): string[] => {
+    if (!ruleNumericStats.has(statId)) return [];
+    if (ruleGlobalStats.has(statId)) return [GLOBAL_TRACKER_KEY];
+    return activeCharacters.filter(name => isOwnerStatEnabled?.(name, statId) !== false);
+  };
+  const readRuleValue = (
+    statistics: Statistics | null | undefined,
+    custom: CustomStatistics | null | undefined,
+    owner: string,
+    statId: string,
+  ): number | undefined => {
+    const isBuiltIn = (NUMERIC_STATS as readonly string[]).includes(statId);
+    const byOwner = isBuiltIn
+      ? statistics?.[statId as StatKey] as Record<string, unknown> | undefined
+      : custom?.[statId];
+    const raw = ruleGlobalStats.has(statId)
+      ? byOwner?.[GLOBAL_TRACKER_KEY] ?? resolveLegacyNumericFallback(byOwner as Record<string, number> | undefined)
+      : byOwner?.[owner];
+    const value = Number(raw);
+    return raw === undefined || raw === null || !Number.isFinite(value) ? undefined : value;
+  };
+  const writeRuleValue = (statistics: Statistics, custom: CustomStatistics, owner: string, statId: string, value: number): void => {
+    const key = ruleGlobalStats.has(statId) ? GLOBAL_TRACKER_KEY : owner;
+    if ((NUMERIC_STATS as readonly string[]).includes(statId)) {
+      statistics[statId as StatKey] = { ...statistics[statId as StatKey], [key]: value };
+    } else {
+      custom[statId] = { ...custom[statId], [key]: value };
+    }
+  };
+  const ruleTexts = { latest: latestMessageText, user: latestUserMessageText };
+  const rulePreviousStatistics: Statistics = { ...emptyStatistics(), ...(capturedPreviousStatistics ?? {}) };
+  const rulePreviousCustomStatistics: CustomStatistics = { ...(capturedPreviousCustomStatistics ?? {}) };
+  const readRulePreviousValue = (owner: string, statId: string): number =>
+    readRuleValue(rulePreviousStatistics, rulePreviousCustomStatistics, owner, statId) ?? ruleDefaults.get(statId) ?? 50;
+  const beforeRuleApplications = evaluateStatRules({
+    settings,
+    phase: "before",
+    texts: ruleTexts,
+    ownersForStat: ruleOwnersForStat,
+    readValue: readRulePreviousValue,
+    writeValue: (owner, statId, value) => writeRuleValue(rulePreviousStatistics, rulePreviousCustomStatistics, owner, statId, value),
+  });
+  const previousStatistics = beforeRuleApplications.length ? rulePreviousStatistics : capturedPreviousStatistics;
+  const previousCustomStatistics = beforeRuleApplications.length ? rulePreviousCustomStatistics : capturedPreviousCustomStatistics;
   const builtInPrivateStats = builtInAndTextStats.filter(stat => stat === "lastThought" && settings.lastThoughtPrivate);
   const builtInPublicStats = builtInAndTextStats.filter(stat => !builtInPrivateStats.includes(stat));
   const customPrivateStats = customStats.filter(stat => Boolean(stat.privateToOwner));
@@ -310,6 +435,13 @@ export async function extractStatisticsParallel(input: {
   const output = emptyStatistics();
   const outputCustom: CustomStatistics = {};
   const outputCustomNonNumeric: CustomNonNumericStatistics = {};
+  const pairStats = getPairwiseStatDefinitions(settings).filter(def =>
+    builtInAndTextStats.includes(def.id as StatKey) || customStats.some(stat => stat.id === def.id),
+  );
+  const characterPairs = pairStats.length ? listCharacterPairs(activeCharacters) : [];
+  const outputPairs: PairStatistics = {};
+  const outputPresence: Record<string, PresenceVerdict> = {};
+  const changeLogByKey = new Map<string, StatChangeLogEntry>();
   let debugRecord: DeltaDebugRecord | null = null;
   let cancelled = false;
   const normalizedUserName = String(userName ?? "").trim();
@@ -345,10 +477,17 @@ export async function extractStatisticsParallel(input: {
       promptCharacterAliases[normalizedUserName] = USER_TRACKER_KEY;
     }
   }
+  const builtInStatMeanings = getBuiltInStatPromptMeanings(settings);
   const applyPromptCharacterAliases = (prompt: string): string => {
     if (!userPromptCharacterName || userPromptCharacterName === USER_TRACKER_KEY) return prompt;
     return prompt.split(USER_TRACKER_KEY).join(userPromptCharacterName);
   };
+  const finalizePrompt = (builtPrompt: string, requestsNumeric: boolean): string => {
+    const withMeanings = applyBuiltInStatMeanings(builtPrompt, builtInStatMeanings);
+    return applyPromptCharacterAliases(
+      requestsNumeric && settings.requestChangeReasons ? applyChangeReasonRequest(withMeanings) : withMeanings,
+    );
+  };
 
   const isAbortError = (error: unknown): boolean => {
     if (error instanceof DOMException && error.name === "AbortError") return true;
@@ -376,39 +515,57 @@ export async function extractStatisticsParallel(input: {
       statistics: output,
       customStatistics: outputCustom,
       customNonNumericStatistics: outputCustomNonNumeric,
+      pairStatistics: outputPairs,
+      presence: outputPresence,
+      changeLog: [],
       debug: debugRecord
     };
   }
 
-  const unifiedBatchCount = (() => {
-    if (settings.sequentialExtraction) return 0;
-    const hasPublicBatch = builtInPublicStats.length > 0 || customPublicStats.length > 0;
-    const hasPrivateBatch = builtInPrivateStats.length > 0 || customPrivateStats.length > 0;
-    const privateBatches = hasPrivateBatch ? activeCharacters.length : 0;
-    return (hasPublicBatch ? 1 : 0) + privateBatches;
-  })();
-  const sequentialStatPasses =
-    builtInPublicStats.length +
-    customPublicGroups.length +
-    (builtInPrivateStats.length * activeCharacters.length) +
-    (customPrivateGroups.length > 0 ? customPrivateGroups.length * activeCharacters.length : 0);
-  const progressTotal = settings.sequentialExtraction
-    ? Math.max(1, sequentialStatPasses * 3)
-    : Math.max(1, unifiedBatchCount * 3);
+  const requestCount = countExtractionRequests({
+    sequential: settings.sequentialExtraction,
+    characterCount: activeCharacters.length,
+    builtInPublicStats: builtInPublicStats.length,
+    builtInPrivateStats: builtInPrivateStats.length,
+    customPublicStats: customPublicStats.length,
+    customPrivateStats: customPrivateStats.length,
+    customPublicGroups: customPublicGroups.length,
+    customPrivateGroups: customPrivateGroups.length,
+  });
+  const progressTotal = Math.max(1, (requestCount + (characterPairs.length ? 1 : 0)) * 3);
   onProgress?.(0, progressTotal, "Preparing context");
 
   try {
-    const applyDelta = (prev: number, delta: number, confidence: number, maxDeltaOverride?: number): number => {
+    const applyDelta = (change: {
+      owner: string;
+      stat: string;
+      previous: number;
+      delta: number;
+      rawDelta?: number;
+      confidence: number;
+      maxDelta?: number;
+      reason?: string;
+    }): number => {
       const fallbackLimit = Math.max(1, Math.round(settings.maxDeltaPerTurn || 15));
-      const limit = Math.max(1, Math.round(Number(maxDeltaOverride ?? fallbackLimit) || fallbackLimit));
-      return applyConfidenceScaledDelta({
-        previousValue: prev,
-        delta,
-        confidence,
+      const limit = Math.max(1, Math.round(Number(change.maxDelta ?? fallbackLimit) || fallbackLimit));
+      const breakdown = explainConfidenceScaledDelta({
+        previousValue: change.previous,
+        delta: change.rawDelta ?? change.delta,
+        confidence: change.confidence,
         confidenceDampening: settings.confidenceDampening,
         maxDeltaPerTurn: limit,
         bypassConfidenceControls,
       });
+      changeLogByKey.set(`${change.owner}\u0000${change.stat}`, buildStatChangeLogEntry({
+        owner: change.owner,
+        stat: change.stat,
+        previous: change.previous,
+        rawDelta: change.rawDelta,
+        confidence: change.confidence,
+        breakdown,
+        reason: change.reason,
+      }));
+      return breakdown.next;
     };
 
     const applied = {
@@ -449,28 +606,60 @@ export async function extractStatisticsParallel(input: {
         if (stat === "affection" && parsedOne.deltas.affection[name] !== undefined) {
           parsed.deltas.affection[name] = parsedOne.deltas.affection[name];
           const prevAffection = Number(previousStatistics?.affection?.[name] ?? settings.defaultAffection);
-          const next = applyDelta(prevAffection, parsedOne.deltas.affection[name], confidence);
+          const next = applyDelta({
+            owner: name,
+            stat: "affection",
+            previous: prevAffection,
+            delta: parsedOne.deltas.affection[name],
+            rawDelta: parsedOne.rawDeltas.affection[name],
+            confidence,
+            reason: parsedOne.reasons[name],
+          });
           output.affection[name] = next;
           applied.affection[name] = next;
         }
         if (stat === "trust" && parsedOne.deltas.trust[name] !== undefined) {
           parsed.deltas.trust[name] = parsedOne.deltas.trust[name];
           const prevTrust = Number(previousStatistics?.trust?.[name] ?? settings.defaultTrust);
-          const next = applyDelta(prevTrust, parsedOne.deltas.trust[name], confidence);
+          const next = applyDelta({
+            owner: name,
+            stat: "trust",
+            previous: prevTrust,
+            delta: parsedOne.deltas.trust[name],
+            rawDelta: parsedOne.rawDeltas.trust[name],
+            confidence,
+            reason: parsedOne.reasons[name],
+          });
           output.trust[name] = next;
           applied.trust[name] = next;
         }
         if (stat === "desire" && parsedOne.deltas.desire[name] !== undefined) {
           parsed.deltas.desire[name] = parsedOne.deltas.desire[name];
           const prevDesire = Number(previousStatistics?.desire?.[name] ?? settings.defaultDesire);
-          const next = applyDelta(prevDesire, parsedOne.deltas.desire[name], confidence);
+          const next = applyDelta({
+            owner: name,
+            stat: "desire",
+            previous: prevDesire,
+            delta: parsedOne.deltas.desire[name],
+            rawDelta: parsedOne.rawDeltas.desire[name],
+            confidence,
+            reason: parsedOne.reasons[name],
+          });
           output.desire[name] = next;
           applied.desire[name] = next;
         }
         if (stat === "connection" && parsedOne.deltas.connection[name] !== undefined) {
           parsed.deltas.connection[name] = parsedOne.deltas.connection[name];
           const prevConnection = Number(previousStatistics?.connection?.[name] ?? settings.defaultConnection);
-          const next = applyDelta(prevConnection, parsedOne.deltas.connection[name], confidence);
+          const next = applyDelta({
+            owner: name,
+            stat: "connection",
+            previous: prevConnection,
+            delta: parsedOne.deltas.connection[name],
+            rawDelta: parsedOne.rawDeltas.connection[name],
+            confidence,
+            reason: parsedOne.reasons[name],
+          });
           output.connection[name] = next;
           applied.connection[name] = next;
         }
@@ -529,7 +718,16 @@ export async function extractStatisticsParallel(input: {
           ?? resolveLegacyNumericFallback(byOwner)
           ?? statDef.defaultValue,
         );
-        const next = applyDelta(prevValue, delta, confidence, statDef.maxDeltaPerTurn);
+        const next = applyDelta({
+          owner: GLOBAL_TRACKER_KEY,
+          stat: statId,
+          previous: prevValue,
+          delta,
+          rawDelta: parsedOne.rawDelta[sourceName],
+          confidence,
+          maxDelta: statDef.maxDeltaPerTurn,
+          reason: parsedOne.reasons[sourceName],
+        });
         parsed.deltas.custom[statId][GLOBAL_TRACKER_KEY] = delta;
         outputCustom[statId][GLOBAL_TRACKER_KEY] = next;
         applied.customStatistics[statId][GLOBAL_TRACKER_KEY] = next;
@@ -542,7 +740,16 @@ export async function extractStatisticsParallel(input: {
         parsed.deltas.custom[statId][name] = delta;
         const confidence = parsedOne.confidence[name] ?? 0.8;
         const prevValue = Number(previousCustomStatistics?.[statId]?.[name] ?? statDef.defaultValue);
-        const next = applyDelta(prevValue, delta, confidence, statDef.maxDeltaPerTurn);
+        const next = applyDelta({
+          owner: name,
+          stat: statId,
+          previous: prevValue,
+          delta,
+          rawDelta: parsedOne.rawDelta[name],
+          confidence,
+          maxDelta: statDef.maxDeltaPerTurn,
+          reason: parsedOne.reasons[name],
+        });
         outputCustom[statId][name] = next;
         applied.customStatistics[statId][name] = next;
       }
@@ -749,11 +956,48 @@ export async function extractStatisticsParallel(input: {
 
     let attempts = 0;
     let requestSeq = 0;
+    let cacheHits = 0;
+    let cacheMisses = 0;
+    const useCache = settings.extractionCacheEnabled && !forceFresh;
+    const replayResponses: Record<string, string> | null = settings.includeContextInDiagnostics ? {} : null;
     let retryUsed = false;
     let firstParseHadValues = true;
     const rawBlocks: Array<{ label: string; raw: string }> = [];
     const promptBlocks: Array<{ label: string; prompt: string }> = [];
-  const requestMetas: Array<GenerateRequestMeta & { statList: string[]; attempt: number; retryType: string }> = [];
+    const salvageReports: Array<{ label: string; missing: MissingStatOwners[]; narrowedRetry: boolean }> = [];
+  const requestMetas: Array<GenerateRequestMeta & { statList: string[]; attempt: number; retryType: string; route?: string }> = [];
+
+  const buildReplayCapture = (responses: Record<string, string>): ExtractionReplayCapture => {
+    const ownerStatDisabled: Record<string, string[]> = {};
+    const statIds = [
+      ...enabledBuiltInAndTextStats(settings),
+      ...enabledCustomStats(settings).map(stat => stat.id),
+    ];
+    for (const name of activeCharacters) {
+      const disabled = statIds.filter(statId => isOwnerStatEnabled?.(name, statId) === false);
+      if (disabled.length) ownerStatDisabled[name] = disabled;
+    }
+    return {
+      settings,
+      userName,
+      activeCharacters: [...activeCharacters],
+      preferredCharacterName,
+      contextText,
+      ...(latestMessageText ? { latestMessageText } : {}),
+      ...(latestUserMessageText ? { latestUserMessageText } : {}),
+      previousStatistics: capturedPreviousStatistics,
+      previousCustomStatistics: capturedPreviousCustomStatistics ?? null,
+      previousCustomStatisticsRaw: previousCustomStatisticsRaw ?? null,
+      previousCustomNonNumericStatistics: previousCustomNonNumericStatistics ?? null,
+      ...(previousPairStatistics ? { previousPairStatistics } : {}),
+      ...(presenceCandidates.length ? { presenceCandidates: [...presenceCandidates] } : {}),
+      hasPriorTrackerData: Boolean(hasPriorTrackerData),
+      history,
+      bypassConfidenceControls,
+      ownerStatDisabled,
+      responses,
+    };
+  };
 
   const buildScopeResolutionDebug = () => {
     const active = [...activeCharacters];
@@ -801,6 +1045,7 @@ export async function extractStatisticsParallel(input: {
       prompt: string,
       statList: string[],
       retryType: string,
+      options: { jsonSchema?: JsonSchema | null } = {},
     ): Promise<{ text: string; meta: GenerateRequestMeta }> => {
       const retryDelaysMs = [350, 1200];
       let lastError: unknown = null;
@@ -810,10 +1055,34 @@ export async function extractStatisticsParallel(input: {
         const attemptNo = requestSeq;
         try {
           checkCancelled();
-          const response = await generateJson(prompt, settings);
+          const route = resolveConnectionProfileRoute(settings.connectionProfileRoutes ?? [], statList, customStats);
+          const jsonSchema = !settings.structuredOutput
+            ? null
+            : options.jsonSchema !== undefined
+              ? options.jsonSchema
+              : buildExtractionJsonSchema({
+                  statList,
+                  customStats,
+                  maxDeltaPerTurn: settings.maxDeltaPerTurn,
+                  includeReason: settings.requestChangeReasons,
+                });
+          // Retries exist because an earlier answer fell short; a cached copy of one would repeat it.
+          const requestUsesCache = useCache && retryType === "initial";
+          const response = await generate(prompt, settings, { route, jsonSchema, useCache: requestUsesCache });
           checkCancelled();
           const type = attemptIndex === 0 ? retryType : `${retryType}_transport_retry_${attemptIndex}`;
-          requestMetas.push({ ...response.meta, statList, attempt: attemptNo, retryType: type });
+          if (replayResponses) replayResponses[hashExtractionPrompt(prompt)] = response.text;
+          if (requestUsesCache) {
+            if (response.meta.cacheHit) cacheHits += 1;
+            else cacheMisses += 1;
+          }
+          requestMetas.push({
+            ...response.meta,
+            statList,
+            attempt: attemptNo,
+            retryType: type,
+            ...(route ? { route: route.target } : {}),
+          });
           return response;
         } catch (error) {
           if (isAbortError(error) || input.isCancelled?.()) {
@@ -831,6 +1100,9 @@ export async function extractStatisticsParallel(input: {
       }
       throw (lastError ?? new Error("Generation failed"));
     };
+    const cacheCoveredResponse = async (response: { text: string; meta: GenerateRequestMeta }): Promise<void> => {
+      if (useCache && cacheResponse) await cacheResponse(response, settings);
+    };
 
     const getSequentialTemplate = (stat: StatKey): string => {
       if (stat === "affection") return settings.promptTemplateSequentialAffection || DEFAULT_SEQUENTIAL_PROMPT_INSTRUCTIONS.affection;
@@ -988,17 +1260,17 @@ export async function extractStatisticsParallel(input: {
     ): Promise<{ prompt: string; raw: string; parsedOne: ReturnType<typeof parseUnifiedDeltaResponse> }> => {
       checkCancelled();
       const progressLabel = formatBuiltInProgressLabel(statList);
-      const builtPrompt = settings.sequentialExtraction && statList.length === 1
+      const buildPromptFor = (stats: StatKey[], characters: string[]): string => finalizePrompt(settings.sequentialExtraction && stats.length === 1
         ? buildSequentialPrompt(
-            statList[0],
+            stats[0],
             userName,
-            requestCharacters,
+            characters,
             contextText,
             previousStatistics,
             history,
             settings.maxDeltaPerTurn,
-            getSequentialTemplate(statList[0]),
-            getSequentialProtocolTemplate(statList[0]),
+            getSequentialTemplate(stats[0]),
+            getSequentialProtocolTemplate(stats[0]),
             preferredCharacterName,
             settings.includeCharacterCardsInPrompt,
             settings.includeLorebookInExtraction,
@@ -1011,9 +1283,9 @@ export async function extractStatisticsParallel(input: {
             },
           )
         : buildUnifiedPrompt(
-            statList,
+            stats,
             userName,
-            requestCharacters,
+            characters,
             contextText,
             previousStatistics,
             history,
@@ -1023,8 +1295,8 @@ export async function extractStatisticsParallel(input: {
             preferredCharacterName,
             settings.includeCharacterCardsInPrompt,
             settings.includeLorebookInExtraction,
-          );
-      const prompt = applyPromptCharacterAliases(builtPrompt);
+          ), stats.some(isNumericBuiltInStat));
+      const prompt = buildPromptFor(statList, requestCharacters);
       tickProgress(buildProgressRequest(progressLabel));
       let rawResponse = await callGenerate(prompt, statList, "initial");
       checkCancelled();
@@ -1038,6 +1310,33 @@ export async function extractStatisticsParallel(input: {
           ? hasValuesForRequestedBuiltInAndTextStats(candidate, statList)
           : hasCoverageForAllRequestedBuiltInAndTextStats(candidate, statList);
       let retriesLeft = Math.max(0, Math.min(4, settings.maxRetriesPerStat));
+      const missing = findMissingStatOwners(
+        statList.map(stat => ({ stat, owners: requestCharacters })),
+        stat => builtInParsedValues(parsedOne, stat as StatKey),
+      );
+      if (!missing.length && hasRequestedCoverage(parsedOne)) await cacheCoveredResponse(rawResponse);
+      if (missing.length && firstHasValues) {
+        const narrowedRetry = retriesLeft > 0 && settings.strictJsonRepair;
+        salvageReports.push({ label: progressLabel, missing, narrowedRetry });
+        if (narrowedRetry) {
+          const narrowedStats = statList.filter(stat => missing.some(item => item.stat === stat));
+          const narrowedCharacters = requestCharacters.filter(name => missing.some(item => item.owners.includes(name)));
+          const narrowedPrompt = buildStrictJsonRetryPrompt(buildPromptFor(narrowedStats, narrowedCharacters));
+          retryUsed = true;
+          retriesLeft -= 1;
+          const narrowedResponse = await callGenerate(narrowedPrompt, narrowedStats, "narrowed");
+          checkCancelled();
+          mergeParsedBuiltIn(parsedOne, parseUnifiedDeltaResponse(
+            narrowedResponse.text,
+            narrowedCharacters,
+            narrowedStats,
+            settings.maxDeltaPerTurn,
+            promptCharacterAliases,
+          ));
+          rawBlocks.push({ label: `${progressLabel}:narrowed`, raw: narrowedResponse.text });
+          promptBlocks.push({ label: `${progressLabel}:narrowed`, prompt: narrowedPrompt });
+        }
+      }
       if (!hasRequestedCoverage(parsedOne) && retriesLeft > 0 && settings.strictJsonRepair) {
         const retryPrompt = buildStrictJsonRetryPrompt(prompt);
         retryUsed = true;
@@ -1181,7 +1480,7 @@ export async function extractStatisticsParallel(input: {
             trackMood: settings.trackMood,
           },
         });
-      const prompt = applyPromptCharacterAliases(builtPrompt);
+      const prompt = finalizePrompt(builtPrompt, kind === "numeric");
       tickProgress(buildProgressRequest(progressLabel));
       let rawResponse = await callGenerate(prompt, [statId], "initial");
       checkCancelled();
@@ -1209,6 +1508,7 @@ export async function extractStatisticsParallel(input: {
         ? hasAnyValues(parsedNumeric?.delta ?? {})
         : hasAnyValues(parsedNonNumeric?.value ?? {});
       firstParseHadValues = firstParseHadValues && firstHasValues;
+      if (firstHasValues) await cacheCoveredResponse(rawResponse);
       let retriesLeft = Math.max(0, Math.min(4, settings.maxRetriesPerStat));
       while (
         !(kind === "numeric"
@@ -1359,11 +1659,15 @@ export async function extractStatisticsParallel(input: {
           ...batchBuiltInStats,
           ...batchCustomStats.map(stat => stat.id),
         ];
-        const builtPrompt = buildUnifiedAllStatsPrompt({
-          stats: batchBuiltInStats,
-          customStats: batchCustomStats,
+        const buildBatchPrompt = (
+          stats: StatKey[],
+          promptCustomStats: CustomStatDefinition[],
+          characters: string[],
+        ): string => finalizePrompt(buildUnifiedAllStatsPrompt({
+          stats,
+          customStats: promptCustomStats,
           userName,
-          characters: requestCharacters,
+          characters,
           contextText,
           current: previousStatistics,
           currentCustom: previousCustomStatistics ?? {},
@@ -1381,10 +1685,23 @@ export async function extractStatisticsParallel(input: {
             trackConnection: settings.trackConnection,
             trackMood: settings.trackMood,
           },
-        });
-        const prompt = applyPromptCharacterAliases(builtPrompt);
+        }), stats.some(isNumericBuiltInStat) || promptCustomStats.some(stat => (stat.kind ?? "numeric") === "numeric"));
+        const askPresence = batchLabel === "unified" && presenceCandidates.length > 0;
+        const batchPrompt = buildBatchPrompt(batchBuiltInStats, batchCustomStats, requestCharacters);
+        const prompt = askPresence ? applyPresenceRequest(batchPrompt, presenceCandidates) : batchPrompt;
+        const presenceOptions = askPresence
+          ? {
+            jsonSchema: buildExtractionJsonSchema({
+              statList: allRequestedStats,
+              customStats,
+              maxDeltaPerTurn: settings.maxDeltaPerTurn,
+              includeReason: settings.requestChangeReasons,
+              includePresence: true,
+            }),
+          }
+          : {};
         tickProgress(buildProgressRequest(buildProgressUnifiedBatch(batchLabel)));
-        const response = await callGenerate(prompt, allRequestedStats, "initial");
+        const response = await callGenerate(prompt, allRequestedStats, "initial", presenceOptions);
         checkCancelled();
         let raw = response.text;
         tickProgress(buildProgressParse(buildProgressUnifiedBatch(batchLabel)));
@@ -1393,11 +1710,58 @@ export async function extractStatisticsParallel(input: {
           || Object.values(parsedAll.customNonNumeric).some(item => hasAnyValues(item.value));
         firstParseHadValues = firstParseHadValues && (hasParsedValues(parsedAll.builtIn) || hasAnyCustomValues);
         let retriesLeft = Math.max(0, Math.min(4, settings.maxRetriesPerStat));
+        const missing = findMissingStatOwners(
+          [
+            ...batchBuiltInStats.map(stat => ({ stat: stat as string, owners: requestCharacters })),
+            ...customPlans.map(plan => ({ stat: plan.statDef.id, owners: plan.existing })),
+          ],
+          stat => {
+            const plan = customPlans.find(item => item.statDef.id === stat);
+            if (!plan) return builtInParsedValues(parsedAll.builtIn, stat as StatKey);
+            return plan.kind === "numeric"
+              ? parsedAll.customNumeric[stat]?.delta
+              : parsedAll.customNonNumeric[stat]?.value;
+          },
+        );
+        if (!missing.length && hasUnifiedAllCoverage(parsedAll)) await cacheCoveredResponse(response);
+        if (missing.length && (hasParsedValues(parsedAll.builtIn) || hasAnyCustomValues)) {
+          const narrowedRetry = retriesLeft > 0 && settings.strictJsonRepair;
+          salvageReports.push({ label: batchLabel, missing, narrowedRetry });
+          if (narrowedRetry) {
+            const missingStats = new Set(missing.map(item => item.stat));
+            const narrowedBuiltIns = batchBuiltInStats.filter(stat => missingStats.has(stat));
+            const narrowedCustom = batchCustomStats.filter(stat => missingStats.has(stat.id));
+            const narrowedCharacters = requestCharacters.filter(name => missing.some(item => item.owners.includes(name)));
+            const narrowedPrompt = buildStrictJsonRetryPrompt(buildBatchPrompt(narrowedBuiltIns, narrowedCustom, narrowedCharacters));
+            retryUsed = true;
+            retriesLeft -= 1;
+            const narrowedResponse = await callGenerate(narrowedPrompt, [...missingStats], "narrowed");
+            checkCancelled();
+            const narrowedParsed = parseUnifiedAllFromRaw(narrowedResponse.text);
+            mergeParsedBuiltIn(parsedAll.builtIn, narrowedParsed.builtIn);
+            for (const [statId, parsed] of Object.entries(narrowedParsed.customNumeric)) {
+              const target = parsedAll.customNumeric[statId];
+              if (!target || !missingStats.has(statId)) continue;
+              fillMissingEntries(target.confidence, parsed.confidence);
+              fillMissingEntries(target.delta, parsed.delta);
+              fillMissingEntries(target.rawDelta, parsed.rawDelta);
+              fillMissingEntries(target.reasons, parsed.reasons);
+            }
+            for (const [statId, parsed] of Object.entries(narrowedParsed.customNonNumeric)) {
+              const target = parsedAll.customNonNumeric[statId];
+              if (!target || !missingStats.has(statId)) continue;
+              fillMissingEntries(target.confidence, parsed.confidence);
+              fillMissingEntries(target.value, parsed.value);
+            }
+            rawBlocks.push({ label: `${batchLabel}:narrowed`, raw: narrowedResponse.text });
+            promptBlocks.push({ label: `${batchLabel}:narrowed`, prompt: narrowedPrompt });
+          }
+        }
         while (!hasUnifiedAllCoverage(parsedAll) && retriesLeft > 0 && settings.strictJsonRepair) {
           retryUsed = true;
           retriesLeft -= 1;
           const strictPrompt = buildStrictJsonRetryPrompt(prompt);
-          const strictResponse = await callGenerate(strictPrompt, allRequestedStats, "strict_loop");
+          const strictResponse = await callGenerate(strictPrompt, allRequestedStats, "strict_loop", presenceOptions);
           checkCancelled();
           const strictParsedAll = parseUnifiedAllFromRaw(strictResponse.text);
           if (hasUnifiedAllCoverage(strictParsedAll)) {
@@ -1409,6 +1773,9 @@ export async function extractStatisticsParallel(input: {
         tickProgress(buildProgressApply(buildProgressUnifiedBatch(batchLabel)));
         rawBlocks.push({ label: batchLabel, raw });
         promptBlocks.push({ label: batchLabel, prompt });
+        if (askPresence) {
+          Object.assign(outputPresence, parsePresenceResponse(raw, presenceCandidates, promptCharacterAliases));
+        }
         for (const stat of batchBuiltInStats) {
           applyParsedForBuiltInOrTextStat(stat, parsedAll.builtIn);
         }
@@ -1550,7 +1917,7 @@ export async function extractStatisticsParallel(input: {
             trackMood: settings.trackMood,
           },
         });
-        const prompt = applyPromptCharacterAliases(builtPrompt);
+        const prompt = finalizePrompt(builtPrompt, group.some(stat => (stat.kind ?? "numeric") === "numeric"));
         const groupLabel = group.map(stat => stat.id).join("+");
         const groupProgressLabel = formatCustomGroupProgressLabel(group);
         tickProgress(buildProgressRequest(groupProgressLabel));
@@ -1606,6 +1973,7 @@ export async function extractStatisticsParallel(input: {
             if (kind === "numeric") return hasAnyValues(candidate.numeric[statDef.id]?.delta ?? {});
             return hasAnyValues(candidate.nonNumeric[statDef.id]?.value ?? {});
           });
+        if (hasCoverage(parsedGroup)) await cacheCoveredResponse(response);
         let retriesLeft = Math.max(0, Math.min(4, settings.maxRetriesPerStat));
         while (!hasCoverage(parsedGroup) && retriesLeft > 0 && settings.strictJsonRepair) {
           retryUsed = true;
@@ -1669,6 +2037,165 @@ export async function extractStatisticsParallel(input: {
       }
     }
 
+    let pairwiseError: string | null = null;
+    if (characterPairs.length) {
+      const progressLabel = "Pairwise relations";
+      const statIds = pairStats.map(def => def.id);
+      const maxDelta = Math.max(...pairStats.map(def => def.maxDeltaPerTurn));
+      const prompt = finalizePrompt(buildPairwisePrompt({
+        stats: pairStats,
+        pairs: characterPairs,
+        maxDeltaPerTurn: maxDelta,
+        userName,
+        characters: activeCharacters,
+        contextText,
+        current: previousPairStatistics ?? null,
+        history,
+        includeCharacterCardsInPrompt: settings.includeCharacterCardsInPrompt,
+        includeLorebookInExtraction: settings.includeLorebookInExtraction,
+      }), false);
+      checkCancelled();
+      tickProgress(buildProgressRequest(progressLabel));
+      try {
+        const response = await callGenerate(prompt, statIds, "pairwise", { jsonSchema: buildPairwiseJsonSchema(statIds, maxDelta) });
+        checkCancelled();
+        tickProgress(buildProgressParse(progressLabel));
+        rawBlocks.push({ label: "pairwise", raw: response.text });
+        promptBlocks.push({ label: "pairwise", prompt });
+        const parsedPairs = parsePairwiseDeltaResponse(response.text, characterPairs, statIds, maxDelta);
+        for (const def of pairStats) {
+          for (const pair of characterPairs) {
+            if (isOwnerStatEnabled?.(pair.source, def.id) === false) continue;
+            const key = toPairKey(pair.source, pair.target);
+            const rawDelta = parsedPairs.rawDelta[def.id]?.[key];
+            if (rawDelta === undefined) continue;
+            const breakdown = explainConfidenceScaledDelta({
+              previousValue: readPairValue(previousPairStatistics, def.id, pair) ?? def.defaultValue,
+              delta: rawDelta,
+              confidence: parsedPairs.confidence[key] ?? 0.8,
+              confidenceDampening: settings.confidenceDampening,
+              maxDeltaPerTurn: def.maxDeltaPerTurn,
+              bypassConfidenceControls,
+            });
+            outputPairs[def.id] = { ...outputPairs[def.id], [key]: breakdown.next };
+          }
+        }
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        pairwiseError = error instanceof Error ? error.message : String(error);
+      }
+      tickProgress(buildProgressApply(progressLabel));
+    }
+
+    const readRuleOutputValue = (owner: string, statId: string): number =>
+      readRuleValue(output, outputCustom, owner, statId) ?? readRulePreviousValue(owner, statId);
+    for (const application of beforeRuleApplications) {
+      if (readRuleValue(output, outputCustom, application.owner, application.stat) !== undefined) continue;
+      writeRuleValue(output, outputCustom, application.owner, application.stat, readRulePreviousValue(application.owner, application.stat));
+    }
+    const decayClock = resolveDecayClockStat(settings);
+    const readClockValue = (map: Record<string, CustomNonNumericValue> | undefined, owner: string): CustomNonNumericValue | undefined =>
+      map?.[decayClock?.globalScope ? GLOBAL_TRACKER_KEY : owner] ?? map?.[GLOBAL_TRACKER_KEY] ?? resolveLegacyNonNumericFallback(map);
+    const decayApplications = evaluateStatDecay({
+      settings,
+      statIds: ruleNumericStats,
+      ownersForStat: ruleOwnersForStat,
+      elapsedMinutesFor: owner => {
+        if (!decayClock) return null;
+        const before = readClockValue(previousCustomNonNumericStatistics?.[decayClock.id], owner);
+        const after = readClockValue(outputCustomNonNumeric[decayClock.id], owner) ?? before;
+        return minutesBetweenDateTimes(before, after);
+      },
+      readValue: readRuleOutputValue,
+      writeValue: (owner, statId, value) => writeRuleValue(output, outputCustom, owner, statId, value),
+    });
+    const afterRuleApplications = evaluateStatRules({
+      settings,
+      phase: "after",
+      texts: ruleTexts,
+      ownersForStat: ruleOwnersForStat,
+      readValue: readRuleOutputValue,
+      writeValue: (owner, statId, value) => writeRuleValue(output, outputCustom, owner, statId, value),
+    });
+    const resolveExpressionValue = (owner: string, name: string): StatExpressionValue | undefined => {
+      const resolved = resolveStatReference(settings, name);
+      if (resolved?.builtIn === "mood" || resolved?.builtIn === "lastThought") {
+        const key = resolved.builtIn;
+        return output[key][owner] ?? previousStatistics?.[key]?.[owner];
+      }
+      if (resolved?.builtIn || (resolved?.custom && resolveCustomStatValueKind(resolved.custom) === "numeric")) {
+        return readRuleOutputValue(owner, resolved.builtIn ?? resolved.custom?.id ?? "");
+      }
+      if (!resolved?.custom) return undefined;
+      const id = resolved.custom.id;
+      const key = resolved.custom.globalScope ? GLOBAL_TRACKER_KEY : owner;
+      return outputCustomNonNumeric[id]?.[key] ?? previousCustomNonNumericStatistics?.[id]?.[key] ?? resolved.custom.defaultValue;
+    };
+    const applyComputedStats = (): void => evaluateComputedStats({
+      settings,
+      owners: activeCharacters,
+      isOwnerStatEnabled,
+      resolveValue: resolveExpressionValue,
+      writeValue: (owner, def, value) => {
+        if (typeof value === "number") {
+          writeRuleValue(output, outputCustom, owner, def.id, value);
+          return;
+        }
+        const key = def.globalScope ? GLOBAL_TRACKER_KEY : owner;
+        outputCustomNonNumeric[def.id] = { ...outputCustomNonNumeric[def.id], [key]: value };
+      },
+    });
+    applyComputedStats();
+    // Constraints also cover untracked targets, so they only need a stored value, not a requested stat.
+    const readStoredValue = (owner: string, statId: string): number | undefined =>
+      readRuleValue(output, outputCustom, owner, statId)
+        ?? readRuleValue(rulePreviousStatistics, rulePreviousCustomStatistics, owner, statId);
+    const constraintOwnersForStat = (statId: string): string[] =>
+      (ruleGlobalStats.has(statId) ? [GLOBAL_TRACKER_KEY] : activeCharacters)
+        .filter(owner => readStoredValue(owner, statId) !== undefined);
+    const constraintApplications = evaluateStatConstraints({
+      settings,
+      ownersForStat: constraintOwnersForStat,
+      resolveValue: resolveExpressionValue,
+      readValue: readStoredValue,
+      writeValue: (owner, statId, value) => writeRuleValue(output, outputCustom, owner, statId, value),
+    });
+    if (constraintApplications.length) applyComputedStats();
+    const ruleAdjustments: StatRuleApplication[] = [
+      ...beforeRuleApplications,
+      ...decayApplications,
+      ...afterRuleApplications,
+      ...constraintApplications,
+    ];
+    for (const application of ruleAdjustments) {
+      const key = `${application.owner}\u0000${application.stat}`;
+      const ruleDelta = { ruleId: application.ruleId, label: application.label, phase: application.phase, delta: application.delta };
+      const entry = changeLogByKey.get(key);
+      if (!entry) {
+        changeLogByKey.set(key, {
+          owner: application.owner,
+          stat: application.stat,
+          previous: application.previous,
+          rawDelta: 0,
+          confidence: 0,
+          confidenceScale: 1,
+          maxDelta: 0,
+          clampedDelta: 0,
+          scaledDelta: 0,
+          final: application.next,
+          ruleDeltas: [ruleDelta],
+          ruleOnly: true,
+        });
+        continue;
+      }
+      entry.ruleDeltas = [...(entry.ruleDeltas ?? []), ruleDelta];
+      if (application.phase === "before" && !entry.ruleOnly) {
+        entry.previous -= application.delta;
+      } else {
+        entry.final = application.next;
+      }
+    }
+
     const rawOutputAggregate = rawBlocks.map(item => `--- ${item.label} ---\n${normalizeDebugText(item.raw)}`).join("\n\n");
     const promptAggregate = promptBlocks.map(item => `--- ${item.label} ---\n${normalizeDebugText(item.prompt)}`).join("\n\n");
 
@@ -1691,6 +2218,10 @@ export async function extractStatisticsParallel(input: {
         extractionMode: settings.sequentialExtraction ? "sequential" : "unified",
         retryUsed,
         firstParseHadValues,
+        ...(salvageReports.length ? { salvage: salvageReports } : {}),
+        cache: { enabled: settings.extractionCacheEnabled, forceFresh, hits: cacheHits, misses: cacheMisses },
+        ...(ruleAdjustments.length ? { ruleAdjustments } : {}),
+        ...(pairwiseError ? { pairwiseError } : {}),
         rawLength: rawOutputAggregate.length,
         parsedCounts: {
           confidence: countMapValues(parsed.confidence),
@@ -1716,7 +2247,8 @@ export async function extractStatisticsParallel(input: {
         moodFallbackApplied: Array.from(moodFallbackApplied),
         requests: requestMetas,
         scopeResolution: buildScopeResolutionDebug(),
-      }
+      },
+      ...(replayResponses ? { replay: buildReplayCapture(replayResponses) } : {}),
     };
   } catch (error) {
     if (isAbortError(error)) {
@@ -1741,6 +2273,9 @@ export async function extractStatisticsParallel(input: {
     statistics: output,
     customStatistics: outputCustom,
     customNonNumericStatistics: outputCustomNonNumeric,
+    pairStatistics: outputPairs,
+    presence: outputPresence,
+    changeLog: Array.from(changeLogByKey.values()),
     debug: debugRecord
   };
 }
@@ -1,19 +1,13 @@
-import type { BetterSimTrackerSettings, CustomStatDefinition, StatKey } from "./types";
+import { getTrackedBuiltInStatKeys } from "./statRegistry";
+import type { BetterSimTrackerSettings, ConnectionProfileRoute, CustomStatDefinition, StatKey } from "./types";
 
 export function enabledBuiltInAndTextStats(settings: BetterSimTrackerSettings): StatKey[] {
-  const selected: StatKey[] = [];
-  if (settings.trackAffection) selected.push("affection");
-  if (settings.trackTrust) selected.push("trust");
-  if (settings.trackDesire) selected.push("desire");
-  if (settings.trackConnection) selected.push("connection");
-  if (settings.trackMood) selected.push("mood");
-  if (settings.trackLastThought) selected.push("lastThought");
-  return selected;
+  return getTrackedBuiltInStatKeys(settings);
 }
 
 export function enabledCustomStats(settings: BetterSimTrackerSettings): CustomStatDefinition[] {
   if (!Array.isArray(settings.customStats)) return [];
-  return settings.customStats.filter(def => Boolean(def.track));
+  return settings.customStats.filter(def => Boolean(def.track) && def.kind !== "computed");
 }
 
 export function normalizeSequentialGroupId(value: unknown): string {
@@ -31,7 +25,7 @@ export function groupCustomStatsForSequential(
   const groupsById = new Map<string, CustomStatDefinition[]>();
   const solo: CustomStatDefinition[][] = [];
   for (const stat of stats) {
-    const key = normalizeSequentialGroupId((stat as { sequentialGroup?: string }).sequentialGroup);
+    const key = normalizeSequentialGroupId(stat.sequentialGroup);
     if (!key) {
       solo.push([stat]);
       continue;
@@ -43,8 +37,79 @@ export function groupCustomStatsForSequential(
   return [...groupsById.values(), ...solo];
 }
 
+export function resolveConnectionProfileRoute(
+  routes: ConnectionProfileRoute[],
+  statList: string[],
+  customStats: CustomStatDefinition[],
+): ConnectionProfileRoute | null {
+  if (!routes.length || !statList.length) return null;
+  const targets = new Set<string>();
+  for (const statId of statList) {
+    const id = String(statId ?? "").trim().toLowerCase();
+    if (!id) continue;
+    targets.add(id);
+    const definition = customStats.find(stat => stat.id === id);
+    const group = normalizeSequentialGroupId(definition?.sequentialGroup);
+    if (group) targets.add(`group:${group}`);
+  }
+  return routes.find(route => targets.has(route.target)) ?? null;
+}
+
+export type MissingStatOwners = {
+  stat: string;
+  owners: string[];
+};
+
+export function findMissingStatOwners(
+  requested: Array<{ stat: string; owners: string[] }>,
+  valuesFor: (stat: string) => Record<string, unknown> | undefined,
+): MissingStatOwners[] {
+  const missing: MissingStatOwners[] = [];
+  for (const item of requested) {
+    const values = valuesFor(item.stat) ?? {};
+    const owners = item.owners.filter(owner => !Object.prototype.hasOwnProperty.call(values, owner));
+    if (owners.length) missing.push({ stat: item.stat, owners });
+  }
+  return missing;
+}
+
+export function fillMissingEntries<T>(target: Record<string, T>, source: Record<string, T> | undefined): void {
+  if (!source) return;
+  for (const [key, value] of Object.entries(source)) {
+    if (!Object.prototype.hasOwnProperty.call(target, key)) target[key] = value;
+  }
+}
+
+export function countExtractionRequests(input: {
+  sequential: boolean;
+  characterCount: number;
+  builtInPublicStats: number;
+  builtInPrivateStats: number;
+  customPublicStats: number;
+  customPrivateStats: number;
+  customPublicGroups: number;
+  customPrivateGroups: number;
+}): number {
+  const characters = Math.max(0, input.characterCount);
+  if (!input.sequential) {
+    const hasPublicBatch = input.builtInPublicStats > 0 || input.customPublicStats > 0;
+    const hasPrivateBatch = input.builtInPrivateStats > 0 || input.customPrivateStats > 0;
+    return (hasPublicBatch ? 1 : 0) + (hasPrivateBatch ? characters : 0);
+  }
+  return input.builtInPublicStats
+    + input.customPublicGroups
+    + input.builtInPrivateStats * characters
+    + input.customPrivateGroups * characters;
+}
+
 export function isManualExtractionReason(reason: string): boolean {
-  return reason === "manual_refresh" || reason === "manual_refresh_retry";
+  return reason === "manual_refresh"
+    || reason === "manual_refresh_retry"
+    || isFreshExtractionReason(reason);
+}
+
+export function isFreshExtractionReason(reason: string): boolean {
+  return reason === "manual_refresh_fresh" || reason === "manual_refresh_fresh_retry";
 }
 
 export function shouldBypassConfidenceControls(reason: string): boolean {
@@ -65,14 +130,22 @@ export function resolveBaselineBeforeIndex(input: {
   return input.lastIndex;
 }
 
-export function applyConfidenceScaledDelta(input: {
+type ConfidenceScaledDeltaInput = {
   previousValue: number;
   delta: number;
   confidence: number;
   confidenceDampening: number;
   maxDeltaPerTurn: number;
   bypassConfidenceControls?: boolean;
-}): number {
+};
+
+export function explainConfidenceScaledDelta(input: ConfidenceScaledDeltaInput): {
+  next: number;
+  scale: number;
+  limit: number;
+  boundedDelta: number;
+  scaledDelta: number;
+} {
   const clamp = (value: number): number => Math.max(0, Math.min(100, Math.round(value)));
   const conf = Math.max(0, Math.min(1, Number(input.confidence) || 0));
   const damp = input.bypassConfidenceControls
@@ -82,7 +155,17 @@ export function applyConfidenceScaledDelta(input: {
   const limit = Math.max(1, Math.round(Number(input.maxDeltaPerTurn) || 15));
   const bounded = Math.max(-limit, Math.min(limit, Number(input.delta) || 0));
   const scaledDelta = Math.round(bounded * scale);
-  return clamp(Number(input.previousValue) + scaledDelta);
+  return {
+    next: clamp(Number(input.previousValue) + scaledDelta),
+    scale,
+    limit,
+    boundedDelta: bounded,
+    scaledDelta,
+  };
+}
+
+export function applyConfidenceScaledDelta(input: ConfidenceScaledDeltaInput): number {
+  return explainConfidenceScaledDelta(input).next;
 }
 
 export function resolveMoodWithConfidence(input: {
@@ -1,8 +1,18 @@
-import type { BetterSimTrackerSettings, GenerateRequestMeta } from "./types";
+import type { BetterSimTrackerSettings, ConnectionProfileRoute, GenerateRequestMeta } from "./types";
 import type { STContext } from "./types";
 import { Generator } from "sillytavern-utils-lib";
 import type { Message } from "sillytavern-utils-lib";
 import { getContext, hasExplicitConnectionProfileValue, resolveConnectionProfileId } from "./settings";
+import {
+  buildStructuredOutputField,
+  isStructuredOutputRejection,
+  resolveProfileStructuredOutputTarget,
+  resolveStructuredOutputTarget,
+  type JsonSchema,
+  type StructuredOutputTarget,
+} from "./structuredOutput";
+import { buildExtractionCacheKey, readExtractionCache, writeExtractionCache } from "./extractionCache";
+import { MOCK_COMPLETION_SOURCE, type MockCompletionService } from "./mockCompletion";
 
 interface GenerateResponse {
   content?: string;
@@ -90,6 +100,7 @@ function extractContent(payload: GenerateResponse): string {
 
 const generator = new Generator();
 const activeAbortControllers = new Set<AbortController>();
+let mockCompletionService: MockCompletionService | null = null;
 
 function extractResponseMeta(data: unknown): Record<string, unknown> | undefined {
   if (!data || typeof data !== "object") return undefined;
@@ -204,20 +215,20 @@ function collectProfiles(context: STContext | null): Record<string, unknown>[] {
   return out;
 }
 
+function findConnectionProfile(profileId: string, context: STContext | null): Record<string, unknown> | null {
+  for (const candidate of collectProfiles(context)) {
+    if (profileIdOf(candidate) === profileId) return candidate;
+  }
+  return null;
+}
+
 function resolveProfileLimits(
   profileId: string,
   context: STContext | null,
   settings: BetterSimTrackerSettings,
 ): TokenLimits {
   const fallbackMax = 300;
-  const profiles = collectProfiles(context);
-  let profile: Record<string, unknown> | null = null;
-  for (const candidate of profiles) {
-    if (profileIdOf(candidate) === profileId) {
-      profile = candidate;
-      break;
-    }
-  }
+  const profile = findConnectionProfile(profileId, context);
 
   const fromProfile = extractTokenLimitsFromObject(profile);
   const overrideMax = Number(settings.maxTokensOverride ?? 0);
@@ -290,14 +301,22 @@ function hasExplicitConnectionProfile(settings: BetterSimTrackerSettings): boole
   return hasExplicitConnectionProfileValue(settings.connectionProfile);
 }
 
-async function generateViaGenerator(prompt: string, profileId: string, limits: TokenLimits): Promise<{ text: string; meta: GenerateRequestMeta }> {
+async function generateViaGenerator(
+  prompt: string,
+  profileId: string,
+  limits: TokenLimits,
+  structured?: { target: StructuredOutputTarget; schema: JsonSchema } | null,
+): Promise<{ text: string; meta: GenerateRequestMeta }> {
   const messages: Message[] = [{ role: "user", content: prompt }];
   const promptChars = prompt.length;
   const maxTokens = limits.maxTokens;
   const startedAt = Date.now();
-  const overridePayload = limits.truncationLength
+  const overridePayload: Record<string, unknown> = limits.truncationLength
     ? { truncation_length: limits.truncationLength, max_new_tokens: maxTokens, max_tokens: maxTokens }
     : { max_new_tokens: maxTokens, max_tokens: maxTokens };
+  if (structured) {
+    overridePayload.json_schema = buildStructuredOutputField(structured.target, structured.schema);
+  }
 
   return new Promise((resolve, reject) => {
     const abortController = new AbortController();
@@ -326,7 +345,9 @@ async function generateViaGenerator(prompt: string, profileId: string, limits: T
             requestId: _requestId,
             durationMs,
             outputChars: 0,
-            responseMeta: extractResponseMeta(data),
+            responseMeta: structured
+              ? { ...extractResponseMeta(data), structuredOutput: structured.target }
+              : extractResponseMeta(data),
             timestamp: Date.now()
           };
           if (error) {
@@ -354,10 +375,21 @@ async function generateViaGenerator(prompt: string, profileId: string, limits: T
   });
 }
 
+function resolveActiveRuntimeStructuredTarget(context: STContext): StructuredOutputTarget | null {
+  const chatSettings = context.chatCompletionSettings as Record<string, unknown> | undefined;
+  const textSettings = context.textCompletionSettings as Record<string, unknown> | undefined;
+  return resolveStructuredOutputTarget({
+    mainApi: String(context.mainApi ?? "").trim(),
+    chatCompletionSource: String(chatSettings?.chat_completion_source ?? ""),
+    textCompletionType: String(textSettings?.type ?? ""),
+  });
+}
+
 async function generateViaActiveRuntime(
   prompt: string,
   limits: TokenLimits,
   context: STContext,
+  jsonSchema?: JsonSchema | null,
 ): Promise<{ text: string; meta: GenerateRequestMeta }> {
   const promptChars = prompt.length;
   const maxTokens = limits.maxTokens;
@@ -367,8 +399,10 @@ async function generateViaActiveRuntime(
   try {
     let data: unknown;
     const mainApi = String(context.mainApi ?? "").trim();
+    const chatSettings = context.chatCompletionSettings as Record<string, unknown> | undefined;
+    const textSettings = context.textCompletionSettings as Record<string, unknown> | undefined;
+    const structuredTarget = jsonSchema ? resolveActiveRuntimeStructuredTarget(context) : null;
     if (mainApi === "openai") {
-      const chatSettings = context.chatCompletionSettings as Record<string, unknown> | undefined;
       const source = String(chatSettings?.chat_completion_source ?? "").trim();
       if (!source) {
         throw new Error("Active chat completion source is not configured.");
@@ -382,9 +416,11 @@ async function generateViaActiveRuntime(
       if (limits.truncationLength) {
         requestData.truncation_length = limits.truncationLength;
       }
+      if (structuredTarget === "chat_completion" && jsonSchema) {
+        requestData.json_schema = buildStructuredOutputField(structuredTarget, jsonSchema);
+      }
       data = await context.ChatCompletionService?.processRequest?.(requestData, {}, true, abortController.signal);
     } else if (mainApi === "textgenerationwebui") {
-      const textSettings = context.textCompletionSettings as Record<string, unknown> | undefined;
       const apiType = String(textSettings?.type ?? "").trim();
       if (!apiType) {
         throw new Error("Active text completion API type is not configured.");
@@ -402,6 +438,9 @@ async function generateViaActiveRuntime(
       if (limits.truncationLength) {
         requestData.truncation_length = limits.truncationLength;
       }
+      if (structuredTarget === "text_completion" && jsonSchema) {
+        requestData.json_schema = buildStructuredOutputField(structuredTarget, jsonSchema);
+      }
       data = await context.TextCompletionService?.processRequest?.(requestData, {}, true, abortController.signal);
     } else {
       throw new Error(`Unsupported active API for profile-less extraction: ${mainApi || "unknown"}.`);
@@ -424,6 +463,7 @@ async function generateViaActiveRuntime(
         responseMeta: {
           mode: "active_runtime_fallback",
           mainApi,
+          ...(structuredTarget ? { structuredOutput: structuredTarget } : {}),
         },
         timestamp: Date.now(),
       },
@@ -461,22 +501,61 @@ async function generateViaActiveRuntime(
   }
 }
 
-export async function generateJson(
+async function retryWithoutSchemaOnRejection<T>(withSchema: () => Promise<T>, withoutSchema: () => Promise<T>): Promise<T> {
+  try {
+    return await withSchema();
+  } catch (error) {
+    // Backends that advertise schema support may still reject a given schema; retry once as plain JSON.
+    if (!isStructuredOutputRejection(error)) throw error;
+    return withoutSchema();
+  }
+}
+
+async function generateViaActiveRuntimeWithSchema(
   prompt: string,
+  limits: TokenLimits,
+  context: STContext,
   settings: BetterSimTrackerSettings,
+  jsonSchema?: JsonSchema | null,
 ): Promise<{ text: string; meta: GenerateRequestMeta }> {
-  const context = getContext();
-  const profileId = resolveConnectionProfileId(settings, context);
-  const profileLookupId = profileId ?? "__active_runtime__";
-  const limits = resolveProfileLimits(profileLookupId, context, settings);
-
-  if (!context) {
-    throw new Error("SillyTavern context is unavailable.");
+  if (!settings.structuredOutput || !jsonSchema || !resolveActiveRuntimeStructuredTarget(context)) {
+    return generateViaActiveRuntime(prompt, limits, context);
   }
+  return retryWithoutSchemaOnRejection(
+    () => generateViaActiveRuntime(prompt, limits, context, jsonSchema),
+    () => generateViaActiveRuntime(prompt, limits, context),
+  );
+}
 
+async function generateViaGeneratorWithSchema(
+  prompt: string,
+  profileId: string,
+  limits: TokenLimits,
+  context: STContext,
+  settings: BetterSimTrackerSettings,
+  jsonSchema?: JsonSchema | null,
+): Promise<{ text: string; meta: GenerateRequestMeta }> {
+  const target = settings.structuredOutput && jsonSchema
+    ? resolveProfileStructuredOutputTarget(findConnectionProfile(profileId, context))
+    : null;
+  if (!target || !jsonSchema) return generateViaGenerator(prompt, profileId, limits);
+  return retryWithoutSchemaOnRejection(
+    () => generateViaGenerator(prompt, profileId, limits, { target, schema: jsonSchema }),
+    () => generateViaGenerator(prompt, profileId, limits),
+  );
+}
+
+async function generateUncached(
+  prompt: string,
+  settings: BetterSimTrackerSettings,
+  context: STContext,
+  profileId: string | null,
+  limits: TokenLimits,
+  jsonSchema?: JsonSchema | null,
+): Promise<{ text: string; meta: GenerateRequestMeta }> {
   if (profileId) {
     try {
-      return await generateViaGenerator(prompt, profileId, limits);
+      return await generateViaGeneratorWithSchema(prompt, profileId, limits, context, settings, jsonSchema);
     } catch (error) {
       const explicit = hasExplicitConnectionProfile(settings);
       const profileMissing = isProfileMissingError(error);
@@ -484,11 +563,117 @@ export async function generateJson(
       // - non-explicit ("active/default") profile mode: always retry through active runtime
       // - explicit profile mode: retry only when profile resolution is clearly invalid/missing
       if (explicit && !profileMissing) throw error;
-      return generateViaActiveRuntime(prompt, limits, context);
+      return generateViaActiveRuntimeWithSchema(prompt, limits, context, settings, jsonSchema);
     }
   }
 
-  return generateViaActiveRuntime(prompt, limits, context);
+  return generateViaActiveRuntimeWithSchema(prompt, limits, context, settings, jsonSchema);
+}
+
+export type GenerateJsonOptions = {
+  route?: ConnectionProfileRoute | null;
+  jsonSchema?: JsonSchema | null;
+  useCache?: boolean;
+};
+
+export type GenerateJson = (
+  prompt: string,
+  settings: BetterSimTrackerSettings,
+  options?: GenerateJsonOptions,
+) => Promise<{ text: string; meta: GenerateRequestMeta }>;
+
+export type CacheExtractionResponse = (
+  response: { text: string; meta: GenerateRequestMeta },
+  settings: BetterSimTrackerSettings,
+) => Promise<void>;
+
+function extractionCacheTtlMs(settings: BetterSimTrackerSettings): number {
+  return settings.extractionCacheTtlHours * 60 * 60 * 1000;
+}
+
+export async function generateJson(
+  prompt: string,
+  baseSettings: BetterSimTrackerSettings,
+  options: GenerateJsonOptions = {},
+): Promise<{ text: string; meta: GenerateRequestMeta }> {
+  const { route } = options;
+  const settings: BetterSimTrackerSettings = route
+    ? {
+        ...baseSettings,
+        connectionProfile: route.profileId || baseSettings.connectionProfile,
+        maxTokensOverride: route.maxTokens || baseSettings.maxTokensOverride,
+        truncationLengthOverride: route.truncationLength || baseSettings.truncationLengthOverride,
+      }
+    : baseSettings;
+  const context = getContext();
+  const profileId = resolveConnectionProfileId(settings, context);
+  const profileLookupId = profileId ?? "__active_runtime__";
+  const limits = resolveProfileLimits(profileLookupId, context, settings);
+
+  if (!context) {
+    throw new Error("SillyTavern context is unavailable.");
+  }
+
+  if (mockCompletionService) {
+    const mockContext: STContext = {
+      ...context,
+      mainApi: "openai",
+      chatCompletionSettings: { ...context.chatCompletionSettings, chat_completion_source: MOCK_COMPLETION_SOURCE },
+      ChatCompletionService: mockCompletionService,
+    };
+    const response = await generateViaActiveRuntime(prompt, limits, mockContext);
+    return { ...response, meta: { ...response.meta, profileId: MOCK_COMPLETION_SOURCE } };
+  }
+
+  if (!options.useCache) {
+    return generateUncached(prompt, settings, context, profileId, limits, options.jsonSchema);
+  }
+
+  const cacheKey = buildExtractionCacheKey({
+    prompt,
+    profileId: profileLookupId,
+    maxTokens: limits.maxTokens,
+    truncationLength: limits.truncationLength,
+    jsonSchema: settings.structuredOutput ? options.jsonSchema : null,
+  });
+  const startedAt = Date.now();
+  const cached = await readExtractionCache(cacheKey, extractionCacheTtlMs(settings));
+  if (cached) {
+    return {
+      text: cached,
+      meta: {
+        profileId: profileLookupId,
+        promptChars: prompt.length,
+        maxTokens: limits.maxTokens,
+        truncationLength: limits.truncationLength,
+        durationMs: Date.now() - startedAt,
+        outputChars: cached.length,
+        timestamp: Date.now(),
+        cacheHit: true,
+        cacheKey,
+      },
+    };
+  }
+  const response = await generateUncached(prompt, settings, context, profileId, limits, options.jsonSchema);
+  return { ...response, meta: { ...response.meta, cacheHit: false, cacheKey } };
+}
+
+// Only the extractor knows whether a raw output parsed with full coverage, so it decides what gets stored.
+export async function cacheExtractionResponse(
+  response: { text: string; meta: GenerateRequestMeta },
+  settings: BetterSimTrackerSettings,
+): Promise<void> {
+  const { cacheKey, cacheHit } = response.meta;
+  if (!cacheKey || cacheHit) return;
+  await writeExtractionCache(cacheKey, response.text, extractionCacheTtlMs(settings), settings.extractionCacheMaxEntries);
+}
+
+export function setMockCompletionBackend(service: MockCompletionService | null): void {
+  mockCompletionService = service;
+}
+
+export function getMockCompletionBackend(): MockCompletionService | null {
+  return mockCompletionService;
 }
 
 export function cancelActiveGenerations(): number {
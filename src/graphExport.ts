@@ -0,0 +1,131 @@
+import { escapeHtml } from "./ui";
+import { csvCell } from "./trackerHistoryExport";
+
+export type GraphExportLegendItem = {
+  label: string;
+  color: string;
+  value: number | null;
+};
+
+export type GraphExportPoint = {
+  messageIndex?: number;
+  timestamp: number;
+  storyTime?: string;
+};
+
+const EXPORT_HEADER_HEIGHT = 44;
+const EXPORT_LEGEND_ROW_HEIGHT = 20;
+const EXPORT_BACKGROUND = "#121621";
+const EXPORT_CHART_BACKGROUND = "#0d1220";
+
+function formatExportNumber(value: number | undefined): string {
+  if (value === undefined || !Number.isFinite(value)) return "";
+  return String(Number(value.toFixed(2)));
+}
+
+export function buildGraphCsv(input: {
+  points: GraphExportPoint[];
+  series: Array<{ label: string; values: number[] }>;
+  lanes?: Array<{ label: string; values: string[] }>;
+}): string {
+  const lanes = input.lanes ?? [];
+  const hasStoryTime = input.points.some(point => Boolean(point.storyTime));
+  const header = [
+    "point",
+    "message_index",
+    "timestamp",
+    ...(hasStoryTime ? ["story_time"] : []),
+    ...input.series.map(series => series.label),
+    ...lanes.map(lane => lane.label),
+  ];
+  const rows = input.points.map((point, index) => [
+    index + 1,
+    point.messageIndex ?? "",
+    point.timestamp > 0 ? new Date(point.timestamp).toISOString() : "",
+    ...(hasStoryTime ? [point.storyTime ?? ""] : []),
+    ...input.series.map(series => formatExportNumber(series.values[index])),
+    ...lanes.map(lane => lane.values[index] ?? ""),
+  ].map(csvCell).join(","));
+  return [header.map(csvCell).join(","), ...rows].join("\n");
+}
+
+function layoutLegend(items: GraphExportLegendItem[], width: number): Array<GraphExportLegendItem & { x: number; row: number }> {
+  const placed: Array<GraphExportLegendItem & { x: number; row: number }> = [];
+  let x = 24;
+  let row = 0;
+  for (const item of items) {
+    const text = item.value === null ? item.label : `${item.label} ${Math.round(item.value)}`;
+    const itemWidth = 22 + text.length * 6.4;
+    if (x > 24 && x + itemWidth > width - 24) {
+      row += 1;
+      x = 24;
+    }
+    placed.push({ ...item, x, row });
+    x += itemWidth + 14;
+  }
+  return placed;
+}
+
+export function buildGraphExportSvg(input: {
+  title: string;
+  subtitle?: string;
+  width: number;
+  chartHeight: number;
+  chartMarkup: string;
+  laneMarkup?: string;
+  laneHeight?: number;
+  legend: GraphExportLegendItem[];
+}): { svg: string; width: number; height: number } {
+  const laneHeight = input.laneMarkup ? Math.max(0, input.laneHeight ?? 0) : 0;
+  const legend = layoutLegend(input.legend, input.width);
+  const legendRows = legend.length ? Math.max(...legend.map(item => item.row)) + 1 : 0;
+  const chartTop = EXPORT_HEADER_HEIGHT;
+  const laneTop = chartTop + input.chartHeight + 6;
+  const legendTop = laneTop + (laneHeight ? laneHeight + 10 : 4);
+  const height = legendTop + legendRows * EXPORT_LEGEND_ROW_HEIGHT + 12;
+  const legendMarkup = legend.map(item => {
+    const y = legendTop + item.row * EXPORT_LEGEND_ROW_HEIGHT + 10;
+    const text = item.value === null ? item.label : `${item.label} ${Math.round(item.value)}`;
+    return `<circle cx="${item.x + 5}" cy="${y - 4}" r="4.5" fill="${escapeHtml(item.color)}"></circle><text x="${item.x + 14}" y="${y}" fill="rgba(255,255,255,0.85)" font-size="11">${escapeHtml(text)}</text>`;
+  }).join("");
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${input.width}" height="${height}" viewBox="0 0 ${input.width} ${height}" font-family="Segoe UI, Roboto, Helvetica, Arial, sans-serif">`,
+    `<rect x="0" y="0" width="${input.width}" height="${height}" fill="${EXPORT_BACKGROUND}"></rect>`,
+    `<text x="24" y="22" fill="#ffffff" font-size="15" font-weight="600">${escapeHtml(input.title)}</text>`,
+    input.subtitle ? `<text x="24" y="37" fill="rgba(255,255,255,0.6)" font-size="10">${escapeHtml(input.subtitle)}</text>` : "",
+    `<g transform="translate(0 ${chartTop})"><rect x="0" y="0" width="${input.width}" height="${input.chartHeight}" rx="10" fill="${EXPORT_CHART_BACKGROUND}"></rect>${input.chartMarkup}</g>`,
+    laneHeight
+      ? `<g transform="translate(0 ${laneTop})"><rect x="0" y="0" width="${input.width}" height="${laneHeight}" rx="10" fill="${EXPORT_CHART_BACKGROUND}"></rect>${input.laneMarkup}</g>`
+      : "",
+    legendMarkup,
+    "</svg>",
+  ].join("");
+  return { svg, width: input.width, height };
+}
+
+export function rasterizeSvg(svg: string, width: number, height: number, scale = 2): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(width * scale);
+      canvas.height = Math.round(height * scale);
+      const ctx = canvas.getContext("2d");
+      if (!ctx) {
+        reject(new Error("Canvas is not available."));
+        return;
+      }
+      ctx.scale(scale, scale);
+      ctx.drawImage(image, 0, 0, width, height);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("PNG encoding failed."))), "image/png");
+    };
+    image.onerror = () => reject(new Error("Could not render graph SVG."));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
+}
+
+export function graphExportFileName(title: string, extension: string, now = new Date()): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 60) || "graph";
+  const stamp = now.toISOString().replace(/[:.]/g, "-");
+  return `bettersimtracker-graph-${slug}-${stamp}.${extension}`;
+}
@@ -0,0 +1,125 @@
+import { GLOBAL_TRACKER_KEY } from "./constants";
+import { normalizeDateTimeValue } from "./dateTime";
+import type { TrackerData } from "./types";
+
+export type GraphLaneKind = "enum" | "boolean" | "array" | "mood";
+export type GraphLaneValue = string | boolean | string[];
+
+export type GraphLaneDefinition = {
+  id: string;
+  label: string;
+  kind: GraphLaneKind;
+  globalScope: boolean;
+  color?: string;
+  booleanTrueLabel?: string;
+  booleanFalseLabel?: string;
+};
+
+export type GraphLaneSegment = {
+  start: number;
+  end: number;
+  value: GraphLaneValue;
+};
+
+function readCustomValue(entry: TrackerData, statId: string, character: string, globalScope: boolean): unknown {
+  const ownerKey = globalScope ? GLOBAL_TRACKER_KEY : character;
+  if (entry.clearedCustomNonNumericStatistics?.[statId]?.[ownerKey]) return undefined;
+  const byOwner = entry.customNonNumericStatistics?.[statId];
+  if (!byOwner) return undefined;
+  return globalScope ? (byOwner[GLOBAL_TRACKER_KEY] ?? byOwner[character]) : byOwner[character];
+}
+
+export function readLaneValue(entry: TrackerData, def: GraphLaneDefinition, character: string): GraphLaneValue | undefined {
+  if (def.kind === "mood") {
+    if (entry.clearedStatistics?.mood?.[character]) return undefined;
+    const mood = String(entry.statistics.mood?.[character] ?? "").trim();
+    return mood || undefined;
+  }
+  const raw = readCustomValue(entry, def.id, character, def.globalScope);
+  if (def.kind === "boolean") return typeof raw === "boolean" ? raw : undefined;
+  if (def.kind === "array") {
+    return Array.isArray(raw) ? raw.map(item => String(item ?? "").trim()).filter(Boolean) : undefined;
+  }
+  const text = typeof raw === "string" ? raw.trim() : "";
+  return text || undefined;
+}
+
+export function buildLaneValues(
+  timeline: TrackerData[],
+  character: string,
+  def: GraphLaneDefinition,
+): Array<GraphLaneValue | undefined> {
+  let carry: GraphLaneValue | undefined;
+  return timeline.map(entry => {
+    const value = readLaneValue(entry, def, character);
+    if (value !== undefined) carry = value;
+    return carry;
+  });
+}
+
+function laneValueKey(value: GraphLaneValue): string {
+  if (Array.isArray(value)) return `a:${value.map(item => item.toLowerCase()).join("\u0000")}`;
+  return typeof value === "boolean" ? `b:${value}` : `s:${value.toLowerCase()}`;
+}
+
+export function buildLaneSegments(values: Array<GraphLaneValue | undefined>): GraphLaneSegment[] {
+  const segments: GraphLaneSegment[] = [];
+  values.forEach((value, index) => {
+    if (value === undefined) return;
+    const last = segments.at(-1);
+    if (last && last.end === index - 1 && laneValueKey(last.value) === laneValueKey(value)) {
+      last.end = index;
+      return;
+    }
+    segments.push({ start: index, end: index, value });
+  });
+  return segments;
+}
+
+export function formatLaneValue(def: GraphLaneDefinition, value: GraphLaneValue): string {
+  if (typeof value === "boolean") {
+    return value ? (def.booleanTrueLabel || "enabled") : (def.booleanFalseLabel || "disabled");
+  }
+  if (Array.isArray(value)) {
+    const count = `${value.length} item${value.length === 1 ? "" : "s"}`;
+    return value.length ? `${count}: ${value.join(", ")}` : count;
+  }
+  return value;
+}
+
+export function laneValueColor(value: string): string {
+  let hash = 0;
+  for (const char of value.trim().toLowerCase()) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return `hsl(${hash % 360}, 55%, 52%)`;
+}
+
+export function parseStoryTime(raw: unknown): number | null {
+  const normalized = normalizeDateTimeValue(raw);
+  const match = normalized.match(/^(\d{4})-(\d{2})-(\d{2}) (\d{2}):(\d{2})$/);
+  if (!match) return null;
+  return Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]), Number(match[4]), Number(match[5]));
+}
+
+export function buildStoryTimeline(
+  timeline: TrackerData[],
+  character: string,
+  stat: { id: string; globalScope: boolean },
+): Array<{ entry: TrackerData; storyTime: number }> {
+  let carry: number | null = null;
+  const out: Array<{ entry: TrackerData; storyTime: number }> = [];
+  for (const entry of timeline) {
+    const parsed = parseStoryTime(readCustomValue(entry, stat.id, character, stat.globalScope));
+    if (parsed !== null) carry = parsed;
+    if (carry !== null) out.push({ entry, storyTime: carry });
+  }
+  return out
+    .map((item, order) => ({ ...item, order }))
+    .sort((a, b) => a.storyTime - b.storyTime || a.order - b.order)
+    .map(({ entry, storyTime }) => ({ entry, storyTime }));
+}
+
+export function formatStoryTime(value: number): string {
+  return new Date(value).toISOString().slice(0, 16).replace("T", " ");
+}
@@ -1,36 +1,81 @@
 import type { BetterSimTrackerSettings, TrackerData } from "./types";
+import { GLOBAL_TRACKER_KEY, USER_TRACKER_KEY } from "./constants";
 import {
+  downloadBlobFile,
+  downloadTextFile,
   ensureStyles,
+  escapeHtml,
+  getNonNumericStatDefinitions,
+  getNumericStatDefinitions,
   getNumericStatsForHistory,
+  resolveOwnerGraphColor,
+  scrollToChatMessage,
 } from "./ui";
-import { buildStatSeries, hasNumericSnapshot } from "./graphTimeline";
+import { buildStatSeries, collectGraphOwners, hasNumericSnapshot } from "./graphTimeline";
+import {
+  buildLaneSegments,
+  buildLaneValues,
+  buildStoryTimeline,
+  formatLaneValue,
+  formatStoryTime,
+  laneValueColor,
+  readLaneValue,
+  type GraphLaneDefinition,
+} from "./graphLanes";
 import {
   buildLastPointCircle,
   buildPointCircles,
   buildPolyline,
+  buildTimelineXPositions,
   downsampleTimeline,
   graphSeriesDomId,
   smoothSeries,
 } from "./graphSeries";
 import {
+  getGraphCompareStatPreference,
+  getGraphDragModePreference,
+  getGraphModePreference,
   getGraphSmoothingPreference,
   getGraphWindowPreference,
+  getGraphXAxisPreference,
+  setGraphCompareStatPreference,
+  setGraphDragModePreference,
+  setGraphModePreference,
   setGraphSmoothingPreference,
   setGraphWindowPreference,
+  setGraphXAxisPreference,
   type GraphWindow,
 } from "./graphPreferences";
+import { clampGraphRange, panGraphRange, zoomGraphRange, type GraphRange } from "./graphViewport";
+import { buildGraphCsv, buildGraphExportSvg, graphExportFileName, rasterizeSvg } from "./graphExport";
 import { closeEditStatsModal } from "./editStatsModal";
+import { getBuiltInStatDefinition } from "./statRegistry";
+import { buildRelationshipMilestones, type MilestoneHistoryEntry } from "./milestones";
+
+type GraphLine = {
+  key: string;
+  label: string;
+  color: string;
+  points: number[];
+  hidden: boolean;
+};
+
+const hiddenCompareOwners = new Set<string>();
+let graphZoom: GraphRange | null = null;
+const LANE_ROW_HEIGHT = 24;
 
 export function openGraphModal(input: {
   character: string;
   history: TrackerData[];
+  historyEntries?: MilestoneHistoryEntry[];
   accentColor: string;
   settings: BetterSimTrackerSettings;
+  userName?: string;
   debug?: boolean;
 }): void {
   ensureStyles();
   closeEditStatsModal();
-  closeGraphModal();
+  removeGraphModal();
 
   const backdrop = document.createElement("div");
   backdrop.className = "bst-graph-backdrop";
@@ -40,56 +85,163 @@ export function openGraphModal(input: {
   const modal = document.createElement("div");
   modal.className = "bst-graph-modal";
 
+  const compareStats = getNumericStatDefinitions(input.settings)
+    .filter(def => def.showInGraph && (def.trackCharacters || def.trackUser));
+  const mode = getGraphModePreference() === "compare" && compareStats.length ? "compare" : "owner";
+  const compareStatPreference = getGraphCompareStatPreference();
+  const compareStat = compareStats.find(def => def.key === compareStatPreference) ?? compareStats[0] ?? null;
   const enabledNumeric = getNumericStatsForHistory(input.history, input.character, input.settings);
-  const timeline = [...input.history]
+  const nonNumericDefs = getNonNumericStatDefinitions(input.settings);
+  const laneDefs: GraphLaneDefinition[] = mode === "owner"
+    ? [
+      ...(input.settings.trackMood ? [{ id: "mood", label: "Mood", kind: "mood" as const, globalScope: false }] : []),
+      ...nonNumericDefs
+        .filter(def => def.trackCharacters && (def.kind === "enum_single" || def.kind === "boolean" || def.kind === "array"))
+        .map(def => ({
+          id: def.id,
+          label: def.label,
+          kind: def.kind === "enum_single" ? "enum" as const : def.kind as "boolean" | "array",
+          globalScope: def.globalScope,
+          color: def.color,
+          booleanTrueLabel: def.booleanTrueLabel,
+          booleanFalseLabel: def.booleanFalseLabel,
+        })),
+    ]
+    : [];
+  const dateTimeStats = nonNumericDefs.filter(def => def.kind === "date_time");
+  const xAxisPreference = getGraphXAxisPreference();
+  const axisStat = dateTimeStats.find(def => def.id === xAxisPreference) ?? null;
+  const sortedHistory = [...input.history]
     .filter(item => Number.isFinite(item.timestamp))
-    .sort((a, b) => a.timestamp - b.timestamp)
-    .filter(item => hasNumericSnapshot(item, input.character, enabledNumeric));
+    .sort((a, b) => a.timestamp - b.timestamp);
+  const compareOwners = mode === "compare" && compareStat ? collectGraphOwners(sortedHistory, compareStat.key) : [];
+  const compareStatDef = { key: compareStat?.key ?? "", defaultValue: compareStat?.defaultValue ?? 50, globalScope: false };
+  const timeline = mode === "compare"
+    ? sortedHistory.filter(item => compareOwners.some(owner => hasNumericSnapshot(item, owner, [compareStatDef])))
+    : sortedHistory.filter(item =>
+      hasNumericSnapshot(item, input.character, enabledNumeric)
+      || laneDefs.some(def => readLaneValue(item, def, input.character) !== undefined));
   const rawSnapshotCount = timeline.length;
   const windowPreference = getGraphWindowPreference();
   const windowSize = windowPreference === "all" ? null : Number(windowPreference);
   const windowedTimeline = windowSize ? timeline.slice(-windowSize) : timeline;
-  const renderedTimeline = downsampleTimeline(windowedTimeline, 140);
-  const points: Record<string, number[]> = {};
-  for (const def of enabledNumeric) {
-    points[def.key] = buildStatSeries(renderedTimeline, input.character, def);
-  }
+  const storyTimeline = axisStat ? buildStoryTimeline(windowedTimeline, input.character, axisStat) : null;
+  const storyTimeByEntry = new Map(storyTimeline?.map(item => [item.entry, item.storyTime]) ?? []);
+  const baseTimeline = storyTimeline ? storyTimeline.map(item => item.entry) : windowedTimeline;
+  const zoom = clampGraphRange(graphZoom, baseTimeline.length);
+  graphZoom = zoom;
+  const renderedTimeline = downsampleTimeline(zoom ? baseTimeline.slice(zoom.start, zoom.end + 1) : baseTimeline, 140);
+  const baseIndexByEntry = new Map(baseTimeline.map((entry, index) => [entry, index]));
+  const messageIndexByEntry = new Map(input.historyEntries?.map(item => [item.data, item.messageIndex]) ?? []);
+  const dragMode = getGraphDragModePreference();
+  const storyTimes = storyTimeline ? renderedTimeline.map(entry => storyTimeByEntry.get(entry) ?? 0) : null;
+
+  const connection = getBuiltInStatDefinition(input.settings, "connection");
+  const connectionColor = (connection.recolored ? connection.color : input.accentColor) || connection.color || "#9cff8f";
+  const ownerLabel = (owner: string): string => {
+    if (owner === USER_TRACKER_KEY) return input.userName?.trim() || "User";
+    if (owner === GLOBAL_TRACKER_KEY) return input.settings.sceneCardTitle.trim() || "Scene";
+    return owner;
+  };
+  const lines: GraphLine[] = mode === "compare"
+    ? compareOwners.map(owner => ({
+      key: owner,
+      label: ownerLabel(owner),
+      color: resolveOwnerGraphColor(input.settings, owner),
+      points: buildStatSeries(renderedTimeline, owner, compareStatDef),
+      hidden: hiddenCompareOwners.has(owner),
+    }))
+    : enabledNumeric.map(def => ({
+      key: def.key,
+      label: def.label,
+      color: def.key === "connection" ? connectionColor : def.color,
+      points: buildStatSeries(renderedTimeline, input.character, def),
+      hidden: false,
+    }));
+  const visibleLines = lines.filter(line => !line.hidden);
 
   const width = 780;
   const height = 320;
   let smoothing = getGraphSmoothingPreference();
-  const connectionColor = input.accentColor || "#9cff8f";
-  const buildSeriesFrom = (seriesSource: Record<string, number[]>) => {
-    const series: Record<string, number[]> = {};
-    for (const def of enabledNumeric) {
-      const values = seriesSource[def.key] ?? [];
-      series[def.key] = smoothing ? smoothSeries(values, 3) : values;
-    }
-    return series;
-  };
-  const lineSeries = buildSeriesFrom(points);
-  const lineMarkup = enabledNumeric.map(def => {
-    const color = def.key === "connection" ? connectionColor : def.color;
-    const line = buildPolyline(lineSeries[def.key] ?? [], width, height);
-    return line ? `<polyline points="${line}" fill="none" stroke="${color}" stroke-width="2.5"></polyline>` : "";
-  }).join("");
-  const dotsMarkup = enabledNumeric.map(def => {
-    const color = def.key === "connection" ? connectionColor : def.color;
-    return buildPointCircles(points[def.key] ?? [], color, def.key, width, height);
+  const xs = buildTimelineXPositions(renderedTimeline.length, width, 24, storyTimes ?? undefined);
+  const lineMarkup = visibleLines.map(line => {
+    const polyline = buildPolyline(smoothing ? smoothSeries(line.points, 3) : line.points, width, height, 24, xs);
+    return polyline ? `<polyline points="${polyline}" fill="none" stroke="${line.color}" stroke-width="2.5"></polyline>` : "";
   }).join("");
-  const lastPointMarkup = enabledNumeric.map(def => {
-    const color = def.key === "connection" ? connectionColor : def.color;
-    return buildLastPointCircle(points[def.key] ?? [], color, width, height);
+  const dotsMarkup = visibleLines.map(line => buildPointCircles(line.points, line.color, line.key, width, height, 24, xs)).join("");
+  const lastPointMarkup = visibleLines.map(line => buildLastPointCircle(line.points, line.color, width, height, 24, xs)).join("");
+  const lanes = laneDefs
+    .map(def => ({ def, values: buildLaneValues(renderedTimeline, input.character, def) }))
+    .filter(lane => lane.values.some(value => value !== undefined));
+  const segmentBounds = (start: number, end: number): { x: number; w: number } => {
+    const left = start === 0 ? 24 : ((xs[start - 1] ?? 24) + (xs[start] ?? 24)) / 2;
+    const right = end === xs.length - 1 ? width - 24 : ((xs[end] ?? width - 24) + (xs[end + 1] ?? width - 24)) / 2;
+    return { x: Math.min(left, right), w: Math.max(1.5, Math.abs(right - left)) };
+  };
+  const laneHeight = lanes.length * LANE_ROW_HEIGHT + 6;
+  const laneMarkup = lanes.map((lane, laneIndex) => {
+    const top = laneIndex * LANE_ROW_HEIGHT + 4;
+    const maxItems = lane.def.kind === "array"
+      ? Math.max(1, ...lane.values.map(value => (Array.isArray(value) ? value.length : 0)))
+      : 1;
+    const segments = buildLaneSegments(lane.values).map(segment => {
+      const { x, w } = segmentBounds(segment.start, segment.end);
+      const label = formatLaneValue(lane.def, segment.value);
+      let fill = lane.def.color || "#8fa6ff";
+      let opacity = 0.85;
+      if (lane.def.kind === "enum" || lane.def.kind === "mood") {
+        fill = laneValueColor(String(segment.value));
+      } else if (lane.def.kind === "boolean") {
+        opacity = segment.value ? 0.85 : 0.12;
+      } else if (Array.isArray(segment.value)) {
+        opacity = segment.value.length ? 0.25 + 0.65 * (segment.value.length / maxItems) : 0.08;
+      }
+      const text = lane.def.kind === "boolean" || lane.def.kind === "array"
+        ? (Array.isArray(segment.value) ? String(segment.value.length) : "")
+        : String(segment.value);
+      const showText = text && w >= text.length * 5.5 + 6;
+      return `<g><title>${escapeHtml(`${lane.def.label}: ${label}`)}</title><rect x="${x}" y="${top + 10}" width="${w}" height="11" rx="2" fill="${fill}" fill-opacity="${opacity}"></rect>${showText ? `<text x="${x + 3}" y="${top + 19}" fill="#fff" font-size="8.5">${escapeHtml(text)}</text>` : ""}</g>`;
+    }).join("");
+    return `<text x="24" y="${top + 7}" fill="rgba(255,255,255,0.72)" font-size="9">${escapeHtml(lane.def.label)}</text>${segments}`;
   }).join("");
   const latest: Record<string, number> = {};
-  for (const def of enabledNumeric) {
-    latest[def.key] = points[def.key]?.at(-1) ?? 0;
+  for (const line of lines) {
+    latest[line.key] = line.points.at(-1) ?? 0;
   }
-  const snapshotCount = enabledNumeric.length ? (points[enabledNumeric[0].key]?.length ?? 0) : 0;
+  const snapshotCount = renderedTimeline.length;
+  const milestones = mode === "owner" && input.historyEntries
+    ? buildRelationshipMilestones({
+      entries: input.historyEntries,
+      character: input.character,
+      numericStats: enabledNumeric,
+      enumStats: getNonNumericStatDefinitions(input.settings)
+        .filter(def => def.kind === "enum_single" && def.trackCharacters),
+      includeMood: input.settings.trackMood,
+    })
+    : null;
+  const milestoneMarkup = milestones
+    ? `
+    <div class="bst-graph-milestones">
+      <div class="bst-graph-milestones-head">
+        <div class="bst-graph-milestones-title">Milestones</div>
+        <div class="bst-graph-milestones-status" data-bst-row="milestoneStatus">${milestones.length ? "Click a milestone to jump to its message." : ""}</div>
+      </div>
+      ${milestones.length
+        ? `<div class="bst-graph-milestone-list">${milestones.map(item => `
+          <button type="button" class="bst-graph-milestone" data-action="jump-milestone" data-message-index="${item.messageIndex}" title="Jump to message #${item.messageIndex}">
+            <span class="bst-graph-milestone-index">#${item.messageIndex}</span>
+            <span class="bst-graph-milestone-title">${escapeHtml(item.title)}</span>
+            <span class="bst-graph-milestone-detail">${escapeHtml(item.detail)}</span>
+          </button>`).join("")}</div>`
+        : `<div class="bst-graph-milestones-empty">No milestones yet. They appear as tracked stats move across the chat.</div>`}
+    </div>`
+    : "";
 
   if (input.debug) {
     console.log("[BetterSimTracker] graph-open", {
       character: input.character,
+      mode,
+      compareStat: mode === "compare" ? compareStat?.key : undefined,
       snapshotCount,
       rawSnapshotCount,
       windowPreference,
@@ -97,12 +249,68 @@ export function openGraphModal(input: {
     });
   }
 
+  const axisMarkup = `
+      <line x1="24" y1="${height - 24 - ((height - 48) * 0.25)}" x2="${width - 24}" y2="${height - 24 - ((height - 48) * 0.25)}" stroke="rgba(255,255,255,0.08)" stroke-width="1"></line>
+      <line x1="24" y1="${height - 24 - ((height - 48) * 0.5)}" x2="${width - 24}" y2="${height - 24 - ((height - 48) * 0.5)}" stroke="rgba(255,255,255,0.08)" stroke-width="1"></line>
+      <line x1="24" y1="${height - 24 - ((height - 48) * 0.75)}" x2="${width - 24}" y2="${height - 24 - ((height - 48) * 0.75)}" stroke="rgba(255,255,255,0.08)" stroke-width="1"></line>
+      <line x1="24" y1="${height - 24}" x2="${width - 24}" y2="${height - 24}" stroke="rgba(255,255,255,0.18)" stroke-width="1"></line>
+      <line x1="24" y1="24" x2="24" y2="${height - 24}" stroke="rgba(255,255,255,0.18)" stroke-width="1"></line>
+      <text x="8" y="${height - 24}" fill="rgba(255,255,255,0.75)" font-size="10">0</text>
+      <text x="4" y="${height - 24 - ((height - 48) * 0.25)}" fill="rgba(255,255,255,0.75)" font-size="10">25</text>
+      <text x="4" y="${height - 24 - ((height - 48) * 0.5)}" fill="rgba(255,255,255,0.75)" font-size="10">50</text>
+      <text x="4" y="${height - 24 - ((height - 48) * 0.75)}" fill="rgba(255,255,255,0.75)" font-size="10">75</text>
+      <text x="2" y="28" fill="rgba(255,255,255,0.75)" font-size="10">100</text>
+      <text x="${width - 24}" y="14" fill="rgba(255,255,255,0.72)" font-size="10" text-anchor="end">Y: ${mode === "compare" && compareStat ? `${escapeHtml(compareStat.label)} %` : "Relationship %"}</text>
+      ${storyTimes?.length
+        ? `<text x="24" y="${height - 8}" fill="rgba(255,255,255,0.72)" font-size="10">${formatStoryTime(Math.min(...storyTimes))}</text>
+      <text x="${width - 24}" y="${height - 8}" fill="rgba(255,255,255,0.72)" font-size="10" text-anchor="end">${formatStoryTime(Math.max(...storyTimes))}</text>`
+        : `<text x="24" y="${height - 8}" fill="rgba(255,255,255,0.72)" font-size="10">1</text>
+      <text x="${Math.round(width / 2)}" y="${height - 8}" fill="rgba(255,255,255,0.72)" font-size="10" text-anchor="middle">${Math.max(1, Math.ceil(snapshotCount / 2))}</text>
+      <text x="${width - 24}" y="${height - 8}" fill="rgba(255,255,255,0.72)" font-size="10" text-anchor="end">${Math.max(1, snapshotCount)}</text>`}
+      <text x="${width - 24}" y="26" fill="rgba(255,255,255,0.72)" font-size="10" text-anchor="end">X: ${axisStat ? escapeHtml(axisStat.label) : "Chat Timeline"}</text>
+  `;
+  const title = mode === "compare" && compareStat
+    ? `${escapeHtml(compareStat.label)} Comparison`
+    : `${input.character} Relationship Trend`;
+  const legendMarkup = mode === "compare"
+    ? (lines.length
+      ? lines.map(line => {
+          const value = Math.round(latest[line.key] ?? 0);
+          return `<button type="button" class="bst-graph-legend-toggle${line.hidden ? " is-hidden" : ""}" data-action="toggle-owner" data-owner="${escapeHtml(line.key)}" title="${line.hidden ? "Show" : "Hide"} ${escapeHtml(line.label)}" aria-pressed="${line.hidden ? "false" : "true"}"><i class="bst-legend-dot" style="background:${line.color};"></i>${escapeHtml(line.label)} ${value}</button>`;
+        }).join("")
+      : `<span class="bst-graph-legend-empty">No owners have recorded values for this stat.</span>`)
+    : (lines.length
+      ? lines.map(line => `<span><i class="bst-legend-dot" style="background:${line.color};"></i>${line.label} ${Math.round(latest[line.key] ?? 0)}</span>`).join("")
+      : `<span class="bst-graph-legend-empty">No numeric stats recorded for this character.</span>`);
+
   modal.innerHTML = `
     <div class="bst-graph-top">
-      <div class="bst-graph-title">${input.character} Relationship Trend</div>
+      <div class="bst-graph-title">${title}</div>
       <button class="bst-btn bst-close-btn" data-action="close" title="Close graph" aria-label="Close graph">&times;</button>
     </div>
     <div class="bst-graph-controls">
+      <label class="bst-graph-toggle" title="Graph one character's stats or compare one stat across owners">
+        <span>Mode</span>
+        <select class="bst-graph-window-select${mode === "compare" ? " active" : ""}" data-action="mode">
+          <option value="owner" ${mode === "owner" ? "selected" : ""}>${escapeHtml(input.character)}</option>
+          <option value="compare" ${mode === "compare" ? "selected" : ""} ${compareStats.length ? "" : "disabled"}>Compare owners</option>
+        </select>
+      </label>
+      ${mode === "compare" ? `
+      <label class="bst-graph-toggle" title="Stat to compare">
+        <span>Stat</span>
+        <select class="bst-graph-window-select" data-action="compare-stat">
+          ${compareStats.map(def => `<option value="${escapeHtml(def.key)}" ${def.key === compareStat?.key ? "selected" : ""}>${escapeHtml(def.label)}</option>`).join("")}
+        </select>
+      </label>` : ""}
+      ${dateTimeStats.length ? `
+      <label class="bst-graph-toggle" title="Use message order or an in-story date/time stat as the X axis">
+        <span>X axis</span>
+        <select class="bst-graph-window-select${axisStat ? " active" : ""}" data-action="x-axis">
+          <option value="" ${axisStat ? "" : "selected"}>Message order</option>
+          ${dateTimeStats.map(def => `<option value="${escapeHtml(def.id)}" ${def.id === axisStat?.id ? "selected" : ""}>${escapeHtml(def.label)}</option>`).join("")}
+        </select>
+      </label>` : ""}
       <label class="bst-graph-toggle" title="Display history range">
         <span>History</span>
         <select class="bst-graph-window-select${windowPreference !== "all" ? " active" : ""}" data-action="window">
@@ -112,96 +320,140 @@ export function openGraphModal(input: {
           <option value="all" ${windowPreference === "all" ? "selected" : ""}>All</option>
         </select>
       </label>
+      <label class="bst-graph-toggle" title="Drag on the chart to zoom into a range or to pan a zoomed range (hold Shift to use the other action)">
+        <span>Drag</span>
+        <select class="bst-graph-window-select" data-action="drag-mode">
+          <option value="zoom" ${dragMode === "zoom" ? "selected" : ""}>Zoom</option>
+          <option value="pan" ${dragMode === "pan" ? "selected" : ""}>Pan</option>
+        </select>
+      </label>
+      ${zoom ? `<button type="button" class="bst-btn bst-graph-zoom-reset" data-action="reset-zoom" title="Show the full history range">Reset zoom (${zoom.start + 1}-${zoom.end + 1} of ${baseTimeline.length})</button>` : ""}
       <label class="bst-graph-toggle" title="Toggle smoothed graph lines">
         <input type="checkbox" data-action="toggle-smoothing" ${smoothing ? "checked" : ""}>
         <span class="bst-graph-toggle-switch"></span>
         <span>Smoothed</span>
       </label>
+      ${snapshotCount ? `
+      <span class="bst-graph-export" title="Download the displayed graph (current window, zoom, smoothing and visible series)">
+        <span>Download</span>
+        <button type="button" class="bst-btn" data-action="export-svg">SVG</button>
+        <button type="button" class="bst-btn" data-action="export-png">PNG</button>
+        <button type="button" class="bst-btn" data-action="export-csv">CSV</button>
+      </span>` : ""}
     </div>
     <div class="bst-graph-canvas">
     <svg class="bst-graph-svg" viewBox="0 0 ${width} ${height}" width="100%" height="320">
-      <line x1="24" y1="${height - 24 - ((height - 48) * 0.25)}" x2="${width - 24}" y2="${height - 24 - ((height - 48) * 0.25)}" stroke="rgba(255,255,255,0.08)" stroke-width="1"></line>
-      <line x1="24" y1="${height - 24 - ((height - 48) * 0.5)}" x2="${width - 24}" y2="${height - 24 - ((height - 48) * 0.5)}" stroke="rgba(255,255,255,0.08)" stroke-width="1"></line>
-      <line x1="24" y1="${height - 24 - ((height - 48) * 0.75)}" x2="${width - 24}" y2="${height - 24 - ((height - 48) * 0.75)}" stroke="rgba(255,255,255,0.08)" stroke-width="1"></line>
-      <line x1="24" y1="${height - 24}" x2="${width - 24}" y2="${height - 24}" stroke="rgba(255,255,255,0.18)" stroke-width="1"></line>
-      <line x1="24" y1="24" x2="24" y2="${height - 24}" stroke="rgba(255,255,255,0.18)" stroke-width="1"></line>
-      <text x="8" y="${height - 24}" fill="rgba(255,255,255,0.75)" font-size="10">0</text>
-      <text x="4" y="${height - 24 - ((height - 48) * 0.25)}" fill="rgba(255,255,255,0.75)" font-size="10">25</text>
-      <text x="4" y="${height - 24 - ((height - 48) * 0.5)}" fill="rgba(255,255,255,0.75)" font-size="10">50</text>
-      <text x="4" y="${height - 24 - ((height - 48) * 0.75)}" fill="rgba(255,255,255,0.75)" font-size="10">75</text>
-      <text x="2" y="28" fill="rgba(255,255,255,0.75)" font-size="10">100</text>
-      <text x="${width - 24}" y="14" fill="rgba(255,255,255,0.72)" font-size="10" text-anchor="end">Y: Relationship %</text>
-      <text x="24" y="${height - 8}" fill="rgba(255,255,255,0.72)" font-size="10">1</text>
-      <text x="${Math.round(width / 2)}" y="${height - 8}" fill="rgba(255,255,255,0.72)" font-size="10" text-anchor="middle">${Math.max(1, Math.ceil(snapshotCount / 2))}</text>
-      <text x="${width - 24}" y="${height - 8}" fill="rgba(255,255,255,0.72)" font-size="10" text-anchor="end">${Math.max(1, snapshotCount)}</text>
-      <text x="${width - 24}" y="26" fill="rgba(255,255,255,0.72)" font-size="10" text-anchor="end">X: Chat Timeline</text>
-      ${enabledNumeric.length ? lineMarkup : ""}
-      ${enabledNumeric.length ? dotsMarkup : ""}
-      ${enabledNumeric.length ? lastPointMarkup : ""}
+      ${axisMarkup}
+      <clipPath id="bst-graph-plot-clip"><rect x="24" y="0" width="${width - 48}" height="${height}"></rect></clipPath>
+      <g clip-path="url(#bst-graph-plot-clip)"><g id="bst-graph-plot">
+      ${lineMarkup}
+      ${dotsMarkup}
+      ${lastPointMarkup}
+      </g></g>
+      <rect id="bst-graph-brush" x="0" y="24" width="0" height="${height - 48}" fill="rgba(255,255,255,0.12)" stroke="rgba(255,255,255,0.35)" stroke-dasharray="4 3" opacity="0"></rect>
       <g id="bst-graph-hover" opacity="0">
         <line id="bst-graph-hover-line" x1="0" y1="24" x2="0" y2="${height - 24}" stroke="rgba(255,255,255,0.25)" stroke-width="1"></line>
-        ${enabledNumeric.map(def => {
-          const color = def.key === "connection" ? connectionColor : def.color;
-          return `<circle id="bst-graph-hover-${graphSeriesDomId(def.key)}" r="3.8" fill="${color}"></circle>`;
-        }).join("")}
+        <line id="bst-graph-hover-hline" x1="24" y1="0" x2="${width - 24}" y2="0" stroke="rgba(255,255,255,0.18)" stroke-width="1"></line>
+        ${visibleLines.map(line => `<circle id="bst-graph-hover-${graphSeriesDomId(line.key)}" r="3.8" fill="${line.color}"></circle>`).join("")}
       </g>
-      ${enabledNumeric.length === 0 && snapshotCount === 0
+      ${lines.length === 0 && snapshotCount === 0
         ? `<text x="${Math.round(width / 2)}" y="${Math.round(height / 2)}" fill="rgba(255,255,255,0.65)" font-size="13" text-anchor="middle">No numeric stats recorded</text>`
-        : enabledNumeric.length > 0 && snapshotCount === 0
+        : lines.length > 0 && snapshotCount === 0
           ? `<text x="${Math.round(width / 2)}" y="${Math.round(height / 2)}" fill="rgba(255,255,255,0.65)" font-size="13" text-anchor="middle">No tracker history yet</text>`
           : ""}
     </svg>
+    ${lanes.length ? `<svg class="bst-graph-lanes" viewBox="0 0 ${width} ${laneHeight}" width="100%" height="${laneHeight}" style="height:${laneHeight}px">${laneMarkup}</svg>` : ""}
     <div class="bst-graph-tooltip" id="bst-graph-tooltip"></div>
     </div>
+    <div class="bst-graph-hint" data-bst-row="graphStatus">${snapshotCount ? "Click a point to jump to its message. Double-click resets zoom." : ""}</div>
     <div class="bst-graph-legend">
-      ${enabledNumeric.length
-        ? enabledNumeric.map(def => {
-            const color = def.key === "connection" ? connectionColor : def.color;
-            const value = Math.round(latest[def.key] ?? 0);
-            return `<span><i class="bst-legend-dot" style="background:${color};"></i>${def.label} ${value}</span>`;
-          }).join("")
-        : `<span class="bst-graph-legend-empty">No numeric stats recorded for this character.</span>`}
+      ${legendMarkup}
     </div>
+    ${milestoneMarkup}
   `;
   document.body.appendChild(modal);
 
+  const reopen = (): void => {
+    removeGraphModal();
+    openGraphModal(input);
+  };
+  const showStatus = (text: string): void => {
+    const status = modal.querySelector('[data-bst-row="graphStatus"]');
+    if (status) status.textContent = text;
+  };
+  const jumpToSnapshot = (entry: TrackerData | undefined): void => {
+    const messageIndex = entry ? messageIndexByEntry.get(entry) : undefined;
+    if (messageIndex === undefined) return;
+    if (scrollToChatMessage(messageIndex)) {
+      closeGraphModal();
+      return;
+    }
+    showStatus(`Message #${messageIndex} is not loaded in the chat view. Load earlier messages and try again.`);
+  };
+
   const svg = modal.querySelector(".bst-graph-svg") as SVGSVGElement | null;
+  const plotGroup = modal.querySelector("#bst-graph-plot") as SVGGElement | null;
+  const brush = modal.querySelector("#bst-graph-brush") as SVGRectElement | null;
   const hoverGroup = modal.querySelector("#bst-graph-hover") as SVGGElement | null;
   const hoverLine = modal.querySelector("#bst-graph-hover-line") as SVGLineElement | null;
+  const hoverHLine = modal.querySelector("#bst-graph-hover-hline") as SVGLineElement | null;
   const hoverDots: Record<string, SVGCircleElement | null> = {};
-  for (const def of enabledNumeric) {
-    hoverDots[def.key] = modal.querySelector(`#bst-graph-hover-${graphSeriesDomId(def.key)}`) as SVGCircleElement | null;
+  for (const line of visibleLines) {
+    hoverDots[line.key] = modal.querySelector(`#bst-graph-hover-${graphSeriesDomId(line.key)}`) as SVGCircleElement | null;
   }
   const tooltip = modal.querySelector("#bst-graph-tooltip") as HTMLDivElement | null;
-  const pointCount = enabledNumeric.length ? (points[enabledNumeric[0].key]?.length ?? 0) : 0;
-  if (svg && hoverGroup && hoverLine && tooltip && pointCount > 0) {
+  const pointCount = snapshotCount;
+  if (svg && plotGroup && brush && hoverGroup && hoverLine && hoverHLine && tooltip && pointCount > 0) {
     const pad = 24;
     const drawableW = Math.max(1, width - pad * 2);
     const drawableH = Math.max(1, height - pad * 2);
-    const xFor = (idx: number): number =>
-      pad + (pointCount === 1 ? drawableW / 2 : (drawableW * idx) / (pointCount - 1));
     const yFor = (value: number): number => pad + ((100 - value) / 100) * drawableH;
-    const clampIndex = (idx: number): number => Math.max(0, Math.min(pointCount - 1, idx));
-    const updateHover = (clientX: number, clientY: number): void => {
+    const toView = (clientX: number, clientY: number): { x: number; y: number } => {
+      const ctm = svg.getScreenCTM();
+      if (ctm) return { x: (clientX - ctm.e) / ctm.a, y: (clientY - ctm.f) / ctm.d };
       const rect = svg.getBoundingClientRect();
-      const relX = clientX - rect.left;
-      const idx = clampIndex(Math.round(((relX - pad) / drawableW) * (pointCount - 1)));
-      const cx = xFor(idx);
+      return { x: clientX - rect.left, y: clientY - rect.top };
+    };
+    const nearestIndex = (viewX: number): number => {
+      let best = 0;
+      xs.forEach((x, idx) => {
+        if (Math.abs(x - viewX) < Math.abs((xs[best] ?? 0) - viewX)) best = idx;
+      });
+      return best;
+    };
+    const hideHover = (): void => {
+      hoverGroup.setAttribute("opacity", "0");
+      tooltip.classList.remove("visible");
+    };
+    const updateHover = (clientX: number, clientY: number): void => {
+      const view = toView(clientX, clientY);
+      const idx = nearestIndex(view.x);
+      const cx = xs[idx] ?? pad;
+      const entry = renderedTimeline[idx];
+      const messageIndex = entry ? messageIndexByEntry.get(entry) : undefined;
 
       hoverGroup.setAttribute("opacity", "1");
       hoverLine.setAttribute("x1", String(cx));
       hoverLine.setAttribute("x2", String(cx));
-      for (const def of enabledNumeric) {
-        const series = points[def.key] ?? [];
-        const value = series[idx] ?? 0;
-        hoverDots[def.key]?.setAttribute("cx", String(cx));
-        hoverDots[def.key]?.setAttribute("cy", String(yFor(value)));
+      const cy = String(Math.max(pad, Math.min(height - pad, view.y)));
+      hoverHLine.setAttribute("y1", cy);
+      hoverHLine.setAttribute("y2", cy);
+      for (const line of visibleLines) {
+        const value = line.points[idx] ?? 0;
+        hoverDots[line.key]?.setAttribute("cx", String(cx));
+        hoverDots[line.key]?.setAttribute("cy", String(yFor(value)));
       }
 
       tooltip.classList.add("visible");
       tooltip.innerHTML = `
-        <div><strong>Index:</strong> ${idx + 1}/${pointCount}</div>
-        ${enabledNumeric.map(def => `<div>${def.label}: ${Math.round((points[def.key]?.[idx] ?? 0))}</div>`).join("")}
+        <div><strong>Index:</strong> ${idx + 1}/${pointCount}${messageIndex !== undefined ? ` &middot; message #${messageIndex}` : ""}</div>
+        ${entry ? `<div><strong>Time:</strong> ${escapeHtml(new Date(entry.timestamp).toLocaleString())}</div>` : ""}
+        ${storyTimes && axisStat ? `<div><strong>${escapeHtml(axisStat.label)}:</strong> ${formatStoryTime(storyTimes[idx] ?? 0)}</div>` : ""}
+        ${visibleLines.map(line => `<div>${escapeHtml(line.label)}: ${Math.round(line.points[idx] ?? 0)}</div>`).join("")}
+        ${lanes.map(lane => {
+          const value = lane.values[idx];
+          return value === undefined ? "" : `<div>${escapeHtml(lane.def.label)}: ${escapeHtml(formatLaneValue(lane.def, value))}</div>`;
+        }).join("")}
       `;
       const canvas = modal.querySelector(".bst-graph-canvas") as HTMLElement;
       const canvasRect = canvas.getBoundingClientRect();
@@ -214,19 +466,182 @@ export function openGraphModal(input: {
       tooltip.style.left = `${left}px`;
       tooltip.style.top = `${top}px`;
     };
-    svg.addEventListener("mousemove", event => updateHover(event.clientX, event.clientY));
-    svg.addEventListener("mouseleave", () => {
-      hoverGroup.setAttribute("opacity", "0");
-      tooltip.classList.remove("visible");
+
+    let drag: { pointerId: number; startClientX: number; startX: number; action: "zoom" | "pan"; moved: boolean } | null = null;
+    const resetDragVisuals = (): void => {
+      brush.setAttribute("opacity", "0");
+      plotGroup.removeAttribute("transform");
+    };
+    svg.addEventListener("pointerdown", event => {
+      if (event.pointerType === "mouse" && event.button !== 0) return;
+      const inverted = event.shiftKey ? (dragMode === "zoom" ? "pan" : "zoom") : dragMode;
+      drag = {
+        pointerId: event.pointerId,
+        startClientX: event.clientX,
+        startX: toView(event.clientX, event.clientY).x,
+        action: inverted,
+        moved: false,
+      };
+      svg.setPointerCapture?.(event.pointerId);
+    });
+    svg.addEventListener("pointermove", event => {
+      updateHover(event.clientX, event.clientY);
+      if (!drag || drag.pointerId !== event.pointerId) return;
+      if (Math.abs(event.clientX - drag.startClientX) > 4) drag.moved = true;
+      if (!drag.moved) return;
+      const x = Math.max(pad, Math.min(width - pad, toView(event.clientX, event.clientY).x));
+      if (drag.action === "zoom") {
+        brush.setAttribute("opacity", "1");
+        brush.setAttribute("x", String(Math.min(drag.startX, x)));
+        brush.setAttribute("width", String(Math.abs(x - drag.startX)));
+      } else if (zoom) {
+        plotGroup.setAttribute("transform", `translate(${x - drag.startX} 0)`);
+      }
+    });
+    svg.addEventListener("pointerup", event => {
+      if (!drag || drag.pointerId !== event.pointerId) return;
+      const current = drag;
+      drag = null;
+      svg.releasePointerCapture?.(event.pointerId);
+      const endX = toView(event.clientX, event.clientY).x;
+      if (!current.moved) {
+        resetDragVisuals();
+        jumpToSnapshot(renderedTimeline[nearestIndex(endX)]);
+        return;
+      }
+      if (current.action === "zoom") {
+        const from = baseIndexByEntry.get(renderedTimeline[nearestIndex(current.startX)] as TrackerData) ?? 0;
+        const to = baseIndexByEntry.get(renderedTimeline[nearestIndex(endX)] as TrackerData) ?? 0;
+        const next = zoomGraphRange(zoom, baseTimeline.length, from, to);
+        resetDragVisuals();
+        if (next && (next.start !== zoom?.start || next.end !== zoom?.end)) {
+          graphZoom = next;
+          reopen();
+        }
+        return;
+      }
+      resetDragVisuals();
+      if (!zoom) return;
+      const visibleCount = zoom.end - zoom.start + 1;
+      const delta = -((endX - current.startX) / drawableW) * (visibleCount - 1);
+      const next = panGraphRange(zoom, baseTimeline.length, delta);
+      if (next && next.start !== zoom.start) {
+        graphZoom = next;
+        reopen();
+      }
+    });
+    svg.addEventListener("pointercancel", () => {
+      drag = null;
+      resetDragVisuals();
+      hideHover();
+    });
+    svg.addEventListener("pointerleave", event => {
+      if (!drag || drag.pointerId !== event.pointerId) hideHover();
+    });
+    svg.addEventListener("dblclick", () => {
+      if (!zoom) return;
+      graphZoom = null;
+      reopen();
     });
   }
 
   modal.querySelector('[data-action="close"]')?.addEventListener("click", () => closeGraphModal());
+  modal.querySelectorAll<HTMLButtonElement>('[data-action="jump-milestone"]').forEach(button => {
+    button.addEventListener("click", () => {
+      const messageIndex = Number(button.dataset.messageIndex);
+      if (!Number.isInteger(messageIndex)) return;
+      if (scrollToChatMessage(messageIndex)) {
+        closeGraphModal();
+        return;
+      }
+      const status = modal.querySelector('[data-bst-row="milestoneStatus"]');
+      if (status) status.textContent = `Message #${messageIndex} is not loaded in the chat view. Load earlier messages and try again.`;
+    });
+  });
+  modal.querySelectorAll<HTMLButtonElement>('[data-action="toggle-owner"]').forEach(button => {
+    button.addEventListener("click", () => {
+      const owner = String(button.dataset.owner ?? "");
+      if (!owner) return;
+      if (hiddenCompareOwners.has(owner)) {
+        hiddenCompareOwners.delete(owner);
+      } else {
+        hiddenCompareOwners.add(owner);
+      }
+      reopen();
+    });
+  });
+  modal.querySelector('[data-action="mode"]')?.addEventListener("change", event => {
+    const target = event.currentTarget as HTMLSelectElement;
+    setGraphModePreference(target.value === "compare" ? "compare" : "owner");
+    graphZoom = null;
+    reopen();
+  });
+  const exportTitle = mode === "compare" && compareStat ? `${compareStat.label} Comparison` : `${input.character} Relationship Trend`;
+  const exportSubtitle = [
+    `${snapshotCount} snapshot${snapshotCount === 1 ? "" : "s"}`,
+    zoom ? `zoom ${zoom.start + 1}-${zoom.end + 1} of ${baseTimeline.length}` : `window ${windowPreference === "all" ? "all" : windowPreference}`,
+    smoothing ? "smoothed" : "",
+    axisStat ? `X: ${axisStat.label}` : "",
+  ].filter(Boolean).join(" · ");
+  const buildExportSvg = () => buildGraphExportSvg({
+    title: exportTitle,
+    subtitle: exportSubtitle,
+    width,
+    chartHeight: height,
+    chartMarkup: `${axisMarkup}${lineMarkup}${dotsMarkup}${lastPointMarkup}`,
+    laneMarkup: lanes.length ? laneMarkup : undefined,
+    laneHeight,
+    legend: visibleLines.map(line => ({ label: line.label, color: line.color, value: latest[line.key] ?? null })),
+  });
+  modal.querySelector('[data-action="export-svg"]')?.addEventListener("click", () => {
+    downloadTextFile(graphExportFileName(exportTitle, "svg"), buildExportSvg().svg, "image/svg+xml");
+  });
+  modal.querySelector('[data-action="export-png"]')?.addEventListener("click", () => {
+    const exported = buildExportSvg();
+    rasterizeSvg(exported.svg, exported.width, exported.height)
+      .then(blob => downloadBlobFile(graphExportFileName(exportTitle, "png"), blob))
+      .catch(error => showStatus(`PNG export failed: ${error instanceof Error ? error.message : String(error)}`));
+  });
+  modal.querySelector('[data-action="export-csv"]')?.addEventListener("click", () => {
+    const csv = buildGraphCsv({
+      points: renderedTimeline.map((entry, index) => ({
+        messageIndex: messageIndexByEntry.get(entry),
+        timestamp: entry.timestamp,
+        storyTime: storyTimes ? formatStoryTime(storyTimes[index] ?? 0) : undefined,
+      })),
+      series: visibleLines.map(line => ({ label: line.label, values: smoothing ? smoothSeries(line.points, 3) : line.points })),
+      lanes: lanes.map(lane => ({
+        label: lane.def.label,
+        values: lane.values.map(value => (value === undefined ? "" : formatLaneValue(lane.def, value))),
+      })),
+    });
+    downloadTextFile(graphExportFileName(exportTitle, "csv"), csv, "text/csv");
+  });
+  modal.querySelector('[data-action="reset-zoom"]')?.addEventListener("click", () => {
+    graphZoom = null;
+    reopen();
+  });
+  modal.querySelector('[data-action="drag-mode"]')?.addEventListener("change", event => {
+    const target = event.currentTarget as HTMLSelectElement;
+    setGraphDragModePreference(target.value === "pan" ? "pan" : "zoom");
+    reopen();
+  });
+  modal.querySelector('[data-action="x-axis"]')?.addEventListener("change", event => {
+    const target = event.currentTarget as HTMLSelectElement;
+    setGraphXAxisPreference(target.value);
+    graphZoom = null;
+    reopen();
+  });
+  modal.querySelector('[data-action="compare-stat"]')?.addEventListener("change", event => {
+    const target = event.currentTarget as HTMLSelectElement;
+    setGraphCompareStatPreference(target.value);
+    graphZoom = null;
+    reopen();
+  });
   modal.querySelector('[data-action="toggle-smoothing"]')?.addEventListener("change", event => {
     const target = event.currentTarget as HTMLInputElement;
     setGraphSmoothingPreference(Boolean(target.checked));
-    closeGraphModal();
-    openGraphModal(input);
+    reopen();
   });
   modal.querySelector('[data-action="window"]')?.addEventListener("change", event => {
     const target = event.currentTarget as HTMLSelectElement;
@@ -234,12 +649,17 @@ export function openGraphModal(input: {
       ? target.value
       : "all";
     setGraphWindowPreference(next);
-    closeGraphModal();
-    openGraphModal(input);
+    graphZoom = null;
+    reopen();
   });
 }
 
-export function closeGraphModal(): void {
+function removeGraphModal(): void {
   document.querySelector(".bst-graph-backdrop")?.remove();
   document.querySelector(".bst-graph-modal")?.remove();
 }
+
+export function closeGraphModal(): void {
+  graphZoom = null;
+  removeGraphModal();
+}
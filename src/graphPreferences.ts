@@ -1,7 +1,14 @@
 export type GraphWindow = "30" | "60" | "120" | "all";
+export type GraphMode = "owner" | "compare";
+export type GraphDragMode = "zoom" | "pan";
 
 const GRAPH_SMOOTH_KEY = "bst-graph-smoothing";
 const GRAPH_WINDOW_KEY = "bst-graph-window";
+const GRAPH_MODE_KEY = "bst-graph-mode";
+const GRAPH_COMPARE_STAT_KEY = "bst-graph-compare-stat";
+const GRAPH_X_AXIS_KEY = "bst-graph-x-axis";
+const GRAPH_DRAG_MODE_KEY = "bst-graph-drag-mode";
+const RELATIONSHIP_WEB_STATS_KEY = "bst-relationship-web-stats";
 
 export function getGraphSmoothingPreference(): boolean {
   try {
@@ -37,6 +44,87 @@ export function setGraphWindowPreference(windowSize: GraphWindow): void {
   }
 }
 
+export function getGraphModePreference(): GraphMode {
+  try {
+    return localStorage.getItem(GRAPH_MODE_KEY) === "compare" ? "compare" : "owner";
+  } catch {
+    return "owner";
+  }
+}
+
+export function setGraphModePreference(mode: GraphMode): void {
+  try {
+    localStorage.setItem(GRAPH_MODE_KEY, mode);
+  } catch {
+    // ignore
+  }
+}
+
+export function getGraphCompareStatPreference(): string {
+  try {
+    return String(localStorage.getItem(GRAPH_COMPARE_STAT_KEY) ?? "").trim();
+  } catch {
+    return "";
+  }
+}
+
+export function setGraphCompareStatPreference(statKey: string): void {
+  try {
+    localStorage.setItem(GRAPH_COMPARE_STAT_KEY, statKey);
+  } catch {
+    // ignore
+  }
+}
+
+export function getGraphXAxisPreference(): string {
+  try {
+    return String(localStorage.getItem(GRAPH_X_AXIS_KEY) ?? "").trim();
+  } catch {
+    return "";
+  }
+}
+
+export function setGraphXAxisPreference(statId: string): void {
+  try {
+    localStorage.setItem(GRAPH_X_AXIS_KEY, statId);
+  } catch {
+    // ignore
+  }
+}
+
+export function getGraphDragModePreference(): GraphDragMode {
+  try {
+    return localStorage.getItem(GRAPH_DRAG_MODE_KEY) === "pan" ? "pan" : "zoom";
+  } catch {
+    return "zoom";
+  }
+}
+
+export function setGraphDragModePreference(mode: GraphDragMode): void {
+  try {
+    localStorage.setItem(GRAPH_DRAG_MODE_KEY, mode);
+  } catch {
+    // ignore
+  }
+}
+
+export function getRelationshipWebStatsPreference(): { color: string; width: string } {
+  try {
+    const [color = "", width = ""] = String(localStorage.getItem(RELATIONSHIP_WEB_STATS_KEY) ?? "").split(",");
+    return { color: color.trim(), width: width.trim() };
+  } catch {
+    return { color: "", width: "" };
+  }
+}
+
+export function setRelationshipWebStatsPreference(stats: { color: string; width: string }): void {
+  try {
+    localStorage.setItem(RELATIONSHIP_WEB_STATS_KEY, `${stats.color},${stats.width}`);
+  } catch {
+    // ignore
+  }
+}
+
 export function getGraphPreferences(): { window: GraphWindow; smoothing: boolean } {
   return {
     window: getGraphWindowPreference(),
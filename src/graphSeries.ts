@@ -32,34 +32,46 @@ export function downsampleTimeline(values: TrackerData[], target = 140): Tracker
   return indexes.map(i => values[i]);
 }
 
-export function buildPolyline(values: number[], width: number, height: number, pad = 24): string {
+export function buildTimelineXPositions(count: number, width: number, pad = 24, axisValues?: number[]): number[] {
+  const drawableW = Math.max(1, width - pad * 2);
+  const min = axisValues?.length ? Math.min(...axisValues) : 0;
+  const max = axisValues?.length ? Math.max(...axisValues) : 0;
+  return Array.from({ length: count }, (_, idx) => {
+    if (axisValues && axisValues.length === count && max > min) {
+      return pad + (drawableW * (axisValues[idx] - min)) / (max - min);
+    }
+    return pad + (count === 1 ? drawableW / 2 : (drawableW * idx) / (count - 1));
+  });
+}
+
+export function buildPolyline(values: number[], width: number, height: number, pad = 24, xs?: number[]): string {
   if (!values.length) return "";
   const drawableW = Math.max(1, width - pad * 2);
   const drawableH = Math.max(1, height - pad * 2);
   return values.map((value, idx) => {
-    const x = pad + (values.length === 1 ? drawableW / 2 : (drawableW * idx) / (values.length - 1));
+    const x = xs?.[idx] ?? pad + (values.length === 1 ? drawableW / 2 : (drawableW * idx) / (values.length - 1));
     const y = pad + ((100 - value) / 100) * drawableH;
     return `${x},${y}`;
   }).join(" ");
 }
 
-export function buildPointCircles(values: number[], color: string, _stat: string, width: number, height: number, pad = 24): string {
+export function buildPointCircles(values: number[], color: string, _stat: string, width: number, height: number, pad = 24, xs?: number[]): string {
   if (!values.length) return "";
   const drawableW = Math.max(1, width - pad * 2);
   const drawableH = Math.max(1, height - pad * 2);
   return values.map((value, idx) => {
-    const x = pad + (values.length === 1 ? drawableW / 2 : (drawableW * idx) / (values.length - 1));
+    const x = xs?.[idx] ?? pad + (values.length === 1 ? drawableW / 2 : (drawableW * idx) / (values.length - 1));
     const y = pad + ((100 - value) / 100) * drawableH;
     return `<circle cx="${x}" cy="${y}" r="2.7" fill="${color}" />`;
   }).join("");
 }
 
-export function buildLastPointCircle(values: number[], color: string, width: number, height: number, pad = 24): string {
+export function buildLastPointCircle(values: number[], color: string, width: number, height: number, pad = 24, xs?: number[]): string {
   if (!values.length) return "";
   const drawableW = Math.max(1, width - pad * 2);
   const drawableH = Math.max(1, height - pad * 2);
   const idx = values.length - 1;
-  const x = pad + (values.length === 1 ? drawableW / 2 : (drawableW * idx) / (values.length - 1));
+  const x = xs?.[idx] ?? pad + (values.length === 1 ? drawableW / 2 : (drawableW * idx) / (values.length - 1));
   const y = pad + ((100 - values[idx]) / 100) * drawableH;
   return `<circle cx="${x}" cy="${y}" r="4.2" fill="${color}" stroke="rgba(255,255,255,0.75)" stroke-width="1.2" />`;
 }
@@ -1,4 +1,4 @@
-import { GLOBAL_TRACKER_KEY } from "./constants";
+import { GLOBAL_TRACKER_KEY, USER_TRACKER_KEY } from "./constants";
 import type { TrackerData } from "./types";
 
 export type GraphNumericStatDefinition = {
@@ -9,7 +9,7 @@ export type GraphNumericStatDefinition = {
 
 const BUILT_IN_NUMERIC_STAT_KEYS = new Set(["affection", "trust", "desire", "connection"]);
 
-function getNumericRawValue(
+export function getNumericRawValue(
   entry: TrackerData,
   key: string,
   name: string,
@@ -65,3 +65,27 @@ export function buildStatSeries(
     return carry;
   });
 }
+
+export function collectGraphOwners(timeline: TrackerData[], key: string): string[] {
+  const characters: string[] = [];
+  const seen = new Set<string>();
+  let hasUser = false;
+  let hasGlobal = false;
+  for (const entry of timeline) {
+    const byOwner: Record<string, unknown> | undefined = BUILT_IN_NUMERIC_STAT_KEYS.has(key)
+      ? entry.statistics[key as "affection" | "trust" | "desire" | "connection"]
+      : entry.customStatistics?.[key];
+    for (const [owner, value] of Object.entries(byOwner ?? {})) {
+      if (value === undefined || Number.isNaN(Number(value))) continue;
+      if (owner === USER_TRACKER_KEY) {
+        hasUser = true;
+      } else if (owner === GLOBAL_TRACKER_KEY) {
+        hasGlobal = true;
+      } else if (!seen.has(owner.toLowerCase())) {
+        seen.add(owner.toLowerCase());
+        characters.push(owner);
+      }
+    }
+  }
+  return [...characters, ...(hasUser ? [USER_TRACKER_KEY] : []), ...(hasGlobal ? [GLOBAL_TRACKER_KEY] : [])];
+}
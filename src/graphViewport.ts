@@ -0,0 +1,28 @@
+export type GraphRange = {
+  start: number;
+  end: number;
+};
+
+export const MIN_GRAPH_RANGE_SPAN = 2;
+
+export function clampGraphRange(range: GraphRange | null, length: number): GraphRange | null {
+  if (!range || length <= MIN_GRAPH_RANGE_SPAN) return null;
+  const span = Math.max(MIN_GRAPH_RANGE_SPAN, Math.min(length, Math.round(range.end) - Math.round(range.start) + 1));
+  const start = Math.max(0, Math.min(length - span, Math.round(range.start)));
+  const end = start + span - 1;
+  if (start === 0 && end === length - 1) return null;
+  return { start, end };
+}
+
+export function zoomGraphRange(current: GraphRange | null, length: number, fromIndex: number, toIndex: number): GraphRange | null {
+  const start = Math.min(fromIndex, toIndex);
+  const end = Math.max(fromIndex, toIndex);
+  if (end - start + 1 < MIN_GRAPH_RANGE_SPAN) return current;
+  return clampGraphRange({ start, end }, length);
+}
+
+export function panGraphRange(current: GraphRange | null, length: number, deltaSnapshots: number): GraphRange | null {
+  if (!current) return null;
+  const delta = Math.round(deltaSnapshots);
+  return clampGraphRange({ start: current.start + delta, end: current.end + delta }, length) ?? current;
+}
@@ -1,11 +1,21 @@
-import { getAllTrackedCharacterNames, buildRecentContext, resolveActiveCharacterAnalysis } from "./activity";
+import {
+  getAllTrackedCharacterNames,
+  buildRecentContext,
+  clearActiveCharacterPins,
+  mergePresenceAnalysis,
+  readActiveCharacterPins,
+  resolveActiveCharacterAnalysis,
+  setActiveCharacterPin,
+  simulateActivityMessage,
+  type ActiveCharacterAnalysis,
+} from "./activity";
 import { resolveCharacterDefaultsEntry } from "./characterDefaults";
 import type { Character } from "./types";
 import { extractStatisticsParallel } from "./extractor";
 import { resolveBaselineBeforeIndex, shouldBypassConfidenceControls } from "./extractorHelpers";
 import { isTrackableAiMessage, isTrackableMessage, isTrackableUserMessage } from "./messageFilter";
 import { clearPromptInjection, getLastInjectedPrompt, getLastInjectedPromptDebug } from "./promptInjection";
-import { GLOBAL_TRACKER_KEY, USER_TRACKER_KEY } from "./constants";
+import { GLOBAL_TRACKER_KEY, STAT_CONSTRAINT_RULE_ID, USER_TRACKER_KEY } from "./constants";
 import {
   buildTrackerSummaryGenerationPrompt,
   buildTrackerSummaryLengthenPrompt,
@@ -16,7 +26,6 @@ import { upsertSettingsPanel } from "./settingsPanel";
 import { discoverConnectionProfiles, getActiveConnectionProfileId, getContext, getSettingsProvenance, loadSettings, logDebug, resolveConnectionProfileId, saveSettings } from "./settings";
 import {
   clearTrackerDataForCurrentChat,
-  getRecentTrackerHistory,
   getRecentTrackerHistoryEntries,
   getTrackerDataFromMessage,
   mergeCustomNonNumericStatisticsWithFallback,
@@ -26,7 +35,9 @@ import {
   writeTrackerDataToMessage
 } from "./storage";
 import { getAllNumericStatDefinitions } from "./statRegistry";
+import { filterStatChangeLogToOwners, markStatChangeLogEdits } from "./changeLog";
 import type {
+  ActiveCharacterPin,
   BetterSimTrackerSettings,
   ClearedCustomNonNumericStatistics,
   ClearedCustomStatistics,
@@ -37,20 +48,28 @@ import type {
   DeltaDebugRecord,
   STContext,
   Statistics,
-  TrackerData
+  TrackerData,
+  TriggerFiredRecord
 } from "./types";
 import {
+  downloadTextFile,
   removeTrackerUI,
   renderTracker,
   type TrackerRecoveryEntry,
   type TrackerUiState,
 } from "./ui";
+import { closeActiveOverridesModal, openActiveOverridesModal } from "./activeOverridesModal";
 import { getGraphPreferences } from "./graphPreferences";
 import { closeGraphModal, openGraphModal } from "./graphModal";
+import { filterPairStatisticsToCharacters } from "./pairwise";
+import { openRelationshipMatrixModal } from "./relationshipMatrixModal";
+import { closeRelationshipWebModal, openRelationshipWebModal } from "./relationshipWebModal";
 import { closeSettingsModal, openSettingsModal } from "./settingsModal";
-import { cancelActiveGenerations, generateJson } from "./generator";
+import { cacheExtractionResponse, cancelActiveGenerations, generateJson, getMockCompletionBackend, setMockCompletionBackend } from "./generator";
+import { createMockCompletionService } from "./mockCompletion";
 import { registerSlashCommands } from "./slashCommands";
 import { initCharacterPanel } from "./characterPanel";
+import { applyComputedStatsToTrackerData } from "./computedStats";
 import { initPersonaPanel } from "./personaPanel";
 import { extractLorebookEntriesFromPayload, readLorebookContext } from "./lorebook";
 import { normalizeDateTimeWithMode } from "./dateTime";
@@ -58,6 +77,7 @@ import {
   normalizeCustomNonNumericValue,
   normalizeCustomTextMaxLength,
   normalizeNonNumericArrayItems,
+  resolveCustomStatValueKind,
 } from "./customStatRuntime";
 import {
   hasCharacterOwnedTrackedValueForCharacter,
@@ -87,9 +107,27 @@ import {
   sanitizeGenerationOptions,
   type CapturedGenerationIntent,
 } from "./runtimeEventHelpers";
-import { isManualExtractionReason } from "./extractorHelpers";
+import { clearExtractionCache } from "./extractionCache";
+import { isFreshExtractionReason, isManualExtractionReason } from "./extractorHelpers";
 import { buildCharacterCardsContext } from "./characterCardContext";
 import { computeManualPlaceholderMessageIndices } from "./renderQueueHelpers";
+import {
+  applyTrackerHistoryImport,
+  buildTrackerHistoryExport,
+  formatTrackerHistoryImportResult,
+  parseTrackerHistoryImport,
+  trackerHistoryExportToCsv,
+} from "./trackerHistoryExport";
+import {
+  applyTriggerSetStatAction,
+  clearPendingTriggerNotes,
+  evaluateTriggerRules,
+  queueTriggerNotes,
+  readTriggerHistory,
+  rearmTriggers,
+  recordTriggerFirings,
+  renderTriggerText,
+} from "./triggers";
 
 declare const __BST_VERSION__: string;
 
@@ -112,7 +150,7 @@ let runtimeManifestVersion: string | null = null;
 let debugTrace: string[] = [];
 let traceCacheKey: string | null = null;
 let traceCacheLines: string[] = [];
-let lastActivityAnalysis: { allCharacterNames: string[]; activeCharacters: string[]; reasons: Record<string, string>; lookback: number } | null = null;
+let lastActivityAnalysis: ActiveCharacterAnalysis | null = null;
 let chatGenerationInFlight = false;
 let chatGenerationSawCharacterRender = false;
 let chatGenerationStartLastAiIndex: number | null = null;
@@ -864,7 +902,7 @@ function hasTrackedValueForCharacter(
     if (!def.track) continue;
     const statId = String(def.id ?? "").trim().toLowerCase();
     if (!statId) continue;
-    const kind = def.kind ?? "numeric";
+    const kind = resolveCustomStatValueKind(def);
     const globalScope = Boolean(def.globalScope);
     if (kind === "numeric") {
       if (globalScope && data.customStatistics?.[statId]?.[GLOBAL_TRACKER_KEY] !== undefined) return true;
@@ -1599,7 +1637,8 @@ function queueRender(): void {
     }, characterName => {
       const context = getSafeContext();
       if (!context || !settings) return;
-      const history = getRecentTrackerHistory(context, 120);
+      const historyEntries = getRecentTrackerHistoryEntries(context, Math.max(120, context.chat.length));
+      const history = historyEntries.map(entry => entry.data);
       if (history.length === 0 && latestData) {
         history.push(latestData);
       }
@@ -1616,8 +1655,10 @@ function queueRender(): void {
       openGraphModal({
         character: characterName,
         history,
+        historyEntries,
         accentColor: settings.accentColor,
         settings,
+        userName: String(context.name1 ?? "").trim(),
         debug: settings.debug
       });
     }, messageIndex => {
@@ -1643,6 +1684,8 @@ function queueRender(): void {
     }, messageIndex => {
       clearTrackerRecovery(messageIndex);
       void runExtraction("manual_refresh", messageIndex);
+    }, context ? readActiveCharacterPins(context) : {}, () => {
+      openActiveOverrides();
     });
   });
 }
@@ -2203,7 +2246,7 @@ function buildSeededCustomStatisticsForActiveCharacters(
   const customDefs = Array.isArray(settingsInput.customStats) ? settingsInput.customStats : [];
   for (const def of customDefs) {
     if (!def.track) continue;
-    if ((def.kind ?? "numeric") !== "numeric") continue;
+    if (resolveCustomStatValueKind(def) !== "numeric") continue;
     const statId = String(def.id ?? "").trim().toLowerCase();
     if (!statId) continue;
     if (!seeded[statId]) seeded[statId] = {};
@@ -2233,7 +2276,7 @@ function buildSeededCustomNonNumericStatisticsForActiveCharacters(
   const customDefs = Array.isArray(settingsInput.customStats) ? settingsInput.customStats : [];
   for (const def of customDefs) {
     if (!def.track) continue;
-    const kind = def.kind ?? "numeric";
+    const kind = resolveCustomStatValueKind(def);
     if (kind === "numeric") continue;
     const statId = String(def.id ?? "").trim().toLowerCase();
     if (!statId) continue;
@@ -2356,7 +2399,7 @@ function buildBaselineData(activeCharacters: string[], s: BetterSimTrackerSettin
     const customNonNumericDefaults: Record<string, string | boolean | string[]> = {};
     for (const def of s.customStats ?? []) {
       if (!def.track) continue;
-      const kind = def.kind ?? "numeric";
+      const kind = resolveCustomStatValueKind(def);
       const statId = String(def.id ?? "").trim().toLowerCase();
       if (!statId) continue;
       if (kind === "numeric") {
@@ -2426,7 +2469,7 @@ function buildBaselineData(activeCharacters: string[], s: BetterSimTrackerSettin
   const customNonNumericStatistics: CustomNonNumericStatistics = {};
   for (const def of s.customStats ?? []) {
     if (!def.track) continue;
-    const kind = def.kind ?? "numeric";
+    const kind = resolveCustomStatValueKind(def);
     const statId = String(def.id ?? "").trim().toLowerCase();
     if (!statId) continue;
     if (kind === "numeric") {
@@ -2803,11 +2846,17 @@ function applyManualTrackerEdits(payload: ManualEditPayload): void {
     bucket[statId][ownerKey] = true;
   };
 
+  const editedNumeric: Array<{ owner: string; stat: string }> = [];
+  const trackNumericEdit = (owner: string, stat: string, before: unknown, after: unknown): void => {
+    if (before !== after) editedNumeric.push({ owner, stat });
+  };
+
   for (const [rawKey, rawValue] of Object.entries(payload.numeric ?? {})) {
     const statKey = rawKey.trim().toLowerCase();
     if (!statKey) continue;
     if (BUILT_IN_NUMERIC_KEYS.has(statKey)) {
       const bucket = stats[statKey as "affection" | "trust" | "desire" | "connection"];
+      const before = bucket[character];
       if (rawValue == null) {
         delete bucket[character];
         markClearedBucketOwner(clearedStatistics as Record<string, Record<string, true>>, statKey, character);
@@ -2815,10 +2864,12 @@ function applyManualTrackerEdits(payload: ManualEditPayload): void {
         bucket[character] = clampEditedNumber(rawValue);
         clearClearedBucketOwner(clearedStatistics as Record<string, Record<string, true>>, statKey, character);
       }
+      trackNumericEdit(character, statKey, before, bucket[character]);
       continue;
     }
     const statDef = customStatById.get(statKey);
     const ownerKey = statDef?.globalScope ? GLOBAL_TRACKER_KEY : character;
+    const before = custom[statKey]?.[ownerKey];
     if (rawValue == null) {
       if (custom[statKey]) {
         delete custom[statKey][ownerKey];
@@ -2827,12 +2878,14 @@ function applyManualTrackerEdits(payload: ManualEditPayload): void {
         }
       }
       markClearedBucketOwner(clearedCustom, statKey, ownerKey);
+      trackNumericEdit(ownerKey, statKey, before, undefined);
       continue;
     }
     if (!Number.isFinite(rawValue)) continue;
     if (!custom[statKey]) custom[statKey] = {};
     custom[statKey][ownerKey] = clampEditedNumber(rawValue);
     clearClearedBucketOwner(clearedCustom, statKey, ownerKey);
+    trackNumericEdit(ownerKey, statKey, before, custom[statKey][ownerKey]);
   }
 
   for (const [rawKey, rawValue] of Object.entries(payload.nonNumeric ?? {})) {
@@ -2908,9 +2961,11 @@ function applyManualTrackerEdits(payload: ManualEditPayload): void {
     statistics: stats,
     customStatistics: Object.keys(custom).length ? custom : undefined,
     customNonNumericStatistics: Object.keys(customNonNumeric).length ? customNonNumeric : undefined,
+    ...(current.pairStatistics ? { pairStatistics: current.pairStatistics } : {}),
     clearedStatistics: Object.keys(clearedStatistics).length ? clearedStatistics : undefined,
     clearedCustomStatistics: Object.keys(clearedCustom).length ? clearedCustom : undefined,
     clearedCustomNonNumericStatistics: Object.keys(clearedCustomNonNumeric).length ? clearedCustomNonNumeric : undefined,
+    changeLog: markStatChangeLogEdits(current.changeLog, editedNumeric),
   };
 
   if (payload.active !== undefined && character !== USER_TRACKER_KEY) {
@@ -2926,6 +2981,11 @@ function applyManualTrackerEdits(payload: ManualEditPayload): void {
     }
     next.activeCharacters = Array.from(activeSet);
   }
+  applyComputedStatsToTrackerData(
+    settings,
+    next,
+    Array.from(new Set([...next.activeCharacters, character])).filter(owner => owner !== GLOBAL_TRACKER_KEY),
+  );
 
   writeTrackerDataToMessage(context, next, messageIndex);
   context.saveChatDebounced?.();
@@ -3129,7 +3189,7 @@ async function runExtraction(reason: string, targetMessageIndex?: number): Promi
   const lastMessage = context.chat[lastIndex];
   const hadTrackerAtStart = Boolean(getTrackerDataFromMessage(lastMessage));
   clearTrackerRecovery(lastIndex);
-  const isManualRefreshReason = reason === "manual_refresh" || reason === "manual_refresh_retry";
+  const isManualRefreshReason = isManualExtractionReason(reason);
   const isBootstrapContinueReason = reason === BOOTSTRAP_CONTINUE_REASON;
   const forceRetrack =
     isManualRefreshReason ||
@@ -3168,7 +3228,17 @@ async function runExtraction(reason: string, targetMessageIndex?: number): Promi
         allCharacterNames = [...allCharacterNames, USER_TRACKER_KEY];
       }
     }
-    const activeCharacters = (userExtraction ? [USER_TRACKER_KEY] : activity.activeCharacters).filter(name =>
+    const presenceCandidates = !userExtraction
+      && activeSettings.modelAssistedPresence
+      && activeSettings.autoDetectActive
+      && !activeSettings.sequentialExtraction
+      ? activity.allCharacterNames.filter(name =>
+        activity.pins?.[name] !== "inactive" && isTrackerEnabledForOwner(context, activeSettings, name),
+      )
+      : [];
+    const activeCharacters = (userExtraction
+      ? [USER_TRACKER_KEY]
+      : presenceCandidates.length ? presenceCandidates : activity.activeCharacters).filter(name =>
       isTrackerEnabledForOwner(context, activeSettings, name),
     );
     pushTrace("activity.resolve", {
@@ -3176,7 +3246,9 @@ async function runExtraction(reason: string, targetMessageIndex?: number): Promi
       activeCharacters,
       lookback: activity.lookback,
       autoDetectActive: settings.autoDetectActive,
-      reasons: activity.reasons
+      modelAssistedPresence: presenceCandidates.length > 0,
+      reasons: activity.reasons,
+      pins: activity.pins ?? {}
     });
     if (!activeCharacters.length) {
       pushTrace("extract.skip", { reason: "no_active_characters", runId });
@@ -3431,18 +3503,27 @@ async function runExtraction(reason: string, targetMessageIndex?: number): Promi
     }
 
     const extractedResult = await extractStatisticsParallel({
+      generate: generateJson,
+      cacheResponse: cacheExtractionResponse,
       settings: extractionSettings,
       userName,
       activeCharacters,
       preferredCharacterName,
       contextText,
+      latestMessageText: String(context.chat[lastIndex]?.mes ?? ""),
+      latestUserMessageText: String(
+        context.chat.slice(0, lastIndex + 1).reverse().find(message => message.is_user)?.mes ?? "",
+      ),
       previousStatistics: previousSeededStatistics,
       previousCustomStatistics: previousSeededCustomStatistics,
       previousCustomStatisticsRaw: previousEntry?.data?.customStatistics ?? null,
       previousCustomNonNumericStatistics: previousSeededCustomNonNumericStatistics,
+      previousPairStatistics: previous?.pairStatistics ?? null,
+      presenceCandidates,
       hasPriorTrackerData: Boolean(previousEntry?.data),
       history: seededHistory,
       bypassConfidenceControls: shouldBypassConfidenceControls(reason),
+      forceFresh: isFreshExtractionReason(reason),
       isOwnerStatEnabled: (ownerName, statId) => isOwnerStatEnabled(context, runScopedSettings, ownerName, statId),
       isCancelled: () => cancelledExtractionRuns.has(runId),
       onProgress: (done, total, label) => {
@@ -3454,9 +3535,27 @@ async function runExtraction(reason: string, targetMessageIndex?: number): Promi
         queueRender();
       }
     });
-    const extracted = extractedResult.statistics;
-    const extractedCustom = extractedResult.customStatistics;
-    const extractedCustomNonNumeric = extractedResult.customNonNumericStatistics;
+    let extracted = extractedResult.statistics;
+    let extractedCustom = extractedResult.customStatistics;
+    let extractedCustomNonNumeric = extractedResult.customNonNumericStatistics;
+    const constraintCorrections = (extractedResult.debug?.meta?.ruleAdjustments ?? [])
+      .filter(item => item.ruleId === STAT_CONSTRAINT_RULE_ID);
+    if (constraintCorrections.length) {
+      pushTrace("extract.constraints", {
+        runId,
+        corrections: constraintCorrections.map(item => ({
+          owner: item.owner,
+          stat: item.stat,
+          constraint: item.label,
+          from: item.previous,
+          to: item.next,
+        })),
+      });
+    }
+    const pairwiseError = extractedResult.debug?.meta?.pairwiseError;
+    if (pairwiseError) {
+      pushTrace("extract.pairwise.error", { runId, message: pairwiseError });
+    }
     lastDebugRecord = extractedResult.debug;
     if (lastDebugRecord) {
       const persistedTail = readTraceLines(context).slice(-200);
@@ -3474,6 +3573,41 @@ async function runExtraction(reason: string, targetMessageIndex?: number): Promi
       trackMood: activeSettings.trackMood || (activeSettings.enableUserTracking && activeSettings.userTrackMood),
       trackLastThought: activeSettings.trackLastThought || (activeSettings.enableUserTracking && activeSettings.userTrackLastThought),
     };
+    const globalNumericStatIds = new Set(
+      (activeSettings.customStats ?? [])
+        .filter(def => resolveCustomStatValueKind(def) === "numeric" && Boolean(def.globalScope))
+        .map(def => String(def.id ?? "").trim().toLowerCase())
+        .filter(Boolean),
+    );
+    const globalNonNumericStatIds = new Set(
+      (activeSettings.customStats ?? [])
+        .filter(def => resolveCustomStatValueKind(def) !== "numeric" && Boolean(def.globalScope))
+        .map(def => String(def.id ?? "").trim().toLowerCase())
+        .filter(Boolean),
+    );
+    let savedActiveCharacters = activeCharacters;
+    if (presenceCandidates.length) {
+      const presenceAnalysis = mergePresenceAnalysis(activity, extractedResult.presence, activeSettings.presenceMergePolicy);
+      lastActivityAnalysis = presenceAnalysis;
+      savedActiveCharacters = activeCharacters.filter(name => presenceAnalysis.activeCharacters.includes(name));
+      if (!savedActiveCharacters.length) savedActiveCharacters = activeCharacters;
+      pushTrace("activity.presence", {
+        runId,
+        policy: activeSettings.presenceMergePolicy,
+        presence: extractedResult.presence,
+        activeCharacters: savedActiveCharacters,
+        reasons: presenceAnalysis.reasons,
+      });
+      if (savedActiveCharacters.length < activeCharacters.length) {
+        extracted = filterStatisticsToCharacters(extracted, savedActiveCharacters);
+        extractedCustom = filterCustomStatisticsToCharacters(extractedCustom, savedActiveCharacters, globalNumericStatIds);
+        extractedCustomNonNumeric = filterCustomNonNumericStatisticsToCharacters(
+          extractedCustomNonNumeric,
+          savedActiveCharacters,
+          globalNonNumericStatIds,
+        );
+      }
+    }
     let merged = mergeStatisticsWithFallback(extracted, previous?.statistics ?? null, mergeSettings);
     let mergedCustom = mergeCustomStatisticsWithFallback(extractedCustom, previous?.customStatistics ?? null);
     let mergedCustomNonNumeric = mergeCustomNonNumericStatisticsWithFallback(
@@ -3481,29 +3615,27 @@ async function runExtraction(reason: string, targetMessageIndex?: number): Promi
       previous?.customNonNumericStatistics ?? null,
     );
     if (userExtraction) {
-      const globalNumericStatIds = new Set(
-        (activeSettings.customStats ?? [])
-          .filter(def => (def.kind ?? "numeric") === "numeric" && Boolean(def.globalScope))
-          .map(def => String(def.id ?? "").trim().toLowerCase())
-          .filter(Boolean),
-      );
-      const globalNonNumericStatIds = new Set(
-        (activeSettings.customStats ?? [])
-          .filter(def => (def.kind ?? "numeric") !== "numeric" && Boolean(def.globalScope))
-          .map(def => String(def.id ?? "").trim().toLowerCase())
-          .filter(Boolean),
-      );
       merged = filterStatisticsToCharacters(merged, [USER_TRACKER_KEY]);
       mergedCustom = filterCustomStatisticsToCharacters(mergedCustom, [USER_TRACKER_KEY], globalNumericStatIds);
       mergedCustomNonNumeric = filterCustomNonNumericStatisticsToCharacters(mergedCustomNonNumeric, [USER_TRACKER_KEY], globalNonNumericStatIds);
     }
+    const extractedPairs = savedActiveCharacters.length < activeCharacters.length
+      ? filterPairStatisticsToCharacters(extractedResult.pairStatistics, savedActiveCharacters)
+      : extractedResult.pairStatistics;
+    const mergedPairs = mergeCustomStatisticsWithFallback(extractedPairs, previous?.pairStatistics ?? null);
+    const changeLog = filterStatChangeLogToOwners(
+      extractedResult.changeLog,
+      userExtraction ? [USER_TRACKER_KEY] : savedActiveCharacters,
+    );
 
     latestData = {
       timestamp: Date.now(),
-      activeCharacters,
+      activeCharacters: savedActiveCharacters,
       statistics: merged,
       customStatistics: mergedCustom,
       customNonNumericStatistics: mergedCustomNonNumeric,
+      ...(Object.keys(mergedPairs).length ? { pairStatistics: mergedPairs } : {}),
+      ...(changeLog.length ? { changeLog } : {}),
     };
     latestDataMessageIndex = lastIndex;
     refreshPromptMacroData(context);
@@ -3512,6 +3644,7 @@ async function runExtraction(reason: string, targetMessageIndex?: number): Promi
     clearTrackerRecovery(lastIndex);
     context.saveChatDebounced?.();
     await context.saveChat?.();
+    runTriggerRules(context, activeSettings, previous, latestData, lastIndex);
 
     queuePromptSync(context);
     queueRender();
@@ -3519,7 +3652,7 @@ async function runExtraction(reason: string, targetMessageIndex?: number): Promi
       runId,
       reason,
       savedMessageIndex: lastIndex,
-      activeCharacters: activeCharacters.length
+      activeCharacters: savedActiveCharacters.length
     });
     logDebug(activeSettings, "extraction", `Extraction finished (${reason})`);
   } catch (error) {
@@ -3548,11 +3681,12 @@ async function runExtraction(reason: string, targetMessageIndex?: number): Promi
     if (
       canAutoRetryReason &&
       reason !== "manual_refresh_retry" &&
+      reason !== "manual_refresh_fresh_retry" &&
       shouldRetryFailure
     ) {
       const retryReason =
-        reason === "manual_refresh"
-          ? "manual_refresh_retry"
+        reason === "manual_refresh_fresh"
+          ? "manual_refresh_fresh_retry"
           : reason === "AUTO_BOOTSTRAP_MISSING_TRACKER"
             ? BOOTSTRAP_CONTINUE_REASON
             : "manual_refresh_retry";
@@ -3844,6 +3978,9 @@ function registerEvents(context: STContext): void {
     pendingLateRenderStartLastAiIndex = null;
     clearLateRenderPollTimer();
     bindInjectionSnapshotToLatestAiMessage(context);
+    if (clearPendingTriggerNotes(context)) {
+      queuePromptSync(context);
+    }
     pushTrace("event.generation_ended");
     if (swipeGenerationActive) {
       swipeGenerationActive = false;
@@ -4217,7 +4354,19 @@ function openSettings(): void {
     onRetrack: () => {
       void runExtraction("manual_refresh");
     },
+    onRetrackFresh: () => {
+      void runExtraction("manual_refresh_fresh");
+    },
     onClearCurrentChat: () => clearCurrentChat(),
+    onExportHistory: format => exportTrackerHistory(format),
+    onImportHistory: (text, overwrite) => importTrackerHistory(text, overwrite),
+    triggerFiredCounts: context ? countFiredTriggers(readTriggerHistory(context)) : {},
+    onRearmTriggers: ruleId => rearmTriggerRules(ruleId),
+    onTestActivityCues: (message, next) => {
+      const activeContext = getSafeContext();
+      return activeContext ? simulateActivityMessage(activeContext, next, message) : null;
+    },
+    activeCharacterCount: lastActivityAnalysis?.activeCharacters.length,
     onDumpDiagnostics: () => {
       const activeContext = getSafeContext();
       if (!activeContext || !settings) return;
@@ -4292,6 +4441,11 @@ function openSettings(): void {
       lastDebugRecord = null;
       pushTrace("diagnostics.cleared");
       refreshFromStoredData();
+    },
+    onClearExtractionCache: () => {
+      void clearExtractionCache().then(removed => {
+        pushTrace("extraction_cache.cleared", { removed });
+      });
     }
   });
 }
@@ -4320,6 +4474,59 @@ function buildLorebookExtractionContext(context: STContext, maxChars: number): s
   return `\n\nLorebook context (activated; use only to disambiguate if recent messages are unclear):\n${lorebookText}`;
 }
 
+function openRelationshipWeb(): void {
+  const context = getSafeContext();
+  if (!context || !settings) return;
+  const history = getRecentTrackerHistoryEntries(context, Math.max(120, context.chat.length)).map(entry => entry.data);
+  if (history.length === 0 && latestData) {
+    history.push(latestData);
+  }
+  pushTrace("relations.web.open", { historySnapshots: history.length });
+  openRelationshipWebModal({ settings, history, userName: String(context.name1 ?? "").trim() });
+}
+
+function pinActiveCharacter(name: string, pin: ActiveCharacterPin | null): { ok: boolean; message: string } {
+  const activeContext = getSafeContext();
+  if (!activeContext) return { ok: false, message: "Tracker context not ready." };
+  const normalized = name.trim().toLowerCase();
+  const target = getAllTrackedCharacterNames(activeContext).find(item => item.toLowerCase() === normalized);
+  if (!target) return { ok: false, message: `Unknown character "${name.trim()}".` };
+  setActiveCharacterPin(activeContext, target, pin);
+  pushTrace("activity.pin", { character: target, pin });
+  queuePromptSync(activeContext);
+  queueRender();
+  return {
+    ok: true,
+    message: pin ? `${target} pinned as always ${pin} in this chat.` : `${target} returned to automatic detection.`,
+  };
+}
+
+function clearActivePins(): string {
+  const activeContext = getSafeContext();
+  if (!activeContext) return "Tracker context not ready.";
+  const removed = clearActiveCharacterPins(activeContext);
+  pushTrace("activity.pin.clear", { removed });
+  queuePromptSync(activeContext);
+  queueRender();
+  return removed ? `Cleared ${removed} active character override${removed === 1 ? "" : "s"}.` : "No active character overrides in this chat.";
+}
+
+function openActiveOverrides(): void {
+  if (!getSafeContext() || !settings) return;
+  openActiveOverridesModal({
+    getAnalysis: () => {
+      const activeContext = getSafeContext();
+      return activeContext && settings ? resolveActiveCharacterAnalysis(activeContext, settings) : null;
+    },
+    onPin: (name, pin) => {
+      pinActiveCharacter(name, pin);
+    },
+    onClear: () => {
+      clearActivePins();
+    },
+  });
+}
+
 function toggle(): boolean {
   const context = getSafeContext();
   if (!context || !settings) return false;
@@ -4328,6 +4535,8 @@ function toggle(): boolean {
   if (!settings.enabled) {
     void clearPromptInjection();
     closeGraphModal();
+    closeRelationshipWebModal();
+    closeActiveOverridesModal();
     removeTrackerUI();
   } else {
     queuePromptSync(context);
@@ -4355,6 +4564,8 @@ function clearCurrentChat(): void {
   clearTrackerDataForCurrentChat(activeContext);
   trackerRecoveryByMessage.clear();
   persistTrackerRecoveries(activeContext);
+  rearmTriggers(activeContext);
+  clearPendingTriggerNotes(activeContext);
   clearDebugRecord(activeContext);
   debugTrace = [];
   lastActivatedLorebookEntries = [];
@@ -4370,6 +4581,130 @@ function clearCurrentChat(): void {
   refreshFromStoredData();
 }
 
+function exportTrackerHistory(format: "json" | "csv"): string | null {
+  const activeContext = getSafeContext();
+  if (!activeContext || !settings) return null;
+  const payload = buildTrackerHistoryExport(activeContext, settings);
+  if (!payload.entries.length) return null;
+  const stamp = new Date(payload.exportedAt).toISOString().replace(/[:.]/g, "-");
+  const fileName = `bettersimtracker-history-${stamp}.${format}`;
+  if (format === "csv") {
+    downloadTextFile(fileName, trackerHistoryExportToCsv(payload), "text/csv");
+  } else {
+    downloadTextFile(fileName, JSON.stringify(payload, null, 2), "application/json");
+  }
+  pushTrace("history.export", { format, entries: payload.entries.length });
+  return `Exported ${payload.entries.length} tracker snapshot(s) to ${fileName}.`;
+}
+
+function importTrackerHistory(text: string, overwrite: boolean): { ok: boolean; message: string } {
+  const activeContext = getSafeContext();
+  if (!activeContext || !settings) return { ok: false, message: "Tracker context not ready." };
+  const parsed = parseTrackerHistoryImport(text);
+  if (!parsed.payload) return { ok: false, message: parsed.error ?? "Import failed." };
+  const result = applyTrackerHistoryImport(activeContext, parsed.payload, settings, { overwrite });
+  pushTrace("history.import", {
+    total: result.total,
+    attached: result.attached,
+    remapped: result.remapped,
+    unverified: result.unverified,
+    kept: result.kept,
+    skipped: result.skipped,
+  });
+  activeContext.saveChatDebounced?.();
+  void activeContext.saveChat?.();
+  refreshFromStoredData();
+  const warningSuffix = parsed.warnings.length ? ` ${parsed.warnings.length} invalid entr${parsed.warnings.length === 1 ? "y" : "ies"} ignored.` : "";
+  return { ok: result.total > result.skipped, message: `${formatTrackerHistoryImportResult(result)}${warningSuffix}` };
+}
+
+async function executeTriggerSlashCommand(context: STContext, command: string): Promise<void> {
+  if (typeof context.executeSlashCommandsWithOptions === "function") {
+    await context.executeSlashCommandsWithOptions(command, { handleParserErrors: true, handleExecutionErrors: true });
+    return;
+  }
+  await context.executeSlashCommands?.(command);
+}
+
+function runTriggerRules(
+  context: STContext,
+  activeSettings: BetterSimTrackerSettings,
+  previous: TrackerData | null,
+  data: TrackerData,
+  messageIndex: number,
+): void {
+  if (!activeSettings.triggerRules?.length) return;
+  const firings = evaluateTriggerRules({
+    settings: activeSettings,
+    previous,
+    current: data,
+    fired: readTriggerHistory(context),
+  });
+  if (!firings.length) return;
+  recordTriggerFirings(context, firings, messageIndex);
+  const userName = String(context.name1 ?? "").trim() || "User";
+  const notes: string[] = [];
+  const commands: string[] = [];
+  let dataChanged = false;
+  for (const firing of firings) {
+    const owner = firing.owner === USER_TRACKER_KEY
+      ? userName
+      : firing.owner === GLOBAL_TRACKER_KEY ? "Scene" : firing.owner;
+    pushTrace("trigger.fired", { ruleId: firing.rule.id, owner: firing.owner, messageIndex });
+    for (const action of firing.rule.actions) {
+      const text = renderTriggerText(action.text, firing, { owner, user: userName });
+      if (action.type === "system_message") {
+        context.sendSystemMessage?.("generic", text);
+      } else if (action.type === "inject_note") {
+        notes.push(text);
+      } else if (action.type === "slash_command") {
+        commands.push(text);
+      } else if (applyTriggerSetStatAction(data, activeSettings, { ...action, text }, firing.owner)) {
+        dataChanged = true;
+      } else {
+        pushTrace("trigger.action_skipped", { ruleId: firing.rule.id, type: action.type, statId: action.statId ?? null });
+      }
+    }
+  }
+  queueTriggerNotes(context, notes);
+  if (dataChanged) {
+    writeTrackerDataToMessage(context, data, messageIndex);
+    refreshPromptMacroData(context);
+    context.saveChatDebounced?.();
+  }
+  if (commands.length) {
+    // Run after the extraction settles so commands that start a generation are not ignored as tracker traffic.
+    window.setTimeout(() => {
+      void (async () => {
+        for (const command of commands) {
+          try {
+            await executeTriggerSlashCommand(context, command);
+          } catch (error) {
+            pushTrace("trigger.command_error", { command, error: getErrorMessage(error) });
+          }
+        }
+      })();
+    }, 0);
+  }
+}
+
+function countFiredTriggers(history: TriggerFiredRecord[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const record of history) {
+    counts[record.ruleId] = (counts[record.ruleId] ?? 0) + 1;
+  }
+  return counts;
+}
+
+function rearmTriggerRules(ruleId?: string): string {
+  const activeContext = getSafeContext();
+  if (!activeContext) return "Tracker context not ready.";
+  const removed = rearmTriggers(activeContext, ruleId);
+  pushTrace("trigger.rearm", { ruleId: ruleId ?? null, removed });
+  const scope = ruleId ? `trigger "${ruleId}"` : "all triggers";
+  return removed ? `Re-armed ${scope} (${removed} fired record${removed === 1 ? "" : "s"} cleared).` : `No fired records for ${scope}.`;
+}
+
 function ensureSlashCommandsRegistered(): void {
   if (slashCommandsRegistered) return;
   slashCommandsRegistered = true;
@@ -4382,8 +4717,23 @@ function ensureSlashCommandsRegistered(): void {
     runExtraction: (reason, messageIndex) => runExtraction(reason, messageIndex),
     refreshFromStoredData,
     clearCurrentChat,
+    exportHistory: exportTrackerHistory,
+    openRelationships: () => {
+      if (!settings) return;
+      openRelationshipMatrixModal({ settings, data: latestData, onOpenWeb: openRelationshipWeb });
+    },
+    openRelationshipWeb,
+    openActiveOverrides,
+    pinActiveCharacter,
+    clearActivePins,
+    rearmTriggers: rearmTriggerRules,
     queuePromptSync,
     saveSettings: (context, next) => saveSettings(context, next),
+    setMockBackend: options => {
+      setMockCompletionBackend(options ? createMockCompletionService(options) : null);
+      pushTrace("mock_backend", { enabled: Boolean(options), script: options?.script?.map(step => step.kind) ?? null });
+    },
+    getMockBackend: getMockCompletionBackend,
     pushTrace
   });
 }
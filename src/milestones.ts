@@ -0,0 +1,185 @@
+import { GLOBAL_TRACKER_KEY } from "./constants";
+import { getNumericRawValue } from "./graphTimeline";
+import type { TrackerData } from "./types";
+
+export const HIGH_BAND_MIN = 61;
+export const MIN_MOOD_STREAK = 3;
+
+export type RelationshipMilestoneKind = "biggest_change" | "entered_high" | "enum_change" | "mood_streak";
+
+export interface RelationshipMilestone {
+  kind: RelationshipMilestoneKind;
+  messageIndex: number;
+  stat: string;
+  title: string;
+  detail: string;
+}
+
+export type MilestoneHistoryEntry = {
+  data: TrackerData;
+  messageIndex: number;
+};
+
+export type MilestoneNumericStat = {
+  key: string;
+  label: string;
+  defaultValue: number;
+  globalScope: boolean;
+};
+
+export type MilestoneEnumStat = {
+  id: string;
+  label: string;
+  globalScope: boolean;
+};
+
+const KIND_ORDER: Record<RelationshipMilestoneKind, number> = {
+  entered_high: 0,
+  biggest_change: 1,
+  enum_change: 2,
+  mood_streak: 3,
+};
+
+function clampPercent(value: number): number {
+  return Math.max(0, Math.min(100, Math.round(value)));
+}
+
+function formatSigned(value: number): string {
+  return value > 0 ? `+${value}` : String(value);
+}
+
+function readEnumValue(entry: TrackerData, stat: MilestoneEnumStat, character: string): string | undefined {
+  const ownerKey = stat.globalScope ? GLOBAL_TRACKER_KEY : character;
+  if (entry.clearedCustomNonNumericStatistics?.[stat.id]?.[ownerKey]) return undefined;
+  const raw = entry.customNonNumericStatistics?.[stat.id]?.[ownerKey];
+  return typeof raw === "string" && raw.trim() ? raw.trim() : undefined;
+}
+
+function readMood(entry: TrackerData, character: string): string | undefined {
+  if (entry.clearedStatistics?.mood?.[character]) return undefined;
+  const raw = entry.statistics.mood?.[character];
+  return typeof raw === "string" && raw.trim() ? raw.trim() : undefined;
+}
+
+function numericMilestones(
+  timeline: MilestoneHistoryEntry[],
+  character: string,
+  stat: MilestoneNumericStat,
+): RelationshipMilestone[] {
+  const out: RelationshipMilestone[] = [];
+  let bandCarry = clampPercent(stat.defaultValue);
+  let enteredHigh = false;
+  let lastTracked: number | null = null;
+  let biggest: { messageIndex: number; from: number; to: number } | null = null;
+  for (const entry of timeline) {
+    const raw = getNumericRawValue(entry.data, stat.key, character, stat.globalScope);
+    if (raw === undefined || Number.isNaN(raw)) continue;
+    const value = clampPercent(raw);
+    if (!enteredHigh && bandCarry < HIGH_BAND_MIN && value >= HIGH_BAND_MIN) {
+      enteredHigh = true;
+      out.push({
+        kind: "entered_high",
+        messageIndex: entry.messageIndex,
+        stat: stat.key,
+        title: `${stat.label} reached the high band`,
+        detail: `${bandCarry} → ${value}`,
+      });
+    }
+    bandCarry = value;
+    if (lastTracked !== null) {
+      const delta = value - lastTracked;
+      if (delta !== 0 && (!biggest || Math.abs(delta) > Math.abs(biggest.to - biggest.from))) {
+        biggest = { messageIndex: entry.messageIndex, from: lastTracked, to: value };
+      }
+    }
+    lastTracked = value;
+  }
+  if (biggest) {
+    const delta = biggest.to - biggest.from;
+    out.push({
+      kind: "biggest_change",
+      messageIndex: biggest.messageIndex,
+      stat: stat.key,
+      title: `Biggest ${stat.label} ${delta > 0 ? "rise" : "drop"}`,
+      detail: `${biggest.from} → ${biggest.to} (${formatSigned(delta)})`,
+    });
+  }
+  return out;
+}
+
+function enumMilestones(
+  timeline: MilestoneHistoryEntry[],
+  character: string,
+  stat: MilestoneEnumStat,
+): RelationshipMilestone[] {
+  const out: RelationshipMilestone[] = [];
+  let previous: string | undefined;
+  for (const entry of timeline) {
+    const value = readEnumValue(entry.data, stat, character);
+    if (value === undefined) continue;
+    if (previous !== undefined && previous.toLowerCase() !== value.toLowerCase()) {
+      out.push({
+        kind: "enum_change",
+        messageIndex: entry.messageIndex,
+        stat: stat.id,
+        title: `${stat.label} changed`,
+        detail: `${previous} → ${value}`,
+      });
+    }
+    previous = value;
+  }
+  return out;
+}
+
+function moodStreakMilestones(
+  timeline: MilestoneHistoryEntry[],
+  character: string,
+  minStreak: number,
+): RelationshipMilestone[] {
+  const out: RelationshipMilestone[] = [];
+  let streak: { mood: string; start: number; end: number; length: number } | null = null;
+  const flush = (): void => {
+    if (!streak || streak.length < minStreak) return;
+    out.push({
+      kind: "mood_streak",
+      messageIndex: streak.start,
+      stat: "mood",
+      title: `${streak.mood} streak`,
+      detail: `${streak.length} tracked messages in a row (#${streak.start}-#${streak.end})`,
+    });
+  };
+  for (const entry of timeline) {
+    const mood = readMood(entry.data, character);
+    if (mood === undefined) continue;
+    if (streak && streak.mood.toLowerCase() === mood.toLowerCase()) {
+      streak.end = entry.messageIndex;
+      streak.length += 1;
+      continue;
+    }
+    flush();
+    streak = { mood, start: entry.messageIndex, end: entry.messageIndex, length: 1 };
+  }
+  flush();
+  return out;
+}
+
+export function buildRelationshipMilestones(input: {
+  entries: MilestoneHistoryEntry[];
+  character: string;
+  numericStats: MilestoneNumericStat[];
+  enumStats?: MilestoneEnumStat[];
+  includeMood?: boolean;
+  minMoodStreak?: number;
+}): RelationshipMilestone[] {
+  const timeline = [...input.entries]
+    .filter(entry => Number.isInteger(entry.messageIndex) && entry.messageIndex >= 0)
+    .sort((a, b) => a.messageIndex - b.messageIndex);
+  const milestones: RelationshipMilestone[] = [
+    ...input.numericStats.flatMap(stat => numericMilestones(timeline, input.character, stat)),
+    ...(input.enumStats ?? []).flatMap(stat => enumMilestones(timeline, input.character, stat)),
+    ...(input.includeMood
+      ? moodStreakMilestones(timeline, input.character, Math.max(2, input.minMoodStreak ?? MIN_MOOD_STREAK))
+      : []),
+  ];
+  return milestones.sort((a, b) => a.messageIndex - b.messageIndex || KIND_ORDER[a.kind] - KIND_ORDER[b.kind]);
+}
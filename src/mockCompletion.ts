@@ -0,0 +1,193 @@
+import type { GenerateJson } from "./generator";
+
+export type MockCompletionStepKind = "rules" | "malformed" | "truncated" | "empty" | "error" | "abort" | "hang";
+
+export type MockCompletionStep = {
+  kind: MockCompletionStepKind;
+  delayMs?: number;
+  text?: string;
+};
+
+export type MockCompletionOptions = {
+  script?: MockCompletionStep[];
+  loop?: boolean;
+  delayMs?: number;
+};
+
+export type MockCompletionCall = {
+  index: number;
+  kind: MockCompletionStepKind;
+  promptChars: number;
+  aborted: boolean;
+};
+
+export type MockCompletionService = {
+  processRequest: (
+    requestData: Record<string, unknown>,
+    options?: Record<string, unknown>,
+    extractData?: boolean,
+    signal?: AbortSignal | null,
+  ) => Promise<unknown>;
+  calls: MockCompletionCall[];
+  options: MockCompletionOptions;
+};
+
+export const MOCK_COMPLETION_SOURCE = "bst_mock";
+
+const STEP_KINDS: MockCompletionStepKind[] = ["rules", "malformed", "truncated", "empty", "error", "abort", "hang"];
+const POSITIVE_WORDS = ["thank", "love", "smile", "laugh", "hug", "kiss", "trust", "glad", "happy", "safe", "promise", "gentle"];
+const NEGATIVE_WORDS = ["hate", "lie", "lied", "angry", "shout", "hit", "betray", "leave", "cry", "afraid", "scared", "cold"];
+
+function countWords(text: string, words: string[]): number {
+  const lower = text.toLowerCase();
+  return words.reduce((sum, word) => sum + (lower.match(new RegExp(`\\b${word}`, "g"))?.length ?? 0), 0);
+}
+
+function readLine(prompt: string, marker: string): string {
+  const index = prompt.lastIndexOf(marker);
+  if (index < 0) return "";
+  const end = prompt.indexOf("\n", index);
+  return prompt.slice(index + marker.length, end < 0 ? undefined : end).trim();
+}
+
+function readTemplateRow(prompt: string): Record<string, unknown> | null {
+  const marker = prompt.lastIndexOf("Return STRICT JSON only:");
+  if (marker < 0) return null;
+  const start = prompt.indexOf("{", marker);
+  const end = prompt.indexOf("\n}", start);
+  if (start < 0 || end < 0) return null;
+  try {
+    const parsed = JSON.parse(prompt.slice(start, end + 2)) as { characters?: unknown[] };
+    const row = parsed.characters?.[0];
+    return row && typeof row === "object" ? row as Record<string, unknown> : null;
+  } catch {
+    return null;
+  }
+}
+
+export function buildRuleBasedExtractionResponse(prompt: string): string {
+  const namesLine = readLine(prompt, "include one entry for each character name exactly:").replace(/\.$/, "");
+  const names = (namesLine || readLine(prompt, "Characters:")).split(",").map(name => name.trim()).filter(Boolean);
+  const maxDelta = Math.max(1, Number(readLine(prompt, "each in range -").split("..")[0]) || 15);
+  const contextStart = prompt.indexOf("Recent messages:");
+  const context = contextStart >= 0 ? prompt.slice(contextStart) : prompt;
+  const score = countWords(context, POSITIVE_WORDS) - countWords(context, NEGATIVE_WORDS);
+  const delta = Math.max(-maxDelta, Math.min(maxDelta, score * 2));
+  const template = readTemplateRow(prompt) ?? { name: "", confidence: 0 };
+
+  const characters = names.map(name => {
+    const row: Record<string, unknown> = { name, confidence: 0.7 };
+    if (template.delta && typeof template.delta === "object") {
+      row.delta = Object.fromEntries(Object.keys(template.delta).map(key => [key, delta]));
+    }
+    if ("mood" in template) row.mood = score > 0 ? "Happy" : score < 0 ? "Sad" : "Neutral";
+    if ("lastThought" in template) row.lastThought = `${name} takes in what just happened.`;
+    if (template.value && typeof template.value === "object") row.value = template.value;
+    return row;
+  });
+  return JSON.stringify({ characters });
+}
+
+export function parseMockCompletionScript(raw: string): MockCompletionStep[] {
+  return raw
+    .split(/[\s,]+/)
+    .map(token => token.trim().toLowerCase())
+    .filter(Boolean)
+    .flatMap(token => {
+      const [kind, delay] = token.split(":");
+      if (!STEP_KINDS.includes(kind as MockCompletionStepKind)) return [];
+      const delayMs = Number(delay);
+      return [{ kind: kind as MockCompletionStepKind, ...(delay && Number.isFinite(delayMs) ? { delayMs: Math.max(0, delayMs) } : {}) }];
+    });
+}
+
+function abortError(): DOMException {
+  return new DOMException("Request aborted by user", "AbortError");
+}
+
+function waitFor(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const timer = ms === Infinity ? null : setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = (): void => {
+      if (timer) clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function promptOf(requestData: Record<string, unknown>): string {
+  if (typeof requestData.prompt === "string") return requestData.prompt;
+  const messages = Array.isArray(requestData.messages) ? requestData.messages : [];
+  return messages.map(message => String((message as { content?: unknown })?.content ?? "")).join("\n");
+}
+
+export function createMockCompletionService(options: MockCompletionOptions = {}): MockCompletionService {
+  const calls: MockCompletionCall[] = [];
+  const nextStep = (): MockCompletionStep => {
+    const script = options.script ?? [];
+    if (!script.length) return { kind: "rules" };
+    const index = calls.length;
+    if (index < script.length) return script[index];
+    return options.loop ? script[index % script.length] : { kind: "rules" };
+  };
+
+  const processRequest: MockCompletionService["processRequest"] = async (requestData, _options, _extractData, signal) => {
+    const step = nextStep();
+    const prompt = promptOf(requestData);
+    const call: MockCompletionCall = { index: calls.length, kind: step.kind, promptChars: prompt.length, aborted: false };
+    calls.push(call);
+    try {
+      await waitFor(step.kind === "hang" ? Infinity : step.delayMs ?? options.delayMs ?? 0, signal);
+    } catch (error) {
+      call.aborted = true;
+      throw error;
+    }
+    if (step.kind === "abort") {
+      call.aborted = true;
+      throw abortError();
+    }
+    if (step.kind === "error") {
+      throw Object.assign(new Error("Mock backend failure"), { status: 503, statusText: "Service Unavailable" });
+    }
+    const valid = step.text ?? buildRuleBasedExtractionResponse(prompt);
+    const text = step.kind === "malformed"
+      ? "I'd rather describe the scene than return JSON."
+      : step.kind === "truncated"
+        ? valid.slice(0, Math.max(1, Math.floor(valid.length * 0.6)))
+        : step.kind === "empty"
+          ? ""
+          : valid;
+    return typeof requestData.prompt === "string"
+      ? { choices: [{ text }] }
+      : { choices: [{ message: { role: "assistant", content: text } }] };
+  };
+
+  return { processRequest, calls, options };
+}
+
+export function createMockGenerate(service: MockCompletionService, signal?: AbortSignal): GenerateJson {
+  return async (prompt, settings) => {
+    const data = await service.processRequest({ stream: false, messages: [{ role: "user", content: prompt }] }, {}, true, signal) as {
+      choices?: Array<{ message?: { content?: string } }>;
+    };
+    const text = String(data.choices?.[0]?.message?.content ?? "").trim();
+    const meta = {
+      profileId: MOCK_COMPLETION_SOURCE,
+      promptChars: prompt.length,
+      maxTokens: settings.maxTokensOverride,
+      durationMs: 0,
+      outputChars: text.length,
+      timestamp: Date.now(),
+    };
+    if (!text) throw Object.assign(new Error("Active runtime request returned empty output"), { meta });
+    return { text, meta };
+  };
+}
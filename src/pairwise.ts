@@ -0,0 +1,111 @@
+import { GLOBAL_TRACKER_KEY, MAX_PAIRWISE_PAIRS, PAIR_KEY_SEPARATOR, USER_TRACKER_KEY } from "./constants";
+import { getAllNumericStatDefinitions, type NumericStatDefinition } from "./statRegistry";
+import type { BetterSimTrackerSettings, PairStatistics, TrackerData } from "./types";
+
+export interface CharacterPair {
+  source: string;
+  target: string;
+}
+
+export interface RelationshipMatrix {
+  stat: NumericStatDefinition;
+  characters: string[];
+  rows: Array<{ source: string; cells: Array<{ target: string; value: number | null }> }>;
+}
+
+export function toPairKey(source: string, target: string): string {
+  return `${source}${PAIR_KEY_SEPARATOR}${target}`;
+}
+
+export function parsePairKey(key: string): CharacterPair | null {
+  const index = key.indexOf(PAIR_KEY_SEPARATOR);
+  if (index <= 0) return null;
+  const source = key.slice(0, index);
+  const target = key.slice(index + PAIR_KEY_SEPARATOR.length);
+  return target && target !== source ? { source, target } : null;
+}
+
+function pairCharacters(characters: string[]): string[] {
+  const names: string[] = [];
+  for (const raw of characters) {
+    const name = String(raw ?? "").trim();
+    if (!name || name === USER_TRACKER_KEY || name === GLOBAL_TRACKER_KEY || names.includes(name)) continue;
+    names.push(name);
+  }
+  return names;
+}
+
+export function listCharacterPairs(characters: string[]): CharacterPair[] {
+  const names = pairCharacters(characters);
+  const pairs: CharacterPair[] = [];
+  for (const source of names) {
+    for (const target of names) {
+      if (source === target) continue;
+      pairs.push({ source, target });
+      if (pairs.length >= MAX_PAIRWISE_PAIRS) return pairs;
+    }
+  }
+  return pairs;
+}
+
+export function getPairwiseStatDefinitions(settings: BetterSimTrackerSettings): NumericStatDefinition[] {
+  const globalIds = new Set((settings.customStats ?? []).filter(def => def.globalScope).map(def => def.id));
+  const byId = new Map(getAllNumericStatDefinitions(settings).map(def => [def.id, def]));
+  return (settings.pairwiseStats ?? [])
+    .map(id => byId.get(id))
+    .filter((def): def is NumericStatDefinition => Boolean(def && def.track && !def.computed && !globalIds.has(def.id)));
+}
+
+export function readPairValue(pairStatistics: PairStatistics | null | undefined, statId: string, pair: CharacterPair): number | undefined {
+  const value = pairStatistics?.[statId]?.[toPairKey(pair.source, pair.target)];
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+export function filterPairStatisticsToCharacters(pairStatistics: PairStatistics, characters: string[]): PairStatistics {
+  const allowed = new Set(characters);
+  const out: PairStatistics = {};
+  for (const [statId, byPair] of Object.entries(pairStatistics ?? {})) {
+    const kept = Object.fromEntries(Object.entries(byPair ?? {}).filter(([key]) => {
+      const pair = parsePairKey(key);
+      return Boolean(pair && allowed.has(pair.source) && allowed.has(pair.target));
+    }));
+    if (Object.keys(kept).length) out[statId] = kept;
+  }
+  return out;
+}
+
+export function buildPairwiseInjectionLines(settings: BetterSimTrackerSettings, data: TrackerData, speaker: string): string[] {
+  const stats = getPairwiseStatDefinitions(settings).filter(def => def.includeInInjection);
+  if (!stats.length || !speaker || speaker === USER_TRACKER_KEY) return [];
+  return listCharacterPairs([speaker, ...data.activeCharacters])
+    .filter(pair => pair.source === speaker || pair.target === speaker)
+    .map(pair => {
+      const parts = stats.flatMap(def => {
+        const value = readPairValue(data.pairStatistics, def.id, pair);
+        return value === undefined ? [] : [`${def.id}=${Math.round(value)}`];
+      });
+      return parts.length ? `- ${pair.source} ${PAIR_KEY_SEPARATOR} ${pair.target}: ${parts.join("; ")}` : "";
+    })
+    .filter(Boolean);
+}
+
+export function buildRelationshipMatrices(settings: BetterSimTrackerSettings, data: TrackerData | null): RelationshipMatrix[] {
+  if (!data) return [];
+  const recorded = Object.values(data.pairStatistics ?? {})
+    .flatMap(bucket => Object.keys(bucket ?? {}))
+    .map(parsePairKey)
+    .flatMap(pair => pair ? [pair.source, pair.target] : []);
+  const characters = pairCharacters([...data.activeCharacters, ...recorded]);
+  if (characters.length < 2) return [];
+  return getPairwiseStatDefinitions(settings).map(stat => ({
+    stat,
+    characters,
+    rows: characters.map(source => ({
+      source,
+      cells: characters.map(target => ({
+        target,
+        value: target === source ? null : readPairValue(data.pairStatistics, stat.id, { source, target }) ?? null,
+      })),
+    })),
+  }));
+}
@@ -1,7 +1,9 @@
+import { PAIR_KEY_SEPARATOR } from "./constants";
 import { moodOptions } from "./prompts";
-import type { CustomNonNumericValue, CustomStatKind, NumericStatKey, StatKey, StatValue } from "./types";
+import type { CustomNonNumericValue, CustomStatKind, NumericStatKey, PresenceVerdict, StatKey, StatValue } from "./types";
 import type { Statistics } from "./types";
 import { normalizeDateTimeWithMode } from "./dateTime";
+import { parseTolerantJson } from "./tolerantJson";
 import {
   normalizeCustomEnumOptions,
   normalizeCustomNonNumericValue,
@@ -11,17 +13,7 @@ import {
 type CharacterNameAliases = Record<string, string>;
 
 function safeJsonParse(raw: string): unknown {
-  try {
-    return JSON.parse(raw);
-  } catch {
-    const block = raw.match(/\{[\s\S]*\}/);
-    if (!block) return null;
-    try {
-      return JSON.parse(block[0]);
-    } catch {
-      return null;
-    }
-  }
+  return parseTolerantJson(raw).value;
 }
 
 function emptyStatistics(): Statistics {
@@ -49,6 +41,15 @@ function coerceNumeric(value: unknown): number | null {
   return null;
 }
 
+function coerceRawDelta(value: unknown): number | null {
+  if (typeof value === "number" && Number.isFinite(value)) return Math.round(value);
+  if (typeof value === "string") {
+    const n = Number(value);
+    if (!Number.isNaN(n)) return Math.round(n);
+  }
+  return null;
+}
+
 function coerceText(value: unknown): string | null {
   if (typeof value !== "string") return null;
   const trimmed = value.trim();
@@ -259,6 +260,13 @@ export function parseUnifiedDeltaResponse(
     desire: Record<string, number>;
     connection: Record<string, number>;
   };
+  rawDeltas: {
+    affection: Record<string, number>;
+    trust: Record<string, number>;
+    desire: Record<string, number>;
+    connection: Record<string, number>;
+  };
+  reasons: Record<string, string>;
   mood: Record<string, string>;
   lastThought: Record<string, string>;
 } {
@@ -273,6 +281,13 @@ export function parseUnifiedDeltaResponse(
       desire: {} as Record<string, number>,
       connection: {} as Record<string, number>,
     },
+    rawDeltas: {
+      affection: {} as Record<string, number>,
+      trust: {} as Record<string, number>,
+      desire: {} as Record<string, number>,
+      connection: {} as Record<string, number>,
+    },
+    reasons: {} as Record<string, string>,
     mood: {} as Record<string, string>,
     lastThought: {} as Record<string, string>,
   };
@@ -293,14 +308,6 @@ export function parseUnifiedDeltaResponse(
 
   const safeMaxDelta = Math.max(1, Math.round(Number(maxDelta) || 15));
   const clampDelta = (n: number): number => Math.max(-safeMaxDelta, Math.min(safeMaxDelta, Math.round(n)));
-  const coerceDelta = (value: unknown): number | null => {
-    if (typeof value === "number" && Number.isFinite(value)) return clampDelta(value);
-    if (typeof value === "string") {
-      const n = Number(value);
-      if (!Number.isNaN(n)) return clampDelta(n);
-    }
-    return null;
-  };
 
   for (const name of activeCharacters) {
     const row = byName.get(name);
@@ -311,22 +318,16 @@ export function parseUnifiedDeltaResponse(
       result.confidence[name] = Math.max(0, Math.min(1, confRaw));
     }
 
+    const reason = coerceText(row.reason);
+    if (reason !== null) result.reasons[name] = reason;
+
     const deltaObj = (row.delta && typeof row.delta === "object" ? row.delta : null) as Record<string, unknown> | null;
-    if (enabledSet.has("affection")) {
-      const v = coerceDelta(deltaObj?.affection ?? row.delta_affection);
-      if (v !== null) result.deltas.affection[name] = v;
-    }
-    if (enabledSet.has("trust")) {
-      const v = coerceDelta(deltaObj?.trust ?? row.delta_trust);
-      if (v !== null) result.deltas.trust[name] = v;
-    }
-    if (enabledSet.has("desire")) {
-      const v = coerceDelta(deltaObj?.desire ?? row.delta_desire);
-      if (v !== null) result.deltas.desire[name] = v;
-    }
-    if (enabledSet.has("connection")) {
-      const v = coerceDelta(deltaObj?.connection ?? row.delta_connection);
-      if (v !== null) result.deltas.connection[name] = v;
+    for (const key of ["affection", "trust", "desire", "connection"] as const) {
+      if (!enabledSet.has(key)) continue;
+      const v = coerceRawDelta(deltaObj?.[key] ?? row[`delta_${key}`]);
+      if (v === null) continue;
+      result.deltas[key][name] = clampDelta(v);
+      result.rawDeltas[key][name] = v;
     }
     if (enabledSet.has("mood")) {
       const v = coerceText(row.mood);
@@ -350,12 +351,16 @@ export function parseCustomDeltaResponse(
 ): {
   confidence: Record<string, number>;
   delta: Record<string, number>;
+  rawDelta: Record<string, number>;
+  reasons: Record<string, string>;
 } {
   const parsed = safeJsonParse(rawText);
   const byName = new Map<string, Record<string, unknown>>();
   const result = {
     confidence: {} as Record<string, number>,
     delta: {} as Record<string, number>,
+    rawDelta: {} as Record<string, number>,
+    reasons: {} as Record<string, string>,
   };
   if (!parsed || typeof parsed !== "object") return result;
 
@@ -380,14 +385,6 @@ export function parseCustomDeltaResponse(
 
   const safeMaxDelta = Math.max(1, Math.round(Number(maxDelta) || 15));
   const clampDelta = (n: number): number => Math.max(-safeMaxDelta, Math.min(safeMaxDelta, Math.round(n)));
-  const coerceDelta = (value: unknown): number | null => {
-    if (typeof value === "number" && Number.isFinite(value)) return clampDelta(value);
-    if (typeof value === "string") {
-      const n = Number(value);
-      if (!Number.isNaN(n)) return clampDelta(n);
-    }
-    return null;
-  };
 
   for (const name of activeCharacters) {
     const row = byName.get(name);
@@ -401,10 +398,96 @@ export function parseCustomDeltaResponse(
     const deltaObj = (row.delta && typeof row.delta === "object" ? row.delta : null) as Record<string, unknown> | null;
     const valueFromDeltaObject = deltaObj?.[statId];
     const fallbackValue = row[statId] ?? row.value;
-    const v = coerceDelta(valueFromDeltaObject ?? fallbackValue);
+    const v = coerceRawDelta(valueFromDeltaObject ?? fallbackValue);
     if (v !== null) {
-      result.delta[name] = v;
+      result.delta[name] = clampDelta(v);
+      result.rawDelta[name] = v;
+    }
+    const reason = coerceText(row.reason);
+    if (reason !== null) result.reasons[name] = reason;
+  }
+
+  return result;
+}
+
+export function parsePairwiseDeltaResponse(
+  rawText: string,
+  pairs: Array<{ source: string; target: string }>,
+  statIds: string[],
+  maxDelta = 15,
+  nameAliases?: CharacterNameAliases,
+): {
+  confidence: Record<string, number>;
+  delta: Record<string, Record<string, number>>;
+  rawDelta: Record<string, Record<string, number>>;
+} {
+  const parsed = safeJsonParse(rawText);
+  const result = {
+    confidence: {} as Record<string, number>,
+    delta: {} as Record<string, Record<string, number>>,
+    rawDelta: {} as Record<string, Record<string, number>>,
+  };
+  if (!parsed || typeof parsed !== "object") return result;
+  const list = (parsed as Record<string, unknown>).pairs;
+  if (!Array.isArray(list)) return result;
+
+  const characters = Array.from(new Set(pairs.flatMap(pair => [pair.source, pair.target])));
+  const allowed = new Set(pairs.map(pair => `${pair.source}${PAIR_KEY_SEPARATOR}${pair.target}`));
+  const safeMaxDelta = Math.max(1, Math.round(Number(maxDelta) || 15));
+  const clampDelta = (n: number): number => Math.max(-safeMaxDelta, Math.min(safeMaxDelta, Math.round(n)));
+
+  for (const row of list) {
+    if (!row || typeof row !== "object") continue;
+    const obj = row as Record<string, unknown>;
+    const source = resolveCharacterName(String(obj.source ?? ""), characters, nameAliases);
+    const target = resolveCharacterName(String(obj.target ?? ""), characters, nameAliases);
+    if (!source || !target) continue;
+    const key = `${source}${PAIR_KEY_SEPARATOR}${target}`;
+    if (!allowed.has(key)) continue;
+
+    const confRaw = Number(obj.confidence);
+    if (!Number.isNaN(confRaw)) {
+      result.confidence[key] = Math.max(0, Math.min(1, confRaw));
     }
+    const deltaObj = (obj.delta && typeof obj.delta === "object" ? obj.delta : obj) as Record<string, unknown>;
+    for (const statId of statIds) {
+      const v = coerceRawDelta(deltaObj[statId]);
+      if (v === null) continue;
+      result.delta[statId] = { ...result.delta[statId], [key]: clampDelta(v) };
+      result.rawDelta[statId] = { ...result.rawDelta[statId], [key]: v };
+    }
+  }
+
+  return result;
+}
+
+function coercePresence(value: unknown): boolean | null {
+  if (typeof value === "boolean") return value;
+  const normalized = String(value ?? "").trim().toLowerCase();
+  if (normalized === "true" || normalized === "yes") return true;
+  if (normalized === "false" || normalized === "no") return false;
+  return null;
+}
+
+export function parsePresenceResponse(
+  rawText: string,
+  characters: string[],
+  nameAliases?: CharacterNameAliases,
+): Record<string, PresenceVerdict> {
+  const parsed = safeJsonParse(rawText);
+  const result: Record<string, PresenceVerdict> = {};
+  if (!parsed || typeof parsed !== "object") return result;
+  const list = (parsed as Record<string, unknown>).presence;
+  if (!Array.isArray(list)) return result;
+
+  for (const row of list) {
+    if (!row || typeof row !== "object") continue;
+    const obj = row as Record<string, unknown>;
+    const name = resolveCharacterName(String(obj.name ?? ""), characters, nameAliases);
+    if (!name || result[name]) continue;
+    const present = coercePresence(obj.present);
+    if (present === null) continue;
+    result[name] = { present, reason: coerceText(obj.reason) ?? "" };
   }
 
   return result;
@@ -489,6 +489,7 @@ function renderPanel(input: InitInput, force = false): void {
     if (!id || !label) return "";
     const disabledAttr = isStatEnabled(id) ? "" : "disabled";
     const kind = normalizeCustomStatKind(definition.kind);
+    if (kind === "computed") return "";
     if (kind === "numeric") {
       const rawValue = customNumericDefaultsRaw[id];
       const value = typeof rawValue === "number" && Number.isFinite(rawValue)
@@ -1,6 +1,9 @@
-import { DEFAULT_INJECTION_PROMPT_TEMPLATE } from "./prompts";
-import { GLOBAL_TRACKER_KEY, USER_TRACKER_KEY } from "./constants";
+import { DEFAULT_INJECTION_PROMPT_TEMPLATE, formatStatMeaningLine } from "./prompts";
+import { applyActiveCharacterPinsToNames, readActiveCharacterPins } from "./activity";
+import { GLOBAL_TRACKER_KEY, MAX_CUSTOM_STATS, USER_TRACKER_KEY } from "./constants";
 import { resolveCharacterDefaultsEntry } from "./characterDefaults";
+import { resolveCustomStatValueKind } from "./customStatRuntime";
+import { buildPairwiseInjectionLines } from "./pairwise";
 import { buildMergedPromptMacroData } from "./runtimeState";
 import {
   behaviorGuidanceLines,
@@ -10,7 +13,9 @@ import {
   resolveScopedCustomNonNumericValue,
   resolveScopedCustomNumericValue,
 } from "./promptInjectionHelpers";
-import type { BetterSimTrackerSettings, STContext, TrackerData } from "./types";
+import { getBuiltInNumericStatDefinitions, getBuiltInStatDefinition } from "./statRegistry";
+import { readPendingTriggerNotes } from "./triggers";
+import type { BetterSimTrackerSettings, NumericStatKey, STContext, StatKey, TrackerData } from "./types";
 
 const INJECT_KEY = "bst_relationship_state";
 const SUMMARY_NOTE_MODEL = "bettersimtracker.summary";
@@ -240,6 +245,12 @@ function readLatestSummaryNote(context: STContext): string {
   return "";
 }
 
+function buildTriggerNotesBlock(context: STContext): string {
+  const notes = readPendingTriggerNotes(context);
+  if (!notes.length) return "";
+  return bstTagBlock("BST_TRIGGER_NOTES", ["One-time story notes (apply to this reply only):", ...notes.map(note => `- ${note}`)].join("\n"));
+}
+
 function buildPrompt(data: TrackerData, settings: BetterSimTrackerSettings, context: STContext): string {
   const latestSummaryNote = settings.injectSummarizationNote ? readLatestSummaryNote(context) : "";
   const targetOwner = resolveInjectionTargetOwner(context, data);
@@ -254,14 +265,16 @@ function buildPrompt(data: TrackerData, settings: BetterSimTrackerSettings, cont
   const allEnabledCustom = (settings.customStats ?? [])
     .filter(stat => stat.includeInInjection && customStatTracksAnyScope(stat))
     .filter(stat => !stat.privateToOwner || Boolean(targetOwnerKey))
-    .slice(0, 8);
-  const allEnabledCustomNumeric = allEnabledCustom.filter(stat => (stat.kind ?? "numeric") === "numeric");
-  const allEnabledCustomNonNumeric = allEnabledCustom.filter(stat => (stat.kind ?? "numeric") !== "numeric");
+    .slice(0, MAX_CUSTOM_STATS);
+  const allEnabledCustomNumeric = allEnabledCustom.filter(stat => resolveCustomStatValueKind(stat) === "numeric");
+  const allEnabledCustomNonNumeric = allEnabledCustom.filter(stat => resolveCustomStatValueKind(stat) !== "numeric");
+  const triggerNotes = buildTriggerNotesBlock(context);
+  const activeNames = applyActiveCharacterPinsToNames(data.activeCharacters, readActiveCharacterPins(context));
   type InjectionVerbosityMode = "full" | "no_react_rules" | "minimal";
   const buildWithCustom = (customStatCount: number, verbosity: InjectionVerbosityMode): string => {
     const enabledCustom = allEnabledCustom.slice(0, customStatCount);
     const allowUserInjection = Boolean(settings.includeUserTrackerInInjection && settings.enableUserTracking);
-    const names = [...data.activeCharacters];
+    const names = [...activeNames];
     if (targetOwner && targetOwner !== USER_TRACKER_KEY && !names.includes(targetOwner)) {
       names.push(targetOwner);
     }
@@ -278,7 +291,7 @@ function buildPrompt(data: TrackerData, settings: BetterSimTrackerSettings, cont
       const hasUserLastThought = settings.userTrackLastThought && String(data.statistics.lastThought?.[USER_TRACKER_KEY] ?? "").trim().length > 0;
       const hasUserCustom = enabledCustom.some(stat =>
         customStatTracksScope(stat, "user") &&
-        ((stat.kind ?? "numeric") === "numeric"
+        (resolveCustomStatValueKind(stat) === "numeric"
           ? resolveScopedCustomNumericValue(data, stat.id, USER_TRACKER_KEY, Boolean(stat.globalScope)) !== undefined
           : resolveScopedCustomNonNumericValue(data, stat.id, USER_TRACKER_KEY, Boolean(stat.globalScope)) !== undefined)
       );
@@ -299,38 +312,17 @@ function buildPrompt(data: TrackerData, settings: BetterSimTrackerSettings, cont
         return true;
       });
     });
-    const enabledCustomNumeric = scopedEnabledCustom.filter(stat => (stat.kind ?? "numeric") === "numeric");
-    const enabledCustomNonNumeric = scopedEnabledCustom.filter(stat => (stat.kind ?? "numeric") !== "numeric");
+    const enabledCustomNumeric = scopedEnabledCustom.filter(stat => resolveCustomStatValueKind(stat) === "numeric");
+    const enabledCustomNonNumeric = scopedEnabledCustom.filter(stat => resolveCustomStatValueKind(stat) !== "numeric");
     const enabledGlobalCustomNumeric = enabledCustomNumeric.filter(stat => Boolean(stat.globalScope));
     const enabledGlobalCustomNonNumeric = enabledCustomNonNumeric.filter(stat => Boolean(stat.globalScope));
     const enabledOwnerCustomNumeric = enabledCustomNumeric.filter(stat => !Boolean(stat.globalScope));
     const enabledOwnerCustomNonNumeric = enabledCustomNonNumeric.filter(stat => !Boolean(stat.globalScope));
-    const numericKeys: Array<{
-      key: "affection" | "trust" | "desire" | "connection";
-      label: string;
-      enabled: boolean;
-    }> = [
-      {
-        key: "affection",
-        label: "affection",
-        enabled: settings.trackAffection && builtInUi.affection.includeInInjection,
-      },
-      {
-        key: "trust",
-        label: "trust",
-        enabled: settings.trackTrust && builtInUi.trust.includeInInjection,
-      },
-      {
-        key: "desire",
-        label: "desire",
-        enabled: settings.trackDesire && builtInUi.desire.includeInInjection,
-      },
-      {
-        key: "connection",
-        label: "connection",
-        enabled: settings.trackConnection && builtInUi.connection.includeInInjection,
-      },
-    ];
+    const numericKeys = getBuiltInNumericStatDefinitions(settings).map(def => ({
+      key: def.id as NumericStatKey,
+      label: def.id,
+      enabled: def.track && builtInUi[def.id as NumericStatKey].includeInInjection,
+    }));
     const enabledBuiltIns = numericKeys.filter(entry => entry.enabled);
     const enabledBuiltInKeys = new Set(enabledBuiltIns.map(entry => entry.key));
     const hasAnyNumeric = enabledBuiltIns.length > 0 || enabledCustomNumeric.length > 0;
@@ -409,6 +401,10 @@ function buildPrompt(data: TrackerData, settings: BetterSimTrackerSettings, cont
         sceneParts.push(`${stat.id}=${value}`);
       }
     }
+    const pairLines = settings.injectPairwiseRelations && targetOwner
+      ? buildPairwiseInjectionLines(settings, data, targetOwner)
+      : [];
+    lines.push(...pairLines);
     if (sceneParts.length) {
       lines.push(`- Scene: ${sceneParts.join("; ")}`);
     }
@@ -425,13 +421,12 @@ function buildPrompt(data: TrackerData, settings: BetterSimTrackerSettings, cont
       "Use this state to keep character behavior coherent with current relationship progression.",
       "Treat as soft state: do not quote numbers directly; express them through tone, wording, initiative, boundaries, and choices.",
     ].join("\n");
+    const formatBuiltInSemantic = (key: StatKey): string => {
+      const def = getBuiltInStatDefinition(settings, key);
+      return formatStatMeaningLine(key, def.promptMeaning, def.relabeled ? def.label : undefined);
+    };
     const statSemanticsRaw = [
-      ...enabledBuiltIns.map(stat => {
-        if (stat.key === "affection") return "- affection: emotional warmth, fondness, care toward the user";
-        if (stat.key === "trust") return "- trust: perceived safety/reliability; willingness to be vulnerable";
-        if (stat.key === "desire") return "- desire: physical/romantic attraction and flirt/sexual tension";
-        return "- connection: felt closeness/bond depth and emotional attunement";
-      }),
+      ...enabledBuiltIns.map(stat => formatBuiltInSemantic(stat.key)),
       ...scopedEnabledCustom.map(stat => {
         const label = stat.label?.trim() || stat.id;
         const description = stat.description?.trim();
@@ -440,8 +435,9 @@ function buildPrompt(data: TrackerData, settings: BetterSimTrackerSettings, cont
           ? `- ${stat.id}: ${compactMode ? label : description}`
           : `- ${stat.id}: custom stat "${label}"`;
       }),
-      ...(includeMood ? ["- mood: immediate emotional tone for this turn"] : []),
-      ...(includeLastThoughtByPrivacy ? ["- lastThought: brief internal thought grounded in recent messages"] : []),
+      ...(includeMood ? [formatBuiltInSemantic("mood")] : []),
+      ...(includeLastThoughtByPrivacy ? [formatBuiltInSemantic("lastThought")] : []),
+      ...(pairLines.length ? ["- A \u2192 B lines: how A feels toward B, not toward the user"] : []),
     ].join("\n");
     const statSemantics = bstTagBlock("BST_STAT_SEMANTICS", statSemanticsRaw);
     const behaviorBandsRaw = verbosity === "minimal"
@@ -531,7 +527,7 @@ function buildPrompt(data: TrackerData, settings: BetterSimTrackerSettings, cont
       summarizationNote,
       lorebookContext: "",
     }).trim();
-    return `${rendered}\n</bst_inject_block>`.trim();
+    return [rendered, triggerNotes, "</bst_inject_block>"].filter(Boolean).join("\n").trim();
   };
 
   const verbosityOrder: InjectionVerbosityMode[] = ["full", "no_react_rules", "minimal"];
@@ -625,7 +621,8 @@ export async function syncPromptInjection(input: {
     reservedOwnerLineDetected: ownerLines.some(line => /silly\s*tavern\s*system|sillytavern\s*system|^\-\s*system\b/i.test(line)),
   };
   if (!settings.injectTrackerIntoPrompt) {
-    setExtensionPrompt(INJECT_KEY, "", inChat, depth, false, systemRole);
+    const triggerNotes = buildTriggerNotesBlock(context);
+    setExtensionPrompt(INJECT_KEY, triggerNotes, inChat, depth, Boolean(triggerNotes), systemRole);
     return;
   }
 
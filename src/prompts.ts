@@ -1,7 +1,7 @@
-import type { CustomStatDefinition, CustomStatKind, CustomNonNumericStatistics, CustomStatistics, StatKey } from "./types";
+import type { CustomStatDefinition, CustomStatKind, CustomNonNumericStatistics, CustomStatistics, PairStatistics, StatKey } from "./types";
 import type { Statistics } from "./types";
 import type { TrackerData } from "./types";
-import { GLOBAL_TRACKER_KEY } from "./constants";
+import { GLOBAL_TRACKER_KEY, PAIR_KEY_SEPARATOR } from "./constants";
 import { normalizeDateTimeValue } from "./dateTime";
 import { MAX_CUSTOM_ARRAY_ITEMS, MAX_CUSTOM_ENUM_OPTIONS, normalizeNonNumericArrayItems } from "./customStatRuntime";
 
@@ -23,20 +23,85 @@ export const moodOptions = [
   "Neutral"
 ];
 
+export const BUILT_IN_STAT_PROMPT_MEANINGS: Record<StatKey, string> = {
+  affection: "emotional warmth, fondness, care toward the user",
+  trust: "perceived safety/reliability; willingness to be vulnerable",
+  desire: "physical/romantic attraction and flirt/sexual tension",
+  connection: "felt closeness/bond depth and emotional attunement",
+  mood: "immediate emotional tone for this turn",
+  lastThought: "brief internal thought grounded in recent messages",
+};
+
+const DESIRE_ROMANCE_RULE_LINES = [
+  "Rule:",
+  "- If the relationship is non-romantic, desire deltas must be 0 or negative.",
+  " - Do not infer romance from affection or playfulness.",
+];
+
+const DESIRE_ROMANCE_INSTRUCTION_LINE = "- Only increase desire if the relationship is explicitly romantic/sexual in the recent messages. If the relationship is non-romantic, desire must be 0 or negative. Do not infer romance from affectionate or playful behavior alone.";
+
 export const MAIN_PROMPT = `SYSTEM:
 You are a relationship-state extraction engine. Follow the task and protocol exactly.
 Stat meanings:
-- affection: emotional warmth, fondness, care toward the user
-- trust: perceived safety/reliability; willingness to be vulnerable
-- desire: physical/romantic attraction and flirt/sexual tension
-- connection: felt closeness/bond depth and emotional attunement
-- mood: immediate emotional tone for this turn
-- lastThought: brief internal thought grounded in recent messages
-Rule:
-- If the relationship is non-romantic, desire deltas must be 0 or negative.
- - Do not infer romance from affection or playfulness.
+- affection: ${BUILT_IN_STAT_PROMPT_MEANINGS.affection}
+- trust: ${BUILT_IN_STAT_PROMPT_MEANINGS.trust}
+- desire: ${BUILT_IN_STAT_PROMPT_MEANINGS.desire}
+- connection: ${BUILT_IN_STAT_PROMPT_MEANINGS.connection}
+- mood: ${BUILT_IN_STAT_PROMPT_MEANINGS.mood}
+- lastThought: ${BUILT_IN_STAT_PROMPT_MEANINGS.lastThought}
+${DESIRE_ROMANCE_RULE_LINES.join("\n")}
 Do not add commentary or roleplay.`;
 
+export type BuiltInStatMeaningOverride = { label?: string; meaning: string };
+
+export function formatStatMeaningLine(key: string, meaning: string, label?: string): string {
+  return label ? `- ${key} ("${label}"): ${meaning}` : `- ${key}: ${meaning}`;
+}
+
+export function applyBuiltInStatMeanings(
+  prompt: string,
+  overrides: Partial<Record<StatKey, BuiltInStatMeaningOverride>>,
+): string {
+  let next = prompt;
+  for (const [key, override] of Object.entries(overrides) as Array<[StatKey, BuiltInStatMeaningOverride | undefined]>) {
+    if (!override) continue;
+    const meaning = String(override.meaning ?? "").trim() || BUILT_IN_STAT_PROMPT_MEANINGS[key];
+    next = next.replace(
+      formatStatMeaningLine(key, BUILT_IN_STAT_PROMPT_MEANINGS[key]),
+      formatStatMeaningLine(key, meaning, override.label),
+    );
+    if (key === "desire" && meaning !== BUILT_IN_STAT_PROMPT_MEANINGS.desire) {
+      next = next
+        .replace(`${DESIRE_ROMANCE_RULE_LINES.join("\n")}\n`, "")
+        .split("\n")
+        .filter(line => line !== DESIRE_ROMANCE_INSTRUCTION_LINE)
+        .join("\n");
+    }
+  }
+  return next;
+}
+
+export const CHANGE_REASON_RULE_LINE = "- add \"reason\" to each character entry: one short sentence (max 20 words) explaining the numeric changes, grounded in the recent messages.";
+
+function insertRuleLine(prompt: string, line: string): string {
+  const anchor = "- output JSON only, no commentary.";
+  const index = prompt.lastIndexOf(anchor);
+  if (index < 0) return `${prompt}\n${line}`;
+  return `${prompt.slice(0, index)}${line}\n${prompt.slice(index)}`;
+}
+
+export function applyChangeReasonRequest(prompt: string): string {
+  return insertRuleLine(prompt, CHANGE_REASON_RULE_LINE);
+}
+
+export function buildPresenceRuleLine(candidates: string[]): string {
+  return `- also add a top-level "presence" array next to "characters" with one entry for each of ${candidates.join(", ")}: {"name": "...", "present": true|false, "reason": "short phrase"}. "present" means physically in the scene or actively taking part right now, even if silent; characters who left or are elsewhere are not present.`;
+}
+
+export function applyPresenceRequest(prompt: string, candidates: string[]): string {
+  return candidates.length ? insertRuleLine(prompt, buildPresenceRuleLine(candidates)) : prompt;
+}
+
 export const DEFAULT_UNIFIED_PROMPT_INSTRUCTION = [
   "- Propose incremental changes to tracker state from the recent messages.",
   "- Do NOT rewrite absolute values; provide per-stat deltas.",
@@ -44,7 +109,7 @@ export const DEFAULT_UNIFIED_PROMPT_INSTRUCTION = [
   "- It is valid to return 0 or negative deltas if the interaction is neutral or negative.",
   "- Do not reuse the same delta for all stats unless strongly justified by context.",
   "- Use recent messages first; use character cards only to disambiguate when context is unclear.",
-  "- Only increase desire if the relationship is explicitly romantic/sexual in the recent messages. If the relationship is non-romantic, desire must be 0 or negative. Do not infer romance from affectionate or playful behavior alone.",
+  DESIRE_ROMANCE_INSTRUCTION_LINE,
 ].join("\n");
 
 export const DEFAULT_INJECTION_PROMPT_TEMPLATE = [
@@ -136,6 +201,29 @@ Rules:
 - omit fields for stats that are not requested.
 - output JSON only, no commentary.`;
 
+export const PAIRWISE_PROMPT_PROTOCOL = `Return deltas only, each in range -{{maxDelta}}..{{maxDelta}}.
+
+Return STRICT JSON only:
+{
+  "pairs": [
+    {
+      "source": "Character Name",
+      "target": "Other Character Name",
+      "confidence": 0.0,
+      "delta": {
+        {{pairStatFields}}
+      }
+    }
+  ]
+}
+
+Rules:
+- each stat describes how source feels toward target, not toward {{user}}.
+- use only these pairs: {{pairs}}.
+- omit pairs with no interaction or evidence in the recent messages.
+- confidence is 0..1 and reflects your certainty in the update for that pair.
+- output JSON only, no commentary.`;
+
 export const MOOD_PROMPT_PROTOCOL = `Return STRICT JSON only:
 {
   "characters": [
@@ -220,7 +308,7 @@ export const DEFAULT_SEQUENTIAL_PROMPT_INSTRUCTIONS: Record<StatKey, string> = {
     "- It is valid to return 0 or negative deltas if the interaction is neutral or negative.",
     "- Do not reuse the same delta for all characters unless strongly justified by context.",
     "- Use recent messages first; use character cards only to disambiguate when context is unclear.",
-    "- Only increase desire if the relationship is explicitly romantic/sexual in the recent messages. If the relationship is non-romantic, desire must be 0 or negative. Do not infer romance from affectionate or playful behavior alone.",
+    DESIRE_ROMANCE_INSTRUCTION_LINE,
   ].join("\n"),
   connection: buildNumericInstruction("CONNECTION", "connection"),
   mood: [
@@ -1005,6 +1093,78 @@ export function buildSequentialCustomNumericPrompt(input: {
   });
 }
 
+export const DEFAULT_PAIRWISE_PROMPT_INSTRUCTION = [
+  "- Propose incremental changes to how each character feels toward each other character.",
+  "- Only update these pairwise stats: {{pairStats}}.",
+  "- A pair is directional: {{exampleSource}} toward {{exampleTarget}} can differ from {{exampleTarget}} toward {{exampleSource}}.",
+  "- Keep updates conservative and grounded in what the characters say and do to each other.",
+  "- Use recent messages first; use character cards only to disambiguate when context is unclear.",
+].join("\n");
+
+export function buildPairwisePrompt(input: {
+  stats: Array<{ id: string; label: string; description?: string; defaultValue: number }>;
+  pairs: Array<{ source: string; target: string }>;
+  maxDeltaPerTurn: number;
+  userName: string;
+  characters: string[];
+  contextText: string;
+  current: PairStatistics | null;
+  history: TrackerData[];
+  includeCharacterCardsInPrompt?: boolean;
+  includeLorebookInExtraction?: boolean;
+}): string {
+  const envelope = commonEnvelope(input.userName, input.characters, input.contextText);
+  const safeMaxDelta = Math.max(1, Math.round(Number(input.maxDeltaPerTurn) || 15));
+  const renderPairValues = (pairStatistics: PairStatistics | null | undefined, pair: { source: string; target: string }): string =>
+    input.stats.map(stat => {
+      const raw = Number(pairStatistics?.[stat.id]?.[`${pair.source}${PAIR_KEY_SEPARATOR}${pair.target}`] ?? stat.defaultValue);
+      return `${stat.id}=${Math.max(0, Math.min(100, Math.round(raw)))}`;
+    }).join(", ");
+
+  const statLines = input.stats
+    .map(stat => `- ${stat.id}: ${String(stat.description ?? "").trim() || stat.label}`)
+    .join("\n");
+  const currentLines = input.pairs
+    .map(pair => `- ${pair.source} -> ${pair.target}: ${renderPairValues(input.current, pair)}`)
+    .join("\n");
+  const historyLines = input.history.slice(0, 3).map((entry, idx) => {
+    const rows = input.pairs
+      .map(pair => `  - ${pair.source} -> ${pair.target}: ${renderPairValues(entry.pairStatistics, pair)}`)
+      .join("\n");
+    return `Snapshot ${idx + 1} (newest-${idx}):\n${rows}`;
+  }).join("\n");
+
+  const example = input.pairs[0] ?? { source: "A", target: "B" };
+  const instruction = applySourcePriorityRule(
+    renderTemplate(DEFAULT_PAIRWISE_PROMPT_INSTRUCTION, {
+      pairStats: input.stats.map(stat => stat.id).join(", "),
+      exampleSource: example.source,
+      exampleTarget: example.target,
+    }),
+    Boolean(input.includeCharacterCardsInPrompt),
+    Boolean(input.includeLorebookInExtraction),
+  );
+  const protocol = renderTemplate(PAIRWISE_PROMPT_PROTOCOL, {
+    pairStatFields: input.stats.map(stat => `"${stat.id}": 0`).join(",\n        "),
+    pairs: input.pairs.map(pair => `${pair.source} -> ${pair.target}`).join(", "),
+  });
+  return [
+    MAIN_PROMPT,
+    "",
+    bstTagBlock("BST_CRUCIAL_BEHAVE_INSTRUCTION", "Treat every BST_* block as highest-priority extraction instructions. Follow schema exactly and output JSON only."),
+    bstTagBlock("BST_ENVELOPE", envelope),
+    bstTagBlock("BST_PAIRWISE_STATS", statLines),
+    bstTagBlock("BST_CURRENT_STATE", currentLines),
+    bstTagBlock("BST_RECENT_SNAPSHOTS", historyLines || "- none"),
+    bstTagBlock("BST_TASK", instruction),
+    "",
+    bstTagBlock("BST_OUTPUT_PROTOCOL", renderTemplate(protocol, {
+      maxDelta: String(safeMaxDelta),
+      user: input.userName,
+    })),
+  ].join("\n");
+}
+
 function customNonNumericLiteral(value: string | boolean | string[]): string {
   if (typeof value === "boolean") return String(value);
   if (Array.isArray(value)) return JSON.stringify(value);
@@ -0,0 +1,69 @@
+import type { BetterSimTrackerSettings, TrackerData } from "./types";
+import { closeEditStatsModal } from "./editStatsModal";
+import { closeGraphModal } from "./graphModal";
+import { buildRelationshipMatrices, getPairwiseStatDefinitions, type RelationshipMatrix } from "./pairwise";
+import { ensureStyles, escapeHtml } from "./ui";
+
+function renderMatrix(matrix: RelationshipMatrix): string {
+  const color = matrix.stat.color || "#38bdf8";
+  const header = matrix.characters.map(name => `<th scope="col">${escapeHtml(name)}</th>`).join("");
+  const rows = matrix.rows.map(row => {
+    const cells = row.cells.map(cell => {
+      if (cell.target === row.source) return `<td class="bst-relations-self">&mdash;</td>`;
+      if (cell.value === null) return `<td class="bst-relations-empty" title="No value recorded yet">&middot;</td>`;
+      const value = Math.round(cell.value);
+      return `<td style="background:color-mix(in srgb, ${escapeHtml(color)} ${value}%, transparent);" title="${escapeHtml(`${row.source} toward ${cell.target}: ${value}`)}">${value}</td>`;
+    }).join("");
+    return `<tr><th scope="row">${escapeHtml(row.source)}</th>${cells}</tr>`;
+  }).join("");
+  return `
+    <div class="bst-relations-section">
+      <div class="bst-relations-stat">${escapeHtml(matrix.stat.label)}</div>
+      <table class="bst-relations-table">
+        <thead><tr><th></th>${header}</tr></thead>
+        <tbody>${rows}</tbody>
+      </table>
+    </div>`;
+}
+
+export function openRelationshipMatrixModal(input: {
+  settings: BetterSimTrackerSettings;
+  data: TrackerData | null;
+  onOpenWeb?: () => void;
+}): void {
+  ensureStyles();
+  closeEditStatsModal();
+  closeGraphModal();
+  closeRelationshipMatrixModal();
+
+  const backdrop = document.createElement("div");
+  backdrop.className = "bst-graph-backdrop bst-relations-backdrop";
+  backdrop.addEventListener("click", () => closeRelationshipMatrixModal());
+  document.body.appendChild(backdrop);
+
+  const modal = document.createElement("div");
+  modal.className = "bst-graph-modal bst-relations-modal";
+  const matrices = buildRelationshipMatrices(input.settings, input.data);
+  const empty = !getPairwiseStatDefinitions(input.settings).length
+    ? "No pairwise stats selected. Choose them under Pairwise Stats in the extension settings."
+    : "Pairwise relations need at least two tracked characters.";
+  modal.innerHTML = `
+    <div class="bst-graph-top">
+      <div class="bst-graph-title">Character Relationships</div>
+      <button class="bst-btn bst-close-btn" data-action="close" title="Close relationships" aria-label="Close relationships">&times;</button>
+    </div>
+    ${input.onOpenWeb ? `<div class="bst-graph-controls"><button type="button" class="bst-btn" data-action="open-web" title="Show all relationships as a network over time">Relationship web</button></div>` : ""}
+    ${matrices.length
+      ? `${matrices.map(renderMatrix).join("")}
+    <div class="bst-graph-hint">Each row shows how that character feels toward the character in the column.</div>`
+      : `<div class="bst-graph-hint">${empty}</div>`}
+  `;
+  document.body.appendChild(modal);
+  modal.querySelector('[data-action="close"]')?.addEventListener("click", () => closeRelationshipMatrixModal());
+  modal.querySelector('[data-action="open-web"]')?.addEventListener("click", () => input.onOpenWeb?.());
+}
+
+export function closeRelationshipMatrixModal(): void {
+  document.querySelector(".bst-relations-backdrop")?.remove();
+  document.querySelector(".bst-relations-modal")?.remove();
+}
@@ -0,0 +1,147 @@
+import { GLOBAL_TRACKER_KEY, USER_TRACKER_KEY } from "./constants";
+import { getNumericRawValue } from "./graphTimeline";
+import { parsePairKey, toPairKey } from "./pairwise";
+import { getAllNumericStatDefinitions, type NumericStatDefinition } from "./statRegistry";
+import type { BetterSimTrackerSettings, TrackerData } from "./types";
+
+export interface RelationshipWebNode {
+  id: string;
+  label: string;
+  user: boolean;
+  x: number;
+  y: number;
+}
+
+export interface RelationshipWebEdge {
+  source: string;
+  target: string;
+  color: number | null;
+  width: number | null;
+}
+
+export interface RelationshipWebFrame {
+  timestamp: number;
+  activeCharacters: string[];
+  edges: RelationshipWebEdge[];
+}
+
+export interface RelationshipWeb {
+  nodes: RelationshipWebNode[];
+  frames: RelationshipWebFrame[];
+}
+
+export const RELATIONSHIP_WEB_WIDTH = 640;
+export const RELATIONSHIP_WEB_HEIGHT = 420;
+
+export function getRelationshipWebStatDefinitions(settings: BetterSimTrackerSettings): NumericStatDefinition[] {
+  const globalIds = new Set((settings.customStats ?? []).filter(def => def.globalScope).map(def => def.id));
+  return getAllNumericStatDefinitions(settings).filter(def => def.track && !globalIds.has(def.id));
+}
+
+export function resolveRelationshipWebStats(
+  settings: BetterSimTrackerSettings,
+  preferred: { color?: string; width?: string } = {},
+): { color: NumericStatDefinition; width: NumericStatDefinition } | null {
+  const stats = getRelationshipWebStatDefinitions(settings);
+  if (!stats.length) return null;
+  const pick = (id: string | undefined, fallback: string): NumericStatDefinition =>
+    stats.find(def => def.id === id) ?? stats.find(def => def.id === fallback) ?? stats[0];
+  return { color: pick(preferred.color, "affection"), width: pick(preferred.width, "connection") };
+}
+
+function isCharacterOwner(owner: string): boolean {
+  return Boolean(owner) && owner !== USER_TRACKER_KEY && owner !== GLOBAL_TRACKER_KEY;
+}
+
+function ownerValues(entry: TrackerData, statId: string): Record<string, unknown> {
+  const builtIn = (entry.statistics as unknown as Record<string, Record<string, unknown> | undefined>)[statId];
+  return (builtIn ?? entry.customStatistics?.[statId] ?? {}) as Record<string, unknown>;
+}
+
+function collectCharacters(timeline: TrackerData[], statIds: string[]): string[] {
+  const names: string[] = [];
+  const add = (raw: string): void => {
+    const name = String(raw ?? "").trim();
+    if (isCharacterOwner(name) && !names.includes(name)) names.push(name);
+  };
+  for (const entry of timeline) {
+    entry.activeCharacters.forEach(add);
+    for (const statId of statIds) {
+      Object.keys(ownerValues(entry, statId)).forEach(add);
+      for (const key of Object.keys(entry.pairStatistics?.[statId] ?? {})) {
+        const pair = parsePairKey(key);
+        if (pair) {
+          add(pair.source);
+          add(pair.target);
+        }
+      }
+    }
+  }
+  return names;
+}
+
+function layoutNodes(characters: string[], userName: string): RelationshipWebNode[] {
+  const cx = RELATIONSHIP_WEB_WIDTH / 2;
+  const cy = RELATIONSHIP_WEB_HEIGHT / 2;
+  const radius = Math.min(cx, cy) - 60;
+  const nodes: RelationshipWebNode[] = [{ id: USER_TRACKER_KEY, label: userName || "User", user: true, x: cx, y: cy }];
+  characters.forEach((name, index) => {
+    const angle = -Math.PI / 2 + (2 * Math.PI * index) / characters.length;
+    nodes.push({
+      id: name,
+      label: name,
+      user: false,
+      x: Math.round(cx + radius * Math.cos(angle)),
+      y: Math.round(cy + radius * Math.sin(angle)),
+    });
+  });
+  return nodes;
+}
+
+export function buildRelationshipWeb(
+  settings: BetterSimTrackerSettings,
+  history: TrackerData[],
+  options: { colorStat: string; widthStat: string; userName?: string },
+): RelationshipWeb {
+  const timeline = [...history]
+    .filter(item => Number.isFinite(item.timestamp))
+    .sort((a, b) => a.timestamp - b.timestamp);
+  const channels: Array<["color" | "width", string]> = [["color", options.colorStat], ["width", options.widthStat]];
+  const characters = collectCharacters(timeline, [options.colorStat, options.widthStat]);
+  const nodes = layoutNodes(characters, String(options.userName ?? "").trim());
+  const pairStatIds = new Set(settings.pairwiseStats ?? []);
+  const carry = new Map<string, RelationshipWebEdge>();
+  const remember = (source: string, target: string, channel: "color" | "width", raw: unknown): void => {
+    const value = Number(raw);
+    if (raw === undefined || raw === null || !Number.isFinite(value)) return;
+    const key = toPairKey(source, target);
+    const edge = carry.get(key) ?? { source, target, color: null, width: null };
+    edge[channel] = Math.max(0, Math.min(100, value));
+    carry.set(key, edge);
+  };
+  const frames: RelationshipWebFrame[] = [];
+  for (const entry of timeline) {
+    for (const [channel, statId] of channels) {
+      for (const name of characters) {
+        remember(name, USER_TRACKER_KEY, channel, getNumericRawValue(entry, statId, name));
+      }
+      if (!pairStatIds.has(statId)) continue;
+      for (const [key, value] of Object.entries(entry.pairStatistics?.[statId] ?? {})) {
+        const pair = parsePairKey(key);
+        if (pair) remember(pair.source, pair.target, channel, value);
+      }
+    }
+    if (!carry.size) continue;
+    frames.push({
+      timestamp: entry.timestamp,
+      activeCharacters: [...entry.activeCharacters],
+      edges: [...carry.values()].map(edge => ({ ...edge })),
+    });
+  }
+  return { nodes, frames };
+}
+
+export function relationshipWebStrokeWidth(value: number | null): number {
+  if (value === null) return 1.5;
+  return Math.round((1 + (value / 100) * 7) * 10) / 10;
+}
@@ -0,0 +1,200 @@
+import type { BetterSimTrackerSettings, TrackerData } from "./types";
+import { closeEditStatsModal } from "./editStatsModal";
+import { closeGraphModal } from "./graphModal";
+import { getRelationshipWebStatsPreference, setRelationshipWebStatsPreference } from "./graphPreferences";
+import { closeRelationshipMatrixModal } from "./relationshipMatrixModal";
+import {
+  buildRelationshipWeb,
+  getRelationshipWebStatDefinitions,
+  relationshipWebStrokeWidth,
+  resolveRelationshipWebStats,
+  RELATIONSHIP_WEB_HEIGHT,
+  RELATIONSHIP_WEB_WIDTH,
+  type RelationshipWebFrame,
+  type RelationshipWebNode,
+} from "./relationshipWeb";
+import { ensureStyles, escapeHtml } from "./ui";
+
+const NODE_RADIUS = 22;
+const PLAYBACK_STEP_MS = 700;
+const MUTED_EDGE_COLOR = "#475569";
+
+let playbackTimer: ReturnType<typeof setInterval> | null = null;
+
+function stopPlayback(): void {
+  if (playbackTimer !== null) clearInterval(playbackTimer);
+  playbackTimer = null;
+}
+
+function edgePath(from: RelationshipWebNode, to: RelationshipWebNode): string {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const length = Math.hypot(dx, dy) || 1;
+  const ux = dx / length;
+  const uy = dy / length;
+  const sx = from.x + ux * NODE_RADIUS;
+  const sy = from.y + uy * NODE_RADIUS;
+  const ex = to.x - ux * (NODE_RADIUS + 6);
+  const ey = to.y - uy * (NODE_RADIUS + 6);
+  const bend = Math.min(36, length * 0.12);
+  const mx = (sx + ex) / 2 - uy * bend;
+  const my = (sy + ey) / 2 + ux * bend;
+  return `M${sx.toFixed(1)},${sy.toFixed(1)} Q${mx.toFixed(1)},${my.toFixed(1)} ${ex.toFixed(1)},${ey.toFixed(1)}`;
+}
+
+function renderFrame(input: {
+  nodes: RelationshipWebNode[];
+  frame: RelationshipWebFrame;
+  colorLabel: string;
+  widthLabel: string;
+  color: string;
+  accentColor: string;
+}): string {
+  const byId = new Map(input.nodes.map(node => [node.id, node]));
+  const active = new Set(input.frame.activeCharacters);
+  const edges = input.frame.edges.map(edge => {
+    const from = byId.get(edge.source);
+    const to = byId.get(edge.target);
+    if (!from || !to) return "";
+    const stroke = edge.color === null
+      ? MUTED_EDGE_COLOR
+      : `color-mix(in srgb, ${input.color} ${Math.round(edge.color)}%, ${MUTED_EDGE_COLOR})`;
+    const title = `${from.label} toward ${to.label}: ${input.colorLabel} ${edge.color === null ? "n/a" : Math.round(edge.color)}, ${input.widthLabel} ${edge.width === null ? "n/a" : Math.round(edge.width)}`;
+    return `<path d="${edgePath(from, to)}" fill="none" stroke="${escapeHtml(stroke)}" stroke-width="${relationshipWebStrokeWidth(edge.width)}" stroke-linecap="round" marker-end="url(#bst-relations-web-arrow)"${edge.width === null ? ` stroke-dasharray="4 4"` : ""}><title>${escapeHtml(title)}</title></path>`;
+  }).join("");
+  const nodes = input.nodes.map(node => {
+    const dimmed = !node.user && !active.has(node.id);
+    return `<g class="bst-relations-web-node${dimmed ? " is-inactive" : ""}">
+      <circle cx="${node.x}" cy="${node.y}" r="${NODE_RADIUS}" fill="${node.user ? escapeHtml(input.accentColor) : "#1e293b"}" stroke="rgba(255,255,255,0.5)" stroke-width="1.5"></circle>
+      <text x="${node.x}" y="${node.y + NODE_RADIUS + 14}" text-anchor="middle">${escapeHtml(node.label)}</text>
+      <title>${escapeHtml(dimmed ? `${node.label} (inactive in this snapshot)` : node.label)}</title>
+    </g>`;
+  }).join("");
+  return `
+    <defs>
+      <marker id="bst-relations-web-arrow" viewBox="0 0 10 10" refX="8" refY="5" markerWidth="5" markerHeight="5" orient="auto-start-reverse">
+        <path d="M0,0 L10,5 L0,10 z" fill="rgba(255,255,255,0.6)"></path>
+      </marker>
+    </defs>
+    ${edges}${nodes}`;
+}
+
+export function openRelationshipWebModal(input: {
+  settings: BetterSimTrackerSettings;
+  history: TrackerData[];
+  userName?: string;
+}): void {
+  ensureStyles();
+  closeEditStatsModal();
+  closeGraphModal();
+  closeRelationshipWebModal();
+
+  const backdrop = document.createElement("div");
+  backdrop.className = "bst-graph-backdrop bst-relations-backdrop";
+  backdrop.addEventListener("click", () => closeRelationshipWebModal());
+  document.body.appendChild(backdrop);
+
+  const modal = document.createElement("div");
+  modal.className = "bst-graph-modal bst-relations-modal bst-relations-web-modal";
+  const stats = getRelationshipWebStatDefinitions(input.settings);
+  const selected = resolveRelationshipWebStats(input.settings, getRelationshipWebStatsPreference());
+  const web = selected
+    ? buildRelationshipWeb(input.settings, input.history, {
+      colorStat: selected.color.id,
+      widthStat: selected.width.id,
+      userName: input.userName,
+    })
+    : null;
+  const frames = web?.frames ?? [];
+  const statOptions = (current: string): string => stats
+    .map(def => `<option value="${escapeHtml(def.id)}" ${def.id === current ? "selected" : ""}>${escapeHtml(def.label)}</option>`)
+    .join("");
+  modal.innerHTML = `
+    <div class="bst-graph-top">
+      <div class="bst-graph-title">Relationship Web</div>
+      <button class="bst-btn bst-close-btn" data-action="close" title="Close relationship web" aria-label="Close relationship web">&times;</button>
+    </div>
+    ${selected ? `
+    <div class="bst-graph-controls">
+      <label class="bst-graph-toggle" title="Stat that sets edge color">
+        <span>Color</span>
+        <select class="bst-graph-window-select" data-action="color-stat">${statOptions(selected.color.id)}</select>
+      </label>
+      <label class="bst-graph-toggle" title="Stat that sets edge thickness">
+        <span>Thickness</span>
+        <select class="bst-graph-window-select" data-action="width-stat">${statOptions(selected.width.id)}</select>
+      </label>
+    </div>` : ""}
+    ${frames.length && web ? `
+    <svg class="bst-relations-web-svg" viewBox="0 0 ${RELATIONSHIP_WEB_WIDTH} ${RELATIONSHIP_WEB_HEIGHT}" role="img" aria-label="Relationship web"></svg>
+    <div class="bst-relations-web-timeline">
+      <button type="button" class="bst-btn" data-action="play" title="Replay the web over the stored history">Play</button>
+      <input type="range" class="bst-relations-web-scrubber" data-action="scrub" min="0" max="${frames.length - 1}" step="1" value="${frames.length - 1}" aria-label="Snapshot">
+      <span class="bst-relations-web-label"></span>
+    </div>
+    <div class="bst-graph-hint">Arrows point from a character toward who they feel about. Dashed edges have no ${escapeHtml(selected?.width.label ?? "")} value yet; dimmed characters were inactive in that snapshot.</div>`
+      : `<div class="bst-graph-hint">${selected ? "No tracked relationship values in this chat yet." : "No numeric stats are tracked."}</div>`}
+  `;
+  document.body.appendChild(modal);
+  modal.querySelector('[data-action="close"]')?.addEventListener("click", () => closeRelationshipWebModal());
+  const reopen = (): void => openRelationshipWebModal(input);
+  const persistStats = (): void => {
+    const color = modal.querySelector<HTMLSelectElement>('[data-action="color-stat"]')?.value ?? "";
+    const width = modal.querySelector<HTMLSelectElement>('[data-action="width-stat"]')?.value ?? "";
+    setRelationshipWebStatsPreference({ color, width });
+    reopen();
+  };
+  modal.querySelector('[data-action="color-stat"]')?.addEventListener("change", persistStats);
+  modal.querySelector('[data-action="width-stat"]')?.addEventListener("change", persistStats);
+  if (!web || !selected || !frames.length) return;
+
+  const svg = modal.querySelector<SVGSVGElement>(".bst-relations-web-svg");
+  const scrubber = modal.querySelector<HTMLInputElement>('[data-action="scrub"]');
+  const label = modal.querySelector<HTMLElement>(".bst-relations-web-label");
+  const playButton = modal.querySelector<HTMLButtonElement>('[data-action="play"]');
+  const show = (index: number): void => {
+    const frame = frames[index];
+    if (!svg || !frame) return;
+    svg.innerHTML = renderFrame({
+      nodes: web.nodes,
+      frame,
+      colorLabel: selected.color.label,
+      widthLabel: selected.width.label,
+      color: selected.color.color || "#38bdf8",
+      accentColor: input.settings.accentColor || "#38bdf8",
+    });
+    if (label) label.textContent = `Snapshot ${index + 1} of ${frames.length} · ${new Date(frame.timestamp).toLocaleString()}`;
+  };
+  scrubber?.addEventListener("input", () => {
+    stopPlayback();
+    if (playButton) playButton.textContent = "Play";
+    show(Number(scrubber.value));
+  });
+  playButton?.addEventListener("click", () => {
+    if (playbackTimer !== null) {
+      stopPlayback();
+      playButton.textContent = "Play";
+      return;
+    }
+    if (!scrubber) return;
+    if (Number(scrubber.value) >= frames.length - 1) scrubber.value = "0";
+    show(Number(scrubber.value));
+    playButton.textContent = "Pause";
+    playbackTimer = setInterval(() => {
+      const next = Number(scrubber.value) + 1;
+      if (!modal.isConnected || next >= frames.length) {
+        stopPlayback();
+        playButton.textContent = "Play";
+        return;
+      }
+      scrubber.value = String(next);
+      show(next);
+    }, PLAYBACK_STEP_MS);
+  });
+  show(frames.length - 1);
+}
+
+export function closeRelationshipWebModal(): void {
+  stopPlayback();
+  closeRelationshipMatrixModal();
+}
@@ -235,6 +235,8 @@ export function buildDiagnosticsReport(input: {
       lorebookExtractionMaxChars: settings.lorebookExtractionMaxChars,
       autoDetectActive: settings.autoDetectActive,
       activityLookback: settings.activityLookback,
+      modelAssistedPresence: settings.modelAssistedPresence,
+      presenceMergePolicy: settings.presenceMergePolicy,
       moodSource: settings.moodSource,
       moodExpressionMap: settings.moodExpressionMap,
       stExpressionImageZoom: settings.stExpressionImageZoom,
@@ -1,4 +1,5 @@
 import { GLOBAL_TRACKER_KEY, USER_TRACKER_KEY } from "./constants";
+import { resolveCustomStatValueKind } from "./customStatRuntime";
 import type { BetterSimTrackerSettings, STContext, TrackerData } from "./types";
 
 const BST_INJECTION_MACRO = "bst_injection";
@@ -191,7 +192,7 @@ function resolveMacroStatValue(
   }
   if (!customDef) return "";
 
-  if ((customDef.kind ?? "numeric") === "numeric") {
+  if (resolveCustomStatValueKind(customDef) === "numeric") {
     const bucket = data.customStatistics?.[normalized];
     if (!bucket) return "";
     let raw = bucket[owner];
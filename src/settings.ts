@@ -1,4 +1,18 @@
-import { CUSTOM_STAT_ID_REGEX, EXTENSION_KEY, MAX_CUSTOM_STATS, RESERVED_CUSTOM_STAT_IDS } from "./constants";
+import {
+  CUSTOM_STAT_ID_REGEX,
+  EXTENSION_KEY,
+  MAX_CONNECTION_PROFILE_ROUTES,
+  MAX_CUSTOM_STATS,
+  MAX_ACTIVITY_CUES_PER_LIST,
+  MAX_PAIRWISE_STATS,
+  MAX_STAT_CONSTRAINTS,
+  MAX_STAT_RULES,
+  MAX_TRIGGER_ACTIONS,
+  MAX_TRIGGER_RULES,
+  NUMERIC_STATS,
+  RESERVED_CUSTOM_STAT_IDS,
+  STAT_KEYS,
+} from "./constants";
 import {
   DEFAULT_INJECTION_PROMPT_TEMPLATE,
   DEFAULT_PROTOCOL_SEQUENTIAL_AFFECTION,
@@ -17,28 +31,47 @@ import {
   moodOptions,
 } from "./prompts";
 import type {
+  ActivityCueLanguage,
   BetterSimTrackerSettings,
+  BuiltInStatConstraints,
+  BuiltInStatDecay,
   CharacterDefaults,
   ConnectionProfileOption,
+  ConnectionProfileRoute,
   DebugFlags,
   MoodExpressionMap,
   MoodLabel,
   MoodSource,
+  NumericStatKey,
+  PresenceMergePolicy,
   SceneCardLayout,
   SceneCardPosition,
   SceneCardStatDisplayOptions,
+  StatConstraint,
+  StatDecayConfig,
+  StatRule,
+  StatRuleKind,
   StExpressionImageOptions,
   STContext,
+  TriggerAction,
+  TriggerActionType,
+  TriggerCondition,
+  TriggerRule,
 } from "./types";
+import { ACTIVITY_CUE_LANGUAGES, sanitizeActivityCueList } from "./activityCues";
 import { normalizeDateTimeValue } from "./dateTime";
+import { findTurnDecayDriftConflicts } from "./statDecay";
+import { compileStatExpression } from "./statExpression";
 import {
   MAX_CUSTOM_ARRAY_ITEMS,
+  normalizeComputedStatResult,
   normalizeCustomEnumOptions,
   normalizeCustomNonNumericValue,
   normalizeCustomStatDefaultValue,
   normalizeCustomStatKind,
   normalizeCustomTextMaxLength,
   normalizeDateTimeMode,
+  resolveCustomStatValueKind,
 } from "./customStatRuntime";
 
 const DEFAULT_MOOD_EXPRESSION_MAP: Record<MoodLabel, string> = {
@@ -77,11 +110,19 @@ export const defaultSettings: BetterSimTrackerSettings = {
   maxDeltaPerTurn: 15,
   maxTokensOverride: 0,
   truncationLengthOverride: 0,
+  connectionProfileRoutes: [],
   includeCharacterCardsInPrompt: false,
   confidenceDampening: 0.65,
   moodStickiness: 0.6,
   strictJsonRepair: true,
+  structuredOutput: true,
+  extractionCacheEnabled: true,
+  extractionCacheMaxEntries: 500,
+  extractionCacheTtlHours: 24,
+  requestChangeReasons: false,
   maxRetriesPerStat: 2,
+  extractionBudgetMaxRequests: 0,
+  extractionBudgetMaxPromptChars: 0,
   showLastThought: true,
   collapseCardsByDefault: false,
   showInactive: true,
@@ -102,6 +143,13 @@ export const defaultSettings: BetterSimTrackerSettings = {
   regenerateOnMessageEdit: true,
   generateOnGreetingMessages: true,
   activityLookback: 5,
+  activityCueLanguages: ["en"],
+  activityCueDepartureVerbs: [],
+  activityCueArrivalVerbs: [],
+  activityCuePlaces: [],
+  activityCueNegations: [],
+  modelAssistedPresence: false,
+  presenceMergePolicy: "prefer_model",
   trackAffection: true,
   trackTrust: true,
   trackDesire: true,
@@ -119,6 +167,14 @@ export const defaultSettings: BetterSimTrackerSettings = {
     desire: { showOnCard: true, showInGraph: true, includeInInjection: true },
     connection: { showOnCard: true, showInGraph: true, includeInInjection: true },
   },
+  builtInStatOverrides: {},
+  builtInStatDecay: {},
+  builtInStatConstraints: {},
+  decayClockStat: "",
+  pairwiseStats: [],
+  injectPairwiseRelations: true,
+  triggerRules: [],
+  statRules: [],
   moodSource: "bst_images",
   moodExpressionMap: { ...DEFAULT_MOOD_EXPRESSION_MAP },
   stExpressionImageZoom: 1.2,
@@ -535,6 +591,23 @@ function sanitizeSceneCardPosition(raw: unknown, fallback: SceneCardPosition): S
   return fallback;
 }
 
+export function sanitizeActivityCueLanguages(input: unknown): ActivityCueLanguage[] {
+  const known = new Set<string>(ACTIVITY_CUE_LANGUAGES.map(language => language.id));
+  const raw = Array.isArray(input) ? input : String(input ?? "").split(/[\s,]+/);
+  const out: ActivityCueLanguage[] = [];
+  for (const item of raw) {
+    const id = String(item ?? "").trim().toLowerCase();
+    if (!known.has(id) || out.includes(id as ActivityCueLanguage)) continue;
+    out.push(id as ActivityCueLanguage);
+  }
+  return out.length ? out : [...defaultSettings.activityCueLanguages];
+}
+
+function sanitizePresenceMergePolicy(raw: unknown, fallback: PresenceMergePolicy): PresenceMergePolicy {
+  if (raw === "prefer_model" || raw === "union" || raw === "intersection") return raw;
+  return fallback;
+}
+
 function sanitizeSceneCardLayout(raw: unknown, fallback: SceneCardLayout): SceneCardLayout {
   if (raw === "chips" || raw === "rows") return raw;
   return fallback;
@@ -565,7 +638,7 @@ export function sanitizeSettings(input: Partial<BetterSimTrackerSettings>): Bett
     0,
     12000,
   );
-  return {
+  return dropTurnDecayDriftConflicts({
     ...defaultSettings,
     ...input,
     enabled: asBool(input.enabled, defaultSettings.enabled),
@@ -585,11 +658,19 @@ export function sanitizeSettings(input: Partial<BetterSimTrackerSettings>): Bett
     maxDeltaPerTurn: clampInt(input.maxDeltaPerTurn, defaultSettings.maxDeltaPerTurn, 1, 30),
     maxTokensOverride: clampInt(input.maxTokensOverride, defaultSettings.maxTokensOverride, 0, 100000),
     truncationLengthOverride: clampInt(input.truncationLengthOverride, defaultSettings.truncationLengthOverride, 0, 200000),
+    connectionProfileRoutes: sanitizeConnectionProfileRoutes(input.connectionProfileRoutes),
     includeCharacterCardsInPrompt: asBool(input.includeCharacterCardsInPrompt, defaultSettings.includeCharacterCardsInPrompt),
     confidenceDampening: clampNumber(input.confidenceDampening, defaultSettings.confidenceDampening, 0, 1),
     moodStickiness: clampNumber(input.moodStickiness, defaultSettings.moodStickiness, 0, 1),
     strictJsonRepair: asBool(input.strictJsonRepair, defaultSettings.strictJsonRepair),
+    structuredOutput: asBool(input.structuredOutput, defaultSettings.structuredOutput),
+    extractionCacheEnabled: asBool(input.extractionCacheEnabled, defaultSettings.extractionCacheEnabled),
+    extractionCacheMaxEntries: clampInt(input.extractionCacheMaxEntries, defaultSettings.extractionCacheMaxEntries, 10, 5000),
+    extractionCacheTtlHours: clampInt(input.extractionCacheTtlHours, defaultSettings.extractionCacheTtlHours, 1, 720),
+    requestChangeReasons: asBool(input.requestChangeReasons, defaultSettings.requestChangeReasons),
     maxRetriesPerStat: clampInt(input.maxRetriesPerStat, defaultSettings.maxRetriesPerStat, 0, 4),
+    extractionBudgetMaxRequests: clampInt(input.extractionBudgetMaxRequests, defaultSettings.extractionBudgetMaxRequests, 0, 200),
+    extractionBudgetMaxPromptChars: clampInt(input.extractionBudgetMaxPromptChars, defaultSettings.extractionBudgetMaxPromptChars, 0, 2000000),
     showLastThought: asBool(input.showLastThought, defaultSettings.showLastThought),
     collapseCardsByDefault: asBool(input.collapseCardsByDefault, defaultSettings.collapseCardsByDefault),
     showInactive: asBool(input.showInactive, defaultSettings.showInactive),
@@ -618,6 +699,13 @@ export function sanitizeSettings(input: Partial<BetterSimTrackerSettings>): Bett
     regenerateOnMessageEdit: asBool(input.regenerateOnMessageEdit, defaultSettings.regenerateOnMessageEdit),
     generateOnGreetingMessages: asBool(input.generateOnGreetingMessages, defaultSettings.generateOnGreetingMessages),
     activityLookback: clampInt(input.activityLookback, defaultSettings.activityLookback, 1, 25),
+    activityCueLanguages: sanitizeActivityCueLanguages(input.activityCueLanguages),
+    activityCueDepartureVerbs: sanitizeActivityCueList(input.activityCueDepartureVerbs, MAX_ACTIVITY_CUES_PER_LIST),
+    activityCueArrivalVerbs: sanitizeActivityCueList(input.activityCueArrivalVerbs, MAX_ACTIVITY_CUES_PER_LIST),
+    activityCuePlaces: sanitizeActivityCueList(input.activityCuePlaces, MAX_ACTIVITY_CUES_PER_LIST),
+    activityCueNegations: sanitizeActivityCueList(input.activityCueNegations, MAX_ACTIVITY_CUES_PER_LIST),
+    modelAssistedPresence: asBool(input.modelAssistedPresence, defaultSettings.modelAssistedPresence),
+    presenceMergePolicy: sanitizePresenceMergePolicy(input.presenceMergePolicy, defaultSettings.presenceMergePolicy),
     trackAffection: asBool(input.trackAffection, defaultSettings.trackAffection),
     trackTrust: asBool(input.trackTrust, defaultSettings.trackTrust),
     trackDesire: asBool(input.trackDesire, defaultSettings.trackDesire),
@@ -630,6 +718,14 @@ export function sanitizeSettings(input: Partial<BetterSimTrackerSettings>): Bett
     userTrackLastThought: asBool(input.userTrackLastThought, defaultSettings.userTrackLastThought),
     includeUserTrackerInInjection: asBool(input.includeUserTrackerInInjection, defaultSettings.includeUserTrackerInInjection),
     builtInNumericStatUi: sanitizeBuiltInNumericStatUi(input.builtInNumericStatUi),
+    builtInStatOverrides: sanitizeBuiltInStatOverrides(input.builtInStatOverrides),
+    builtInStatDecay: sanitizeBuiltInStatDecay(input.builtInStatDecay),
+    builtInStatConstraints: sanitizeBuiltInStatConstraints(input.builtInStatConstraints),
+    decayClockStat: typeof input.decayClockStat === "string" ? input.decayClockStat.trim().toLowerCase().slice(0, 32) : "",
+    pairwiseStats: sanitizePairwiseStats(input.pairwiseStats),
+    injectPairwiseRelations: asBool(input.injectPairwiseRelations, defaultSettings.injectPairwiseRelations),
+    triggerRules: sanitizeTriggerRules(input.triggerRules),
+    statRules: sanitizeStatRules(input.statRules),
     moodSource: sanitizeMoodSource(input.moodSource, defaultSettings.moodSource),
     moodExpressionMap: sanitizeMoodExpressionMap(input.moodExpressionMap) ?? { ...DEFAULT_MOOD_EXPRESSION_MAP },
     stExpressionImageZoom: sanitizeStExpressionZoom(input.stExpressionImageZoom, defaultSettings.stExpressionImageZoom),
@@ -675,7 +771,19 @@ export function sanitizeSettings(input: Partial<BetterSimTrackerSettings>): Bett
     promptProtocolSequentialLastThought: asText(input.promptProtocolSequentialLastThought, defaultSettings.promptProtocolSequentialLastThought).slice(0, 20000),
     customStats,
     characterDefaults: sanitizeCharacterDefaults(input.characterDefaults, customStats),
-  };
+  });
+}
+
+function dropTurnDecayDriftConflicts(settings: BetterSimTrackerSettings): BetterSimTrackerSettings {
+  for (const { statId } of findTurnDecayDriftConflicts(settings)) {
+    if (statId in settings.builtInStatDecay) {
+      delete settings.builtInStatDecay[statId as NumericStatKey];
+      continue;
+    }
+    const stat = settings.customStats.find(item => item.id === statId);
+    if (stat) delete stat.decay;
+  }
+  return settings;
 }
 
 const normalizedMoodMap = (() => {
@@ -772,6 +880,232 @@ function sanitizeBuiltInNumericStatUi(input: unknown): BetterSimTrackerSettings[
   };
 }
 
+export function sanitizeBuiltInStatOverrides(input: unknown): BetterSimTrackerSettings["builtInStatOverrides"] {
+  if (!input || typeof input !== "object" || Array.isArray(input)) return {};
+  const base = input as Record<string, unknown>;
+  const output: BetterSimTrackerSettings["builtInStatOverrides"] = {};
+  for (const key of STAT_KEYS) {
+    const raw = base[key];
+    if (!raw || typeof raw !== "object") continue;
+    const row = raw as Record<string, unknown>;
+    const label = typeof row.label === "string" ? row.label.trim().replace(/\s+/g, " ").slice(0, 40) : "";
+    const description = typeof row.description === "string" ? row.description.trim().replace(/\s+/g, " ").slice(0, 300) : "";
+    const color = key === "lastThought" ? null : sanitizeHexColor(row.color);
+    const override: BetterSimTrackerSettings["builtInStatOverrides"][typeof key] = {};
+    if (label) override.label = label;
+    if (description) override.description = description;
+    if (color) override.color = color;
+    if (Object.keys(override).length) output[key] = override;
+  }
+  return output;
+}
+
+export function sanitizeStatDecay(input: unknown): StatDecayConfig | undefined {
+  if (!input || typeof input !== "object" || Array.isArray(input)) return undefined;
+  const row = input as Record<string, unknown>;
+  if (row.mode !== "turns" && row.mode !== "time") return undefined;
+  return {
+    mode: row.mode,
+    baseline: clampInt(row.baseline, 50, 0, 100),
+    amount: clampInt(row.amount, 5, 1, 100),
+    intervalHours: clampNumber(row.intervalHours, 1, 0.25, 720),
+  };
+}
+
+export function sanitizeBuiltInStatDecay(input: unknown): BuiltInStatDecay {
+  if (!input || typeof input !== "object" || Array.isArray(input)) return {};
+  const base = input as Record<string, unknown>;
+  const output: BuiltInStatDecay = {};
+  for (const key of NUMERIC_STATS) {
+    const decay = sanitizeStatDecay(base[key]);
+    if (decay) output[key] = decay;
+  }
+  return output;
+}
+
+function isValidStatExpression(source: string): boolean {
+  try {
+    compileStatExpression(source);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function sanitizeStatConstraints(input: unknown): StatConstraint[] | undefined {
+  if (!Array.isArray(input)) return undefined;
+  const output: StatConstraint[] = [];
+  for (const item of input) {
+    if (output.length >= MAX_STAT_CONSTRAINTS) break;
+    if (!item || typeof item !== "object") continue;
+    const row = item as Record<string, unknown>;
+    const stat = String(row.stat ?? "").trim().toLowerCase();
+    const bound = row.bound === "min" || row.bound === "equals" ? row.bound : row.bound === "max" ? "max" : null;
+    const expression = typeof row.expression === "string" ? row.expression.trim() : "";
+    const when = typeof row.when === "string" ? row.when.trim() : "";
+    if (!CUSTOM_STAT_ID_REGEX.test(stat) || !bound || !isValidStatExpression(expression)) continue;
+    if (when && !isValidStatExpression(when)) continue;
+    output.push({ stat, bound, expression, when });
+  }
+  return output.length ? output : undefined;
+}
+
+export function sanitizeBuiltInStatConstraints(input: unknown): BuiltInStatConstraints {
+  if (!input || typeof input !== "object" || Array.isArray(input)) return {};
+  const base = input as Record<string, unknown>;
+  const output: BuiltInStatConstraints = {};
+  for (const key of NUMERIC_STATS) {
+    const constraints = sanitizeStatConstraints(base[key]);
+    if (constraints) output[key] = constraints;
+  }
+  return output;
+}
+
+export function sanitizePairwiseStats(input: unknown): string[] {
+  const raw = Array.isArray(input) ? input : typeof input === "string" ? input.split(/[\s,]+/) : [];
+  const output: string[] = [];
+  for (const item of raw) {
+    const id = String(item ?? "").trim().toLowerCase();
+    if (!CUSTOM_STAT_ID_REGEX.test(id) || output.includes(id)) continue;
+    output.push(id);
+    if (output.length >= MAX_PAIRWISE_STATS) break;
+  }
+  return output;
+}
+
+const TRIGGER_CONDITIONS = new Set<TriggerCondition>(["crosses_above", "crosses_below", "becomes"]);
+const TRIGGER_ACTION_TYPES = new Set<TriggerActionType>(["system_message", "inject_note", "slash_command", "set_stat"]);
+
+function sanitizeTriggerAction(input: unknown): TriggerAction | null {
+  if (!input || typeof input !== "object") return null;
+  const row = input as Record<string, unknown>;
+  const type = String(row.type ?? "").trim() as TriggerActionType;
+  if (!TRIGGER_ACTION_TYPES.has(type)) return null;
+  const text = typeof row.text === "string" ? row.text.trim().slice(0, 1000) : "";
+  if (type === "set_stat") {
+    const statId = String(row.statId ?? "").trim().toLowerCase();
+    if (!CUSTOM_STAT_ID_REGEX.test(statId)) return null;
+    return { type, statId, text };
+  }
+  return text ? { type, text } : null;
+}
+
+export function normalizeConnectionRouteTarget(value: unknown): string {
+  const raw = String(value ?? "").trim().toLowerCase();
+  if (raw.startsWith("group:")) {
+    const group = raw.slice(6).trim().replace(/[^a-z0-9_\-]/g, "_").replace(/_+/g, "_").slice(0, 32);
+    return group ? `group:${group}` : "";
+  }
+  return /^[a-z][a-z0-9_]{1,31}$/.test(raw) ? raw : "";
+}
+
+export function sanitizeConnectionProfileRoutes(input: unknown): ConnectionProfileRoute[] {
+  if (!Array.isArray(input)) return [];
+  const output: ConnectionProfileRoute[] = [];
+  const seenTargets = new Set<string>();
+  for (const raw of input) {
+    if (output.length >= MAX_CONNECTION_PROFILE_ROUTES) break;
+    if (!raw || typeof raw !== "object") continue;
+    const row = raw as Record<string, unknown>;
+    const target = normalizeConnectionRouteTarget(row.target);
+    if (!target || seenTargets.has(target)) continue;
+    seenTargets.add(target);
+    output.push({
+      target,
+      profileId: asProfileIdCandidate(row.profileId) ?? "",
+      maxTokens: clampInt(row.maxTokens, 0, 0, 100000),
+      truncationLength: clampInt(row.truncationLength, 0, 0, 200000),
+    });
+  }
+  return output;
+}
+
+export function sanitizeTriggerRules(input: unknown): TriggerRule[] {
+  if (!Array.isArray(input)) return [];
+  const output: TriggerRule[] = [];
+  const seenIds = new Set<string>();
+  for (const raw of input) {
+    if (output.length >= MAX_TRIGGER_RULES) break;
+    if (!raw || typeof raw !== "object") continue;
+    const row = raw as Record<string, unknown>;
+    const stat = asText(row.stat, "").slice(0, 60);
+    const actions = (Array.isArray(row.actions) ? row.actions : [])
+      .map(sanitizeTriggerAction)
+      .filter((action): action is TriggerAction => Boolean(action))
+      .slice(0, MAX_TRIGGER_ACTIONS);
+    if (!stat || !actions.length) continue;
+    let id = String(row.id ?? "").trim().toLowerCase().replace(/[^a-z0-9_-]+/g, "_").slice(0, 40);
+    if (!id || seenIds.has(id)) {
+      let suffix = output.length + 1;
+      while (seenIds.has(`trigger_${suffix}`)) suffix += 1;
+      id = `trigger_${suffix}`;
+    }
+    seenIds.add(id);
+    const condition = TRIGGER_CONDITIONS.has(row.condition as TriggerCondition)
+      ? row.condition as TriggerCondition
+      : "crosses_above";
+    output.push({
+      id,
+      label: asText(row.label, "").replace(/\s+/g, " ").slice(0, 60),
+      enabled: asBool(row.enabled, true),
+      stat,
+      owner: asText(row.owner, "").slice(0, 80),
+      condition,
+      threshold: clampInt(row.threshold, 50, 0, 100),
+      value: asText(row.value, "").slice(0, 200),
+      actions,
+    });
+  }
+  return output;
+}
+
+const STAT_RULE_KINDS = new Set<StatRuleKind>(["match", "drift", "cap"]);
+
+export function sanitizeStatRules(input: unknown): StatRule[] {
+  if (!Array.isArray(input)) return [];
+  const output: StatRule[] = [];
+  const seenIds = new Set<string>();
+  for (const raw of input) {
+    if (output.length >= MAX_STAT_RULES) break;
+    if (!raw || typeof raw !== "object") continue;
+    const row = raw as Record<string, unknown>;
+    const stat = asText(row.stat, "").slice(0, 60);
+    const kind = STAT_RULE_KINDS.has(row.kind as StatRuleKind) ? row.kind as StatRuleKind : "match";
+    const pattern = asText(row.pattern, "").slice(0, 300);
+    const delta = clampInt(row.delta, 0, -100, 100);
+    const amount = clampInt(row.amount, 5, 1, 100);
+    const capStat = asText(row.capStat, "").slice(0, 60);
+    if (!stat) continue;
+    if (kind === "match" && (!pattern || !delta)) continue;
+    if (kind === "cap" && !capStat) continue;
+    let id = String(row.id ?? "").trim().toLowerCase().replace(/[^a-z0-9_-]+/g, "_").slice(0, 40);
+    if (!id || seenIds.has(id)) {
+      let suffix = output.length + 1;
+      while (seenIds.has(`rule_${suffix}`)) suffix += 1;
+      id = `rule_${suffix}`;
+    }
+    seenIds.add(id);
+    output.push({
+      id,
+      label: asText(row.label, "").replace(/\s+/g, " ").slice(0, 60),
+      enabled: asBool(row.enabled, true),
+      stat,
+      owner: asText(row.owner, "").slice(0, 80),
+      kind,
+      phase: kind !== "cap" && row.phase === "before" ? "before" : "after",
+      source: row.source === "user" ? "user" : "latest",
+      pattern,
+      delta,
+      baseline: clampInt(row.baseline, 50, 0, 100),
+      amount,
+      capStat,
+      capOffset: clampInt(row.capOffset, 0, -100, 100),
+      capMode: row.capMode === "at_least" ? "at_least" : "at_most",
+    });
+  }
+  return output;
+}
+
 function sanitizeSceneCardStatDisplay(input: unknown): Record<string, SceneCardStatDisplayOptions> {
   if (!input || typeof input !== "object") return {};
   const raw = input as Record<string, unknown>;
@@ -862,6 +1196,8 @@ function sanitizeCustomStats(raw: unknown): BetterSimTrackerSettings["customStat
       ? obj.sequentialGroup.trim().toLowerCase().replace(/[^a-z0-9_\-]/g, "_").replace(/_+/g, "_").slice(0, 32)
       : "";
     const kind = normalizeCustomStatKind(obj.kind);
+    const computedResult = kind === "computed" ? normalizeComputedStatResult(obj.computedResult) : undefined;
+    const valueKind = resolveCustomStatValueKind({ kind, computedResult });
     const dateTimeMode = kind === "date_time"
       ? normalizeDateTimeMode(obj.dateTimeMode)
       : undefined;
@@ -892,6 +1228,7 @@ function sanitizeCustomStats(raw: unknown): BetterSimTrackerSettings["customStat
         enumOptions,
         textMaxLength,
         dateTimeMode,
+        computedResult,
       }),
       maxDeltaPerTurn: kind === "numeric"
         ? (obj.maxDeltaPerTurn === undefined
@@ -899,17 +1236,21 @@ function sanitizeCustomStats(raw: unknown): BetterSimTrackerSettings["customStat
           : clampInt(obj.maxDeltaPerTurn, 15, 1, 30))
         : undefined,
       enumOptions: kind === "enum_single" ? enumOptions : undefined,
-      booleanTrueLabel: kind === "boolean" ? (booleanTrueLabel || "enabled") : undefined,
-      booleanFalseLabel: kind === "boolean" ? (booleanFalseLabel || "disabled") : undefined,
-      textMaxLength: kind === "text_short" || kind === "array" ? textMaxLength : undefined,
+      booleanTrueLabel: valueKind === "boolean" ? (booleanTrueLabel || "enabled") : undefined,
+      booleanFalseLabel: valueKind === "boolean" ? (booleanFalseLabel || "disabled") : undefined,
+      textMaxLength: valueKind === "text_short" || kind === "array" ? textMaxLength : undefined,
       dateTimeMode,
+      formula: kind === "computed" && typeof obj.formula === "string" ? obj.formula.trim().slice(0, 400) : undefined,
+      computedResult,
+      decay: kind === "numeric" ? sanitizeStatDecay(obj.decay) : undefined,
+      constraints: sanitizeStatConstraints(obj.constraints),
       track: trackEnabled,
       trackCharacters,
       trackUser,
       globalScope,
       privateToOwner,
       showOnCard: asBool(obj.showOnCard, true),
-      showInGraph: kind === "numeric" ? asBool(obj.showInGraph, true) : false,
+      showInGraph: valueKind === "numeric" ? asBool(obj.showInGraph, true) : false,
       includeInInjection: asBool(obj.includeInInjection, true),
       color: color || undefined,
       promptOverride: template || undefined,
@@ -950,7 +1291,7 @@ function sanitizeCustomNonNumericStatDefaults(
     const stat = byId.get(id);
     if (!stat) continue;
     const kind = stat.kind ?? "numeric";
-    if (kind === "numeric") continue;
+    if (kind === "numeric" || kind === "computed") continue;
     const normalized = normalizeCustomNonNumericValue(kind, value, {
       enumOptions: stat.enumOptions,
       textMaxLength: stat.textMaxLength,
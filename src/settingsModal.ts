@@ -1,10 +1,44 @@
-import { CUSTOM_STAT_ID_REGEX, GLOBAL_TRACKER_KEY, MAX_CUSTOM_STATS, RESERVED_CUSTOM_STAT_IDS, STYLE_ID, USER_TRACKER_KEY } from "./constants";
+import {
+  CUSTOM_STAT_ID_REGEX,
+  GLOBAL_TRACKER_KEY,
+  MAX_ACTIVITY_CUES_PER_LIST,
+  MAX_CONNECTION_PROFILE_ROUTES,
+  MAX_CUSTOM_STATS,
+  MAX_STAT_CONSTRAINTS,
+  MAX_STAT_RULES,
+  MAX_TRIGGER_RULES,
+  NUMERIC_STATS,
+  RESERVED_CUSTOM_STAT_IDS,
+  STAT_KEYS,
+  STYLE_ID,
+  USER_TRACKER_KEY,
+} from "./constants";
+import type { ActiveCharacterAnalysis } from "./activity";
+import { ACTIVITY_CUE_LANGUAGES, sanitizeActivityCueList } from "./activityCues";
 import { generateJson } from "./generator";
-import { logDebug } from "./settings";
+import {
+  logDebug,
+  normalizeConnectionRouteTarget,
+  sanitizeActivityCueLanguages,
+  sanitizeBuiltInStatConstraints,
+  sanitizeBuiltInStatDecay,
+  sanitizeBuiltInStatOverrides,
+  sanitizeConnectionProfileRoutes,
+  sanitizePairwiseStats,
+  sanitizeStatConstraints,
+  sanitizeStatDecay,
+  sanitizeStatRules,
+  sanitizeTriggerRules,
+} from "./settings";
 import type {
   BetterSimTrackerSettings,
   BuiltInNumericStatUiSettings,
+  BuiltInStatConstraints,
+  BuiltInStatDecay,
+  BuiltInStatOverrides,
+  ComputedStatResult,
   ConnectionProfileOption,
+  ConnectionProfileRoute,
   CustomStatKind,
   CustomStatDefinition,
   DateTimeMode,
@@ -12,7 +46,11 @@ import type {
   MoodLabel,
   MoodSource,
   SceneCardStatDisplayOptions,
+  StatDecayConfig,
+  StatRule,
   StExpressionImageOptions,
+  TriggerAction,
+  TriggerRule,
 } from "./types";
 import {
   DEFAULT_INJECTION_PROMPT_TEMPLATE,
@@ -46,10 +84,13 @@ import {
   hasScriptLikeContent,
   MAX_CUSTOM_ARRAY_ITEMS,
   MAX_CUSTOM_ENUM_OPTIONS,
+  normalizeComputedStatResult,
   normalizeCustomEnumOptions,
+  normalizeCustomStatDefaultValue,
   normalizeCustomStatKind,
   normalizeNonNumericArrayItems,
   normalizeNonNumericTextValue,
+  resolveCustomStatValueKind,
   resolveEnumOption,
 } from "./customStatRuntime";
 import { normalizeDateTimeValue, toDateTimeInputValue } from "./dateTime";
@@ -84,6 +125,14 @@ import {
   toMacroCharacterSlug,
 } from "./ui";
 import { closeGraphModal } from "./graphModal";
+import { getBuiltInStatDefinition } from "./statRegistry";
+import { estimateExtractionBudget, formatExtractionBudgetSummary, getExtractionBudgetWarnings } from "./extractionBudget";
+import { describeTriggerRule } from "./triggers";
+import { describeStatDecay, describeTurnDecayDriftConflict, findTurnDecayDriftConflicts } from "./statDecay";
+import { describeStatRule, resolveStatRuleStatId } from "./statRules";
+import { formatStatConstraint, parseStatConstraintLines } from "./statConstraints";
+import { tryCompileStatExpression, validateStatExpression } from "./statExpression";
+import { findPerOwnerFormulaReferences, orderComputedStatDefinitions } from "./computedStats";
 export function openSettingsModal(input: {
   settings: BetterSimTrackerSettings;
   profileOptions: ConnectionProfileOption[];
@@ -92,9 +141,20 @@ export function openSettingsModal(input: {
   injectedPrompt?: string;
   onSave: (next: BetterSimTrackerSettings) => void;
   onRetrack?: () => void;
+  onRetrackFresh?: () => void;
   onClearCurrentChat?: () => void;
+  onExportHistory?: (format: "json" | "csv") => string | null;
+  onImportHistory?: (text: string, overwrite: boolean) => { ok: boolean; message: string };
+  triggerFiredCounts?: Record<string, number>;
+  onRearmTriggers?: (ruleId?: string) => string;
+  onTestActivityCues?: (
+    message: string,
+    settings: BetterSimTrackerSettings,
+  ) => { before: ActiveCharacterAnalysis; after: ActiveCharacterAnalysis } | null;
+  activeCharacterCount?: number;
   onDumpDiagnostics?: () => void;
   onClearDiagnostics?: () => void;
+  onClearExtractionCache?: () => void;
 }): void {
   ensureStyles();
   closeSettingsModal();
@@ -119,6 +179,10 @@ export function openSettingsModal(input: {
   let customStatsState: CustomStatDefinition[] = Array.isArray(input.settings.customStats)
     ? input.settings.customStats.map(cloneCustomStatDefinition)
     : [];
+  let triggerRulesState: TriggerRule[] = sanitizeTriggerRules(input.settings.triggerRules);
+  let statRulesState: StatRule[] = sanitizeStatRules(input.settings.statRules);
+  let connectionRoutesState: ConnectionProfileRoute[] = sanitizeConnectionProfileRoutes(input.settings.connectionProfileRoutes);
+  let triggerFiredCounts: Record<string, number> = { ...(input.triggerFiredCounts ?? {}) };
   let sceneCardStatOrderState: string[] = Array.isArray(input.settings.sceneCardStatOrder)
     ? input.settings.sceneCardStatOrder.map(id => String(id ?? "").trim().toLowerCase()).filter(Boolean)
     : [];
@@ -211,6 +275,13 @@ export function openSettingsModal(input: {
         <label>Max Tokens Override <input data-k="maxTokensOverride" type="number" min="0" max="100000"></label>
         <label>Context Size Override <input data-k="truncationLengthOverride" type="number" min="0" max="200000"></label>
       </div>
+      <div class="bst-custom-stats-top">
+        <div class="bst-help-line">Per-stat routing: send a stat or a sequential group to its own connection profile and token limits (0 = inherit the values above). A request covering several stats uses the first matching route. Maximum ${MAX_CONNECTION_PROFILE_ROUTES} routes.</div>
+        <div class="bst-custom-stats-actions">
+          <button type="button" class="bst-btn bst-btn-soft" data-action="route-add">Add Route</button>
+        </div>
+      </div>
+      <div class="bst-custom-stats-list" data-bst-row="routeList"></div>
     </div>
     <div class="bst-settings-section">
       <h4><span class="bst-header-icon fa-solid fa-filter"></span>Extraction &amp; Injection</h4>
@@ -219,10 +290,23 @@ export function openSettingsModal(input: {
         <label>Context Messages <input data-k="contextMessages" type="number" min="1" max="40"></label>
         <label data-bst-row="maxConcurrentCalls">Max Concurrent Requests <input data-k="maxConcurrentCalls" type="number" min="1" max="8"></label>
         <label data-bst-row="maxRetriesPerStat">Max Retries Per Stat <input data-k="maxRetriesPerStat" type="number" min="0" max="4"></label>
+        <label>Request Budget <input data-k="extractionBudgetMaxRequests" type="number" min="0" max="200"></label>
+        <label>Prompt Char Budget <input data-k="extractionBudgetMaxPromptChars" type="number" min="0" max="2000000" step="1000"></label>
+        <label data-bst-row="extractionCacheMaxEntries">Cache Max Entries <input data-k="extractionCacheMaxEntries" type="number" min="10" max="5000"></label>
+        <label data-bst-row="extractionCacheTtlHours">Cache TTL (Hours) <input data-k="extractionCacheTtlHours" type="number" min="1" max="720"></label>
         <label>Max Delta Per Turn <input data-k="maxDeltaPerTurn" type="number" min="1" max="30"></label>
         <label>Confidence Dampening <input data-k="confidenceDampening" type="number" min="0" max="1" step="0.05"></label>
         <label>Mood Stickiness <input data-k="moodStickiness" type="number" min="0" max="1" step="0.05"></label>
+        <label>Decay Clock Stat <input data-k="decayClockStat" type="text" maxlength="32" placeholder="first date_time stat"></label>
+        <label>Pairwise Stats <input data-k="pairwiseStats" type="text" maxlength="160" placeholder="e.g. trust, affection"></label>
         <label data-bst-row="activityLookback">Activity Lookback <input data-k="activityLookback" type="number" min="1" max="25"></label>
+        <label data-bst-row="presenceMergePolicy">Presence Merge Policy
+          <select data-k="presenceMergePolicy">
+            <option value="prefer_model">Model decides</option>
+            <option value="union">Active if either says so</option>
+            <option value="intersection">Active only if both agree</option>
+          </select>
+        </label>
         <div class="bst-section-divider">Extraction Includes</div>
         <div class="bst-check-grid">
           <label class="bst-check"><input data-k="includeCharacterCardsInPrompt" type="checkbox">Include Character Cards in Extraction Prompt</label>
@@ -239,7 +323,11 @@ export function openSettingsModal(input: {
           <label class="bst-check"><input data-k="sequentialExtraction" type="checkbox">Sequential Extraction (per stat)</label>
           <label class="bst-check"><input data-k="enableSequentialStatGroups" type="checkbox">Enable Sequential Stat Groups</label>
           <label class="bst-check"><input data-k="strictJsonRepair" type="checkbox">Strict JSON Repair</label>
+          <label class="bst-check"><input data-k="structuredOutput" type="checkbox">Use JSON Schema When Supported</label>
+          <label class="bst-check"><input data-k="extractionCacheEnabled" type="checkbox">Cache Extraction Responses</label>
+          <label class="bst-check"><input data-k="requestChangeReasons" type="checkbox">Ask Model for Change Reasons</label>
           <label class="bst-check"><input data-k="autoDetectActive" type="checkbox">Auto Detect Active</label>
+          <label class="bst-check" data-bst-row="modelAssistedPresence"><input data-k="modelAssistedPresence" type="checkbox">Model-Assisted Presence</label>
           <label class="bst-check" data-bst-row="regenerateOnMessageEdit"><input data-k="regenerateOnMessageEdit" type="checkbox">Regenerate Tracker After Message Edit</label>
           <label class="bst-check" data-bst-row="generateOnGreetingMessages"><input data-k="generateOnGreetingMessages" type="checkbox">Generate Tracker on Greetings</label>
         </div>
@@ -259,6 +347,7 @@ export function openSettingsModal(input: {
           <label class="bst-check"><input data-k="injectTrackerIntoPrompt" type="checkbox">Inject Tracker Into Prompt</label>
           <label class="bst-check"><input data-k="summarizationNoteVisibleForAI" type="checkbox">Summarization Note Visible for AI (future notes)</label>
           <label class="bst-check" data-bst-row="injectSummarizationNote"><input data-k="injectSummarizationNote" type="checkbox">Inject Summarization Note</label>
+          <label class="bst-check" data-bst-row="injectPairwiseRelations"><input data-k="injectPairwiseRelations" type="checkbox">Inject Pairwise Relations</label>
         </div>
         <div class="bst-help-line bst-toggle-help">Global macro: <code>{{bst_injection}}</code></div>
         <div class="bst-help-line bst-toggle-help"><strong>Summarize</strong> creates a prose note of current tracked stats (no numbers), typically 4-6 sentences, grounded in recent messages.</div>
@@ -348,8 +437,52 @@ export function openSettingsModal(input: {
         </div>
       </div>
       <div class="bst-help-line bst-custom-stats-status is-info" data-bst-row="customStatsImportStatus" style="display:none;"></div>
+      <div class="bst-help-line bst-custom-stats-status is-info" data-bst-row="customStatsBudget"></div>
       <div class="bst-custom-stats-list" data-bst-row="customStatsList"></div>
     </div>
+    <div class="bst-settings-section">
+      <h4><span class="bst-header-icon fa-solid fa-bolt"></span>Triggers</h4>
+      <div class="bst-custom-stats-top">
+        <div class="bst-help-line">Run actions when a stat crosses a threshold or an enum/text stat becomes a value. Each trigger fires once per owner in a chat until it is re-armed. Maximum ${MAX_TRIGGER_RULES} triggers.</div>
+        <div class="bst-custom-stats-actions">
+          <button type="button" class="bst-btn bst-btn-soft" data-action="trigger-add">Add Trigger</button>
+          <button type="button" class="bst-btn bst-btn-soft" data-action="trigger-rearm-all" title="Clear fired-trigger history for the current chat.">Re-arm All</button>
+        </div>
+      </div>
+      <div class="bst-help-line bst-custom-stats-status is-info" data-bst-row="triggerStatus" style="display:none;"></div>
+      <div class="bst-custom-stats-list" data-bst-row="triggerList"></div>
+    </div>
+    <div class="bst-settings-section">
+      <h4><span class="bst-header-icon fa-solid fa-scale-balanced"></span>Stat Rules</h4>
+      <div class="bst-custom-stats-top">
+        <div class="bst-help-line">Deterministic adjustments applied by the extractor before or after model deltas: keyword/regex matches on the latest message, per-turn drift toward a baseline, and caps tied to another stat. Maximum ${MAX_STAT_RULES} rules.</div>
+        <div class="bst-custom-stats-actions">
+          <button type="button" class="bst-btn bst-btn-soft" data-action="stat-rule-add">Add Rule</button>
+        </div>
+      </div>
+      <div class="bst-help-line bst-custom-stats-status is-info" data-bst-row="statRuleStatus" style="display:none;"></div>
+      <div class="bst-custom-stats-list" data-bst-row="statRuleList"></div>
+    </div>
+    <div class="bst-settings-section">
+      <h4><span class="bst-header-icon fa-solid fa-door-open"></span>Activity Cues</h4>
+      <div class="bst-help-line">Used by Auto Detect Active. A user message naming a character with a departure verb and a place marks them inactive until they speak again; an arrival verb marks them active. Clauses containing a negation are ignored. Enabled language packs are merged with the extra cues below (one per line, max ${MAX_ACTIVITY_CUES_PER_LIST} each).</div>
+      <div class="bst-check-grid">
+        ${ACTIVITY_CUE_LANGUAGES.map(language => `<label class="bst-check"><input data-bst-cue-lang="${language.id}" type="checkbox">${escapeHtml(language.label)}</label>`).join("")}
+      </div>
+      <div class="bst-settings-grid">
+        <label>Extra Departure Verbs <textarea data-k="activityCueDepartureVerbs" rows="4" placeholder="e.g. stormed off"></textarea></label>
+        <label>Extra Arrival Verbs <textarea data-k="activityCueArrivalVerbs" rows="4" placeholder="e.g. bursts in"></textarea></label>
+        <label>Extra Places <textarea data-k="activityCuePlaces" rows="4" placeholder="e.g. library"></textarea></label>
+        <label>Extra Negations <textarea data-k="activityCueNegations" rows="4" placeholder="e.g. almost"></textarea></label>
+        <div class="bst-section-divider">Test Bench</div>
+        <label class="bst-activity-cue-bench">Message <textarea data-bst-row="activityCueBenchInput" rows="3" placeholder="e.g. Alice went back to her room."></textarea></label>
+      </div>
+      <div class="bst-custom-stats-actions">
+        <button type="button" class="bst-btn bst-btn-soft" data-action="activity-cue-test" title="Show which characters would be active if this user message were sent next in the current chat.">Test Message</button>
+      </div>
+      <div class="bst-help-line bst-custom-stats-status is-info" data-bst-row="activityCueBenchStatus" style="display:none;"></div>
+      <div class="bst-activity-cue-results" data-bst-row="activityCueBenchResults"></div>
+    </div>
     <div class="bst-settings-section">
       <h4><span class="bst-header-icon fa-solid fa-eye"></span>Display</h4>
       <div class="bst-settings-grid">
@@ -671,6 +804,25 @@ export function openSettingsModal(input: {
         </label>
       </div>
     </div>
+    <div class="bst-settings-section">
+      <h4><span class="bst-header-icon fa-solid fa-clock-rotate-left"></span>Tracker History</h4>
+      <div class="bst-help-line">Export every tracker snapshot of the current chat (all swipes) with the custom stat definitions in effect, or re-attach an exported history to this chat.</div>
+      <div class="bst-debug-actions">
+        <button type="button" class="bst-btn bst-btn-soft" data-action="history-export-json" title="Download the tracker history of the current chat as JSON.">
+          <span class="fa-solid fa-file-export bst-btn-icon-left" aria-hidden="true"></span>
+          Export JSON
+        </button>
+        <button type="button" class="bst-btn bst-btn-soft" data-action="history-export-csv" title="Download the tracker history of the current chat as CSV (one row per owner and stat).">
+          <span class="fa-solid fa-file-csv bst-btn-icon-left" aria-hidden="true"></span>
+          Export CSV
+        </button>
+        <button type="button" class="bst-btn bst-btn-soft" data-action="history-import" title="Re-attach an exported tracker history to the messages of the current chat.">
+          <span class="fa-solid fa-file-import bst-btn-icon-left" aria-hidden="true"></span>
+          Import JSON
+        </button>
+      </div>
+      <div class="bst-help-line bst-custom-import-status is-info" data-bst-history-status style="display:none;"></div>
+    </div>
     <div class="bst-settings-section">
       <h4><span class="bst-header-icon fa-solid fa-bug"></span>Debug</h4>
       <div class="bst-check-grid">
@@ -690,6 +842,9 @@ export function openSettingsModal(input: {
           <button class="bst-btn bst-btn-soft bst-btn-icon" data-action="retrack" title="Retrack Last AI Message" aria-label="Retrack Last AI Message">
             <span class="fa-solid fa-rotate-left" aria-hidden="true"></span>
           </button>
+          <button class="bst-btn bst-btn-soft bst-btn-icon" data-action="retrack-fresh" title="Retrack Last AI Message (Force Fresh, bypass response cache)" aria-label="Retrack Last AI Message (Force Fresh)">
+            <span class="fa-solid fa-arrows-rotate" aria-hidden="true"></span>
+          </button>
           <button class="bst-btn bst-btn-danger" data-action="clear-chat" title="Delete all tracker data for the currently open chat only.">
             <span class="fa-solid fa-trash bst-btn-icon-left" aria-hidden="true"></span>
             Delete Tracker Data (Current Chat)
@@ -702,6 +857,10 @@ export function openSettingsModal(input: {
             <span class="fa-solid fa-broom bst-btn-icon-left" aria-hidden="true"></span>
             Clear Diagnostics
           </button>
+          <button class="bst-btn bst-btn-danger" data-action="clear-extraction-cache" title="Delete all cached extraction responses stored in this browser.">
+            <span class="fa-solid fa-database bst-btn-icon-left" aria-hidden="true"></span>
+            Clear Extraction Cache
+          </button>
         </div>
         <div style="margin-top:8px;font-size:12px;opacity:.9;">Latest Extraction Debug Record</div>
         <div class="bst-debug-box">${input.debugRecord ? JSON.stringify(input.debugRecord, null, 2) : "No debug record yet."}</div>
@@ -714,6 +873,10 @@ export function openSettingsModal(input: {
         <span class="fa-solid fa-rotate-left bst-btn-icon-left" aria-hidden="true"></span>
         Retrack
       </button>
+      <button class="bst-btn bst-btn-soft" data-action="retrack-fresh" title="Retrack Last AI Message without reusing cached extraction responses">
+        <span class="fa-solid fa-arrows-rotate bst-btn-icon-left" aria-hidden="true"></span>
+        Retrack (Force Fresh)
+      </button>
       <button class="bst-btn" data-action="close" title="Close settings">Done</button>
     </div>
   `;
@@ -1034,10 +1197,19 @@ export function openSettingsModal(input: {
   set("enableSequentialStatGroups", String(input.settings.enableSequentialStatGroups));
   set("maxConcurrentCalls", String(input.settings.maxConcurrentCalls));
   set("strictJsonRepair", String(input.settings.strictJsonRepair));
+  set("structuredOutput", String(input.settings.structuredOutput));
+  set("extractionCacheEnabled", String(input.settings.extractionCacheEnabled));
+  set("extractionCacheMaxEntries", String(input.settings.extractionCacheMaxEntries));
+  set("extractionCacheTtlHours", String(input.settings.extractionCacheTtlHours));
+  set("requestChangeReasons", String(input.settings.requestChangeReasons));
   set("maxRetriesPerStat", String(input.settings.maxRetriesPerStat));
+  set("extractionBudgetMaxRequests", String(input.settings.extractionBudgetMaxRequests));
+  set("extractionBudgetMaxPromptChars", String(input.settings.extractionBudgetMaxPromptChars));
   set("contextMessages", String(input.settings.contextMessages));
   set("injectPromptDepth", String(input.settings.injectPromptDepth));
   set("maxDeltaPerTurn", String(input.settings.maxDeltaPerTurn));
+  set("decayClockStat", input.settings.decayClockStat);
+  set("pairwiseStats", input.settings.pairwiseStats.join(", "));
   set("maxTokensOverride", String(input.settings.maxTokensOverride));
   set("truncationLengthOverride", String(input.settings.truncationLengthOverride));
   set("includeCharacterCardsInPrompt", String(input.settings.includeCharacterCardsInPrompt));
@@ -1050,11 +1222,21 @@ export function openSettingsModal(input: {
   set("injectionPromptMaxChars", String(input.settings.injectionPromptMaxChars));
   set("summarizationNoteVisibleForAI", String(input.settings.summarizationNoteVisibleForAI));
   set("injectSummarizationNote", String(input.settings.injectSummarizationNote));
+  set("injectPairwiseRelations", String(input.settings.injectPairwiseRelations));
   set("autoDetectActive", String(input.settings.autoDetectActive));
   set("autoGenerateTracker", String(input.settings.autoGenerateTracker));
   set("regenerateOnMessageEdit", String(input.settings.regenerateOnMessageEdit));
   set("generateOnGreetingMessages", String(input.settings.generateOnGreetingMessages));
   set("activityLookback", String(input.settings.activityLookback));
+  set("activityCueDepartureVerbs", input.settings.activityCueDepartureVerbs.join("\n"));
+  set("activityCueArrivalVerbs", input.settings.activityCueArrivalVerbs.join("\n"));
+  set("activityCuePlaces", input.settings.activityCuePlaces.join("\n"));
+  set("activityCueNegations", input.settings.activityCueNegations.join("\n"));
+  modal.querySelectorAll<HTMLInputElement>("[data-bst-cue-lang]").forEach(node => {
+    node.checked = (input.settings.activityCueLanguages as string[]).includes(node.dataset.bstCueLang ?? "");
+  });
+  set("modelAssistedPresence", String(input.settings.modelAssistedPresence));
+  set("presenceMergePolicy", input.settings.presenceMergePolicy);
   set("showInactive", String(input.settings.showInactive));
   set("inactiveLabel", input.settings.inactiveLabel);
   set("showLastThought", String(input.settings.showLastThought));
@@ -1172,6 +1354,17 @@ export function openSettingsModal(input: {
   if (globalFrameButton) globalFrameButton.disabled = false;
   const customStatsListNode = modal.querySelector('[data-bst-row="customStatsList"]') as HTMLElement | null;
   const customAddButton = modal.querySelector('[data-action="custom-add"]') as HTMLButtonElement | null;
+  const customStatsBudgetNode = modal.querySelector('[data-bst-row="customStatsBudget"]') as HTMLElement | null;
+  const budgetCharacterCount = Math.max(1, input.activeCharacterCount ?? 1);
+  const renderExtractionBudget = (node: HTMLElement | null, customStats: CustomStatDefinition[]): void => {
+    if (!node) return;
+    const budgetSettings = { ...collectSettings(), customStats };
+    const estimate = estimateExtractionBudget(budgetSettings, budgetCharacterCount);
+    const warnings = getExtractionBudgetWarnings(budgetSettings, estimate);
+    node.textContent = [formatExtractionBudgetSummary(estimate), ...warnings].join(" ");
+    node.classList.toggle("is-error", warnings.length > 0);
+    node.classList.toggle("is-info", warnings.length === 0);
+  };
   const customImportJsonButton = modal.querySelector('[data-action="custom-import-json"]') as HTMLButtonElement | null;
   const customStatsImportStatusNode = modal.querySelector('[data-bst-row="customStatsImportStatus"]') as HTMLElement | null;
   const manageBuiltInsButton = modal.querySelector('[data-action="manage-builtins"]') as HTMLButtonElement | null;
@@ -1186,11 +1379,15 @@ export function openSettingsModal(input: {
     defaultValue: string;
     defaultBoolean: boolean;
     maxDeltaPerTurn: string;
+    decay?: StatDecayConfig;
+    constraintsText: string;
     enumOptionsText: string;
     booleanTrueLabel: string;
     booleanFalseLabel: string;
     textMaxLength: string;
     dateTimeMode: DateTimeMode;
+    formula: string;
+    computedResult: ComputedStatResult;
     trackCharacters: boolean;
     trackUser: boolean;
     globalScope: boolean;
@@ -1213,11 +1410,14 @@ export function openSettingsModal(input: {
         defaultValue: "50",
         defaultBoolean: false,
         maxDeltaPerTurn: "",
+        constraintsText: "",
         enumOptionsText: "",
         booleanTrueLabel: "enabled",
         booleanFalseLabel: "disabled",
         textMaxLength: "120",
         dateTimeMode: "timestamp",
+        formula: "",
+        computedResult: "number",
         trackCharacters: true,
         trackUser: true,
         globalScope: false,
@@ -1252,14 +1452,20 @@ export function openSettingsModal(input: {
             ? normalizeDateTimeValue(clone.defaultValue)
           : kind === "array"
             ? normalizeNonNumericArrayItems(clone.defaultValue, textMaxLength).join("\n")
+          : kind === "computed"
+            ? ""
             : String(clone.defaultValue ?? ""),
       defaultBoolean: kind === "boolean" ? Boolean(clone.defaultValue) : false,
       maxDeltaPerTurn: kind === "numeric" && clone.maxDeltaPerTurn != null ? String(Math.round(clone.maxDeltaPerTurn)) : "",
+      decay: kind === "numeric" && clone.decay ? { ...clone.decay } : undefined,
+      constraintsText: (clone.constraints ?? []).map(formatStatConstraint).join("\n"),
       enumOptionsText: kind === "enum_single" ? normalizeCustomEnumOptions(clone.enumOptions).join("\n") : "",
       booleanTrueLabel: String(clone.booleanTrueLabel ?? "enabled").trim() || "enabled",
       booleanFalseLabel: String(clone.booleanFalseLabel ?? "disabled").trim() || "disabled",
       textMaxLength: kind === "text_short" || kind === "array" ? String(textMaxLength) : "120",
       dateTimeMode: kind === "date_time" && clone.dateTimeMode === "structured" ? "structured" : "timestamp",
+      formula: kind === "computed" ? clone.formula ?? "" : "",
+      computedResult: normalizeComputedStatResult(clone.computedResult),
       trackCharacters,
       trackUser,
       globalScope,
@@ -1272,6 +1478,25 @@ export function openSettingsModal(input: {
     };
   };
 
+  const validateConstraintText = (text: string, settings: BetterSimTrackerSettings): string[] => {
+    const parsed = parseStatConstraintLines(text);
+    const errors = [...parsed.errors];
+    if (parsed.constraints.length > MAX_STAT_CONSTRAINTS) {
+      errors.push(`Up to ${MAX_STAT_CONSTRAINTS} constraints per stat.`);
+    }
+    const knownStatIds = [...STAT_KEYS, ...settings.customStats.map(item => item.id)];
+    for (const constraint of parsed.constraints) {
+      if (!resolveStatRuleStatId(settings, constraint.stat)) {
+        errors.push(`Constraint target "${constraint.stat}" must be a numeric stat.`);
+        continue;
+      }
+      const unknown = validateStatExpression(constraint.expression, knownStatIds)
+        ?? (constraint.when ? validateStatExpression(constraint.when, knownStatIds) : null);
+      if (unknown) errors.push(`Constraint "${formatStatConstraint(constraint)}": ${unknown}`);
+    }
+    return errors;
+  };
+
   const validateCustomStatDraft = (
     draft: CustomStatDraft,
     mode: CustomStatWizardMode,
@@ -1318,6 +1543,12 @@ export function openSettingsModal(input: {
             errors.push("Max delta per turn must be between 1 and 30.");
           }
         }
+        if (draft.decay?.mode === "turns" && id) {
+          const otherStats = customStatsState.filter(item => item.id !== currentId && item.id !== id);
+          const conflict = findTurnDecayDriftConflicts({ ...collectSettings(), customStats: [...otherStats, toCustomStatDefinition(draft)] })
+            .find(item => item.statId === id);
+          if (conflict) errors.push(describeTurnDecayDriftConflict(conflict));
+        }
       } else if (draft.kind === "enum_single") {
         const options = normalizeCustomEnumOptions(draft.enumOptionsText.split(/\r?\n/));
         if (options.length < 2) errors.push("Enum options require at least 2 unique values.");
@@ -1355,6 +1586,30 @@ export function openSettingsModal(input: {
         if (draft.defaultValue.trim() && !normalized) {
           errors.push("Default date/time must be valid (YYYY-MM-DD HH:mm).");
         }
+      } else if (draft.kind === "computed") {
+        const formula = draft.formula.trim();
+        const knownStatIds = [...STAT_KEYS, ...customStatsState.map(item => item.id).filter(item => item !== id)];
+        if (!formula) {
+          errors.push("Formula is required for computed stats.");
+        } else if (tryCompileStatExpression(formula)?.identifiers.includes(id)) {
+          errors.push("Formula cannot reference the stat itself.");
+        } else {
+          const problem = validateStatExpression(formula, knownStatIds);
+          if (problem) errors.push(`Formula: ${problem}`);
+          const computedSettings = {
+            ...input.settings,
+            customStats: [...customStatsState.filter(item => item.id !== id), toCustomStatDefinition(draft)],
+          };
+          const draftDefinition = computedSettings.customStats[computedSettings.customStats.length - 1];
+          const perOwner = draft.globalScope ? findPerOwnerFormulaReferences(computedSettings, draftDefinition) : [];
+          if (perOwner.length) {
+            errors.push(`Global formulas can only read global stats; ${perOwner.map(name => `"${name}"`).join(", ")} ${perOwner.length === 1 ? "is" : "are"} tracked per character.`);
+          }
+          const { blocked } = orderComputedStatDefinitions(computedSettings);
+          if (blocked.includes(id)) {
+            errors.push(`Formula forms a dependency cycle with other computed stats (${blocked.join(", ")}).`);
+          }
+        }
       } else if (draft.kind === "text_short") {
         const maxLen = Number(draft.textMaxLength);
         if (!Number.isFinite(maxLen) || maxLen < 20 || maxLen > 200) {
@@ -1387,6 +1642,10 @@ export function openSettingsModal(input: {
       if (draft.behaviorGuidance.length > 2000) {
         errors.push("Behavior instruction is too long.");
       }
+      errors.push(...validateConstraintText(
+        draft.constraintsText,
+        { ...input.settings, customStats: [...customStatsState, toCustomStatDefinition(draft)] },
+      ));
     }
 
     if (step >= 5) {
@@ -1437,8 +1696,12 @@ export function openSettingsModal(input: {
       if (kind === "date_time") {
         return normalizeDateTimeValue(draft.defaultValue);
       }
+      if (kind === "computed") {
+        return normalizeCustomStatDefaultValue({ kind, computedResult: draft.computedResult, textMaxLength, defaultValue: undefined });
+      }
       return normalizeNonNumericTextValue(draft.defaultValue, textMaxLength);
     })();
+    const valueKind = resolveCustomStatValueKind({ kind, computedResult: draft.computedResult });
     return {
       id: draft.id.trim().toLowerCase(),
       kind,
@@ -1449,13 +1712,17 @@ export function openSettingsModal(input: {
       maxDeltaPerTurn: kind === "numeric" && maxDeltaValue != null && Number.isFinite(maxDeltaValue)
         ? Math.max(1, Math.min(30, Math.round(maxDeltaValue)))
         : undefined,
+      decay: kind === "numeric" && draft.decay ? { ...draft.decay } : undefined,
+      constraints: sanitizeStatConstraints(parseStatConstraintLines(draft.constraintsText).constraints),
       enumOptions: kind === "enum_single" ? enumOptions : undefined,
-      booleanTrueLabel: kind === "boolean" ? trueLabel : undefined,
-      booleanFalseLabel: kind === "boolean" ? falseLabel : undefined,
-      textMaxLength: kind === "text_short" || kind === "array" ? textMaxLength : undefined,
+      booleanTrueLabel: valueKind === "boolean" ? trueLabel : undefined,
+      booleanFalseLabel: valueKind === "boolean" ? falseLabel : undefined,
+      textMaxLength: valueKind === "text_short" || kind === "array" ? textMaxLength : undefined,
       dateTimeMode: kind === "date_time"
         ? (draft.dateTimeMode === "structured" ? "structured" : "timestamp")
         : undefined,
+      formula: kind === "computed" ? draft.formula.trim() : undefined,
+      computedResult: kind === "computed" ? normalizeComputedStatResult(draft.computedResult) : undefined,
       track,
       trackCharacters: resolvedTrackCharacters,
       trackUser: resolvedTrackUser,
@@ -1463,7 +1730,7 @@ export function openSettingsModal(input: {
       privateToOwner,
       includeInInjection: draft.includeInInjection,
       showOnCard: track,
-      showInGraph: kind === "numeric" ? track : false,
+      showInGraph: valueKind === "numeric" ? track : false,
       color: color || undefined,
       promptOverride: template || undefined,
       sequentialGroup: sequentialGroup || undefined,
@@ -1558,11 +1825,12 @@ export function openSettingsModal(input: {
       privateToOwner: globalScope ? false : Boolean(candidate.privateToOwner),
       includeInInjection: candidate.includeInInjection !== false,
       showOnCard: Boolean(candidate.showOnCard ?? track),
-      showInGraph: kind === "numeric" ? Boolean(candidate.showInGraph ?? track) : false,
+      showInGraph: resolveCustomStatValueKind(candidate) === "numeric" ? Boolean(candidate.showInGraph ?? track) : false,
       color,
       promptOverride: promptOverride || undefined,
       sequentialGroup: sequentialGroup || undefined,
       dateTimeMode: undefined,
+      constraints: sanitizeStatConstraints(candidate.constraints),
     };
 
     if (kind === "numeric") {
@@ -1571,6 +1839,7 @@ export function openSettingsModal(input: {
       base.maxDeltaPerTurn = Number.isFinite(parsedMaxDelta)
         ? Math.max(1, Math.min(30, Math.round(parsedMaxDelta)))
         : undefined;
+      base.decay = sanitizeStatDecay(candidate.decay);
       base.enumOptions = undefined;
       base.booleanTrueLabel = undefined;
       base.booleanFalseLabel = undefined;
@@ -1611,6 +1880,19 @@ export function openSettingsModal(input: {
       return { stat: base, warning };
     }
 
+    if (kind === "computed") {
+      const computedResult = normalizeComputedStatResult(candidate.computedResult);
+      base.formula = String(candidate.formula ?? "").trim().slice(0, 400);
+      base.computedResult = computedResult;
+      base.defaultValue = normalizeCustomStatDefaultValue({ kind, computedResult, textMaxLength, defaultValue: candidate.defaultValue });
+      base.textMaxLength = computedResult === "text" ? textMaxLength : undefined;
+      base.maxDeltaPerTurn = undefined;
+      base.enumOptions = undefined;
+      base.booleanTrueLabel = computedResult === "boolean" ? String(candidate.booleanTrueLabel ?? "enabled").trim().slice(0, 40) || "enabled" : undefined;
+      base.booleanFalseLabel = computedResult === "boolean" ? String(candidate.booleanFalseLabel ?? "disabled").trim().slice(0, 40) || "disabled" : undefined;
+      return { stat: base, warning };
+    }
+
     if (kind === "date_time") {
       base.defaultValue = normalizeDateTimeValue(candidate.defaultValue);
       base.dateTimeMode = candidate.dateTimeMode === "structured" ? "structured" : "timestamp";
@@ -1886,6 +2168,7 @@ export function openSettingsModal(input: {
   };
 
   const renderCustomStatsList = (): void => {
+    renderExtractionBudget(customStatsBudgetNode, customStatsState);
     if (!customStatsListNode) return;
     if (customAddButton) {
       customAddButton.disabled = customStatsState.length >= MAX_CUSTOM_STATS;
@@ -1966,7 +2249,8 @@ export function openSettingsModal(input: {
         : [];
       const defaultMeta = (() => {
         if (kind === "numeric") {
-          return `Default: ${Math.round(Number(stat.defaultValue) || 0)}% | Max delta: ${stat.maxDeltaPerTurn == null ? "global" : Math.round(Number(stat.maxDeltaPerTurn))}`;
+          const decay = stat.decay ? ` | ${describeStatDecay(stat.decay)}` : "";
+          return `Default: ${Math.round(Number(stat.defaultValue) || 0)}% | Max delta: ${stat.maxDeltaPerTurn == null ? "global" : Math.round(Number(stat.maxDeltaPerTurn))}${decay}`;
         }
         if (kind === "boolean") {
           const trueLabel = String(stat.booleanTrueLabel ?? "enabled").trim() || "enabled";
@@ -1984,6 +2268,9 @@ export function openSettingsModal(input: {
           const suffix = items.length > 2 ? ` +${items.length - 2} more` : "";
           return `Default: ${preview}${suffix} | Items: ${items.length}/${MAX_CUSTOM_ARRAY_ITEMS} | Item max: ${limit} | Graph: disabled`;
         }
+        if (kind === "computed") {
+          return `Formula: ${String(stat.formula ?? "").trim() || "(empty)"} | Result: ${normalizeComputedStatResult(stat.computedResult)}`;
+        }
         if (kind === "date_time") {
           const normalized = normalizeDateTimeValue(stat.defaultValue);
           return `Default: ${normalized || "(empty)"} | Format: YYYY-MM-DD HH:mm | Graph: disabled`;
@@ -2025,7 +2312,7 @@ export function openSettingsModal(input: {
 
   const getSceneOrderEligibleStats = (): CustomStatDefinition[] =>
     customStatsState.filter(stat => {
-      const kind = normalizeCustomStatKind(stat.kind);
+      const kind = resolveCustomStatValueKind(stat);
       return kind !== "numeric" && Boolean(stat.globalScope) && Boolean(stat.showOnCard);
     });
 
@@ -2035,7 +2322,7 @@ export function openSettingsModal(input: {
       .map(def => ({ id: String(def.key).trim().toLowerCase(), label: def.label, source: "built_in" as const }));
     const custom = customStatsState
       .filter(stat => {
-        const kind = normalizeCustomStatKind(stat.kind);
+        const kind = resolveCustomStatValueKind(stat);
         return kind !== "numeric" && Boolean(stat.showOnCard) && Boolean(stat.trackCharacters) && !Boolean(stat.globalScope);
       })
       .map(stat => ({
@@ -2407,6 +2694,31 @@ export function openSettingsModal(input: {
     document.querySelector(".bst-custom-wizard")?.remove();
   };
 
+  const renderDecayFields = (attribute: string, decay?: StatDecayConfig): string => `
+    <div class="bst-custom-wizard-grid" ${attribute}>
+      <label>Decay
+        <select data-bst-decay-field="mode">
+          <option value="" ${!decay ? "selected" : ""}>Off</option>
+          <option value="turns" ${decay?.mode === "turns" ? "selected" : ""}>Per turn</option>
+          <option value="time" ${decay?.mode === "time" ? "selected" : ""}>Per in-story time</option>
+        </select>
+      </label>
+      <label>Decay Baseline <input type="number" min="0" max="100" data-bst-decay-field="baseline" value="${decay?.baseline ?? 50}"></label>
+      <label>Decay Step <input type="number" min="1" max="100" data-bst-decay-field="amount" value="${decay?.amount ?? 5}"></label>
+      <label>Every (in-story hours) <input type="number" min="0.25" max="720" step="0.25" data-bst-decay-field="intervalHours" value="${decay?.intervalHours ?? 1}"></label>
+    </div>
+  `;
+  const readDecayFields = (root: Element | null): StatDecayConfig | undefined => {
+    const value = (name: string): string =>
+      String((root?.querySelector(`[data-bst-decay-field="${name}"]`) as HTMLInputElement | HTMLSelectElement | null)?.value ?? "");
+    return sanitizeStatDecay({
+      mode: value("mode"),
+      baseline: Number(value("baseline")),
+      amount: Number(value("amount")),
+      intervalHours: Number(value("intervalHours")),
+    });
+  };
+
   const openBuiltInManagerWizard = (): void => {
     closeCustomWizard();
     const current = collectSettings();
@@ -2420,6 +2732,9 @@ export function openSettingsModal(input: {
       lastThought: current.trackLastThought,
     };
     let draftLastThoughtPrivate = Boolean(current.lastThoughtPrivate);
+    const draftOverrides: BuiltInStatOverrides = JSON.parse(JSON.stringify(current.builtInStatOverrides ?? {}));
+    const draftDecay: Record<string, unknown> = JSON.parse(JSON.stringify(current.builtInStatDecay ?? {}));
+    const draftConstraints: Record<string, string> = {};
 
     const backdropNode = document.createElement("div");
     backdropNode.className = "bst-custom-wizard-backdrop";
@@ -2431,13 +2746,37 @@ export function openSettingsModal(input: {
         const enabled = isNumeric
           ? (draftTrack[key] || draftUi[key as keyof BuiltInNumericStatUiSettings].showOnCard || draftUi[key as keyof BuiltInNumericStatUiSettings].showInGraph)
           : draftTrack[key];
+        const def = getBuiltInStatDefinition({ ...current, builtInStatOverrides: {} }, key);
+        const override = draftOverrides[key] ?? {};
         return `
         <div class="bst-custom-stat-row">
           <div class="bst-custom-stat-main">
             <div class="bst-custom-stat-title">
-              <span>${escapeHtml(BUILT_IN_STAT_LABELS[key])}</span>
+              <span>${escapeHtml(override.label || BUILT_IN_STAT_LABELS[key])}</span>
               <span class="bst-custom-stat-id">${escapeHtml(key)}</span>
             </div>
+            <div class="bst-custom-wizard-grid">
+              <label>Label
+                <input type="text" maxlength="40" data-bst-builtin-label="${key}" value="${escapeHtml(override.label ?? "")}" placeholder="${escapeHtml(def.label)}">
+              </label>
+              ${def.color
+                ? `<label>Color
+                <div class="bst-color-inputs">
+                  <input type="color" data-bst-builtin-color-picker="${key}" value="${escapeHtml(override.color || def.color)}" aria-label="${escapeHtml(def.label)} color picker">
+                  <input type="text" data-bst-builtin-color="${key}" value="${escapeHtml(override.color ?? "")}" placeholder="${escapeHtml(def.color)}">
+                </div>
+              </label>`
+                : ""}
+            </div>
+            <label>Description (used as the stat meaning in prompts)
+              <textarea rows="2" maxlength="300" data-bst-builtin-description="${key}" placeholder="${escapeHtml(def.promptMeaning)}">${escapeHtml(override.description ?? "")}</textarea>
+            </label>
+            ${isNumeric ? renderDecayFields(`data-bst-builtin-decay="${key}"`, current.builtInStatDecay?.[key as keyof BuiltInStatDecay]) : ""}
+            ${isNumeric
+              ? `<label>Constraints (optional)
+              <textarea rows="2" data-bst-builtin-constraints="${key}" placeholder="One per line, e.g. desire <= trust + 20">${escapeHtml((current.builtInStatConstraints?.[key as keyof BuiltInStatConstraints] ?? []).map(formatStatConstraint).join("\n"))}</textarea>
+            </label>`
+              : ""}
           </div>
           <div class="bst-check-grid bst-toggle-block ${isNumeric ? "" : "bst-check-grid-single"}">
             <label class="bst-check"><input type="checkbox" data-bst-builtin-enabled="${key}" ${enabled ? "checked" : ""}>${isNumeric ? "Enabled (Track + Card + Graph)" : "Enabled (Track)"}</label>
@@ -2460,16 +2799,19 @@ export function openSettingsModal(input: {
         <button type="button" class="bst-btn bst-close-btn" data-action="custom-close" aria-label="Close">&times;</button>
       </div>
       <div class="bst-custom-wizard-panel is-active" data-bst-builtin-panel="1">
-        <div class="bst-help-line">Built-in stats are never deleted. You can manage whether each one is enabled.</div>
+        <div class="bst-help-line">Built-in stats are never deleted. You can manage whether each one is enabled and relabel, re-describe or recolor it.</div>
         <ul class="bst-help-list">
           <li><strong>Enabled</strong>: one toggle for Track + Card + Graph on numeric built-ins, and Track on text built-ins.</li>
           <li><strong>Include in prompt injection</strong>: controls prompt injection lines for numeric built-ins.</li>
           <li><strong>Private (owner-scoped)</strong>: for lastThought, keep it visible only to the current target owner in prompt injection.</li>
+          <li><strong>Label / Description / Color</strong>: repurpose a built-in slot (for example Desire as Rivalry). Stored values keep the built-in id; the description replaces the stat meaning in extraction and injection prompts.</li>
+          <li><strong>Constraints</strong>: same syntax as custom stat constraints, enforced after each extraction whether or not the stat or its target is enabled, for every active character with a stored value.</li>
         </ul>
       </div>
       <div class="bst-custom-wizard-panel" data-bst-builtin-panel="2">
         <div class="bst-help-line">Configure built-in stats behavior:</div>
         ${renderRows()}
+        <div class="bst-help-line bst-custom-import-status is-error" data-bst-builtin-error style="display:none;"></div>
       </div>
       <div class="bst-custom-wizard-actions">
         <button type="button" class="bst-btn" data-action="builtin-back">Back</button>
@@ -2486,6 +2828,7 @@ export function openSettingsModal(input: {
     const backBtn = wizard.querySelector('[data-action="builtin-back"]') as HTMLButtonElement | null;
     const nextBtn = wizard.querySelector('[data-action="builtin-next"]') as HTMLButtonElement | null;
     const saveBtn = wizard.querySelector('[data-action="builtin-save"]') as HTMLButtonElement | null;
+    const builtInErrorNode = wizard.querySelector("[data-bst-builtin-error]") as HTMLElement | null;
     let step = 1;
 
     const syncStep = (): void => {
@@ -2509,8 +2852,26 @@ export function openSettingsModal(input: {
         }
       }
       draftLastThoughtPrivate = Boolean((wizard.querySelector('[data-bst-builtin-last-thought-private="1"]') as HTMLInputElement | null)?.checked);
+      for (const key of BUILT_IN_TRACKABLE_STAT_KEY_LIST) {
+        draftOverrides[key] = {
+          label: (wizard.querySelector(`[data-bst-builtin-label="${key}"]`) as HTMLInputElement | null)?.value.trim() ?? "",
+          description: (wizard.querySelector(`[data-bst-builtin-description="${key}"]`) as HTMLTextAreaElement | null)?.value.trim() ?? "",
+          color: (wizard.querySelector(`[data-bst-builtin-color="${key}"]`) as HTMLInputElement | null)?.value.trim() ?? "",
+        };
+      }
+      for (const key of BUILT_IN_NUMERIC_STAT_KEY_LIST) {
+        draftDecay[key] = readDecayFields(wizard.querySelector(`[data-bst-builtin-decay="${key}"]`));
+        draftConstraints[key] = (wizard.querySelector(`[data-bst-builtin-constraints="${key}"]`) as HTMLTextAreaElement | null)?.value ?? "";
+      }
     };
 
+    wizard.querySelectorAll<HTMLInputElement>("[data-bst-builtin-color-picker]").forEach(picker => {
+      picker.addEventListener("input", () => {
+        const text = wizard.querySelector(`[data-bst-builtin-color="${picker.dataset.bstBuiltinColorPicker}"]`) as HTMLInputElement | null;
+        if (text) text.value = picker.value;
+      });
+    });
+
     const close = (): void => closeCustomWizard();
     backdropNode.addEventListener("click", close);
     wizard.querySelector('[data-action="custom-close"]')?.addEventListener("click", close);
@@ -2524,6 +2885,19 @@ export function openSettingsModal(input: {
     });
     saveBtn?.addEventListener("click", () => {
       applyFromDom();
+      const draftSettings = collectSettings();
+      const errors = findTurnDecayDriftConflicts({ ...draftSettings, builtInStatDecay: sanitizeBuiltInStatDecay(draftDecay) })
+        .filter(conflict => BUILT_IN_NUMERIC_STAT_KEYS.has(conflict.statId))
+        .map(describeTurnDecayDriftConflict);
+      for (const key of BUILT_IN_NUMERIC_STAT_KEY_LIST) {
+        const label = draftOverrides[key]?.label || BUILT_IN_STAT_LABELS[key];
+        errors.push(...validateConstraintText(draftConstraints[key], draftSettings).map(error => `${label}: ${error}`));
+      }
+      if (builtInErrorNode) {
+        builtInErrorNode.textContent = errors.join("\n");
+        builtInErrorNode.style.display = errors.length ? "block" : "none";
+      }
+      if (errors.length) return;
       builtInNumericStatUiState = cloneBuiltInNumericStatUi(draftUi);
       input.settings.trackAffection = draftTrack.affection;
       input.settings.trackTrust = draftTrack.trust;
@@ -2532,6 +2906,11 @@ export function openSettingsModal(input: {
       input.settings.trackMood = draftTrack.mood;
       input.settings.trackLastThought = draftTrack.lastThought;
       input.settings.lastThoughtPrivate = draftLastThoughtPrivate;
+      input.settings.builtInStatOverrides = sanitizeBuiltInStatOverrides(draftOverrides);
+      input.settings.builtInStatDecay = sanitizeBuiltInStatDecay(draftDecay);
+      input.settings.builtInStatConstraints = sanitizeBuiltInStatConstraints(Object.fromEntries(
+        BUILT_IN_NUMERIC_STAT_KEY_LIST.map(key => [key, parseStatConstraintLines(draftConstraints[key]).constraints]),
+      ));
       close();
       persistLive();
     });
@@ -2683,6 +3062,7 @@ export function openSettingsModal(input: {
               <option value="text_short" ${draft.kind === "text_short" ? "selected" : ""}>Short text</option>
               <option value="array" ${draft.kind === "array" ? "selected" : ""}>Array (list)</option>
               <option value="date_time" ${draft.kind === "date_time" ? "selected" : ""}>Date/Time</option>
+              <option value="computed" ${draft.kind === "computed" ? "selected" : ""}>Computed (formula)</option>
             </select>
           </label>
         </div>
@@ -2708,6 +3088,7 @@ export function openSettingsModal(input: {
             <input type="number" min="1" max="30" data-bst-custom-field="maxDeltaPerTurn" value="${escapeHtml(draft.maxDeltaPerTurn)}" placeholder="Use global">
           </label>
         </div>
+        ${renderDecayFields('data-bst-custom-decay data-bst-kind-panel="numeric"', draft.decay)}
         <div class="bst-custom-wizard-grid bst-custom-wizard-grid-single" data-bst-kind-panel="enum_single" style="display:none;">
           <label>Allowed Values (2-12)
             <div class="bst-enum-options-editor">
@@ -2760,6 +3141,18 @@ export function openSettingsModal(input: {
             <input type="number" min="20" max="200" data-bst-custom-field="textMaxLength" value="${escapeHtml(draft.textMaxLength)}">
           </label>
         </div>
+        <div class="bst-custom-wizard-grid" data-bst-kind-panel="computed" style="display:none;">
+          <label>Formula
+            <input type="text" maxlength="400" data-bst-custom-field="formula" value="${escapeHtml(draft.formula)}" placeholder="round((trust + affection) / 2)">
+          </label>
+          <label>Result
+            <select data-bst-custom-field="computedResult">
+              <option value="number" ${draft.computedResult === "number" ? "selected" : ""}>Number (0-100)</option>
+              <option value="boolean" ${draft.computedResult === "boolean" ? "selected" : ""}>Boolean</option>
+              <option value="text" ${draft.computedResult === "text" ? "selected" : ""}>Short text</option>
+            </select>
+          </label>
+        </div>
         <div class="bst-custom-wizard-grid bst-custom-wizard-grid-single" data-bst-kind-panel="date_time" style="display:none;">
           <label>Default Date/Time
             <input type="datetime-local" data-bst-custom-field="dateTimeDefaultValue" value="${escapeHtml(draft.kind === "date_time" ? toDateTimeInputValue(draft.defaultValue) : "")}">
@@ -2850,6 +3243,10 @@ export function openSettingsModal(input: {
           </button>
           <span class="bst-custom-ai-status" data-bst-custom-behavior-status>Uses current connection profile.</span>
         </div>
+        <label>Constraints (optional)
+          <textarea data-bst-custom-field="constraintsText" rows="3" placeholder="One per line, e.g.\ndesire <= trust + 20\nconnection = round((affection + trust) / 2)\naffection <= 30 when is_hostile">${escapeHtml(draft.constraintsText)}</textarea>
+        </label>
+        <div class="bst-help-line">Enforced on stored values after each extraction, also while this stat or the target stat is not tracked; a character with no stored value for the target is skipped. Use <code>&lt;=</code>, <code>&gt;=</code> or <code>=</code> with stat IDs, numbers, <code>+ - * /</code>, <code>round()</code>, <code>min()</code>, <code>max()</code>, comparisons, <code>&amp;&amp;</code>, <code>||</code> and an optional <code>when</code> condition.</div>
       </div>
 
       <div class="bst-custom-wizard-panel" data-bst-custom-panel="5">
@@ -2865,6 +3262,7 @@ export function openSettingsModal(input: {
       <div class="bst-custom-wizard-panel" data-bst-custom-panel="6">
         <div class="bst-help-line">Review before saving:</div>
         <pre class="bst-custom-wizard-review" data-bst-custom-review></pre>
+        <div class="bst-help-line bst-custom-stats-status is-info" data-bst-custom-budget></div>
       </div>
 
       <div class="bst-custom-wizard-actions">
@@ -2879,6 +3277,7 @@ export function openSettingsModal(input: {
     const stepLabel = wizard.querySelector("[data-bst-custom-step]") as HTMLElement | null;
     const errorNode = wizard.querySelector("[data-bst-custom-error]") as HTMLElement | null;
     const reviewNode = wizard.querySelector("[data-bst-custom-review]") as HTMLElement | null;
+    const budgetNode = wizard.querySelector("[data-bst-custom-budget]") as HTMLElement | null;
     const prevBtn = wizard.querySelector('[data-action="custom-prev"]') as HTMLButtonElement | null;
     const nextBtn = wizard.querySelector('[data-action="custom-next"]') as HTMLButtonElement | null;
     const saveBtn = wizard.querySelector('[data-action="custom-save"]') as HTMLButtonElement | null;
@@ -3068,6 +3467,7 @@ export function openSettingsModal(input: {
       draft.kind = normalizeCustomStatKind(kindNode?.value);
       draft.description = String(descriptionNode?.value ?? "");
       draft.behaviorGuidance = String(behaviorGuidanceNode?.value ?? "");
+      draft.constraintsText = String(getField("constraintsText")?.value ?? "");
       if (draft.kind === "numeric") {
         draft.defaultValue = String(numericDefaultNode?.value ?? "");
       } else if (draft.kind === "enum_single") {
@@ -3083,11 +3483,14 @@ export function openSettingsModal(input: {
       }
       draft.defaultBoolean = String(defaultBooleanNode?.value ?? "false").toLowerCase() === "true";
       draft.maxDeltaPerTurn = String(maxDeltaNode?.value ?? "");
+      draft.decay = readDecayFields(wizard.querySelector("[data-bst-custom-decay]"));
       draft.enumOptionsText = syncEnumEditorToHiddenField() || String(enumOptionsNode?.value ?? "");
       draft.booleanTrueLabel = String(trueLabelNode?.value ?? "");
       draft.booleanFalseLabel = String(falseLabelNode?.value ?? "");
       draft.textMaxLength = String(textMaxLengthNode?.value ?? "");
       draft.dateTimeMode = String(dateTimeModeNode?.value ?? "timestamp").toLowerCase() === "structured" ? "structured" : "timestamp";
+      draft.formula = String(getField("formula")?.value ?? "");
+      draft.computedResult = normalizeComputedStatResult(getField("computedResult")?.value);
       draft.trackCharacters = Boolean(trackCharactersNode?.checked);
       draft.trackUser = Boolean(trackUserNode?.checked);
       draft.globalScope = Boolean(globalScopeNode?.checked);
@@ -3119,6 +3522,12 @@ export function openSettingsModal(input: {
       if (!reviewNode) return;
       const normalized = toCustomStatDefinition(draft);
       reviewNode.textContent = JSON.stringify(normalized, null, 2);
+      renderExtractionBudget(
+        budgetNode,
+        mode === "edit" && source
+          ? customStatsState.map(item => item.id === source.id ? normalized : item)
+          : [...customStatsState, normalized],
+      );
     };
 
     const updateDescriptionCounter = (): void => {
@@ -3169,6 +3578,8 @@ export function openSettingsModal(input: {
           valueHelpNode.textContent = "Boolean stats store true/false (no delta, no graph).";
         } else if (kind === "array") {
           valueHelpNode.textContent = `Array stats store up to ${MAX_CUSTOM_ARRAY_ITEMS} short items and should be updated incrementally (add/remove/edit items).`;
+        } else if (kind === "computed") {
+          valueHelpNode.textContent = "Computed stats are evaluated from the formula after every extraction and manual edit. They are never requested from the model. Use stat ids, + - * / %, comparisons, && || !, ?: and round, floor, ceil, abs, min, max, avg, clamp, len, has.";
         } else if (kind === "date_time") {
           valueHelpNode.textContent = draft.dateTimeMode === "structured"
             ? "Structured mode accepts semantic datetime updates and normalizes to YYYY-MM-DD HH:mm (no delta, no graph)."
@@ -3962,10 +4373,6 @@ export function openSettingsModal(input: {
       persistLive();
     }
   });
-  renderCustomStatsList();
-  renderSceneCardOrderList();
-  renderCharacterCardOrderList();
-
   const collectSettings = (): BetterSimTrackerSettings => {
     const read = (k: keyof BetterSimTrackerSettings): string =>
       ((modal.querySelector(`[data-k="${k}"]`) as HTMLInputElement | HTMLSelectElement | null)?.value ?? "").trim();
@@ -4010,10 +4417,19 @@ export function openSettingsModal(input: {
       enableSequentialStatGroups: readBool("enableSequentialStatGroups", input.settings.enableSequentialStatGroups),
       maxConcurrentCalls: readNumber("maxConcurrentCalls", input.settings.maxConcurrentCalls, 1, 8),
       strictJsonRepair: readBool("strictJsonRepair", input.settings.strictJsonRepair),
+      structuredOutput: readBool("structuredOutput", input.settings.structuredOutput),
+      extractionCacheEnabled: readBool("extractionCacheEnabled", input.settings.extractionCacheEnabled),
+      extractionCacheMaxEntries: readNumber("extractionCacheMaxEntries", input.settings.extractionCacheMaxEntries, 10, 5000),
+      extractionCacheTtlHours: readNumber("extractionCacheTtlHours", input.settings.extractionCacheTtlHours, 1, 720),
+      requestChangeReasons: readBool("requestChangeReasons", input.settings.requestChangeReasons),
       maxRetriesPerStat: readNumber("maxRetriesPerStat", input.settings.maxRetriesPerStat, 0, 4),
+      extractionBudgetMaxRequests: readNumber("extractionBudgetMaxRequests", input.settings.extractionBudgetMaxRequests, 0, 200),
+      extractionBudgetMaxPromptChars: readNumber("extractionBudgetMaxPromptChars", input.settings.extractionBudgetMaxPromptChars, 0, 2000000),
       contextMessages: readNumber("contextMessages", input.settings.contextMessages, 1, 40),
       injectPromptDepth: readNumber("injectPromptDepth", input.settings.injectPromptDepth, 0, 8),
       maxDeltaPerTurn: readNumber("maxDeltaPerTurn", input.settings.maxDeltaPerTurn, 1, 30),
+      decayClockStat: read("decayClockStat").toLowerCase(),
+      pairwiseStats: sanitizePairwiseStats(read("pairwiseStats")),
       maxTokensOverride: readNumber("maxTokensOverride", input.settings.maxTokensOverride, 0, 100000),
       truncationLengthOverride: readNumber("truncationLengthOverride", input.settings.truncationLengthOverride, 0, 200000),
       includeCharacterCardsInPrompt: readBool("includeCharacterCardsInPrompt", input.settings.includeCharacterCardsInPrompt),
@@ -4026,11 +4442,25 @@ export function openSettingsModal(input: {
       injectionPromptMaxChars: readNumber("injectionPromptMaxChars", input.settings.injectionPromptMaxChars, 500, 100000),
       summarizationNoteVisibleForAI: readBool("summarizationNoteVisibleForAI", input.settings.summarizationNoteVisibleForAI),
       injectSummarizationNote: readBool("injectSummarizationNote", input.settings.injectSummarizationNote),
+      injectPairwiseRelations: readBool("injectPairwiseRelations", input.settings.injectPairwiseRelations),
       autoDetectActive: readBool("autoDetectActive", input.settings.autoDetectActive),
       autoGenerateTracker: readBool("autoGenerateTracker", input.settings.autoGenerateTracker),
       regenerateOnMessageEdit: readBool("regenerateOnMessageEdit", input.settings.regenerateOnMessageEdit),
       generateOnGreetingMessages: readBool("generateOnGreetingMessages", input.settings.generateOnGreetingMessages),
       activityLookback: readNumber("activityLookback", input.settings.activityLookback, 1, 25),
+      activityCueLanguages: sanitizeActivityCueLanguages(
+        Array.from(modal.querySelectorAll<HTMLInputElement>("[data-bst-cue-lang]"))
+          .filter(node => node.checked)
+          .map(node => node.dataset.bstCueLang ?? ""),
+      ),
+      activityCueDepartureVerbs: sanitizeActivityCueList(read("activityCueDepartureVerbs"), MAX_ACTIVITY_CUES_PER_LIST),
+      activityCueArrivalVerbs: sanitizeActivityCueList(read("activityCueArrivalVerbs"), MAX_ACTIVITY_CUES_PER_LIST),
+      activityCuePlaces: sanitizeActivityCueList(read("activityCuePlaces"), MAX_ACTIVITY_CUES_PER_LIST),
+      activityCueNegations: sanitizeActivityCueList(read("activityCueNegations"), MAX_ACTIVITY_CUES_PER_LIST),
+      modelAssistedPresence: readBool("modelAssistedPresence", input.settings.modelAssistedPresence),
+      presenceMergePolicy: read("presenceMergePolicy") === "union"
+        ? "union"
+        : read("presenceMergePolicy") === "intersection" ? "intersection" : "prefer_model",
       showInactive: readBool("showInactive", input.settings.showInactive),
       inactiveLabel: read("inactiveLabel") || input.settings.inactiveLabel,
       showLastThought: readBool("showLastThought", input.settings.showLastThought),
@@ -4052,6 +4482,12 @@ export function openSettingsModal(input: {
       trackMood: readBool("trackMood", input.settings.trackMood),
       trackLastThought: readBool("trackLastThought", input.settings.trackLastThought),
       lastThoughtPrivate: input.settings.lastThoughtPrivate,
+      builtInStatOverrides: input.settings.builtInStatOverrides,
+      builtInStatDecay: input.settings.builtInStatDecay,
+      builtInStatConstraints: input.settings.builtInStatConstraints,
+      triggerRules: triggerRulesState.map(rule => ({ ...rule, actions: rule.actions.map(action => ({ ...action })) })),
+      statRules: statRulesState.map(rule => ({ ...rule })),
+      connectionProfileRoutes: connectionRoutesState.map(route => ({ ...route })),
       enableUserTracking: readBool("enableUserTracking", input.settings.enableUserTracking),
       userTrackMood: readBool("userTrackMood", input.settings.userTrackMood),
       userTrackLastThought: readBool("userTrackLastThought", input.settings.userTrackLastThought),
@@ -4105,11 +4541,17 @@ export function openSettingsModal(input: {
     };
   };
 
+  renderCustomStatsList();
+  renderSceneCardOrderList();
+  renderCharacterCardOrderList();
+
   const syncExtractionVisibility = (): void => {
     const maxConcurrentRow = modal.querySelector('[data-bst-row="maxConcurrentCalls"]') as HTMLElement | null;
     const injectPromptDepthRow = modal.querySelector('[data-bst-row="injectPromptDepth"]') as HTMLElement | null;
     const maxRetriesRow = modal.querySelector('[data-bst-row="maxRetriesPerStat"]') as HTMLElement | null;
     const lookbackRow = modal.querySelector('[data-bst-row="activityLookback"]') as HTMLElement | null;
+    const modelAssistedPresenceRow = modal.querySelector('[data-bst-row="modelAssistedPresence"]') as HTMLElement | null;
+    const presenceMergePolicyRow = modal.querySelector('[data-bst-row="presenceMergePolicy"]') as HTMLElement | null;
     const regenerateOnMessageEditRow = modal.querySelector('[data-bst-row="regenerateOnMessageEdit"]') as HTMLElement | null;
     const generateOnGreetingMessagesRow = modal.querySelector('[data-bst-row="generateOnGreetingMessages"]') as HTMLElement | null;
     const inactiveLabelRow = modal.querySelector('[data-bst-row="inactiveLabel"]') as HTMLElement | null;
@@ -4129,6 +4571,7 @@ export function openSettingsModal(input: {
     const injectPromptBlock = modal.querySelector('[data-bst-row="injectPromptBlock"]') as HTMLElement | null;
     const injectPromptDivider = modal.querySelector('[data-bst-row="injectPromptDivider"]') as HTMLElement | null;
     const injectSummarizationNoteRow = modal.querySelector('[data-bst-row="injectSummarizationNote"]') as HTMLElement | null;
+    const injectPairwiseRelationsRow = modal.querySelector('[data-bst-row="injectPairwiseRelations"]') as HTMLElement | null;
     const lorebookExtractionMaxCharsRow = modal.querySelector('[data-bst-row="lorebookExtractionMaxChars"]') as HTMLElement | null;
     const lorebookExtractionHelpRow = modal.querySelector('[data-bst-row="lorebookExtractionHelp"]') as HTMLElement | null;
     const lorebookFallbackRow = modal.querySelector('[data-bst-row="useInternalLorebookScanFallback"]') as HTMLElement | null;
@@ -4160,6 +4603,14 @@ export function openSettingsModal(input: {
       lookbackRow.style.flexDirection = "column";
       lookbackRow.style.gap = "4px";
     }
+    if (modelAssistedPresenceRow) {
+      modelAssistedPresenceRow.style.display = current.autoDetectActive && !current.sequentialExtraction ? "" : "none";
+    }
+    if (presenceMergePolicyRow) {
+      presenceMergePolicyRow.style.display = current.autoDetectActive && current.modelAssistedPresence && !current.sequentialExtraction ? "flex" : "none";
+      presenceMergePolicyRow.style.flexDirection = "column";
+      presenceMergePolicyRow.style.gap = "4px";
+    }
     if (regenerateOnMessageEditRow) {
       regenerateOnMessageEditRow.style.display = current.autoGenerateTracker ? "" : "none";
     }
@@ -4231,6 +4682,9 @@ export function openSettingsModal(input: {
     if (injectSummarizationNoteRow) {
       injectSummarizationNoteRow.style.display = current.injectTrackerIntoPrompt ? "" : "none";
     }
+    if (injectPairwiseRelationsRow) {
+      injectPairwiseRelationsRow.style.display = current.injectTrackerIntoPrompt && current.pairwiseStats.length ? "" : "none";
+    }
     if (lorebookExtractionMaxCharsRow) {
       lorebookExtractionMaxCharsRow.style.display = current.includeLorebookInExtraction ? "flex" : "none";
       lorebookExtractionMaxCharsRow.style.flexDirection = "column";
@@ -4343,10 +4797,19 @@ export function openSettingsModal(input: {
     enableSequentialStatGroups: "When enabled, custom stats with the same Sequential Group are extracted together in one sequential request.",
     maxConcurrentCalls: "When sequential mode is enabled, number of stat requests sent in parallel.",
     strictJsonRepair: "Enable strict retry prompts when model output is not valid or missing required fields.",
+    structuredOutput: "Send a JSON schema built from the requested stats when the backend (active API or routed connection profile) supports structured output (chat completion json_schema or Tabby/llama.cpp schema-constrained sampling).",
+    extractionCacheEnabled: "Reuse the raw model output when an extraction request has the exact same prompt, connection profile and token limits (retrack, swipes, message edits). Use Retrack (Force Fresh) to bypass it once.",
+    extractionCacheMaxEntries: "Maximum cached extraction responses kept in this browser. Least recently used entries are removed first.",
+    extractionCacheTtlHours: "Cached extraction responses older than this many hours are ignored and removed.",
+    requestChangeReasons: "Ask the model for a one-line reason with numeric stat changes. Shown in the card's \"Why did this change?\" popover.",
     maxRetriesPerStat: "Maximum repair retries for each stat extraction stage.",
+    extractionBudgetMaxRequests: "Warn in the custom stats wizard when the estimated requests per extraction run exceed this number (0 = no budget).",
+    extractionBudgetMaxPromptChars: "Warn in the custom stats wizard when the estimated prompt characters per extraction run exceed this number (0 = no budget).",
     contextMessages: "How many recent chat messages are included in tracker extraction context.",
     injectPromptDepth: "How deep into the in-chat prompt stack the injected relationship state should be inserted (0 = nearest/top, max 8).",
     maxDeltaPerTurn: "Hard cap for stat change magnitude in one tracker update before confidence scaling.",
+    pairwiseStats: "Comma-separated numeric stat IDs (max 4) also tracked between characters, e.g. how Alice trusts Bob. Adds one extraction request per run when two or more characters are active.",
+    decayClockStat: "ID of the date_time custom stat that measures in-story time for time-based decay. Empty uses the first tracked date_time stat.",
     maxTokensOverride: "Override max tokens for extraction requests (0 = use profile/preset defaults).",
     truncationLengthOverride: "Override context truncation length for extraction requests (0 = use profile/preset defaults).",
     includeCharacterCardsInPrompt: "Include character card description/personality/scenario if recent messages are unclear.",
@@ -4358,12 +4821,19 @@ export function openSettingsModal(input: {
     lorebookExtractionMaxChars: "Maximum lorebook characters included in extraction context (0 means no trim).",
     injectionPromptMaxChars: "Maximum size of hidden injection prompt block sent to generation.",
     summarizationNoteVisibleForAI: "Controls visibility mode for newly generated Summarize notes (prose summaries of current tracked stats). Existing notes are unchanged for safety.",
+    injectPairwiseRelations: "Include pairwise relation lines for the character about to speak (how they feel toward others and how others feel toward them).",
     injectSummarizationNote: "Include the latest Summarize note (prose summary of current tracked stats) in hidden tracker prompt injection guidance only (no chat-message edits).",
     autoDetectActive: "Automatically decide which group characters are active in current scene.",
     autoGenerateTracker: "When disabled, BST does not auto-extract on new AI/user messages. Use manual refresh/retry only.",
     regenerateOnMessageEdit: "When enabled, editing an already-tracked message triggers tracker regeneration for that message.",
     generateOnGreetingMessages: "When disabled, skips tracker extraction for first-message greetings (no prior user message in chat).",
     activityLookback: "Primary recent-speaker window. Characters stay active longer via persistence unless departure cues remove them.",
+    activityCueDepartureVerbs: "Extra departure verbs, one per line, merged with the enabled language packs. A departure needs a verb and a place in the same clause.",
+    activityCueArrivalVerbs: "Extra arrival verbs, one per line. A user message naming a character with an arrival verb marks them active.",
+    activityCuePlaces: "Extra places, one per line, that complete a departure cue (e.g. a room name used in your scenes).",
+    activityCueNegations: "Extra negation words, one per line. Clauses containing a negation never count as departure or arrival cues.",
+    modelAssistedPresence: "Ask the unified extraction request which tracked characters are physically present or taking part, with a short reason. Extraction then covers all tracked characters; absent ones keep their previous values. Unified mode only.",
+    presenceMergePolicy: "How the model's presence answer combines with the recent-speaker heuristic: the model decides, either source can activate, or both must agree.",
     trackAffection: "Enable Affection stat extraction and updates.",
     trackTrust: "Enable Trust stat extraction and updates.",
     trackDesire: "Enable Desire stat extraction and updates.",
@@ -4444,11 +4914,705 @@ export function openSettingsModal(input: {
     });
   });
 
+  modal.querySelectorAll('[data-action="retrack-fresh"]').forEach(node => {
+    node.addEventListener("click", () => {
+      persistLive();
+      input.onRetrackFresh?.();
+    });
+  });
+
   modal.querySelector('[data-action="clear-chat"]')?.addEventListener("click", () => {
     persistLive();
     input.onClearCurrentChat?.();
   });
 
+  const historyStatusNode = modal.querySelector("[data-bst-history-status]") as HTMLElement | null;
+  const setHistoryStatus = (message: string, tone: "success" | "error" | "info" = "info"): void => {
+    if (!historyStatusNode) return;
+    historyStatusNode.textContent = message;
+    historyStatusNode.style.display = message ? "block" : "none";
+    historyStatusNode.classList.remove("is-success", "is-error", "is-info");
+    historyStatusNode.classList.add(tone === "success" ? "is-success" : tone === "error" ? "is-error" : "is-info");
+  };
+  const runHistoryExport = (format: "json" | "csv"): void => {
+    if (!input.onExportHistory) return;
+    const message = input.onExportHistory(format);
+    if (message) {
+      setHistoryStatus(message, "success");
+    } else {
+      setHistoryStatus("No tracker history to export for the current chat.", "info");
+    }
+  };
+  const openHistoryImportWizard = (): void => {
+    closeCustomWizard();
+    const backdropNode = document.createElement("div");
+    backdropNode.className = "bst-custom-wizard-backdrop";
+    const wizard = document.createElement("div");
+    wizard.className = "bst-custom-wizard";
+    wizard.innerHTML = `
+      <div class="bst-custom-wizard-head">
+        <div>
+          <div class="bst-custom-wizard-title">Import Tracker History</div>
+          <div class="bst-custom-wizard-step">Snapshots are matched by message index and verified by message hash; moved messages are re-attached by hash.</div>
+        </div>
+        <button class="bst-btn bst-btn-soft" data-action="custom-close">Close</button>
+      </div>
+      <div class="bst-custom-import-box">
+        <div class="bst-help-line">Choose an exported <code>.json</code> file or paste its contents.</div>
+        <input type="file" accept="application/json,.json" data-bst-history-import-file>
+        <textarea class="bst-custom-import-textarea" data-bst-history-import-text placeholder='{ "format": "bettersimtracker-history", ... }'></textarea>
+        <label class="bst-check"><input type="checkbox" data-bst-history-import-overwrite>Overwrite snapshots that already exist on matched messages</label>
+        <div class="bst-help-line bst-custom-import-status is-info" data-bst-history-import-status style="display:none;"></div>
+      </div>
+      <div class="bst-custom-wizard-actions">
+        <button type="button" class="bst-btn" data-action="custom-close">Cancel</button>
+        <button type="button" class="bst-btn bst-btn-soft" data-action="history-apply-import">Import</button>
+      </div>
+    `;
+
+    const close = (): void => {
+      backdropNode.remove();
+      wizard.remove();
+    };
+    const statusNode = wizard.querySelector("[data-bst-history-import-status]") as HTMLElement | null;
+    const textarea = wizard.querySelector("[data-bst-history-import-text]") as HTMLTextAreaElement | null;
+    const fileInput = wizard.querySelector("[data-bst-history-import-file]") as HTMLInputElement | null;
+    const overwriteInput = wizard.querySelector("[data-bst-history-import-overwrite]") as HTMLInputElement | null;
+    const setImportStatus = (message: string, tone: "success" | "error" | "info" = "info"): void => {
+      if (!statusNode) return;
+      statusNode.textContent = message;
+      statusNode.style.display = message ? "block" : "none";
+      statusNode.classList.remove("is-success", "is-error", "is-info");
+      statusNode.classList.add(tone === "success" ? "is-success" : tone === "error" ? "is-error" : "is-info");
+    };
+    fileInput?.addEventListener("change", () => {
+      const file = fileInput.files?.[0];
+      if (!file || !textarea) return;
+      void file.text().then(
+        text => {
+          textarea.value = text;
+          setImportStatus(`Loaded ${file.name}.`, "info");
+        },
+        () => setImportStatus("Could not read the selected file.", "error"),
+      );
+    });
+    wizard.querySelector('[data-action="history-apply-import"]')?.addEventListener("click", () => {
+      if (!input.onImportHistory) return;
+      const result = input.onImportHistory(String(textarea?.value ?? ""), Boolean(overwriteInput?.checked));
+      if (!result.ok) {
+        setImportStatus(result.message, "error");
+        return;
+      }
+      setHistoryStatus(result.message, "success");
+      close();
+    });
+    wizard.querySelectorAll('[data-action="custom-close"]').forEach(node => node.addEventListener("click", close));
+    backdropNode.addEventListener("click", close);
+    wizard.addEventListener("click", event => event.stopPropagation());
+
+    document.body.appendChild(backdropNode);
+    document.body.appendChild(wizard);
+    textarea?.focus();
+  };
+
+  modal.querySelector('[data-action="history-export-json"]')?.addEventListener("click", () => runHistoryExport("json"));
+  modal.querySelector('[data-action="history-export-csv"]')?.addEventListener("click", () => runHistoryExport("csv"));
+  modal.querySelector('[data-action="history-import"]')?.addEventListener("click", () => {
+    persistLive();
+    openHistoryImportWizard();
+  });
+
+  const triggerListNode = modal.querySelector('[data-bst-row="triggerList"]') as HTMLElement | null;
+  const triggerStatusNode = modal.querySelector('[data-bst-row="triggerStatus"]') as HTMLElement | null;
+  const triggerAddButton = modal.querySelector('[data-action="trigger-add"]') as HTMLButtonElement | null;
+  const setTriggerStatus = (message: string, tone: "success" | "error" | "info" = "info"): void => {
+    if (!triggerStatusNode) return;
+    triggerStatusNode.textContent = message;
+    triggerStatusNode.style.display = message ? "block" : "none";
+    triggerStatusNode.classList.remove("is-success", "is-error", "is-info");
+    triggerStatusNode.classList.add(tone === "success" ? "is-success" : tone === "error" ? "is-error" : "is-info");
+  };
+  const describeTriggerAction = (action: TriggerAction): string => {
+    if (action.type === "system_message") return `System message: ${action.text}`;
+    if (action.type === "inject_note") return `Prompt note: ${action.text}`;
+    if (action.type === "slash_command") return `Command: ${action.text}`;
+    return `Set ${action.statId ?? "?"} = ${action.text}`;
+  };
+  const renderTriggerList = (): void => {
+    if (!triggerListNode) return;
+    if (triggerAddButton) {
+      triggerAddButton.disabled = triggerRulesState.length >= MAX_TRIGGER_RULES;
+      triggerAddButton.title = triggerAddButton.disabled ? `Maximum ${MAX_TRIGGER_RULES} triggers reached.` : "Add trigger";
+    }
+    if (!triggerRulesState.length) {
+      triggerListNode.innerHTML = `<div class="bst-custom-stat-empty">No triggers yet.</div>`;
+      return;
+    }
+    triggerListNode.innerHTML = triggerRulesState.map(rule => {
+      const fired = triggerFiredCounts[rule.id] ?? 0;
+      return `
+        <div class="bst-custom-stat-row" data-bst-trigger-id="${escapeHtml(rule.id)}">
+          <div class="bst-custom-stat-main">
+            <div class="bst-custom-stat-title">
+              <span>${escapeHtml(rule.label || describeTriggerRule(rule))}</span>
+              <span class="bst-custom-stat-id">${escapeHtml(rule.id)}</span>
+            </div>
+            <div class="bst-custom-stat-meta">${escapeHtml(describeTriggerRule(rule))}</div>
+            ${rule.actions.map(action => `<div class="bst-custom-stat-meta">${escapeHtml(describeTriggerAction(action))}</div>`).join("")}
+            <div class="bst-custom-stat-flags">
+              <span class="bst-custom-stat-flag">${fired ? `fired in this chat: ${fired}` : "armed"}</span>
+            </div>
+          </div>
+          <div class="bst-custom-stat-actions">
+            <button type="button" class="bst-custom-stat-toggle ${rule.enabled ? "is-on" : "is-off"}" data-action="trigger-toggle-enabled" data-trigger-id="${escapeHtml(rule.id)}" aria-pressed="${rule.enabled ? "true" : "false"}">
+              <span class="bst-custom-stat-toggle-pill" aria-hidden="true"></span>
+              <span class="bst-custom-stat-toggle-label">${rule.enabled ? "Enabled" : "Disabled"}</span>
+            </button>
+            <button type="button" class="bst-btn bst-btn-soft" data-action="trigger-edit" data-trigger-id="${escapeHtml(rule.id)}">Edit</button>
+            <button type="button" class="bst-btn bst-btn-soft" data-action="trigger-rearm" data-trigger-id="${escapeHtml(rule.id)}" ${fired ? "" : "disabled"}>Re-arm</button>
+            <button type="button" class="bst-btn bst-btn-danger" data-action="trigger-remove" data-trigger-id="${escapeHtml(rule.id)}">Remove</button>
+          </div>
+        </div>
+      `;
+    }).join("");
+  };
+  const nextTriggerId = (label: string): string => {
+    const base = label.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "").slice(0, 32) || "trigger";
+    const taken = new Set(triggerRulesState.map(rule => rule.id));
+    if (!taken.has(base)) return base;
+    let suffix = 2;
+    while (taken.has(`${base}_${suffix}`)) suffix += 1;
+    return `${base}_${suffix}`;
+  };
+  const openTriggerWizard = (existing?: TriggerRule): void => {
+    closeCustomWizard();
+    const current = collectSettings();
+    const statOptions = [
+      ...BUILT_IN_TRACKABLE_STAT_KEY_LIST
+        .filter(key => key !== "lastThought")
+        .map(key => ({ id: key, label: getBuiltInStatDefinition(current, key).label })),
+      ...customStatsState.map(stat => ({ id: stat.id, label: stat.label || stat.id })),
+    ];
+    const actionText = (type: TriggerAction["type"]): string =>
+      existing?.actions.find(action => action.type === type)?.text ?? "";
+    const setStatAction = existing?.actions.find(action => action.type === "set_stat");
+    const condition = existing?.condition ?? "crosses_above";
+    const backdropNode = document.createElement("div");
+    backdropNode.className = "bst-custom-wizard-backdrop";
+    const wizard = document.createElement("div");
+    wizard.className = "bst-custom-wizard";
+    wizard.innerHTML = `
+      <div class="bst-custom-wizard-head">
+        <div>
+          <div class="bst-custom-wizard-title">${existing ? "Edit Trigger" : "Add Trigger"}</div>
+          <div class="bst-custom-wizard-step">Action text supports <code>{{char}}</code>, <code>{{user}}</code>, <code>{{stat}}</code>, <code>{{value}}</code>, <code>{{previous}}</code>.</div>
+        </div>
+        <button type="button" class="bst-btn bst-close-btn" data-action="custom-close" aria-label="Close">&times;</button>
+      </div>
+      <div class="bst-custom-wizard-panel is-active">
+        <div class="bst-custom-wizard-grid">
+          <label>Label <input type="text" maxlength="60" data-bst-trigger-field="label" value="${escapeHtml(existing?.label ?? "")}" placeholder="Trust milestone"></label>
+          <label>Stat
+            <select data-bst-trigger-field="stat">
+              ${statOptions.map(option => `<option value="${escapeHtml(option.id)}" ${option.id === existing?.stat ? "selected" : ""}>${escapeHtml(option.label)} (${escapeHtml(option.id)})</option>`).join("")}
+            </select>
+          </label>
+          <label>Owner <input type="text" maxlength="80" data-bst-trigger-field="owner" value="${escapeHtml(existing?.owner ?? "{{char}}")}" placeholder="{{char}}, {{user}}, a name, or empty for anyone"></label>
+          <label>Condition
+            <select data-bst-trigger-field="condition">
+              <option value="crosses_above" ${condition === "crosses_above" ? "selected" : ""}>Crosses above</option>
+              <option value="crosses_below" ${condition === "crosses_below" ? "selected" : ""}>Crosses below</option>
+              <option value="becomes" ${condition === "becomes" ? "selected" : ""}>Becomes</option>
+            </select>
+          </label>
+          <label data-bst-trigger-row="threshold">Threshold (0-100) <input type="number" min="0" max="100" data-bst-trigger-field="threshold" value="${existing?.threshold ?? 70}"></label>
+          <label data-bst-trigger-row="value">Value <input type="text" maxlength="200" data-bst-trigger-field="value" value="${escapeHtml(existing?.value ?? "")}" placeholder="dating"></label>
+        </div>
+        <div class="bst-help-line">Actions (leave empty to skip):</div>
+        <label>System message <textarea rows="2" data-bst-trigger-field="system_message" placeholder="{{char}} now trusts {{user}} deeply.">${escapeHtml(actionText("system_message"))}</textarea></label>
+        <label>One-shot prompt note (next reply only) <textarea rows="2" data-bst-trigger-field="inject_note" placeholder="{{char}} decides to share a secret with {{user}}.">${escapeHtml(actionText("inject_note"))}</textarea></label>
+        <label>Slash command <input type="text" data-bst-trigger-field="slash_command" value="${escapeHtml(actionText("slash_command"))}" placeholder="/echo {{char}} crossed {{value}}"></label>
+        <div class="bst-custom-wizard-grid">
+          <label>Set custom stat
+            <select data-bst-trigger-field="set_stat_id">
+              <option value="">(none)</option>
+              ${customStatsState.map(stat => `<option value="${escapeHtml(stat.id)}" ${stat.id === setStatAction?.statId ? "selected" : ""}>${escapeHtml(stat.label || stat.id)} (${escapeHtml(stat.id)})</option>`).join("")}
+            </select>
+          </label>
+          <label>To value <input type="text" data-bst-trigger-field="set_stat_value" value="${escapeHtml(setStatAction?.text ?? "")}" placeholder="dating"></label>
+        </div>
+        <div class="bst-help-line bst-custom-import-status is-error" data-bst-trigger-error style="display:none;"></div>
+      </div>
+      <div class="bst-custom-wizard-actions">
+        <button type="button" class="bst-btn" data-action="custom-close">Cancel</button>
+        <button type="button" class="bst-btn bst-btn-soft" data-action="trigger-save">Save Trigger</button>
+      </div>
+    `;
+    const field = (name: string): HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement | null =>
+      wizard.querySelector(`[data-bst-trigger-field="${name}"]`);
+    const value = (name: string): string => String(field(name)?.value ?? "").trim();
+    const syncConditionRows = (): void => {
+      const becomes = value("condition") === "becomes";
+      const thresholdRow = wizard.querySelector('[data-bst-trigger-row="threshold"]') as HTMLElement | null;
+      const valueRow = wizard.querySelector('[data-bst-trigger-row="value"]') as HTMLElement | null;
+      if (thresholdRow) thresholdRow.style.display = becomes ? "none" : "";
+      if (valueRow) valueRow.style.display = becomes ? "" : "none";
+    };
+    field("condition")?.addEventListener("change", syncConditionRows);
+    const close = (): void => closeCustomWizard();
+    wizard.querySelector('[data-action="trigger-save"]')?.addEventListener("click", () => {
+      const errorNode = wizard.querySelector("[data-bst-trigger-error]") as HTMLElement | null;
+      const label = value("label");
+      const actions: TriggerAction[] = [
+        { type: "system_message", text: value("system_message") },
+        { type: "inject_note", text: value("inject_note") },
+        { type: "slash_command", text: value("slash_command") },
+        ...(value("set_stat_id") ? [{ type: "set_stat" as const, statId: value("set_stat_id"), text: value("set_stat_value") }] : []),
+      ];
+      const [rule] = sanitizeTriggerRules([{
+        id: existing?.id ?? nextTriggerId(label || value("stat")),
+        label,
+        enabled: existing?.enabled ?? true,
+        stat: value("stat"),
+        owner: value("owner"),
+        condition: value("condition"),
+        threshold: Number(value("threshold")),
+        value: value("value"),
+        actions,
+      }]);
+      const error = !rule
+        ? "Choose a stat and fill in at least one action."
+        : rule.condition === "becomes" && !rule.value
+          ? "Enter the value the stat should become."
+          : "";
+      if (error || !rule) {
+        if (errorNode) {
+          errorNode.textContent = error;
+          errorNode.style.display = "block";
+        }
+        return;
+      }
+      triggerRulesState = existing
+        ? triggerRulesState.map(item => item.id === existing.id ? rule : item)
+        : [...triggerRulesState, rule];
+      close();
+      renderTriggerList();
+      persistLive();
+      setTriggerStatus(`Saved trigger "${rule.label || rule.id}".`, "success");
+    });
+    wizard.querySelectorAll('[data-action="custom-close"]').forEach(node => node.addEventListener("click", close));
+    backdropNode.addEventListener("click", close);
+    document.body.appendChild(backdropNode);
+    document.body.appendChild(wizard);
+    syncConditionRows();
+  };
+  const rearmTriggerFromModal = (ruleId?: string): void => {
+    if (!input.onRearmTriggers) return;
+    setTriggerStatus(input.onRearmTriggers(ruleId), "success");
+    if (ruleId) {
+      delete triggerFiredCounts[ruleId];
+    } else {
+      triggerFiredCounts = {};
+    }
+    renderTriggerList();
+  };
+  triggerAddButton?.addEventListener("click", () => {
+    persistLive();
+    openTriggerWizard();
+  });
+  modal.querySelector('[data-action="trigger-rearm-all"]')?.addEventListener("click", () => rearmTriggerFromModal());
+  triggerListNode?.addEventListener("click", event => {
+    const target = event.target as HTMLElement | null;
+    const button = target?.closest("button[data-action][data-trigger-id]") as HTMLButtonElement | null;
+    if (!button) return;
+    const id = String(button.getAttribute("data-trigger-id") ?? "");
+    const rule = triggerRulesState.find(item => item.id === id);
+    if (!rule) return;
+    const action = String(button.getAttribute("data-action") ?? "");
+    if (action === "trigger-edit") {
+      openTriggerWizard(rule);
+      return;
+    }
+    if (action === "trigger-rearm") {
+      rearmTriggerFromModal(rule.id);
+      return;
+    }
+    if (action === "trigger-toggle-enabled") {
+      triggerRulesState = triggerRulesState.map(item => item.id === rule.id ? { ...item, enabled: !item.enabled } : item);
+    } else if (action === "trigger-remove") {
+      triggerRulesState = triggerRulesState.filter(item => item.id !== rule.id);
+      setTriggerStatus(`Removed trigger "${rule.label || rule.id}".`, "info");
+    } else {
+      return;
+    }
+    renderTriggerList();
+    persistLive();
+  });
+  renderTriggerList();
+
+  const statRuleListNode = modal.querySelector('[data-bst-row="statRuleList"]') as HTMLElement | null;
+  const statRuleStatusNode = modal.querySelector('[data-bst-row="statRuleStatus"]') as HTMLElement | null;
+  const statRuleAddButton = modal.querySelector('[data-action="stat-rule-add"]') as HTMLButtonElement | null;
+  const setStatRuleStatus = (message: string, tone: "success" | "error" | "info" = "info"): void => {
+    if (!statRuleStatusNode) return;
+    statRuleStatusNode.textContent = message;
+    statRuleStatusNode.style.display = message ? "block" : "none";
+    statRuleStatusNode.classList.remove("is-success", "is-error", "is-info");
+    statRuleStatusNode.classList.add(tone === "success" ? "is-success" : tone === "error" ? "is-error" : "is-info");
+  };
+  const renderStatRuleList = (): void => {
+    if (!statRuleListNode) return;
+    if (statRuleAddButton) {
+      statRuleAddButton.disabled = statRulesState.length >= MAX_STAT_RULES;
+      statRuleAddButton.title = statRuleAddButton.disabled ? `Maximum ${MAX_STAT_RULES} rules reached.` : "Add rule";
+    }
+    if (!statRulesState.length) {
+      statRuleListNode.innerHTML = `<div class="bst-custom-stat-empty">No stat rules yet.</div>`;
+      return;
+    }
+    statRuleListNode.innerHTML = statRulesState.map(rule => `
+      <div class="bst-custom-stat-row" data-bst-stat-rule-id="${escapeHtml(rule.id)}">
+        <div class="bst-custom-stat-main">
+          <div class="bst-custom-stat-title">
+            <span>${escapeHtml(rule.label || describeStatRule(rule))}</span>
+            <span class="bst-custom-stat-id">${escapeHtml(rule.id)}</span>
+          </div>
+          <div class="bst-custom-stat-meta">${escapeHtml(describeStatRule(rule))}</div>
+          <div class="bst-custom-stat-flags">
+            <span class="bst-custom-stat-flag">${rule.kind}</span>
+            <span class="bst-custom-stat-flag">${rule.phase} model</span>
+          </div>
+        </div>
+        <div class="bst-custom-stat-actions">
+          <button type="button" class="bst-custom-stat-toggle ${rule.enabled ? "is-on" : "is-off"}" data-action="stat-rule-toggle-enabled" data-stat-rule-id="${escapeHtml(rule.id)}" aria-pressed="${rule.enabled ? "true" : "false"}">
+            <span class="bst-custom-stat-toggle-pill" aria-hidden="true"></span>
+            <span class="bst-custom-stat-toggle-label">${rule.enabled ? "Enabled" : "Disabled"}</span>
+          </button>
+          <button type="button" class="bst-btn bst-btn-soft" data-action="stat-rule-edit" data-stat-rule-id="${escapeHtml(rule.id)}">Edit</button>
+          <button type="button" class="bst-btn bst-btn-danger" data-action="stat-rule-remove" data-stat-rule-id="${escapeHtml(rule.id)}">Remove</button>
+        </div>
+      </div>
+    `).join("");
+  };
+  const nextStatRuleId = (label: string): string => {
+    const base = label.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "").slice(0, 32) || "rule";
+    const taken = new Set(statRulesState.map(rule => rule.id));
+    if (!taken.has(base)) return base;
+    let suffix = 2;
+    while (taken.has(`${base}_${suffix}`)) suffix += 1;
+    return `${base}_${suffix}`;
+  };
+  const openStatRuleWizard = (existing?: StatRule): void => {
+    closeCustomWizard();
+    const current = collectSettings();
+    const statOptions = [
+      ...NUMERIC_STATS.map(key => ({ id: key, label: getBuiltInStatDefinition(current, key).label })),
+      ...customStatsState
+        .filter(stat => (stat.kind ?? "numeric") === "numeric")
+        .map(stat => ({ id: stat.id, label: stat.label || stat.id })),
+    ];
+    const renderStatOptions = (selected: string): string => statOptions
+      .map(option => `<option value="${escapeHtml(option.id)}" ${option.id === selected ? "selected" : ""}>${escapeHtml(option.label)} (${escapeHtml(option.id)})</option>`)
+      .join("");
+    const kind = existing?.kind ?? "match";
+    const backdropNode = document.createElement("div");
+    backdropNode.className = "bst-custom-wizard-backdrop";
+    const wizard = document.createElement("div");
+    wizard.className = "bst-custom-wizard";
+    wizard.innerHTML = `
+      <div class="bst-custom-wizard-head">
+        <div>
+          <div class="bst-custom-wizard-title">${existing ? "Edit Stat Rule" : "Add Stat Rule"}</div>
+          <div class="bst-custom-wizard-step">Patterns are case-insensitive keywords, or a regex written as <code>/pattern/flags</code>.</div>
+        </div>
+        <button type="button" class="bst-btn bst-close-btn" data-action="custom-close" aria-label="Close">&times;</button>
+      </div>
+      <div class="bst-custom-wizard-panel is-active">
+        <div class="bst-custom-wizard-grid">
+          <label>Label <input type="text" maxlength="60" data-bst-stat-rule-field="label" value="${escapeHtml(existing?.label ?? "")}" placeholder="Lie penalty"></label>
+          <label>Stat <select data-bst-stat-rule-field="stat">${renderStatOptions(existing?.stat ?? "trust")}</select></label>
+          <label>Owner <input type="text" maxlength="80" data-bst-stat-rule-field="owner" value="${escapeHtml(existing?.owner ?? "{{char}}")}" placeholder="{{char}}, {{user}}, a name, or empty for anyone"></label>
+          <label>Kind
+            <select data-bst-stat-rule-field="kind">
+              <option value="match" ${kind === "match" ? "selected" : ""}>Message match</option>
+              <option value="drift" ${kind === "drift" ? "selected" : ""}>Drift toward baseline</option>
+              <option value="cap" ${kind === "cap" ? "selected" : ""}>Cap by another stat</option>
+            </select>
+          </label>
+          <label data-bst-stat-rule-row="phase">Apply
+            <select data-bst-stat-rule-field="phase">
+              <option value="after" ${existing?.phase !== "before" ? "selected" : ""}>After model deltas</option>
+              <option value="before" ${existing?.phase === "before" ? "selected" : ""}>Before model deltas</option>
+            </select>
+          </label>
+          <label data-bst-stat-rule-row="match">Match in
+            <select data-bst-stat-rule-field="source">
+              <option value="latest" ${existing?.source !== "user" ? "selected" : ""}>Latest message</option>
+              <option value="user" ${existing?.source === "user" ? "selected" : ""}>Latest user message</option>
+            </select>
+          </label>
+          <label data-bst-stat-rule-row="match">Pattern <input type="text" maxlength="300" data-bst-stat-rule-field="pattern" value="${escapeHtml(existing?.pattern ?? "")}" placeholder="[lie] or /\\bliar?\\b/i"></label>
+          <label data-bst-stat-rule-row="match">Delta (-100..100) <input type="number" min="-100" max="100" data-bst-stat-rule-field="delta" value="${existing?.delta ?? -10}"></label>
+          <label data-bst-stat-rule-row="drift">Baseline (0-100) <input type="number" min="0" max="100" data-bst-stat-rule-field="baseline" value="${existing?.baseline ?? 50}"></label>
+          <label data-bst-stat-rule-row="drift">Step per turn <input type="number" min="1" max="100" data-bst-stat-rule-field="amount" value="${existing?.amount ?? 5}"></label>
+          <label data-bst-stat-rule-row="cap">Keep
+            <select data-bst-stat-rule-field="capMode">
+              <option value="at_most" ${existing?.capMode !== "at_least" ? "selected" : ""}>At most</option>
+              <option value="at_least" ${existing?.capMode === "at_least" ? "selected" : ""}>At least</option>
+            </select>
+          </label>
+          <label data-bst-stat-rule-row="cap">Other stat <select data-bst-stat-rule-field="capStat">${renderStatOptions(existing?.capStat ?? "trust")}</select></label>
+          <label data-bst-stat-rule-row="cap">Offset (-100..100) <input type="number" min="-100" max="100" data-bst-stat-rule-field="capOffset" value="${existing?.capOffset ?? 0}"></label>
+        </div>
+        <div class="bst-help-line bst-custom-import-status is-error" data-bst-stat-rule-error style="display:none;"></div>
+      </div>
+      <div class="bst-custom-wizard-actions">
+        <button type="button" class="bst-btn" data-action="custom-close">Cancel</button>
+        <button type="button" class="bst-btn bst-btn-soft" data-action="stat-rule-save">Save Rule</button>
+      </div>
+    `;
+    const field = (name: string): HTMLInputElement | HTMLSelectElement | null =>
+      wizard.querySelector(`[data-bst-stat-rule-field="${name}"]`);
+    const value = (name: string): string => String(field(name)?.value ?? "").trim();
+    const syncKindRows = (): void => {
+      const selectedKind = value("kind");
+      wizard.querySelectorAll<HTMLElement>("[data-bst-stat-rule-row]").forEach(row => {
+        const rowKind = row.getAttribute("data-bst-stat-rule-row");
+        row.style.display = rowKind === "phase" ? (selectedKind === "cap" ? "none" : "") : rowKind === selectedKind ? "" : "none";
+      });
+    };
+    field("kind")?.addEventListener("change", syncKindRows);
+    const close = (): void => closeCustomWizard();
+    wizard.querySelector('[data-action="stat-rule-save"]')?.addEventListener("click", () => {
+      const errorNode = wizard.querySelector("[data-bst-stat-rule-error]") as HTMLElement | null;
+      const label = value("label");
+      const [rule] = sanitizeStatRules([{
+        id: existing?.id ?? nextStatRuleId(label || `${value("stat")}_${value("kind")}`),
+        label,
+        enabled: existing?.enabled ?? true,
+        stat: value("stat"),
+        owner: value("owner"),
+        kind: value("kind"),
+        phase: value("phase"),
+        source: value("source"),
+        pattern: value("pattern"),
+        delta: Number(value("delta")),
+        baseline: Number(value("baseline")),
+        amount: Number(value("amount")),
+        capStat: value("capStat"),
+        capOffset: Number(value("capOffset")),
+        capMode: value("capMode"),
+      }]);
+      if (!rule) {
+        if (errorNode) {
+          errorNode.textContent = value("kind") === "match"
+            ? "Enter a pattern and a non-zero delta."
+            : "Choose a stat for this rule.";
+          errorNode.style.display = "block";
+        }
+        return;
+      }
+      const nextRules = existing
+        ? statRulesState.map(item => item.id === existing.id ? rule : item)
+        : [...statRulesState, rule];
+      const conflict = findTurnDecayDriftConflicts({ ...collectSettings(), statRules: nextRules })
+        .find(item => item.rule.id === rule.id);
+      if (conflict) {
+        if (errorNode) {
+          errorNode.textContent = describeTurnDecayDriftConflict(conflict);
+          errorNode.style.display = "block";
+        }
+        return;
+      }
+      statRulesState = nextRules;
+      close();
+      renderStatRuleList();
+      persistLive();
+      setStatRuleStatus(`Saved rule "${rule.label || rule.id}".`, "success");
+    });
+    wizard.querySelectorAll('[data-action="custom-close"]').forEach(node => node.addEventListener("click", close));
+    backdropNode.addEventListener("click", close);
+    document.body.appendChild(backdropNode);
+    document.body.appendChild(wizard);
+    syncKindRows();
+  };
+  statRuleAddButton?.addEventListener("click", () => {
+    persistLive();
+    openStatRuleWizard();
+  });
+  statRuleListNode?.addEventListener("click", event => {
+    const target = event.target as HTMLElement | null;
+    const button = target?.closest("button[data-action][data-stat-rule-id]") as HTMLButtonElement | null;
+    if (!button) return;
+    const id = String(button.getAttribute("data-stat-rule-id") ?? "");
+    const rule = statRulesState.find(item => item.id === id);
+    if (!rule) return;
+    const action = String(button.getAttribute("data-action") ?? "");
+    if (action === "stat-rule-edit") {
+      openStatRuleWizard(rule);
+      return;
+    }
+    if (action === "stat-rule-toggle-enabled") {
+      const nextRules = statRulesState.map(item => item.id === rule.id ? { ...item, enabled: !item.enabled } : item);
+      const conflict = findTurnDecayDriftConflicts({ ...collectSettings(), statRules: nextRules })
+        .find(item => item.rule.id === rule.id);
+      if (conflict) {
+        setStatRuleStatus(describeTurnDecayDriftConflict(conflict), "error");
+        return;
+      }
+      statRulesState = nextRules;
+    } else if (action === "stat-rule-remove") {
+      statRulesState = statRulesState.filter(item => item.id !== rule.id);
+      setStatRuleStatus(`Removed rule "${rule.label || rule.id}".`, "info");
+    } else {
+      return;
+    }
+    renderStatRuleList();
+    persistLive();
+  });
+  renderStatRuleList();
+
+  const activityCueStatusNode = modal.querySelector('[data-bst-row="activityCueBenchStatus"]') as HTMLElement | null;
+  const activityCueResultsNode = modal.querySelector('[data-bst-row="activityCueBenchResults"]') as HTMLElement | null;
+  const setActivityCueStatus = (message: string, tone: "success" | "error" | "info" = "info"): void => {
+    if (!activityCueStatusNode) return;
+    activityCueStatusNode.textContent = message;
+    activityCueStatusNode.style.display = message ? "block" : "none";
+    activityCueStatusNode.classList.remove("is-success", "is-error", "is-info");
+    activityCueStatusNode.classList.add(tone === "success" ? "is-success" : tone === "error" ? "is-error" : "is-info");
+  };
+  modal.querySelector('[data-action="activity-cue-test"]')?.addEventListener("click", () => {
+    if (!activityCueResultsNode) return;
+    activityCueResultsNode.innerHTML = "";
+    const message = (modal.querySelector('[data-bst-row="activityCueBenchInput"]') as HTMLTextAreaElement | null)?.value.trim() ?? "";
+    if (!message) {
+      setActivityCueStatus("Paste a message to test.", "error");
+      return;
+    }
+    const next = collectSettings();
+    const result = input.onTestActivityCues?.(message, next) ?? null;
+    if (!result || !result.after.allCharacterNames.length) {
+      setActivityCueStatus("Open a chat with tracked characters to use the test bench.", "error");
+      return;
+    }
+    const wasActive = new Set(result.before.activeCharacters);
+    const isActive = new Set(result.after.activeCharacters);
+    const changed = result.after.allCharacterNames.filter(name => wasActive.has(name) !== isActive.has(name)).length;
+    setActivityCueStatus(
+      !next.autoDetectActive
+        ? "Auto Detect Active is off, so every tracked character stays active."
+        : `${changed} character${changed === 1 ? "" : "s"} would change state.`,
+      changed ? "success" : "info",
+    );
+    activityCueResultsNode.innerHTML = result.after.allCharacterNames.map(name => {
+      const state = (active: boolean): string => active ? "active" : "inactive";
+      return `<div class="bst-activity-cue-result ${isActive.has(name) ? "is-active" : "is-inactive"}">
+        <strong>${escapeHtml(name)}</strong>
+        <span>${state(wasActive.has(name))} &rarr; ${state(isActive.has(name))}</span>
+        <div class="bst-help-line">${escapeHtml(result.after.reasons[name] ?? "")}</div>
+      </div>`;
+    }).join("");
+  });
+
+  const routeListNode = modal.querySelector('[data-bst-row="routeList"]') as HTMLElement | null;
+  const routeAddButton = modal.querySelector('[data-action="route-add"]') as HTMLButtonElement | null;
+  const getRouteTargetOptions = (): Array<{ id: string; label: string }> => {
+    const current = collectSettings();
+    const groups = new Set<string>();
+    for (const stat of customStatsState) {
+      const group = normalizeConnectionRouteTarget(`group:${String(stat.sequentialGroup ?? "")}`);
+      if (group) groups.add(group);
+    }
+    return [
+      ...BUILT_IN_TRACKABLE_STAT_KEY_LIST.map(key => ({ id: key.toLowerCase(), label: getBuiltInStatDefinition(current, key).label })),
+      ...customStatsState.map(stat => ({ id: stat.id, label: stat.label || stat.id })),
+      ...Array.from(groups).map(group => ({ id: group, label: `Group ${group.slice(6)}` })),
+    ];
+  };
+  const renderRouteList = (): void => {
+    if (!routeListNode) return;
+    const targetOptions = getRouteTargetOptions();
+    if (routeAddButton) {
+      routeAddButton.disabled = connectionRoutesState.length >= MAX_CONNECTION_PROFILE_ROUTES
+        || targetOptions.every(option => connectionRoutesState.some(route => route.target === option.id));
+    }
+    if (!connectionRoutesState.length) {
+      routeListNode.innerHTML = `<div class="bst-custom-stat-empty">No routes. Every request uses the connection above.</div>`;
+      return;
+    }
+    routeListNode.innerHTML = connectionRoutesState.map((route, index) => {
+      const options = targetOptions.some(option => option.id === route.target)
+        ? targetOptions
+        : [...targetOptions, { id: route.target, label: `${route.target} (missing)` }];
+      const targetHtml = options.map(option => {
+        const taken = option.id !== route.target && connectionRoutesState.some(item => item.target === option.id);
+        return `<option value="${escapeHtml(option.id)}" ${option.id === route.target ? "selected" : ""} ${taken ? "disabled" : ""}>${escapeHtml(option.label)} (${escapeHtml(option.id)})</option>`;
+      }).join("");
+      const profiles = new Map(profileMap);
+      if (route.profileId && !profiles.has(route.profileId)) profiles.set(route.profileId, `${route.profileId} (current)`);
+      const profileHtml = [
+        `<option value="">Same as main connection</option>`,
+        ...Array.from(profiles.entries()).map(([id, label]) =>
+          `<option value="${escapeHtml(id)}" ${id === route.profileId ? "selected" : ""}>${escapeHtml(label)}</option>`),
+      ].join("");
+      return `
+        <div class="bst-custom-stat-row" data-bst-route-index="${index}">
+          <div class="bst-route-fields">
+            <label>Stat or Group <select data-bst-route-field="target">${targetHtml}</select></label>
+            <label>Profile <select data-bst-route-field="profileId">${profileHtml}</select></label>
+            <label>Max Tokens <input type="number" min="0" max="100000" data-bst-route-field="maxTokens" value="${route.maxTokens}"></label>
+            <label>Context Size <input type="number" min="0" max="200000" data-bst-route-field="truncationLength" value="${route.truncationLength}"></label>
+          </div>
+          <div class="bst-custom-stat-actions">
+            <button type="button" class="bst-btn bst-btn-danger" data-action="route-remove" data-route-index="${index}">Remove</button>
+          </div>
+        </div>
+      `;
+    }).join("");
+  };
+  const readRouteRow = (row: HTMLElement): Record<string, unknown> => {
+    const field = (name: string): string =>
+      String((row.querySelector(`[data-bst-route-field="${name}"]`) as HTMLInputElement | HTMLSelectElement | null)?.value ?? "").trim();
+    return {
+      target: field("target"),
+      profileId: field("profileId"),
+      maxTokens: Number(field("maxTokens")),
+      truncationLength: Number(field("truncationLength")),
+    };
+  };
+  const syncRoutesFromList = (rerender: boolean): void => {
+    if (!routeListNode) return;
+    const rows = Array.from(routeListNode.querySelectorAll("[data-bst-route-index]")) as HTMLElement[];
+    connectionRoutesState = sanitizeConnectionProfileRoutes(rows.map(readRouteRow));
+    if (rerender) renderRouteList();
+    persistLive();
+  };
+  routeAddButton?.addEventListener("click", () => {
+    const free = getRouteTargetOptions().find(option => !connectionRoutesState.some(route => route.target === option.id));
+    if (!free || connectionRoutesState.length >= MAX_CONNECTION_PROFILE_ROUTES) return;
+    connectionRoutesState = [...connectionRoutesState, { target: free.id, profileId: "", maxTokens: 0, truncationLength: 0 }];
+    renderRouteList();
+    persistLive();
+  });
+  routeListNode?.addEventListener("change", event => {
+    const target = event.target as HTMLElement | null;
+    syncRoutesFromList(target?.getAttribute("data-bst-route-field") === "target");
+  });
+  routeListNode?.addEventListener("input", event => {
+    const target = event.target as HTMLElement | null;
+    if (target instanceof HTMLInputElement && target.type === "number") syncRoutesFromList(false);
+  });
+  routeListNode?.addEventListener("click", event => {
+    const target = event.target as HTMLElement | null;
+    const button = target?.closest('button[data-action="route-remove"]') as HTMLButtonElement | null;
+    if (!button) return;
+    const index = Number(button.getAttribute("data-route-index"));
+    connectionRoutesState = connectionRoutesState.filter((_, itemIndex) => itemIndex !== index);
+    renderRouteList();
+    persistLive();
+  });
+  renderRouteList();
+
   modal.querySelector('[data-action="dump-diagnostics"]')?.addEventListener("click", () => {
     persistLive();
     input.onDumpDiagnostics?.();
@@ -4458,6 +5622,10 @@ export function openSettingsModal(input: {
     persistLive();
     input.onClearDiagnostics?.();
   });
+
+  modal.querySelector('[data-action="clear-extraction-cache"]')?.addEventListener("click", () => {
+    input.onClearExtractionCache?.();
+  });
   const promptDefaults: Partial<Record<keyof BetterSimTrackerSettings, string>> = {
     promptTemplateUnified: DEFAULT_UNIFIED_PROMPT_INSTRUCTION,
     promptTemplateSequentialAffection: DEFAULT_SEQUENTIAL_PROMPT_INSTRUCTIONS.affection,
@@ -1,4 +1,6 @@
-import type { BetterSimTrackerSettings, STContext, StatKey } from "./types";
+import { parseMockCompletionScript, type MockCompletionOptions, type MockCompletionService } from "./mockCompletion";
+import { getTrackedBuiltInStatKeys, resolveStatReference, withBuiltInStatTracked } from "./statRegistry";
+import type { ActiveCharacterPin, BetterSimTrackerSettings, STContext } from "./types";
 
 type SlashRegisterObject = (command: Record<string, unknown>) => void;
 
@@ -11,8 +13,17 @@ type SlashCommandDeps = {
   runExtraction: (reason: string, messageIndex?: number) => Promise<void>;
   refreshFromStoredData: () => void;
   clearCurrentChat: () => void;
+  exportHistory: (format: "json" | "csv") => string | null;
+  openRelationships: () => void;
+  openRelationshipWeb: () => void;
+  openActiveOverrides: () => void;
+  pinActiveCharacter: (name: string, pin: ActiveCharacterPin | null) => { ok: boolean; message: string };
+  clearActivePins: () => string;
+  rearmTriggers: (ruleId?: string) => string;
   queuePromptSync: (context: STContext) => void;
   saveSettings: (context: STContext, next: BetterSimTrackerSettings) => void;
+  setMockBackend: (options: MockCompletionOptions | null) => void;
+  getMockBackend: () => MockCompletionService | null;
   pushTrace?: (event: string, details?: Record<string, unknown>) => void;
 };
 
@@ -35,13 +46,7 @@ function parseArgs(raw: string): string[] {
 }
 
 function formatEnabledStats(settings: BetterSimTrackerSettings): string {
-  const enabled: string[] = [];
-  if (settings.trackAffection) enabled.push("affection");
-  if (settings.trackTrust) enabled.push("trust");
-  if (settings.trackDesire) enabled.push("desire");
-  if (settings.trackConnection) enabled.push("connection");
-  if (settings.trackMood) enabled.push("mood");
-  if (settings.trackLastThought) enabled.push("lastThought");
+  const enabled: string[] = [...getTrackedBuiltInStatKeys(settings)];
   for (const stat of settings.customStats ?? []) {
     if (!stat.track) continue;
     enabled.push(stat.id);
@@ -49,28 +54,6 @@ function formatEnabledStats(settings: BetterSimTrackerSettings): string {
   return enabled.length ? enabled.join(", ") : "none";
 }
 
-function resolveBuiltInToggleKey(raw: string): StatKey | null {
-  const key = raw.toLowerCase();
-  if (key === "affection") return "affection";
-  if (key === "trust") return "trust";
-  if (key === "desire") return "desire";
-  if (key === "connection") return "connection";
-  if (key === "mood") return "mood";
-  if (key === "lastthought" || key === "last_thought" || key === "thought") return "lastThought";
-  return null;
-}
-
-function updateSetting(settings: BetterSimTrackerSettings, key: StatKey, next: boolean): BetterSimTrackerSettings {
-  const copy = { ...settings };
-  if (key === "affection") copy.trackAffection = next;
-  if (key === "trust") copy.trackTrust = next;
-  if (key === "desire") copy.trackDesire = next;
-  if (key === "connection") copy.trackConnection = next;
-  if (key === "mood") copy.trackMood = next;
-  if (key === "lastThought") copy.trackLastThought = next;
-  return copy;
-}
-
 function updateCustomTrackSetting(
   settings: BetterSimTrackerSettings,
   id: string,
@@ -94,11 +77,17 @@ function renderHelp(): string {
   return [
     "Commands:",
     `${COMMAND_PREFIX} status`,
-    `${COMMAND_PREFIX} extract`,
+    `${COMMAND_PREFIX} extract [fresh]`,
     `${COMMAND_PREFIX} clear`,
+    `${COMMAND_PREFIX} export json|csv`,
+    `${COMMAND_PREFIX} relations`,
+    `${COMMAND_PREFIX} web`,
+    `${COMMAND_PREFIX} active [clear|<character> on|off|auto]`,
+    `${COMMAND_PREFIX} rearm [trigger_id|all]`,
     `${COMMAND_PREFIX} toggle <stat>`,
     `${COMMAND_PREFIX} inject on|off`,
     `${COMMAND_PREFIX} debug on|off`,
+    `${COMMAND_PREFIX} mock on [delay_ms]|off|status|script <steps> [loop]`,
   ].join(" ");
 }
 
@@ -134,12 +123,13 @@ export function registerSlashCommands(deps: SlashCommandDeps): void {
     notify(`Status: stats=${enabled}; mode=${mode}; inject=${inject}; debug=${debug}; last=${latestIndex ?? "none"}`);
   };
 
-  const handleExtract = async (): Promise<void> => {
+  const handleExtract = async (args: string[] = []): Promise<void> => {
     if (deps.isExtracting()) {
       notify("Extraction already running.", "warning");
       return;
     }
-    await deps.runExtraction("manual_refresh");
+    const fresh = (args[0] ?? "").toLowerCase() === "fresh";
+    await deps.runExtraction(fresh ? "manual_refresh_fresh" : "manual_refresh");
   };
 
   const handleClear = (): void => {
@@ -147,18 +137,85 @@ export function registerSlashCommands(deps: SlashCommandDeps): void {
     notify("Tracker data cleared for current chat.", "success");
   };
 
+  const handleExport = (args: string[]): void => {
+    const format = (args[0] ?? "json").toLowerCase();
+    if (format !== "json" && format !== "csv") {
+      notify("Usage: /bst export json|csv", "warning");
+      return;
+    }
+    const message = deps.exportHistory(format);
+    if (!message) {
+      notify("No tracker history to export for current chat.", "warning");
+      return;
+    }
+    notify(message, "success");
+  };
+
+  const handleRelations = (): void => {
+    if (!withContext()) {
+      notify("Tracker context not ready.", "warning");
+      return;
+    }
+    deps.openRelationships();
+  };
+
+  const handleWeb = (): void => {
+    if (!withContext()) {
+      notify("Tracker context not ready.", "warning");
+      return;
+    }
+    deps.openRelationshipWeb();
+  };
+
+  const handleActive = (args: string[]): void => {
+    if (!withContext()) {
+      notify("Tracker context not ready.", "warning");
+      return;
+    }
+    if (!args.length) {
+      deps.openActiveOverrides();
+      return;
+    }
+    if (args.length === 1 && args[0].toLowerCase() === "clear") {
+      notify(deps.clearActivePins(), "success");
+      return;
+    }
+    const mode = (args[args.length - 1] ?? "").toLowerCase();
+    const name = args.slice(0, -1).join(" ");
+    if (!name || (mode !== "on" && mode !== "off" && mode !== "auto")) {
+      notify("Usage: /bst active [clear|<character> on|off|auto]", "warning");
+      return;
+    }
+    const result = deps.pinActiveCharacter(name, mode === "on" ? "active" : mode === "off" ? "inactive" : null);
+    notify(result.message, result.ok ? "success" : "warning");
+  };
+
+  const handleRearm = (args: string[]): void => {
+    const target = (args[0] ?? "all").trim().toLowerCase();
+    const resolved = withContext();
+    if (!resolved) {
+      notify("Tracker context not ready.", "warning");
+      return;
+    }
+    if (target !== "all" && !(resolved.settings.triggerRules ?? []).some(rule => rule.id === target)) {
+      notify(`Unknown trigger "${target}". Usage: /bst rearm [trigger_id|all]`, "warning");
+      return;
+    }
+    notify(deps.rearmTriggers(target === "all" ? undefined : target), "success");
+  };
+
   const handleToggle = (args: string[]): void => {
     const resolved = withContext();
     if (!resolved) {
       notify("Tracker context not ready.", "warning");
       return;
     }
-    const rawTarget = String(args[0] ?? "").trim();
-    const target = resolveBuiltInToggleKey(rawTarget);
-    const customTargetId = rawTarget.toLowerCase();
-    const customTarget = (resolved.settings.customStats ?? []).find(stat => stat.id === customTargetId);
+    const rawTarget = args.join(" ").trim();
+    const reference = resolveStatReference(resolved.settings, rawTarget);
+    const target = reference?.builtIn;
+    const customTarget = reference?.custom;
     if (!target && !customTarget) {
-      notify("Usage: /bst toggle <affection|trust|desire|connection|mood|lastThought|custom_stat_id>", "warning");
+      notify("Usage: /bst toggle <affection|trust|desire|connection|mood|lastThought|custom_stat_id|stat label>", "warning");
       return;
     }
     const { context, settings } = resolved;
@@ -166,14 +223,8 @@ export function registerSlashCommands(deps: SlashCommandDeps): void {
     let toggledName = "";
     let current = false;
     if (target) {
-      current =
-        target === "affection" ? settings.trackAffection :
-        target === "trust" ? settings.trackTrust :
-        target === "desire" ? settings.trackDesire :
-        target === "connection" ? settings.trackConnection :
-        target === "mood" ? settings.trackMood :
-        settings.trackLastThought;
-      nextSettings = updateSetting(settings, target, !current);
+      current = getTrackedBuiltInStatKeys(settings).includes(target);
+      nextSettings = withBuiltInStatTracked(settings, target, !current);
       toggledName = target;
     } else if (customTarget) {
       current = Boolean(customTarget.track);
@@ -224,6 +275,40 @@ export function registerSlashCommands(deps: SlashCommandDeps): void {
     notify(`Debug ${value}.`, "success");
   };
 
+  const handleMock = (args: string[]): void => {
+    const action = (args.shift() ?? "status").toLowerCase();
+    if (action === "off") {
+      deps.setMockBackend(null);
+      notify("Mock backend off. Extraction uses the real connection again.", "success");
+      return;
+    }
+    if (action === "on") {
+      const delayMs = Math.max(0, Number(args[0]) || 0);
+      deps.setMockBackend({ delayMs });
+      notify(`Mock backend on (rule-based JSON, ${delayMs} ms delay).`, "success");
+      return;
+    }
+    if (action === "script") {
+      const loop = args.some(arg => arg.toLowerCase() === "loop");
+      const script = parseMockCompletionScript(args.filter(arg => arg.toLowerCase() !== "loop").join(" "));
+      if (!script.length) {
+        notify("Usage: /bst mock script rules,malformed,truncated,empty,error,abort,hang[:delay_ms] [loop]", "warning");
+        return;
+      }
+      deps.setMockBackend({ script, loop });
+      notify(`Mock backend on with ${script.length} scripted step(s)${loop ? " (looping)" : ""}.`, "success");
+      return;
+    }
+    if (action === "status") {
+      const backend = deps.getMockBackend();
+      notify(backend
+        ? `Mock backend on: ${backend.calls.length} request(s) answered; script=${(backend.options.script ?? []).map(step => step.kind).join(",") || "rules"}.`
+        : "Mock backend off.");
+      return;
+    }
+    notify("Usage: /bst mock on [delay_ms]|off|status|script <steps> [loop]", "warning");
+  };
+
   const handleBst = async (_args: Record<string, unknown>, rawValue: string): Promise<string> => {
     const args = parseArgs(rawValue);
     const sub = (args.shift() ?? "").toLowerCase();
@@ -233,11 +318,17 @@ export function registerSlashCommands(deps: SlashCommandDeps): void {
       return "";
     }
     if (sub === "status") return String(handleStatus() ?? "");
-    if (sub === "extract") return String(await handleExtract() ?? "");
+    if (sub === "extract") return String(await handleExtract(args) ?? "");
     if (sub === "clear") return String(handleClear() ?? "");
+    if (sub === "export") return String(handleExport(args) ?? "");
+    if (sub === "relations") return String(handleRelations() ?? "");
+    if (sub === "web") return String(handleWeb() ?? "");
+    if (sub === "active") return String(handleActive(args) ?? "");
+    if (sub === "rearm") return String(handleRearm(args) ?? "");
     if (sub === "toggle") return String(handleToggle(args) ?? "");
     if (sub === "inject") return String(handleInject(args) ?? "");
     if (sub === "debug") return String(handleDebug(args) ?? "");
+    if (sub === "mock") return String(handleMock(args) ?? "");
     notify(`Unknown subcommand "${sub}". ${renderHelp()}`, "warning");
     return "";
   };
@@ -256,11 +347,17 @@ export function registerSlashCommands(deps: SlashCommandDeps): void {
 
     add("bst", handleBst, "BetterSimTracker commands. Use /bst help.");
     add("bst-status", async () => { handleStatus(); return ""; }, "Show tracker status.");
-    add("bst-extract", async () => { await handleExtract(); return ""; }, "Extract stats for latest AI message.");
+    add("bst-extract", async (_args, raw) => { await handleExtract(parseArgs(raw)); return ""; }, "Extract stats for latest AI message (add \"fresh\" to bypass the response cache).");
     add("bst-clear", async () => { handleClear(); return ""; }, "Clear tracker data for current chat.");
+    add("bst-export", async (_args, raw) => { handleExport(parseArgs(raw)); return ""; }, "Export tracker history for current chat (json|csv).");
+    add("bst-relations", async () => { handleRelations(); return ""; }, "Show the character-to-character relationship matrix.");
+    add("bst-web", async () => { handleWeb(); return ""; }, "Show the relationship web with a history timeline scrubber.");
+    add("bst-active", async (_args, raw) => { handleActive(parseArgs(raw)); return ""; }, "Pin characters as always active or inactive in this chat (no args opens the override panel).");
+    add("bst-rearm", async (_args, raw) => { handleRearm(parseArgs(raw)); return ""; }, "Re-arm fired triggers for current chat (trigger id or all).");
     add("bst-toggle", async (_args, raw) => { handleToggle(parseArgs(raw)); return ""; }, "Toggle a tracked stat.");
     add("bst-inject", async (_args, raw) => { handleInject(parseArgs(raw)); return ""; }, "Toggle prompt injection.");
     add("bst-debug", async (_args, raw) => { handleDebug(parseArgs(raw)); return ""; }, "Toggle debug mode.");
+    add("bst-mock", async (_args, raw) => { handleMock(parseArgs(raw)); return ""; }, "Answer extraction requests from an in-process mock backend (on|off|status|script).");
     return true;
   };
 
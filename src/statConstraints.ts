@@ -0,0 +1,99 @@
+import { STAT_CONSTRAINT_RULE_ID } from "./constants";
+import {
+  compileStatExpression,
+  isStatExpressionTruthy,
+  tryCompileStatExpression,
+  type StatExpressionValue,
+} from "./statExpression";
+import { getStatConstraintSources } from "./statRegistry";
+import { resolveStatRuleStatId } from "./statRules";
+import type {
+  BetterSimTrackerSettings,
+  StatConstraint,
+  StatConstraintBound,
+  StatRuleApplication,
+} from "./types";
+
+const BOUND_OPERATORS: Record<StatConstraintBound, string> = { max: "<=", min: ">=", equals: "=" };
+
+export function parseStatConstraint(line: string): StatConstraint {
+  const match = /^\s*([A-Za-z_][A-Za-z0-9_]*)\s*(<=|>=|==?)\s*([\s\S]+)$/.exec(line);
+  if (!match) throw new Error("Use the form: stat <= expression, stat >= expression or stat = expression.");
+  const [expression, ...conditions] = match[3].split(/\s+when\s+/i);
+  const when = conditions.join(" when ").trim();
+  compileStatExpression(expression);
+  if (conditions.length) compileStatExpression(when);
+  return {
+    stat: match[1].toLowerCase(),
+    bound: match[2] === "<=" ? "max" : match[2] === ">=" ? "min" : "equals",
+    expression: expression.trim(),
+    when,
+  };
+}
+
+export function parseStatConstraintLines(text: string): { constraints: StatConstraint[]; errors: string[] } {
+  const constraints: StatConstraint[] = [];
+  const errors: string[] = [];
+  String(text ?? "").split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    try {
+      constraints.push(parseStatConstraint(line));
+    } catch (error) {
+      errors.push(`Constraint line ${index + 1}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+  return { constraints, errors };
+}
+
+export function formatStatConstraint(constraint: StatConstraint): string {
+  const when = constraint.when ? ` when ${constraint.when}` : "";
+  return `${constraint.stat} ${BOUND_OPERATORS[constraint.bound]} ${constraint.expression}${when}`;
+}
+
+function constraintTarget(bound: StatConstraintBound, current: number, limit: number): number | null {
+  if (bound === "max") return current > limit ? limit : null;
+  if (bound === "min") return current < limit ? limit : null;
+  return limit;
+}
+
+export function evaluateStatConstraints(input: {
+  settings: BetterSimTrackerSettings;
+  ownersForStat: (statId: string) => string[];
+  resolveValue: (owner: string, name: string) => StatExpressionValue | undefined;
+  readValue: (owner: string, statId: string) => number | undefined;
+  writeValue: (owner: string, statId: string, value: number) => void;
+}): StatRuleApplication[] {
+  const applications: StatRuleApplication[] = [];
+  for (const source of getStatConstraintSources(input.settings)) {
+    for (const constraint of source.constraints) {
+      const statId = resolveStatRuleStatId(input.settings, constraint.stat);
+      const expression = tryCompileStatExpression(constraint.expression);
+      const condition = tryCompileStatExpression(constraint.when);
+      if (!statId || !expression || (constraint.when && !condition)) continue;
+      for (const owner of input.ownersForStat(statId)) {
+        const previous = input.readValue(owner, statId);
+        if (previous === undefined) continue;
+        const resolve = (name: string) => input.resolveValue(owner, name);
+        if (condition && !isStatExpressionTruthy(condition.evaluate(resolve))) continue;
+        const limit = expression.evaluate(resolve);
+        if (typeof limit !== "number") continue;
+        const target = constraintTarget(constraint.bound, previous, limit);
+        if (target === null) continue;
+        const next = Math.max(0, Math.min(100, Math.round(target)));
+        if (next === previous) continue;
+        input.writeValue(owner, statId, next);
+        applications.push({
+          ruleId: STAT_CONSTRAINT_RULE_ID,
+          label: formatStatConstraint(constraint),
+          phase: "after",
+          owner,
+          stat: statId,
+          previous,
+          delta: next - previous,
+          next,
+        });
+      }
+    }
+  }
+  return applications;
+}
@@ -0,0 +1,96 @@
+import { NUMERIC_STATS, STAT_DECAY_RULE_ID } from "./constants";
+import { driftTowardBaseline, resolveStatRuleStatId } from "./statRules";
+import type {
+  BetterSimTrackerSettings,
+  CustomStatDefinition,
+  NumericStatKey,
+  StatDecayConfig,
+  StatRule,
+  StatRuleApplication,
+} from "./types";
+
+export function resolveStatDecay(settings: BetterSimTrackerSettings, statId: string): StatDecayConfig | null {
+  if ((NUMERIC_STATS as readonly string[]).includes(statId)) {
+    return settings.builtInStatDecay?.[statId as NumericStatKey] ?? null;
+  }
+  const def = (settings.customStats ?? []).find(stat => stat.id === statId);
+  return def && (def.kind ?? "numeric") === "numeric" ? def.decay ?? null : null;
+}
+
+export function resolveDecayClockStat(settings: BetterSimTrackerSettings): CustomStatDefinition | null {
+  const clocks = (settings.customStats ?? []).filter(stat => stat.kind === "date_time" && stat.track);
+  return clocks.find(stat => stat.id === settings.decayClockStat) ?? clocks[0] ?? null;
+}
+
+export function decayStatValue(value: number, decay: StatDecayConfig, elapsedMinutes: number | null): number {
+  const step = decay.mode === "turns"
+    ? decay.amount
+    : elapsedMinutes !== null && elapsedMinutes > 0
+      ? Math.round(decay.amount * elapsedMinutes / 60 / decay.intervalHours)
+      : 0;
+  return driftTowardBaseline(value, decay.baseline, step);
+}
+
+export type TurnDecayDriftConflict = { statId: string; rule: StatRule };
+
+export function findTurnDecayDriftConflicts(settings: BetterSimTrackerSettings): TurnDecayDriftConflict[] {
+  const conflicts: TurnDecayDriftConflict[] = [];
+  for (const rule of settings.statRules ?? []) {
+    if (!rule.enabled || rule.kind !== "drift") continue;
+    const statId = resolveStatRuleStatId(settings, rule.stat);
+    if (!statId || resolveStatDecay(settings, statId)?.mode !== "turns") continue;
+    if (conflicts.some(conflict => conflict.statId === statId)) continue;
+    conflicts.push({ statId, rule });
+  }
+  return conflicts;
+}
+
+export function describeTurnDecayDriftConflict(conflict: TurnDecayDriftConflict): string {
+  return `"${conflict.statId}" already decays per turn, so drift rule "${conflict.rule.label || conflict.rule.id}" would move it twice each turn. Keep one of them, or switch the decay to in-story time.`;
+}
+
+export function formatElapsedMinutes(minutes: number): string {
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  const rest = minutes % 60;
+  const parts = [days ? `${days}d` : "", hours ? `${hours}h` : "", rest && !days ? `${rest}m` : ""].filter(Boolean);
+  return parts.join(" ") || "0m";
+}
+
+export function describeStatDecay(decay: StatDecayConfig): string {
+  const every = decay.mode === "turns" ? "per turn" : `per ${decay.intervalHours}h of in-story time`;
+  return `Drifts ${decay.amount} ${every} toward ${decay.baseline}`;
+}
+
+export function evaluateStatDecay(input: {
+  settings: BetterSimTrackerSettings;
+  statIds: Iterable<string>;
+  ownersForStat: (statId: string) => string[];
+  elapsedMinutesFor: (owner: string) => number | null;
+  readValue: (owner: string, statId: string) => number;
+  writeValue: (owner: string, statId: string, value: number) => void;
+}): StatRuleApplication[] {
+  const applications: StatRuleApplication[] = [];
+  for (const statId of input.statIds) {
+    const decay = resolveStatDecay(input.settings, statId);
+    if (!decay) continue;
+    for (const owner of input.ownersForStat(statId)) {
+      const elapsed = decay.mode === "time" ? input.elapsedMinutesFor(owner) : null;
+      const previous = input.readValue(owner, statId);
+      const next = decayStatValue(previous, decay, elapsed);
+      if (next === previous) continue;
+      input.writeValue(owner, statId, next);
+      applications.push({
+        ruleId: STAT_DECAY_RULE_ID,
+        label: elapsed !== null ? `Decay over ${formatElapsedMinutes(elapsed)}` : "Decay",
+        phase: "after",
+        owner,
+        stat: statId,
+        previous,
+        delta: next - previous,
+        next,
+      });
+    }
+  }
+  return applications;
+}
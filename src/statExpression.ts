@@ -0,0 +1,315 @@
+export type StatExpressionValue = number | string | boolean | string[];
+
+type Token =
+  | { type: "number"; value: number }
+  | { type: "string"; value: string }
+  | { type: "ident"; value: string }
+  | { type: "op"; value: string };
+
+type Node =
+  | { type: "literal"; value: StatExpressionValue }
+  | { type: "ident"; name: string }
+  | { type: "unary"; op: string; operand: Node }
+  | { type: "binary"; op: string; left: Node; right: Node }
+  | { type: "ternary"; test: Node; then: Node; otherwise: Node }
+  | { type: "call"; name: string; args: Node[] };
+
+export interface StatExpression {
+  source: string;
+  identifiers: string[];
+  evaluate: (resolve: (name: string) => StatExpressionValue | undefined) => StatExpressionValue | null;
+}
+
+const MAX_EXPRESSION_LENGTH = 400;
+const OPERATORS = ["&&", "||", "==", "!=", "<=", ">=", "<", ">", "+", "-", "*", "/", "%", "!", "(", ")", ",", "?", ":"];
+const FUNCTIONS = new Map<string, { min: number; max: number }>([
+  ["round", { min: 1, max: 1 }],
+  ["floor", { min: 1, max: 1 }],
+  ["ceil", { min: 1, max: 1 }],
+  ["abs", { min: 1, max: 1 }],
+  ["min", { min: 1, max: 16 }],
+  ["max", { min: 1, max: 16 }],
+  ["avg", { min: 1, max: 16 }],
+  ["clamp", { min: 3, max: 3 }],
+  ["len", { min: 1, max: 1 }],
+  ["has", { min: 2, max: 2 }],
+]);
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+  while (index < source.length) {
+    const char = source[index];
+    if (/\s/.test(char)) {
+      index += 1;
+      continue;
+    }
+    if (/[0-9.]/.test(char)) {
+      const match = /^(?:\d+(?:\.\d*)?|\.\d+)/.exec(source.slice(index));
+      if (!match) throw new Error(`Unexpected "${char}" at position ${index + 1}.`);
+      tokens.push({ type: "number", value: Number(match[0]) });
+      index += match[0].length;
+      continue;
+    }
+    if (char === "\"" || char === "'") {
+      const end = source.indexOf(char, index + 1);
+      if (end < 0) throw new Error("Unterminated string.");
+      tokens.push({ type: "string", value: source.slice(index + 1, end) });
+      index = end + 1;
+      continue;
+    }
+    if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(index));
+      const value = match?.[0] ?? char;
+      tokens.push({ type: "ident", value });
+      index += value.length;
+      continue;
+    }
+    const op = OPERATORS.find(candidate => source.startsWith(candidate, index));
+    if (!op) throw new Error(`Unexpected "${char}" at position ${index + 1}.`);
+    tokens.push({ type: "op", value: op });
+    index += op.length;
+  }
+  return tokens;
+}
+
+function parseTokens(tokens: Token[]): Node {
+  let position = 0;
+  const peekOp = (...ops: string[]): string | null => {
+    const token = tokens[position];
+    return token?.type === "op" && ops.includes(token.value) ? token.value : null;
+  };
+  const expectOp = (op: string): void => {
+    if (!peekOp(op)) throw new Error(`Expected "${op}".`);
+    position += 1;
+  };
+  const binaryLevel = (ops: string[], next: () => Node) => (): Node => {
+    let left = next();
+    let op = peekOp(...ops);
+    while (op) {
+      position += 1;
+      left = { type: "binary", op, left, right: next() };
+      op = peekOp(...ops);
+    }
+    return left;
+  };
+
+  const primary = (): Node => {
+    const token = tokens[position];
+    if (!token) throw new Error("Unexpected end of expression.");
+    position += 1;
+    if (token.type === "number" || token.type === "string") return { type: "literal", value: token.value };
+    if (token.type === "ident") {
+      const name = token.value.toLowerCase();
+      if (name === "true" || name === "false") return { type: "literal", value: name === "true" };
+      if (!peekOp("(")) return { type: "ident", name };
+      const spec = FUNCTIONS.get(name);
+      if (!spec) throw new Error(`Unknown function "${token.value}".`);
+      position += 1;
+      const args: Node[] = [];
+      if (!peekOp(")")) {
+        args.push(expression());
+        while (peekOp(",")) {
+          position += 1;
+          args.push(expression());
+        }
+      }
+      expectOp(")");
+      if (args.length < spec.min || args.length > spec.max) {
+        throw new Error(`${name}() takes ${spec.min === spec.max ? spec.min : `${spec.min}-${spec.max}`} argument(s).`);
+      }
+      return { type: "call", name, args };
+    }
+    if (token.value === "(") {
+      const inner = expression();
+      expectOp(")");
+      return inner;
+    }
+    throw new Error(`Unexpected "${token.value}".`);
+  };
+  const unary = (): Node => {
+    const op = peekOp("!", "-");
+    if (!op) return primary();
+    position += 1;
+    return { type: "unary", op, operand: unary() };
+  };
+  const multiplicative = binaryLevel(["*", "/", "%"], unary);
+  const additive = binaryLevel(["+", "-"], multiplicative);
+  const comparison = binaryLevel(["<", "<=", ">", ">="], additive);
+  const equality = binaryLevel(["==", "!="], comparison);
+  const and = binaryLevel(["&&"], equality);
+  const or = binaryLevel(["||"], and);
+  function expression(): Node {
+    const test = or();
+    if (!peekOp("?")) return test;
+    position += 1;
+    const then = expression();
+    expectOp(":");
+    return { type: "ternary", test, then, otherwise: expression() };
+  }
+
+  const root = expression();
+  if (position < tokens.length) {
+    const token = tokens[position];
+    throw new Error(`Unexpected "${token.value}".`);
+  }
+  return root;
+}
+
+function collectIdentifiers(node: Node, into: Set<string>): void {
+  if (node.type === "ident") into.add(node.name);
+  else if (node.type === "unary") collectIdentifiers(node.operand, into);
+  else if (node.type === "binary") {
+    collectIdentifiers(node.left, into);
+    collectIdentifiers(node.right, into);
+  } else if (node.type === "ternary") {
+    collectIdentifiers(node.test, into);
+    collectIdentifiers(node.then, into);
+    collectIdentifiers(node.otherwise, into);
+  } else if (node.type === "call") {
+    node.args.forEach(arg => collectIdentifiers(arg, into));
+  }
+}
+
+class MissingValue extends Error {}
+
+function toNumber(value: StatExpressionValue): number {
+  if (typeof value === "number") return value;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (Array.isArray(value)) return value.length;
+  const parsed = Number(value.trim());
+  if (!value.trim() || !Number.isFinite(parsed)) throw new MissingValue();
+  return parsed;
+}
+
+export function isStatExpressionTruthy(value: StatExpressionValue | null): boolean {
+  if (value === null) return false;
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === "string") return value.trim().length > 0 && value.trim().toLowerCase() !== "false";
+  return Boolean(value);
+}
+
+function looselyEqual(left: StatExpressionValue, right: StatExpressionValue): boolean {
+  if (Array.isArray(left) || Array.isArray(right)) {
+    const list = Array.isArray(left) ? left : right as string[];
+    const other = Array.isArray(left) ? right : left;
+    if (Array.isArray(other)) return list.join("\u0000").toLowerCase() === other.join("\u0000").toLowerCase();
+    return list.some(item => item.trim().toLowerCase() === String(other).trim().toLowerCase());
+  }
+  if (typeof left === "boolean" || typeof right === "boolean") return isStatExpressionTruthy(left) === isStatExpressionTruthy(right);
+  if (typeof left === "number" || typeof right === "number") {
+    const a = Number(left);
+    const b = Number(right);
+    if (Number.isFinite(a) && Number.isFinite(b)) return a === b;
+  }
+  return String(left).trim().toLowerCase() === String(right).trim().toLowerCase();
+}
+
+function evaluateNode(node: Node, resolve: (name: string) => StatExpressionValue | undefined): StatExpressionValue {
+  if (node.type === "literal") return node.value;
+  if (node.type === "ident") {
+    const value = resolve(node.name);
+    if (value === undefined) throw new MissingValue();
+    return value;
+  }
+  if (node.type === "unary") {
+    const operand = evaluateNode(node.operand, resolve);
+    return node.op === "!" ? !isStatExpressionTruthy(operand) : -toNumber(operand);
+  }
+  if (node.type === "ternary") {
+    return isStatExpressionTruthy(evaluateNode(node.test, resolve))
+      ? evaluateNode(node.then, resolve)
+      : evaluateNode(node.otherwise, resolve);
+  }
+  if (node.type === "call") {
+    const args = node.args.map(arg => evaluateNode(arg, resolve));
+    if (node.name === "len") return Array.isArray(args[0]) ? args[0].length : String(args[0]).length;
+    if (node.name === "has") return looselyEqual(Array.isArray(args[0]) ? args[0] : [String(args[0])], args[1]);
+    const numbers = args.map(toNumber);
+    if (node.name === "round") return Math.round(numbers[0]);
+    if (node.name === "floor") return Math.floor(numbers[0]);
+    if (node.name === "ceil") return Math.ceil(numbers[0]);
+    if (node.name === "abs") return Math.abs(numbers[0]);
+    if (node.name === "min") return Math.min(...numbers);
+    if (node.name === "max") return Math.max(...numbers);
+    if (node.name === "avg") return numbers.reduce((sum, item) => sum + item, 0) / numbers.length;
+    return Math.max(numbers[1], Math.min(numbers[2], numbers[0]));
+  }
+  if (node.op === "&&") {
+    const left = evaluateNode(node.left, resolve);
+    return isStatExpressionTruthy(left) ? isStatExpressionTruthy(evaluateNode(node.right, resolve)) : false;
+  }
+  if (node.op === "||") {
+    const left = evaluateNode(node.left, resolve);
+    return isStatExpressionTruthy(left) ? true : isStatExpressionTruthy(evaluateNode(node.right, resolve));
+  }
+  const left = evaluateNode(node.left, resolve);
+  const right = evaluateNode(node.right, resolve);
+  if (node.op === "==") return looselyEqual(left, right);
+  if (node.op === "!=") return !looselyEqual(left, right);
+  if (node.op === "+" && (typeof left === "string" || typeof right === "string")) {
+    const a = Number(left);
+    const b = Number(right);
+    if (!Number.isFinite(a) || !Number.isFinite(b) || String(left).trim() === "" || String(right).trim() === "") {
+      return `${String(left)}${String(right)}`;
+    }
+  }
+  const a = toNumber(left);
+  const b = toNumber(right);
+  if ((node.op === "/" || node.op === "%") && b === 0) throw new MissingValue();
+  switch (node.op) {
+    case "+": return a + b;
+    case "-": return a - b;
+    case "*": return a * b;
+    case "/": return a / b;
+    case "%": return a % b;
+    case "<": return a < b;
+    case "<=": return a <= b;
+    case ">": return a > b;
+    default: return a >= b;
+  }
+}
+
+export function compileStatExpression(source: string): StatExpression {
+  const text = String(source ?? "").trim();
+  if (!text) throw new Error("Expression is empty.");
+  if (text.length > MAX_EXPRESSION_LENGTH) throw new Error(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters.`);
+  const root = parseTokens(tokenize(text));
+  const identifiers = new Set<string>();
+  collectIdentifiers(root, identifiers);
+  return {
+    source: text,
+    identifiers: Array.from(identifiers),
+    evaluate: resolve => {
+      try {
+        const value = evaluateNode(root, resolve);
+        return typeof value === "number" && !Number.isFinite(value) ? null : value;
+      } catch (error) {
+        if (error instanceof MissingValue) return null;
+        throw error;
+      }
+    },
+  };
+}
+
+export function tryCompileStatExpression(source: string): StatExpression | null {
+  try {
+    return source ? compileStatExpression(source) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function validateStatExpression(source: string, knownIdentifiers?: Iterable<string>): string | null {
+  try {
+    const compiled = compileStatExpression(source);
+    if (knownIdentifiers) {
+      const known = new Set(Array.from(knownIdentifiers, item => item.toLowerCase()));
+      const unknown = compiled.identifiers.find(name => !known.has(name));
+      if (unknown) return `Unknown stat "${unknown}".`;
+    }
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
@@ -1,4 +1,7 @@
-import type { BetterSimTrackerSettings, NumericStatKey } from "./types";
+import { STAT_KEYS } from "./constants";
+import { resolveCustomStatValueKind } from "./customStatRuntime";
+import { BUILT_IN_STAT_PROMPT_MEANINGS, type BuiltInStatMeaningOverride } from "./prompts";
+import type { BetterSimTrackerSettings, CustomStatDefinition, NumericStatKey, StatConstraint, StatKey } from "./types";
 
 export interface NumericStatDefinition {
   id: string;
@@ -11,42 +14,161 @@ export interface NumericStatDefinition {
   showInGraph: boolean;
   includeInInjection: boolean;
   builtIn: boolean;
+  computed?: boolean;
   color?: string;
   promptOverride?: string;
 }
 
-const BUILT_IN_NUMERIC_META: Record<NumericStatKey, { label: string; description: string; color: string }> = {
+export interface StatConstraintSource {
+  statId: string;
+  builtIn: boolean;
+  constraints: StatConstraint[];
+}
+
+export interface BuiltInStatDefinition {
+  id: StatKey;
+  kind: "numeric" | "mood" | "text";
+  label: string;
+  description: string;
+  promptMeaning: string;
+  color?: string;
+  aliases: string[];
+  track: boolean;
+  relabeled: boolean;
+  recolored: boolean;
+  customized: boolean;
+}
+
+type BuiltInStatMeta = {
+  kind: BuiltInStatDefinition["kind"];
+  label: string;
+  description: string;
+  color?: string;
+  aliases: string[];
+  trackSetting: "trackAffection" | "trackTrust" | "trackDesire" | "trackConnection" | "trackMood" | "trackLastThought";
+};
+
+const BUILT_IN_STAT_META: Record<StatKey, BuiltInStatMeta> = {
   affection: {
+    kind: "numeric",
     label: "Affection",
     description: "Emotional warmth, fondness, and care toward the user.",
     color: "#ff6b81",
+    aliases: [],
+    trackSetting: "trackAffection",
   },
   trust: {
+    kind: "numeric",
     label: "Trust",
     description: "Perceived safety, reliability, and willingness to be vulnerable.",
     color: "#55d5ff",
+    aliases: [],
+    trackSetting: "trackTrust",
   },
   desire: {
+    kind: "numeric",
     label: "Desire",
     description: "Physical or romantic attraction and tension.",
     color: "#ffb347",
+    aliases: [],
+    trackSetting: "trackDesire",
   },
   connection: {
+    kind: "numeric",
     label: "Connection",
     description: "Bond depth, emotional attunement, and felt closeness.",
     color: "#9cff8f",
+    aliases: [],
+    trackSetting: "trackConnection",
+  },
+  mood: {
+    kind: "mood",
+    label: "Mood",
+    description: "Immediate emotional tone for this turn.",
+    aliases: [],
+    trackSetting: "trackMood",
+  },
+  lastThought: {
+    kind: "text",
+    label: "Last Thought",
+    description: "Brief internal thought grounded in recent messages.",
+    aliases: ["last_thought", "thought"],
+    trackSetting: "trackLastThought",
   },
 };
 
+export const BUILT_IN_NUMERIC_STAT_IDS: NumericStatKey[] = ["affection", "trust", "desire", "connection"];
+
+export function getBuiltInStatDefinition(settings: BetterSimTrackerSettings, key: StatKey): BuiltInStatDefinition {
+  const meta = BUILT_IN_STAT_META[key];
+  const override = settings.builtInStatOverrides?.[key] ?? {};
+  const label = String(override.label ?? "").trim();
+  const description = String(override.description ?? "").trim();
+  const color = String(override.color ?? "").trim();
+  return {
+    id: key,
+    kind: meta.kind,
+    label: label || meta.label,
+    description: description || meta.description,
+    promptMeaning: description || BUILT_IN_STAT_PROMPT_MEANINGS[key],
+    color: color || meta.color,
+    aliases: [...meta.aliases],
+    track: Boolean(settings[meta.trackSetting]),
+    relabeled: Boolean(label) && label !== meta.label,
+    recolored: Boolean(color) && color !== meta.color,
+    customized: Boolean(label || description || color),
+  };
+}
+
+export function getBuiltInStatDefinitions(settings: BetterSimTrackerSettings): BuiltInStatDefinition[] {
+  return STAT_KEYS.map(key => getBuiltInStatDefinition(settings, key));
+}
+
+export function getTrackedBuiltInStatKeys(settings: BetterSimTrackerSettings): StatKey[] {
+  return STAT_KEYS.filter(key => Boolean(settings[BUILT_IN_STAT_META[key].trackSetting]));
+}
+
+export function withBuiltInStatTracked(
+  settings: BetterSimTrackerSettings,
+  key: StatKey,
+  track: boolean,
+): BetterSimTrackerSettings {
+  return { ...settings, [BUILT_IN_STAT_META[key].trackSetting]: track };
+}
+
+export function getBuiltInStatPromptMeanings(
+  settings: BetterSimTrackerSettings,
+): Partial<Record<StatKey, BuiltInStatMeaningOverride>> {
+  const meanings: Partial<Record<StatKey, BuiltInStatMeaningOverride>> = {};
+  for (const def of getBuiltInStatDefinitions(settings)) {
+    if (!def.relabeled && def.promptMeaning === BUILT_IN_STAT_PROMPT_MEANINGS[def.id]) continue;
+    meanings[def.id] = {
+      label: def.relabeled ? def.label : undefined,
+      meaning: def.promptMeaning,
+    };
+  }
+  return meanings;
+}
+
+export function resolveStatReference(
+  settings: BetterSimTrackerSettings,
+  raw: string,
+): { builtIn: StatKey; custom?: undefined } | { builtIn?: undefined; custom: CustomStatDefinition } | null {
+  const needle = String(raw ?? "").trim().toLowerCase();
+  if (!needle) return null;
+  const builtIns = getBuiltInStatDefinitions(settings);
+  const builtInById = builtIns.find(def => def.id.toLowerCase() === needle || def.aliases.includes(needle));
+  if (builtInById) return { builtIn: builtInById.id };
+  const custom = (settings.customStats ?? []).find(stat => stat.id === needle);
+  if (custom) return { custom };
+  const builtInByLabel = builtIns.find(def => def.label.toLowerCase() === needle);
+  if (builtInByLabel) return { builtIn: builtInByLabel.id };
+  const customByLabel = (settings.customStats ?? []).find(stat => String(stat.label ?? "").trim().toLowerCase() === needle);
+  return customByLabel ? { custom: customByLabel } : null;
+}
+
 function toBuiltInDef(settings: BetterSimTrackerSettings, key: NumericStatKey): NumericStatDefinition {
-  const meta = BUILT_IN_NUMERIC_META[key];
-  const track = key === "affection"
-    ? settings.trackAffection
-    : key === "trust"
-      ? settings.trackTrust
-      : key === "desire"
-        ? settings.trackDesire
-        : settings.trackConnection;
+  const def = getBuiltInStatDefinition(settings, key);
   const defaultValue = key === "affection"
     ? settings.defaultAffection
     : key === "trust"
@@ -61,26 +183,26 @@ function toBuiltInDef(settings: BetterSimTrackerSettings, key: NumericStatKey):
   };
   return {
     id: key,
-    label: meta.label,
-    description: meta.description,
+    label: def.label,
+    description: def.description,
     defaultValue,
     maxDeltaPerTurn: settings.maxDeltaPerTurn,
-    track,
-    showOnCard: track && ui.showOnCard,
-    showInGraph: track && ui.showInGraph,
-    includeInInjection: track && ui.includeInInjection,
+    track: def.track,
+    showOnCard: def.track && ui.showOnCard,
+    showInGraph: def.track && ui.showInGraph,
+    includeInInjection: def.track && ui.includeInInjection,
     builtIn: true,
-    color: meta.color,
+    color: def.color,
   };
 }
 
 export function getBuiltInNumericStatDefinitions(settings: BetterSimTrackerSettings): NumericStatDefinition[] {
-  return (["affection", "trust", "desire", "connection"] as const).map(key => toBuiltInDef(settings, key));
+  return BUILT_IN_NUMERIC_STAT_IDS.map(key => toBuiltInDef(settings, key));
 }
 
 export function getCustomNumericStatDefinitions(settings: BetterSimTrackerSettings): NumericStatDefinition[] {
   return settings.customStats
-    .filter(def => (def.kind ?? "numeric") === "numeric")
+    .filter(def => resolveCustomStatValueKind(def) === "numeric")
     .map(def => ({
     id: def.id,
     label: def.label,
@@ -92,6 +214,7 @@ export function getCustomNumericStatDefinitions(settings: BetterSimTrackerSettin
     showInGraph: def.showInGraph,
     includeInInjection: def.includeInInjection,
     builtIn: false,
+    ...(def.kind === "computed" ? { computed: true } : {}),
     color: def.color,
     promptOverride: def.promptOverride ?? def.sequentialPromptTemplate,
   }));
@@ -100,3 +223,15 @@ export function getCustomNumericStatDefinitions(settings: BetterSimTrackerSettin
 export function getAllNumericStatDefinitions(settings: BetterSimTrackerSettings): NumericStatDefinition[] {
   return [...getBuiltInNumericStatDefinitions(settings), ...getCustomNumericStatDefinitions(settings)];
 }
+
+export function getStatConstraintSources(settings: BetterSimTrackerSettings): StatConstraintSource[] {
+  const sources: StatConstraintSource[] = BUILT_IN_NUMERIC_STAT_IDS.map(key => ({
+    statId: key,
+    builtIn: true,
+    constraints: settings.builtInStatConstraints?.[key] ?? [],
+  }));
+  for (const def of settings.customStats ?? []) {
+    sources.push({ statId: def.id, builtIn: false, constraints: def.constraints ?? [] });
+  }
+  return sources.filter(source => source.constraints.length > 0);
+}
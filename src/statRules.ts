@@ -0,0 +1,112 @@
+import { resolveStatReference } from "./statRegistry";
+import { ownerMatches } from "./triggers";
+import type {
+  BetterSimTrackerSettings,
+  StatRule,
+  StatRuleApplication,
+  StatRulePhase,
+} from "./types";
+
+const BUILT_IN_NUMERIC_STATS = new Set(["affection", "trust", "desire", "connection"]);
+
+export function resolveStatRuleStatId(settings: BetterSimTrackerSettings, reference: string): string | null {
+  const resolved = resolveStatReference(settings, reference);
+  if (resolved?.builtIn) return BUILT_IN_NUMERIC_STATS.has(resolved.builtIn) ? resolved.builtIn : null;
+  if (resolved?.custom && (resolved.custom.kind ?? "numeric") === "numeric") return resolved.custom.id;
+  return null;
+}
+
+export function matchesStatRulePattern(pattern: string, text: string): boolean {
+  const source = pattern.trim();
+  if (!source || !text) return false;
+  const regex = /^\/([\s\S]+)\/([a-z]*)$/.exec(source);
+  if (regex) {
+    try {
+      return new RegExp(regex[1], regex[2].replace(/[gy]/g, "")).test(text);
+    } catch {
+      return false;
+    }
+  }
+  return text.toLowerCase().includes(source.toLowerCase());
+}
+
+function clampStat(value: number): number {
+  return Math.max(0, Math.min(100, Math.round(value)));
+}
+
+export function driftTowardBaseline(value: number, baseline: number, step: number): number {
+  if (step <= 0) return value;
+  if (value > baseline) return Math.max(baseline, value - step);
+  if (value < baseline) return Math.min(baseline, value + step);
+  return value;
+}
+
+function ruleTarget(rule: StatRule, current: number, readOther: () => number | undefined, text: string): number | null {
+  if (rule.kind === "match") {
+    return matchesStatRulePattern(rule.pattern, text) ? current + rule.delta : null;
+  }
+  if (rule.kind === "drift") {
+    const next = driftTowardBaseline(current, rule.baseline, rule.amount);
+    return next === current ? null : next;
+  }
+  const other = readOther();
+  if (other === undefined) return null;
+  const bound = other + rule.capOffset;
+  if (rule.capMode === "at_most") return current > bound ? bound : null;
+  return current < bound ? bound : null;
+}
+
+export function evaluateStatRules(input: {
+  settings: BetterSimTrackerSettings;
+  phase: StatRulePhase;
+  texts: { latest: string; user: string };
+  ownersForStat: (statId: string) => string[];
+  readValue: (owner: string, statId: string) => number | undefined;
+  writeValue: (owner: string, statId: string, value: number) => void;
+}): StatRuleApplication[] {
+  const applications: StatRuleApplication[] = [];
+  for (const rule of input.settings.statRules ?? []) {
+    if (!rule.enabled || rule.phase !== input.phase) continue;
+    const statId = resolveStatRuleStatId(input.settings, rule.stat);
+    if (!statId) continue;
+    const capStatId = rule.kind === "cap" ? resolveStatRuleStatId(input.settings, rule.capStat) : null;
+    if (rule.kind === "cap" && !capStatId) continue;
+    const text = rule.source === "user" ? input.texts.user : input.texts.latest;
+    for (const owner of input.ownersForStat(statId)) {
+      if (!ownerMatches(rule, owner)) continue;
+      const previous = input.readValue(owner, statId);
+      if (previous === undefined) continue;
+      const target = ruleTarget(rule, previous, () => capStatId ? input.readValue(owner, capStatId) : undefined, text);
+      if (target === null) continue;
+      const next = clampStat(target);
+      if (next === previous) continue;
+      input.writeValue(owner, statId, next);
+      applications.push({
+        ruleId: rule.id,
+        label: rule.label || rule.id,
+        phase: rule.phase,
+        owner,
+        stat: statId,
+        previous,
+        delta: next - previous,
+        next,
+      });
+    }
+  }
+  return applications;
+}
+
+export function describeStatRule(rule: StatRule): string {
+  const owner = rule.owner.trim() || "anyone";
+  const when = rule.phase === "before" ? "before the model" : "after the model";
+  if (rule.kind === "match") {
+    const source = rule.source === "user" ? "the latest user message" : "the latest message";
+    const delta = rule.delta > 0 ? `+${rule.delta}` : String(rule.delta);
+    return `${rule.stat} ${delta} for ${owner} when ${source} matches ${rule.pattern} (${when})`;
+  }
+  if (rule.kind === "drift") {
+    return `${rule.stat} drifts ${rule.amount} per turn toward ${rule.baseline} for ${owner} (${when})`;
+  }
+  const offset = rule.capOffset > 0 ? ` + ${rule.capOffset}` : rule.capOffset < 0 ? ` - ${Math.abs(rule.capOffset)}` : "";
+  return `${rule.stat} for ${owner} stays ${rule.capMode === "at_most" ? "at most" : "at least"} ${rule.capStat}${offset}`;
+}
@@ -1,4 +1,5 @@
 import { EXTENSION_KEY, STAT_KEYS } from "./constants";
+import { normalizeStatChangeLog } from "./changeLog";
 import { isTrackableMessage } from "./messageFilter";
 import type {
   BetterSimTrackerSettings,
@@ -8,12 +9,14 @@ import type {
   ClearedStatistics,
   CustomNonNumericStatistics,
   CustomStatistics,
+  PairStatistics,
   STContext,
   StatKey,
   Statistics,
   TrackerData
 } from "./types";
 import { normalizeCustomNonNumericValue } from "./customStatRuntime";
+import { getTrackedBuiltInStatKeys } from "./statRegistry";
 const CHAT_STATE_KEY = `${EXTENSION_KEY}:chat`;
 
 function createEmptyStatistics(): Statistics {
@@ -38,6 +41,8 @@ function normalizeTrackerData(data: Partial<TrackerData>): TrackerData {
   const clearedStatistics = normalizeClearedStatistics(data.clearedStatistics);
   const clearedCustomStatistics = normalizeClearedOwnerBuckets(data.clearedCustomStatistics);
   const clearedCustomNonNumericStatistics = normalizeClearedOwnerBuckets(data.clearedCustomNonNumericStatistics);
+  const changeLog = normalizeStatChangeLog(data.changeLog);
+  const pairStatistics = normalizeCustomStatistics(data.pairStatistics);
   return {
     timestamp: Number(data.timestamp ?? Date.now()),
     activeCharacters: Array.isArray(data.activeCharacters) ? data.activeCharacters : [],
@@ -47,9 +52,11 @@ function normalizeTrackerData(data: Partial<TrackerData>): TrackerData {
     },
     customStatistics: normalizeCustomStatistics(data.customStatistics),
     customNonNumericStatistics: normalizeCustomNonNumericStatistics(data.customNonNumericStatistics),
+    ...(Object.keys(pairStatistics).length ? { pairStatistics } : {}),
     clearedStatistics: pruneClearedStatistics(clearedStatistics),
     clearedCustomStatistics: pruneClearedOwnerBuckets(clearedCustomStatistics),
     clearedCustomNonNumericStatistics: pruneClearedOwnerBuckets(clearedCustomNonNumericStatistics),
+    ...(changeLog.length ? { changeLog } : {}),
   };
 }
 
@@ -253,6 +260,22 @@ function resolveTrackerDataForSwipe(message: ChatMessage, raw: unknown): Partial
   return null;
 }
 
+export function getTrackerSwipeEntriesFromMessage(message: ChatMessage): Array<{ swipeId: number; data: TrackerData }> {
+  const raw = message.extra?.[EXTENSION_KEY];
+  if (!raw || typeof raw !== "object") return [];
+  if (isTrackerPayload(raw)) {
+    return [{ swipeId: 0, data: normalizeTrackerData(raw) }];
+  }
+  const entries: Array<{ swipeId: number; data: TrackerData }> = [];
+  for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+    const swipeId = Number(key);
+    if (!Number.isInteger(swipeId) || swipeId < 0) continue;
+    if (!isTrackerPayload(value)) continue;
+    entries.push({ swipeId, data: normalizeTrackerData(value) });
+  }
+  return entries.sort((a, b) => a.swipeId - b.swipeId);
+}
+
 export function getLatestTrackerData(context: STContext): TrackerData | null {
   for (let i = context.chat.length - 1; i >= 0; i -= 1) {
     const found = getTrackerDataFromMessage(context.chat[i]);
@@ -607,14 +630,26 @@ export function writeTrackerDataToMessage(
   context: STContext,
   data: TrackerData,
   messageIndex: number,
+): void {
+  if (messageIndex < 0 || messageIndex >= context.chat.length) return;
+  const swipeId = Number(context.chat[messageIndex].swipe_id ?? 0);
+  writeTrackerDataToMessageSwipe(context, data, messageIndex, Number.isNaN(swipeId) ? 0 : swipeId);
+}
+
+export function writeTrackerDataToMessageSwipe(
+  context: STContext,
+  data: TrackerData,
+  messageIndex: number,
+  swipeId: number,
 ): void {
   if (messageIndex < 0 || messageIndex >= context.chat.length) return;
   const message = context.chat[messageIndex];
   if (!message.extra) {
     message.extra = {};
   }
-  const swipeId = Number(message.swipe_id ?? 0);
-  const swipeKey = String(Number.isNaN(swipeId) ? 0 : swipeId);
+  const currentSwipeId = Number(message.swipe_id ?? 0);
+  const currentSwipeKey = String(Number.isNaN(currentSwipeId) ? 0 : currentSwipeId);
+  const swipeKey = String(swipeId);
   const existing = message.extra[EXTENSION_KEY];
 
   const swipeStorage: Record<string, TrackerData> = {};
@@ -632,7 +667,9 @@ export function writeTrackerDataToMessage(
 
   swipeStorage[swipeKey] = data;
   message.extra[EXTENSION_KEY] = swipeStorage;
-  saveTrackerSnapshot(context, data, messageIndex);
+  if (swipeKey === currentSwipeKey) {
+    saveTrackerSnapshot(context, data, messageIndex);
+  }
 }
 
 export function mergeStatisticsWithFallback(
@@ -641,18 +678,7 @@ export function mergeStatisticsWithFallback(
   settings?: BetterSimTrackerSettings,
 ): Statistics {
   const merged = createEmptyStatistics();
-  const enabled = settings
-    ? (() => {
-        const list: StatKey[] = [];
-        if (settings.trackAffection) list.push("affection");
-        if (settings.trackTrust) list.push("trust");
-        if (settings.trackDesire) list.push("desire");
-        if (settings.trackConnection) list.push("connection");
-        if (settings.trackMood) list.push("mood");
-        if (settings.trackLastThought) list.push("lastThought");
-        return new Set<StatKey>(list);
-      })()
-    : null;
+  const enabled = settings ? new Set<StatKey>(getTrackedBuiltInStatKeys(settings)) : null;
 
   for (const stat of STAT_KEYS) {
     const nextValues = incoming[stat] ?? {};
@@ -775,6 +801,7 @@ export function mergeTrackerDataChronologically(entries: TrackerData[]): Tracker
   let mergedStatistics: Statistics | null = null;
   let mergedCustomStatistics: CustomStatistics | null = null;
   let mergedCustomNonNumericStatistics: CustomNonNumericStatistics | null = null;
+  let mergedPairStatistics: PairStatistics | null = null;
   let mergedClearedStatistics: ClearedStatistics | null = null;
   let mergedClearedCustomStatistics: ClearedCustomStatistics | null = null;
   let mergedClearedCustomNonNumericStatistics: ClearedCustomNonNumericStatistics | null = null;
@@ -788,6 +815,7 @@ export function mergeTrackerDataChronologically(entries: TrackerData[]): Tracker
       entry.customNonNumericStatistics,
       mergedCustomNonNumericStatistics,
     );
+    mergedPairStatistics = mergeCustomStatisticsWithFallback(entry.pairStatistics, mergedPairStatistics);
     mergedClearedStatistics = mergeClearedStatisticsWithFallback(entry.clearedStatistics, mergedClearedStatistics);
     mergedClearedCustomStatistics = mergeClearedOwnerBucketsWithFallback(entry.clearedCustomStatistics, mergedClearedCustomStatistics);
     mergedClearedCustomNonNumericStatistics = mergeClearedOwnerBucketsWithFallback(
@@ -812,6 +840,7 @@ export function mergeTrackerDataChronologically(entries: TrackerData[]): Tracker
     statistics: mergedStatistics ?? createEmptyStatistics(),
     customStatistics: mergedCustomStatistics ?? {},
     customNonNumericStatistics: mergedCustomNonNumericStatistics ?? {},
+    ...(mergedPairStatistics && Object.keys(mergedPairStatistics).length ? { pairStatistics: mergedPairStatistics } : {}),
     clearedStatistics: pruneClearedStatistics(mergedClearedStatistics ?? undefined),
     clearedCustomStatistics: pruneClearedOwnerBuckets(mergedClearedCustomStatistics ?? undefined),
     clearedCustomNonNumericStatistics: pruneClearedOwnerBuckets(mergedClearedCustomNonNumericStatistics ?? undefined),
@@ -0,0 +1,207 @@
+import { MAX_CUSTOM_ARRAY_ITEMS, normalizeCustomEnumOptions, normalizeCustomTextMaxLength } from "./customStatRuntime";
+import { moodOptions } from "./prompts";
+import type { CustomStatDefinition } from "./types";
+
+export type JsonSchema = Record<string, unknown>;
+export type StructuredOutputTarget = "chat_completion" | "text_completion";
+
+const CHAT_COMPLETION_SCHEMA_SOURCES = new Set([
+  "openai",
+  "azure_openai",
+  "openrouter",
+  "custom",
+  "mistralai",
+  "xai",
+  "groq",
+  "makersuite",
+  "vertexai",
+]);
+
+const TEXT_COMPLETION_SCHEMA_TYPES = new Set(["tabby", "llamacpp"]);
+
+const BUILT_IN_NUMERIC_KEYS = new Set(["affection", "trust", "desire", "connection"]);
+
+export function resolveStructuredOutputTarget(input: {
+  mainApi?: string;
+  chatCompletionSource?: string;
+  textCompletionType?: string;
+}): StructuredOutputTarget | null {
+  const mainApi = String(input.mainApi ?? "").trim();
+  if (mainApi === "openai") {
+    return CHAT_COMPLETION_SCHEMA_SOURCES.has(String(input.chatCompletionSource ?? "").trim()) ? "chat_completion" : null;
+  }
+  if (mainApi === "textgenerationwebui") {
+    return TEXT_COMPLETION_SCHEMA_TYPES.has(String(input.textCompletionType ?? "").trim()) ? "text_completion" : null;
+  }
+  return null;
+}
+
+export function resolveProfileStructuredOutputTarget(profile: { mode?: unknown; api?: unknown } | null | undefined): StructuredOutputTarget | null {
+  const mode = String(profile?.mode ?? "").trim().toLowerCase();
+  const api = String(profile?.api ?? "").trim();
+  if (mode === "cc") return resolveStructuredOutputTarget({ mainApi: "openai", chatCompletionSource: api });
+  if (mode === "tc") return resolveStructuredOutputTarget({ mainApi: "textgenerationwebui", textCompletionType: api });
+  return null;
+}
+
+export function buildStructuredOutputField(target: StructuredOutputTarget, schema: JsonSchema): unknown {
+  return target === "chat_completion" ? { name: "bst_extraction", strict: true, value: schema } : schema;
+}
+
+const SCHEMA_REJECTION_MESSAGE = /response_format|json_schema|json schema|structured output|guided_json|grammar/i;
+
+export function isStructuredOutputRejection(error: unknown): boolean {
+  if ((error as { name?: string } | null)?.name === "AbortError") return false;
+  const message = String(error instanceof Error ? error.message : error ?? "");
+  const status = /^HTTP (\d{3})\b/.exec(message);
+  if (status) return status[1] === "400" || status[1] === "422";
+  return SCHEMA_REJECTION_MESSAGE.test(message);
+}
+
+function customValueSchema(stat: CustomStatDefinition): JsonSchema | null {
+  const kind = stat.kind ?? "numeric";
+  if (kind === "enum_single") {
+    const options = normalizeCustomEnumOptions(stat.enumOptions);
+    return options.length ? { type: "string", enum: options } : { type: "string" };
+  }
+  if (kind === "boolean") return { type: "boolean" };
+  if (kind === "array") {
+    return {
+      type: "array",
+      items: { type: "string", maxLength: normalizeCustomTextMaxLength(stat.textMaxLength) },
+      maxItems: MAX_CUSTOM_ARRAY_ITEMS,
+    };
+  }
+  if (kind === "date_time") {
+    return stat.dateTimeMode === "structured"
+      ? { type: "string" }
+      : { type: "string", pattern: "^\\d{4}-\\d{2}-\\d{2} \\d{2}:\\d{2}$" };
+  }
+  if (kind === "text_short") return { type: "string", maxLength: normalizeCustomTextMaxLength(stat.textMaxLength) };
+  return null;
+}
+
+export function buildExtractionJsonSchema(input: {
+  statList: string[];
+  customStats: CustomStatDefinition[];
+  maxDeltaPerTurn: number;
+  includeReason?: boolean;
+  includePresence?: boolean;
+}): JsonSchema | null {
+  const maxDelta = Math.max(1, Math.round(Number(input.maxDeltaPerTurn) || 15));
+  const deltaProperties: Record<string, JsonSchema> = {};
+  const valueProperties: Record<string, JsonSchema> = {};
+  const rowProperties: Record<string, JsonSchema> = {
+    name: { type: "string" },
+    confidence: { type: "number", minimum: 0, maximum: 1 },
+  };
+  for (const statId of input.statList) {
+    if (BUILT_IN_NUMERIC_KEYS.has(statId)) {
+      deltaProperties[statId] = { type: "integer", minimum: -maxDelta, maximum: maxDelta };
+      continue;
+    }
+    if (statId === "mood") {
+      rowProperties.mood = { type: "string", enum: [...moodOptions] };
+      continue;
+    }
+    if (statId === "lastThought") {
+      rowProperties.lastThought = { type: "string" };
+      continue;
+    }
+    const stat = input.customStats.find(item => item.id === statId);
+    if (!stat) continue;
+    if ((stat.kind ?? "numeric") === "numeric") {
+      const statMaxDelta = Math.max(1, Math.round(Number(stat.maxDeltaPerTurn ?? maxDelta) || maxDelta));
+      deltaProperties[stat.id] = { type: "integer", minimum: -statMaxDelta, maximum: statMaxDelta };
+      continue;
+    }
+    const valueSchema = customValueSchema(stat);
+    if (valueSchema) valueProperties[stat.id] = valueSchema;
+  }
+  const hasDelta = Object.keys(deltaProperties).length > 0;
+  const hasValue = Object.keys(valueProperties).length > 0;
+  if (!hasDelta && !hasValue && !rowProperties.mood && !rowProperties.lastThought) return null;
+
+  if (hasDelta) {
+    rowProperties.delta = {
+      type: "object",
+      properties: deltaProperties,
+      required: Object.keys(deltaProperties),
+      additionalProperties: false,
+    };
+    if (input.includeReason) rowProperties.reason = { type: "string" };
+  }
+  if (hasValue) {
+    rowProperties.value = {
+      type: "object",
+      properties: valueProperties,
+      required: Object.keys(valueProperties),
+      additionalProperties: false,
+    };
+  }
+  return {
+    type: "object",
+    properties: {
+      characters: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: rowProperties,
+          required: Object.keys(rowProperties),
+          additionalProperties: false,
+        },
+      },
+      ...(input.includePresence ? {
+        presence: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              name: { type: "string" },
+              present: { type: "boolean" },
+              reason: { type: "string" },
+            },
+            required: ["name", "present", "reason"],
+            additionalProperties: false,
+          },
+        },
+      } : {}),
+    },
+    required: input.includePresence ? ["characters", "presence"] : ["characters"],
+    additionalProperties: false,
+  };
+}
+
+export function buildPairwiseJsonSchema(statIds: string[], maxDeltaPerTurn: number): JsonSchema | null {
+  if (!statIds.length) return null;
+  const maxDelta = Math.max(1, Math.round(Number(maxDeltaPerTurn) || 15));
+  const deltaProperties = Object.fromEntries(
+    statIds.map(statId => [statId, { type: "integer", minimum: -maxDelta, maximum: maxDelta }]),
+  );
+  return {
+    type: "object",
+    properties: {
+      pairs: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            source: { type: "string" },
+            target: { type: "string" },
+            confidence: { type: "number", minimum: 0, maximum: 1 },
+            delta: {
+              type: "object",
+              properties: deltaProperties,
+              required: statIds,
+              additionalProperties: false,
+            },
+          },
+          required: ["source", "target", "confidence", "delta"],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ["pairs"],
+    additionalProperties: false,
+  };
+}
@@ -0,0 +1,218 @@
+export type TolerantJsonResult = {
+  value: unknown;
+  repaired: boolean;
+  truncated: boolean;
+  blocks: number;
+};
+
+type RepairResult = {
+  value: unknown;
+  ok: boolean;
+  truncated: boolean;
+};
+
+const KEYWORDS = new Set(["true", "false", "null"]);
+
+function tryParse(text: string): { ok: boolean; value: unknown } {
+  try {
+    return { ok: true, value: JSON.parse(text) };
+  } catch {
+    return { ok: false, value: null };
+  }
+}
+
+function stripCodeFences(raw: string): string {
+  return raw.replace(/```[a-zA-Z0-9_-]*[ \t]*\r?\n?/g, "\n");
+}
+
+function nextNonSpace(text: string, from: number): string {
+  for (let i = from; i < text.length; i += 1) {
+    if (!/\s/.test(text[i])) return text[i];
+  }
+  return "";
+}
+
+function splitJsonBlocks(text: string): Array<{ text: string; complete: boolean }> {
+  const blocks: Array<{ text: string; complete: boolean }> = [];
+  let start = -1;
+  let depth = 0;
+  let quote = "";
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+    if (start < 0) {
+      if (char === "{" || char === "[") {
+        start = i;
+        depth = 1;
+      }
+      continue;
+    }
+    if (quote) {
+      if (char === "\\") i += 1;
+      else if (char === quote) quote = "";
+      continue;
+    }
+    if (char === "\"" || char === "'") {
+      quote = char;
+    } else if (char === "{" || char === "[") {
+      depth += 1;
+    } else if (char === "}" || char === "]") {
+      depth -= 1;
+      if (depth === 0) {
+        blocks.push({ text: text.slice(start, i + 1), complete: true });
+        start = -1;
+      }
+    }
+  }
+  if (start >= 0) blocks.push({ text: text.slice(start), complete: false });
+  return blocks;
+}
+
+function repairJsonText(block: string): RepairResult {
+  let out = "";
+  const stack: string[] = [];
+  const cuts: Array<{ pos: number; closers: string }> = [];
+  const closers = (): string => [...stack].reverse().join("");
+  const markCut = (): void => {
+    cuts.push({ pos: out.length, closers: closers() });
+  };
+  let inString = false;
+  let i = 0;
+  while (i < block.length) {
+    const char = block[i];
+    if (char === "\"" || char === "'") {
+      const quote = char;
+      let value = "";
+      let closed = false;
+      i += 1;
+      while (i < block.length) {
+        const current = block[i];
+        if (current === "\\" && i + 1 < block.length) {
+          const escaped = block[i + 1];
+          value += escaped === "'" ? "'" : `\\${escaped}`;
+          i += 2;
+          continue;
+        }
+        if (current === quote) {
+          closed = true;
+          i += 1;
+          break;
+        }
+        if (current === "\"") value += "\\\"";
+        else if (current === "\n") value += "\\n";
+        else if (current === "\r") value += "";
+        else if (current === "\t") value += "\\t";
+        else value += current;
+        i += 1;
+      }
+      out += `"${value}${closed ? "\"" : ""}`;
+      inString = !closed;
+      if (closed) markCut();
+      continue;
+    }
+    if (char === "/" && block[i + 1] === "/") {
+      while (i < block.length && block[i] !== "\n") i += 1;
+      continue;
+    }
+    if (char === "/" && block[i + 1] === "*") {
+      const end = block.indexOf("*/", i + 2);
+      i = end < 0 ? block.length : end + 2;
+      continue;
+    }
+    if (/[A-Za-z_$]/.test(char)) {
+      let word = "";
+      while (i < block.length && /[\w$-]/.test(block[i])) {
+        word += block[i];
+        i += 1;
+      }
+      out += KEYWORDS.has(word) ? word : JSON.stringify(word);
+      if (i < block.length) markCut();
+      continue;
+    }
+    if (char === ",") {
+      const next = nextNonSpace(block, i + 1);
+      if (next !== "}" && next !== "]") {
+        markCut();
+        out += char;
+      }
+      i += 1;
+      continue;
+    }
+    if (char === "{" || char === "[") {
+      stack.push(char === "{" ? "}" : "]");
+      out += char;
+      markCut();
+      i += 1;
+      continue;
+    }
+    if (char === "}" || char === "]") {
+      stack.pop();
+      out += char;
+      markCut();
+      i += 1;
+      continue;
+    }
+    out += char;
+    i += 1;
+  }
+
+  const direct = tryParse(out);
+  if (direct.ok && !stack.length && !inString) {
+    return { value: direct.value, ok: true, truncated: false };
+  }
+  for (let index = cuts.length - 1; index >= 0; index -= 1) {
+    const cut = cuts[index];
+    const candidate = `${out.slice(0, cut.pos)}${cut.closers}`;
+    const parsed = tryParse(candidate);
+    if (parsed.ok) return { value: parsed.value, ok: true, truncated: true };
+  }
+  return { value: null, ok: false, truncated: stack.length > 0 };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function mergeBlocks(values: unknown[]): unknown {
+  const records = values.filter(isRecord);
+  if (!records.length) return values[0] ?? null;
+  if (records.length === 1) return records[0];
+  const rows: unknown[] = [];
+  let hasRows = false;
+  for (const record of records) {
+    if (Array.isArray(record.characters)) {
+      rows.push(...record.characters);
+      hasRows = true;
+    } else if (typeof record.name === "string") {
+      rows.push(record);
+      hasRows = true;
+    }
+  }
+  if (!hasRows) return records[0];
+  const base = records.find(record => Array.isArray(record.characters)) ?? {};
+  return { ...base, characters: rows };
+}
+
+export function parseTolerantJson(raw: string): TolerantJsonResult {
+  const text = String(raw ?? "");
+  const direct = tryParse(text.trim());
+  if (direct.ok) return { value: direct.value, repaired: false, truncated: false, blocks: 1 };
+
+  const blocks = splitJsonBlocks(stripCodeFences(text));
+  const values: unknown[] = [];
+  let repaired = false;
+  let truncated = false;
+  for (const block of blocks) {
+    const parsed = tryParse(block.text);
+    if (parsed.ok) {
+      values.push(parsed.value);
+      continue;
+    }
+    const repair = repairJsonText(block.text);
+    if (!repair.ok) continue;
+    repaired = true;
+    truncated = truncated || repair.truncated || !block.complete;
+    values.push(repair.value);
+  }
+  if (!values.length) return { value: null, repaired: false, truncated: false, blocks: 0 };
+  return { value: mergeBlocks(values), repaired: repaired || values.length > 1, truncated, blocks: values.length };
+}
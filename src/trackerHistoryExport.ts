@@ -0,0 +1,309 @@
+import { STAT_KEYS } from "./constants";
+import { isTrackableMessage } from "./messageFilter";
+import { getTrackerSwipeEntriesFromMessage, writeTrackerDataToMessageSwipe } from "./storage";
+import type { BetterSimTrackerSettings, ChatMessage, CustomStatDefinition, STContext, TrackerData } from "./types";
+
+export const TRACKER_HISTORY_EXPORT_FORMAT = "bettersimtracker-history";
+export const TRACKER_HISTORY_EXPORT_VERSION = 1;
+
+export type TrackerHistoryExportEntry = {
+  messageIndex: number;
+  swipeId: number;
+  activeSwipe: boolean;
+  messageHash: string;
+  speaker: string;
+  isUser: boolean;
+  timestamp: number;
+  activeCharacters: string[];
+  data: TrackerData;
+};
+
+export type TrackerHistoryExport = {
+  format: typeof TRACKER_HISTORY_EXPORT_FORMAT;
+  version: number;
+  exportedAt: number;
+  chatId: string | null;
+  messageCount: number;
+  customStats: CustomStatDefinition[];
+  entries: TrackerHistoryExportEntry[];
+};
+
+export type TrackerHistoryImportResult = {
+  total: number;
+  attached: number;
+  remapped: number;
+  unverified: number;
+  kept: number;
+  skipped: number;
+  missingCustomStatIds: string[];
+};
+
+function shortHash(input: string): string {
+  let hash = 2166136261;
+  for (let i = 0; i < input.length; i += 1) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+function currentSwipeId(message: ChatMessage): number {
+  const swipeId = Number(message.swipe_id ?? 0);
+  return Number.isNaN(swipeId) ? 0 : swipeId;
+}
+
+function readSwipeText(message: ChatMessage, swipeId: number): string {
+  if (swipeId === currentSwipeId(message)) return String(message.mes ?? "");
+  const swipes = Array.isArray(message.swipes) ? message.swipes : [];
+  return String(swipes[swipeId] ?? "");
+}
+
+export function hashTrackerMessage(message: ChatMessage, swipeId = currentSwipeId(message)): string {
+  const side = message.is_user ? "u" : "c";
+  const name = String(message.name ?? "").trim();
+  const text = readSwipeText(message, swipeId).replace(/\s+/g, " ").trim();
+  return shortHash(`${side}|${name}|${text}`);
+}
+
+export function buildTrackerHistoryExport(
+  context: STContext,
+  settings: BetterSimTrackerSettings,
+  exportedAt = Date.now(),
+): TrackerHistoryExport {
+  const entries: TrackerHistoryExportEntry[] = [];
+  context.chat.forEach((message, messageIndex) => {
+    const activeSwipeId = currentSwipeId(message);
+    for (const { swipeId, data } of getTrackerSwipeEntriesFromMessage(message)) {
+      entries.push({
+        messageIndex,
+        swipeId,
+        activeSwipe: swipeId === activeSwipeId,
+        messageHash: hashTrackerMessage(message, swipeId),
+        speaker: String(message.name ?? "").trim(),
+        isUser: Boolean(message.is_user),
+        timestamp: Number(data.timestamp ?? 0),
+        activeCharacters: [...(data.activeCharacters ?? [])],
+        data,
+      });
+    }
+  });
+  return {
+    format: TRACKER_HISTORY_EXPORT_FORMAT,
+    version: TRACKER_HISTORY_EXPORT_VERSION,
+    exportedAt,
+    chatId: String(context.chatId ?? "").trim() || null,
+    messageCount: context.chat.length,
+    customStats: (settings.customStats ?? []).map(stat => JSON.parse(JSON.stringify(stat)) as CustomStatDefinition),
+    entries,
+  };
+}
+
+export function csvCell(value: unknown): string {
+  const text = String(value ?? "");
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, "\"\"")}"` : text;
+}
+
+function formatCsvValue(value: unknown): string {
+  if (Array.isArray(value)) return value.map(item => String(item ?? "")).join(" | ");
+  return String(value ?? "");
+}
+
+export function trackerHistoryExportToCsv(payload: TrackerHistoryExport): string {
+  const header = ["message_index", "swipe_id", "active_swipe", "speaker", "timestamp", "owner", "stat", "value"];
+  const rows: string[] = [header.join(",")];
+  for (const entry of payload.entries) {
+    const base = [
+      entry.messageIndex,
+      entry.swipeId,
+      entry.activeSwipe ? "true" : "false",
+      entry.speaker,
+      entry.timestamp > 0 ? new Date(entry.timestamp).toISOString() : "",
+    ];
+    const push = (owner: string, stat: string, value: unknown): void => {
+      rows.push([...base, owner, stat, formatCsvValue(value)].map(csvCell).join(","));
+    };
+    for (const stat of STAT_KEYS) {
+      for (const [owner, value] of Object.entries(entry.data.statistics?.[stat] ?? {})) {
+        push(owner, stat, value);
+      }
+    }
+    for (const [stat, byOwner] of Object.entries(entry.data.customStatistics ?? {})) {
+      for (const [owner, value] of Object.entries(byOwner ?? {})) {
+        push(owner, stat, value);
+      }
+    }
+    for (const [stat, byOwner] of Object.entries(entry.data.customNonNumericStatistics ?? {})) {
+      for (const [owner, value] of Object.entries(byOwner ?? {})) {
+        push(owner, stat, value);
+      }
+    }
+  }
+  return `${rows.join("\r\n")}\r\n`;
+}
+
+function isTrackerDataLike(value: unknown): value is TrackerData {
+  if (!value || typeof value !== "object") return false;
+  const data = value as Partial<TrackerData>;
+  return Boolean(data.statistics && typeof data.statistics === "object" && Array.isArray(data.activeCharacters));
+}
+
+export function parseTrackerHistoryImport(
+  rawText: string,
+): { payload: TrackerHistoryExport | null; warnings: string[]; error: string | null } {
+  const text = String(rawText ?? "").trim();
+  if (!text) return { payload: null, warnings: [], error: "Import failed: input is empty." };
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { payload: null, warnings: [], error: "Import failed: invalid JSON." };
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    return { payload: null, warnings: [], error: "Import failed: expected a tracker history export object." };
+  }
+  const source = parsed as Partial<TrackerHistoryExport>;
+  if (source.format !== TRACKER_HISTORY_EXPORT_FORMAT) {
+    return { payload: null, warnings: [], error: `Import failed: format must be "${TRACKER_HISTORY_EXPORT_FORMAT}".` };
+  }
+  const version = Number(source.version);
+  if (!Number.isInteger(version) || version < 1 || version > TRACKER_HISTORY_EXPORT_VERSION) {
+    return { payload: null, warnings: [], error: `Import failed: unsupported version "${String(source.version)}".` };
+  }
+  if (!Array.isArray(source.entries)) {
+    return { payload: null, warnings: [], error: "Import failed: entries array is missing." };
+  }
+  const warnings: string[] = [];
+  const entries: TrackerHistoryExportEntry[] = [];
+  source.entries.forEach((raw, i) => {
+    const entry = raw as Partial<TrackerHistoryExportEntry> | null;
+    const messageIndex = Number(entry?.messageIndex);
+    const swipeId = Number(entry?.swipeId ?? 0);
+    if (!entry || !Number.isInteger(messageIndex) || messageIndex < 0 || !Number.isInteger(swipeId) || swipeId < 0) {
+      warnings.push(`Entry #${i + 1} skipped: invalid message index or swipe id.`);
+      return;
+    }
+    if (!isTrackerDataLike(entry.data)) {
+      warnings.push(`Entry #${i + 1} skipped: tracker data is missing.`);
+      return;
+    }
+    entries.push({
+      messageIndex,
+      swipeId,
+      activeSwipe: Boolean(entry.activeSwipe),
+      messageHash: String(entry.messageHash ?? ""),
+      speaker: String(entry.speaker ?? ""),
+      isUser: Boolean(entry.isUser),
+      timestamp: Number(entry.timestamp ?? entry.data.timestamp ?? 0),
+      activeCharacters: Array.isArray(entry.activeCharacters)
+        ? entry.activeCharacters.map(name => String(name ?? "").trim()).filter(Boolean)
+        : [...entry.data.activeCharacters],
+      data: entry.data,
+    });
+  });
+  if (!entries.length) {
+    return { payload: null, warnings, error: "Import failed: no valid tracker snapshots found." };
+  }
+  return {
+    payload: {
+      format: TRACKER_HISTORY_EXPORT_FORMAT,
+      version,
+      exportedAt: Number(source.exportedAt ?? 0),
+      chatId: typeof source.chatId === "string" ? source.chatId : null,
+      messageCount: Number(source.messageCount ?? 0),
+      customStats: Array.isArray(source.customStats) ? source.customStats : [],
+      entries,
+    },
+    warnings,
+    error: null,
+  };
+}
+
+function resolveImportTarget(
+  context: STContext,
+  entry: TrackerHistoryExportEntry,
+  hashIndex: Map<string, number[]>,
+): { messageIndex: number; match: "exact" | "hash" | "index" } | null {
+  const atIndex = context.chat[entry.messageIndex];
+  if (atIndex && (!entry.messageHash || hashTrackerMessage(atIndex, entry.swipeId) === entry.messageHash)) {
+    return { messageIndex: entry.messageIndex, match: "exact" };
+  }
+  const candidates = entry.messageHash ? hashIndex.get(`${entry.messageHash}|${entry.swipeId}`) ?? [] : [];
+  if (candidates.length === 1) {
+    return { messageIndex: candidates[0], match: "hash" };
+  }
+  if (atIndex && isTrackableMessage(atIndex) && Boolean(atIndex.is_user) === entry.isUser) {
+    return { messageIndex: entry.messageIndex, match: "index" };
+  }
+  return null;
+}
+
+export function applyTrackerHistoryImport(
+  context: STContext,
+  payload: TrackerHistoryExport,
+  settings: BetterSimTrackerSettings,
+  options: { overwrite?: boolean } = {},
+): TrackerHistoryImportResult {
+  const result: TrackerHistoryImportResult = {
+    total: payload.entries.length,
+    attached: 0,
+    remapped: 0,
+    unverified: 0,
+    kept: 0,
+    skipped: 0,
+    missingCustomStatIds: [],
+  };
+  const hashIndex = new Map<string, number[]>();
+  const neededSwipes = new Set(payload.entries.map(entry => entry.swipeId));
+  context.chat.forEach((message, messageIndex) => {
+    for (const swipeId of neededSwipes) {
+      const key = `${hashTrackerMessage(message, swipeId)}|${swipeId}`;
+      const bucket = hashIndex.get(key) ?? [];
+      bucket.push(messageIndex);
+      hashIndex.set(key, bucket);
+    }
+  });
+
+  const sorted = [...payload.entries].sort((a, b) => a.messageIndex - b.messageIndex || a.swipeId - b.swipeId);
+  for (const entry of sorted) {
+    const target = resolveImportTarget(context, entry, hashIndex);
+    if (!target) {
+      result.skipped += 1;
+      continue;
+    }
+    const message = context.chat[target.messageIndex];
+    const existing = getTrackerSwipeEntriesFromMessage(message).some(item => item.swipeId === entry.swipeId);
+    if (existing && !options.overwrite) {
+      result.kept += 1;
+      continue;
+    }
+    writeTrackerDataToMessageSwipe(
+      context,
+      { ...entry.data, activeCharacters: [...entry.activeCharacters] },
+      target.messageIndex,
+      entry.swipeId,
+    );
+    if (target.match === "exact") result.attached += 1;
+    if (target.match === "hash") result.remapped += 1;
+    if (target.match === "index") result.unverified += 1;
+  }
+
+  const knownIds = new Set((settings.customStats ?? []).map(stat => stat.id));
+  const referencedIds = new Set<string>();
+  for (const entry of payload.entries) {
+    for (const id of Object.keys(entry.data.customStatistics ?? {})) referencedIds.add(id);
+    for (const id of Object.keys(entry.data.customNonNumericStatistics ?? {})) referencedIds.add(id);
+  }
+  result.missingCustomStatIds = [...referencedIds].filter(id => !knownIds.has(id)).sort();
+  return result;
+}
+
+export function formatTrackerHistoryImportResult(result: TrackerHistoryImportResult): string {
+  const parts = [`Imported ${result.attached + result.remapped + result.unverified}/${result.total} snapshot(s)`];
+  if (result.remapped) parts.push(`${result.remapped} re-attached by message hash`);
+  if (result.unverified) parts.push(`${result.unverified} attached by index only (message text changed)`);
+  if (result.kept) parts.push(`${result.kept} kept existing data`);
+  if (result.skipped) parts.push(`${result.skipped} skipped (no matching message)`);
+  const summary = `${parts.join(", ")}.`;
+  if (!result.missingCustomStatIds.length) return summary;
+  return `${summary} Missing custom stat definitions: ${result.missingCustomStatIds.join(", ")}.`;
+}
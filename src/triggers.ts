@@ -0,0 +1,236 @@
+import { GLOBAL_TRACKER_KEY, USER_TRACKER_KEY } from "./constants";
+import { normalizeCustomNonNumericValue, resolveCustomStatValueKind } from "./customStatRuntime";
+import { getBuiltInStatDefinition, resolveStatReference } from "./statRegistry";
+import type {
+  BetterSimTrackerSettings,
+  CustomNonNumericValue,
+  CustomStatDefinition,
+  STContext,
+  StatKey,
+  TrackerData,
+  TriggerAction,
+  TriggerFiredRecord,
+  TriggerRule,
+} from "./types";
+
+export const TRIGGER_HISTORY_METADATA_KEY = "bstTriggerHistory";
+export const PENDING_TRIGGER_NOTES_METADATA_KEY = "bstPendingTriggerNotes";
+const MAX_TRIGGER_HISTORY = 500;
+const MAX_PENDING_TRIGGER_NOTES = 10;
+
+type TriggerStatValue = number | string | boolean | string[];
+
+export interface TriggerFiring {
+  rule: TriggerRule;
+  owner: string;
+  statLabel: string;
+  previous: TriggerStatValue | undefined;
+  value: TriggerStatValue;
+}
+
+type ResolvedTriggerStat = {
+  label: string;
+  builtIn?: StatKey;
+  custom?: CustomStatDefinition;
+};
+
+function resolveTriggerStat(settings: BetterSimTrackerSettings, reference: string): ResolvedTriggerStat | null {
+  const resolved = resolveStatReference(settings, reference);
+  if (resolved?.builtIn) {
+    return { label: getBuiltInStatDefinition(settings, resolved.builtIn).label, builtIn: resolved.builtIn };
+  }
+  if (resolved?.custom) return { label: resolved.custom.label || resolved.custom.id, custom: resolved.custom };
+  return null;
+}
+
+function readStatMap(data: TrackerData | null, stat: ResolvedTriggerStat): Record<string, TriggerStatValue> {
+  if (!data) return {};
+  if (stat.builtIn) return (data.statistics[stat.builtIn] ?? {}) as Record<string, TriggerStatValue>;
+  const id = stat.custom?.id ?? "";
+  if (stat.custom && resolveCustomStatValueKind(stat.custom) === "numeric") return data.customStatistics?.[id] ?? {};
+  return (data.customNonNumericStatistics?.[id] ?? {}) as Record<string, TriggerStatValue>;
+}
+
+export function ownerMatches(rule: Pick<TriggerRule, "owner">, owner: string): boolean {
+  if (owner === GLOBAL_TRACKER_KEY) return true;
+  const filter = rule.owner.trim();
+  if (!filter) return true;
+  if (filter === "{{char}}") return owner !== USER_TRACKER_KEY;
+  if (filter === "{{user}}") return owner === USER_TRACKER_KEY;
+  return filter.toLowerCase() === owner.toLowerCase();
+}
+
+function matchesValue(value: TriggerStatValue | undefined, expected: string): boolean {
+  if (value === undefined) return false;
+  const target = expected.trim().toLowerCase();
+  if (Array.isArray(value)) return value.some(item => item.trim().toLowerCase() === target);
+  return String(value).trim().toLowerCase() === target;
+}
+
+function conditionMet(rule: TriggerRule, previous: TriggerStatValue | undefined, value: TriggerStatValue): boolean {
+  if (rule.condition === "becomes") {
+    return matchesValue(value, rule.value) && !matchesValue(previous, rule.value);
+  }
+  const before = Number(previous);
+  const after = Number(value);
+  if (previous === undefined || !Number.isFinite(before) || !Number.isFinite(after)) return false;
+  if (rule.condition === "crosses_above") return before < rule.threshold && after >= rule.threshold;
+  return before > rule.threshold && after <= rule.threshold;
+}
+
+export function triggerFiredKey(ruleId: string, owner: string): string {
+  return `${ruleId}\u0000${owner}`;
+}
+
+export function evaluateTriggerRules(input: {
+  settings: BetterSimTrackerSettings;
+  previous: TrackerData | null;
+  current: TrackerData;
+  fired: TriggerFiredRecord[];
+}): TriggerFiring[] {
+  const firedKeys = new Set(input.fired.map(record => triggerFiredKey(record.ruleId, record.owner)));
+  const firings: TriggerFiring[] = [];
+  for (const rule of input.settings.triggerRules ?? []) {
+    if (!rule.enabled || !rule.actions.length) continue;
+    const stat = resolveTriggerStat(input.settings, rule.stat);
+    if (!stat) continue;
+    const currentMap = readStatMap(input.current, stat);
+    const previousMap = readStatMap(input.previous, stat);
+    for (const [owner, value] of Object.entries(currentMap)) {
+      if (value === undefined || value === null) continue;
+      if (!ownerMatches(rule, owner)) continue;
+      if (firedKeys.has(triggerFiredKey(rule.id, owner))) continue;
+      const previous = previousMap[owner];
+      if (!conditionMet(rule, previous, value)) continue;
+      firedKeys.add(triggerFiredKey(rule.id, owner));
+      firings.push({ rule, owner, statLabel: stat.label, previous, value });
+    }
+  }
+  return firings;
+}
+
+function formatTriggerValue(value: TriggerStatValue | undefined): string {
+  if (value === undefined) return "";
+  return Array.isArray(value) ? value.join(", ") : String(value);
+}
+
+export function renderTriggerText(text: string, firing: TriggerFiring, names: { owner: string; user: string }): string {
+  const replacements: Record<string, string> = {
+    char: names.owner,
+    user: names.user,
+    stat: firing.statLabel,
+    value: formatTriggerValue(firing.value),
+    previous: formatTriggerValue(firing.previous),
+  };
+  return text.replace(/\{\{\s*(char|user|stat|value|previous)\s*\}\}/gi, (_match, key: string) => replacements[key.toLowerCase()] ?? "");
+}
+
+export function applyTriggerSetStatAction(
+  data: TrackerData,
+  settings: BetterSimTrackerSettings,
+  action: TriggerAction,
+  owner: string,
+): boolean {
+  const renderedValue = action.text;
+  const def = (settings.customStats ?? []).find(stat => stat.id === action.statId);
+  if (!def || def.kind === "computed") return false;
+  const targetOwner = def.globalScope ? GLOBAL_TRACKER_KEY : owner;
+  if (targetOwner === GLOBAL_TRACKER_KEY && !def.globalScope) return false;
+  if ((def.kind ?? "numeric") === "numeric") {
+    const parsed = Number(renderedValue.trim());
+    if (!renderedValue.trim() || !Number.isFinite(parsed)) return false;
+    const customStatistics = { ...(data.customStatistics ?? {}) };
+    customStatistics[def.id] = { ...(customStatistics[def.id] ?? {}), [targetOwner]: Math.max(0, Math.min(100, Math.round(parsed))) };
+    data.customStatistics = customStatistics;
+    return true;
+  }
+  const normalized: CustomNonNumericValue | undefined = normalizeCustomNonNumericValue(def.kind, renderedValue, {
+    enumOptions: def.enumOptions,
+    textMaxLength: def.textMaxLength,
+    dateTimeMode: def.dateTimeMode,
+  });
+  if (normalized === undefined) return false;
+  const customNonNumericStatistics = { ...(data.customNonNumericStatistics ?? {}) };
+  customNonNumericStatistics[def.id] = { ...(customNonNumericStatistics[def.id] ?? {}), [targetOwner]: normalized };
+  data.customNonNumericStatistics = customNonNumericStatistics;
+  return true;
+}
+
+export function readTriggerHistory(context: STContext): TriggerFiredRecord[] {
+  const raw = context.chatMetadata?.[TRIGGER_HISTORY_METADATA_KEY];
+  if (!Array.isArray(raw)) return [];
+  const records: TriggerFiredRecord[] = [];
+  for (const item of raw) {
+    if (!item || typeof item !== "object") continue;
+    const row = item as Record<string, unknown>;
+    const ruleId = String(row.ruleId ?? "").trim();
+    const owner = String(row.owner ?? "").trim();
+    if (!ruleId || !owner) continue;
+    records.push({
+      ruleId,
+      owner,
+      messageIndex: Number.isFinite(Number(row.messageIndex)) ? Number(row.messageIndex) : -1,
+      firedAt: Number.isFinite(Number(row.firedAt)) ? Number(row.firedAt) : 0,
+    });
+  }
+  return records;
+}
+
+function writeTriggerHistory(context: STContext, records: TriggerFiredRecord[]): void {
+  if (!context.chatMetadata || typeof context.chatMetadata !== "object") {
+    context.chatMetadata = {};
+  }
+  context.chatMetadata[TRIGGER_HISTORY_METADATA_KEY] = records.slice(-MAX_TRIGGER_HISTORY);
+  context.saveMetadataDebounced?.();
+}
+
+export function recordTriggerFirings(context: STContext, firings: TriggerFiring[], messageIndex: number): void {
+  if (!firings.length) return;
+  const now = Date.now();
+  writeTriggerHistory(context, [
+    ...readTriggerHistory(context),
+    ...firings.map(firing => ({ ruleId: firing.rule.id, owner: firing.owner, messageIndex, firedAt: now })),
+  ]);
+}
+
+export function rearmTriggers(context: STContext, ruleId?: string): number {
+  const history = readTriggerHistory(context);
+  const kept = ruleId ? history.filter(record => record.ruleId !== ruleId) : [];
+  const removed = history.length - kept.length;
+  if (removed > 0) writeTriggerHistory(context, kept);
+  return removed;
+}
+
+export function readPendingTriggerNotes(context: STContext | null): string[] {
+  const raw = context?.chatMetadata?.[PENDING_TRIGGER_NOTES_METADATA_KEY];
+  if (!Array.isArray(raw)) return [];
+  return raw.map(item => String(item ?? "").trim()).filter(Boolean);
+}
+
+export function queueTriggerNotes(context: STContext, notes: string[]): void {
+  const cleaned = notes.map(note => note.trim()).filter(Boolean);
+  if (!cleaned.length) return;
+  if (!context.chatMetadata || typeof context.chatMetadata !== "object") {
+    context.chatMetadata = {};
+  }
+  context.chatMetadata[PENDING_TRIGGER_NOTES_METADATA_KEY] = [
+    ...readPendingTriggerNotes(context),
+    ...cleaned,
+  ].slice(-MAX_PENDING_TRIGGER_NOTES);
+  context.saveMetadataDebounced?.();
+}
+
+export function clearPendingTriggerNotes(context: STContext): boolean {
+  if (!readPendingTriggerNotes(context).length) return false;
+  delete context.chatMetadata?.[PENDING_TRIGGER_NOTES_METADATA_KEY];
+  context.saveMetadataDebounced?.();
+  return true;
+}
+
+export function describeTriggerRule(rule: TriggerRule): string {
+  const owner = rule.owner.trim() || "anyone";
+  const condition = rule.condition === "becomes"
+    ? `becomes "${rule.value}"`
+    : `crosses ${rule.condition === "crosses_above" ? "above" : "below"} ${rule.threshold}`;
+  return `When ${rule.stat} for ${owner} ${condition}`;
+}
@@ -4,7 +4,8 @@ export type StatKey = (typeof STAT_KEYS)[number];
 export type NumericStatKey = "affection" | "trust" | "desire" | "connection";
 export type TextStatKey = "mood" | "lastThought";
 export type CustomStatKey = string;
-export type CustomStatKind = "numeric" | "enum_single" | "boolean" | "text_short" | "array" | "date_time";
+export type CustomStatKind = "numeric" | "enum_single" | "boolean" | "text_short" | "array" | "date_time" | "computed";
+export type ComputedStatResult = "number" | "boolean" | "text";
 export type DateTimeMode = "timestamp" | "structured";
 export type CustomNonNumericValue = string | boolean | string[];
 export type MoodLabel =
@@ -27,6 +28,13 @@ export type MoodSource = "bst_images" | "st_expressions";
 export type SceneCardPosition = "above_tracker_cards" | "above_message";
 export type SceneCardLayout = "chips" | "rows";
 export type SceneStatLayout = "auto" | "chips" | "rows";
+export type ActivityCueLanguage = "en" | "de" | "es" | "ja" | "pl";
+export type ActiveCharacterPin = "active" | "inactive";
+export type PresenceMergePolicy = "prefer_model" | "union" | "intersection";
+export interface PresenceVerdict {
+  present: boolean;
+  reason: string;
+}
 export interface SceneCardStatDisplayOptions {
   visible: boolean;
   showLabel: boolean;
@@ -54,6 +62,7 @@ export type StatValue = number | string;
 export type CharacterStatMap = Record<string, StatValue>;
 export type Statistics = Record<StatKey, CharacterStatMap>;
 export type CustomStatistics = Record<CustomStatKey, Record<string, number>>;
+export type PairStatistics = Record<string, Record<string, number>>;
 export type CustomNonNumericStatistics = Record<CustomStatKey, Record<string, CustomNonNumericValue>>;
 export type ClearedOwnerMap = Record<string, true>;
 export type ClearedStatistics = Partial<Record<StatKey, ClearedOwnerMap>>;
@@ -73,6 +82,10 @@ export interface CustomStatDefinition {
   booleanFalseLabel?: string;
   textMaxLength?: number;
   dateTimeMode?: DateTimeMode;
+  formula?: string;
+  computedResult?: ComputedStatResult;
+  decay?: StatDecayConfig;
+  constraints?: StatConstraint[];
   track: boolean;
   trackCharacters?: boolean;
   trackUser?: boolean;
@@ -88,6 +101,28 @@ export interface CustomStatDefinition {
   sequentialPromptTemplate?: string;
 }
 
+export type StatDecayMode = "turns" | "time";
+
+export interface StatDecayConfig {
+  mode: StatDecayMode;
+  baseline: number;
+  amount: number;
+  intervalHours: number;
+}
+
+export type BuiltInStatDecay = Partial<Record<NumericStatKey, StatDecayConfig>>;
+
+export type StatConstraintBound = "max" | "min" | "equals";
+
+export interface StatConstraint {
+  stat: string;
+  bound: StatConstraintBound;
+  expression: string;
+  when: string;
+}
+
+export type BuiltInStatConstraints = Partial<Record<NumericStatKey, StatConstraint[]>>;
+
 export interface BuiltInNumericStatUiConfig {
   showOnCard: boolean;
   showInGraph: boolean;
@@ -96,15 +131,107 @@ export interface BuiltInNumericStatUiConfig {
 
 export type BuiltInNumericStatUiSettings = Record<NumericStatKey, BuiltInNumericStatUiConfig>;
 
+export interface BuiltInStatOverride {
+  label?: string;
+  description?: string;
+  color?: string;
+}
+
+export type BuiltInStatOverrides = Partial<Record<StatKey, BuiltInStatOverride>>;
+
+export interface StatChangeLogEntry {
+  owner: string;
+  stat: string;
+  previous: number;
+  rawDelta: number;
+  confidence: number;
+  confidenceScale: number;
+  maxDelta: number;
+  clampedDelta: number;
+  scaledDelta: number;
+  final: number;
+  reason?: string;
+  ruleDeltas?: StatRuleDelta[];
+  ruleOnly?: boolean;
+  edited?: boolean;
+}
+
+export type StatRuleKind = "match" | "drift" | "cap";
+export type StatRulePhase = "before" | "after";
+export type StatRuleSource = "latest" | "user";
+export type StatRuleCapMode = "at_most" | "at_least";
+
+export interface StatRule {
+  id: string;
+  label: string;
+  enabled: boolean;
+  stat: string;
+  owner: string;
+  kind: StatRuleKind;
+  phase: StatRulePhase;
+  source: StatRuleSource;
+  pattern: string;
+  delta: number;
+  baseline: number;
+  amount: number;
+  capStat: string;
+  capOffset: number;
+  capMode: StatRuleCapMode;
+}
+
+export interface StatRuleDelta {
+  ruleId: string;
+  label: string;
+  phase: StatRulePhase;
+  delta: number;
+}
+
+export interface StatRuleApplication extends StatRuleDelta {
+  owner: string;
+  stat: string;
+  previous: number;
+  next: number;
+}
+
+export type TriggerCondition = "crosses_above" | "crosses_below" | "becomes";
+export type TriggerActionType = "system_message" | "inject_note" | "slash_command" | "set_stat";
+
+export interface TriggerAction {
+  type: TriggerActionType;
+  text: string;
+  statId?: string;
+}
+
+export interface TriggerRule {
+  id: string;
+  label: string;
+  enabled: boolean;
+  stat: string;
+  owner: string;
+  condition: TriggerCondition;
+  threshold: number;
+  value: string;
+  actions: TriggerAction[];
+}
+
+export interface TriggerFiredRecord {
+  ruleId: string;
+  owner: string;
+  messageIndex: number;
+  firedAt: number;
+}
+
 export interface TrackerData {
   timestamp: number;
   activeCharacters: string[];
   statistics: Statistics;
   customStatistics?: CustomStatistics;
   customNonNumericStatistics?: CustomNonNumericStatistics;
+  pairStatistics?: PairStatistics;
   clearedStatistics?: ClearedStatistics;
   clearedCustomStatistics?: ClearedCustomStatistics;
   clearedCustomNonNumericStatistics?: ClearedCustomNonNumericStatistics;
+  changeLog?: StatChangeLogEntry[];
 }
 
 export interface BetterSimTrackerSettings {
@@ -125,11 +252,19 @@ export interface BetterSimTrackerSettings {
   maxDeltaPerTurn: number;
   maxTokensOverride: number;
   truncationLengthOverride: number;
+  connectionProfileRoutes: ConnectionProfileRoute[];
   includeCharacterCardsInPrompt: boolean;
   confidenceDampening: number;
   moodStickiness: number;
   strictJsonRepair: boolean;
+  structuredOutput: boolean;
+  extractionCacheEnabled: boolean;
+  extractionCacheMaxEntries: number;
+  extractionCacheTtlHours: number;
+  requestChangeReasons: boolean;
   maxRetriesPerStat: number;
+  extractionBudgetMaxRequests: number;
+  extractionBudgetMaxPromptChars: number;
   showLastThought: boolean;
   collapseCardsByDefault: boolean;
   showInactive: boolean;
@@ -150,6 +285,13 @@ export interface BetterSimTrackerSettings {
   regenerateOnMessageEdit: boolean;
   generateOnGreetingMessages: boolean;
   activityLookback: number;
+  activityCueLanguages: ActivityCueLanguage[];
+  activityCueDepartureVerbs: string[];
+  activityCueArrivalVerbs: string[];
+  activityCuePlaces: string[];
+  activityCueNegations: string[];
+  modelAssistedPresence: boolean;
+  presenceMergePolicy: PresenceMergePolicy;
   trackAffection: boolean;
   trackTrust: boolean;
   trackDesire: boolean;
@@ -162,6 +304,14 @@ export interface BetterSimTrackerSettings {
   userTrackLastThought: boolean;
   includeUserTrackerInInjection: boolean;
   builtInNumericStatUi: BuiltInNumericStatUiSettings;
+  builtInStatOverrides: BuiltInStatOverrides;
+  builtInStatDecay: BuiltInStatDecay;
+  builtInStatConstraints: BuiltInStatConstraints;
+  decayClockStat: string;
+  pairwiseStats: string[];
+  injectPairwiseRelations: boolean;
+  triggerRules: TriggerRule[];
+  statRules: StatRule[];
   moodSource: MoodSource;
   moodExpressionMap: MoodExpressionMap;
   stExpressionImageZoom: number;
@@ -254,6 +404,8 @@ export interface GenerateRequestMeta {
   responseMeta?: Record<string, unknown>;
   timestamp: number;
   error?: string;
+  cacheHit?: boolean;
+  cacheKey?: string;
 }
 
 export interface ConnectionProfileOption {
@@ -261,12 +413,20 @@ export interface ConnectionProfileOption {
   label: string;
 }
 
+export interface ConnectionProfileRoute {
+  target: string;
+  profileId: string;
+  maxTokens: number;
+  truncationLength: number;
+}
+
 export interface ChatMessage {
   mes: string;
   name?: string;
   is_user?: boolean;
   is_system?: boolean;
   swipe_id?: number;
+  swipes?: string[];
   extra?: Record<string, unknown>;
 }
 
@@ -304,6 +464,8 @@ export interface STContext {
   event_types?: Record<string, string>;
   addOneMessage?: (message: ChatMessage, options?: Record<string, unknown>) => void;
   sendSystemMessage?: (type: string, text?: string, extra?: Record<string, unknown>) => void;
+  executeSlashCommandsWithOptions?: (text: string, options?: Record<string, unknown>) => Promise<unknown>;
+  executeSlashCommands?: (text: string) => Promise<unknown>;
   saveChat?: () => Promise<void> | void;
   saveChatDebounced?: () => void;
   saveSettingsDebounced?: () => void;
@@ -395,6 +557,10 @@ export interface DeltaDebugRecord {
     extractionMode: "unified" | "sequential";
     retryUsed: boolean;
     firstParseHadValues: boolean;
+    salvage?: Array<{ label: string; missing: Array<{ stat: string; owners: string[] }>; narrowedRetry: boolean }>;
+    cache?: { enabled: boolean; forceFresh: boolean; hits: number; misses: number };
+    ruleAdjustments?: StatRuleApplication[];
+    pairwiseError?: string;
     rawLength: number;
     parsedCounts: {
       confidence: number;
@@ -418,7 +584,7 @@ export interface DeltaDebugRecord {
       customNonNumericByStat?: Record<string, number>;
     };
     moodFallbackApplied?: string[];
-    requests?: Array<GenerateRequestMeta & { statList: string[]; attempt: number; retryType: string }>;
+    requests?: Array<GenerateRequestMeta & { statList: string[]; attempt: number; retryType: string; route?: string }>;
     scopeResolution?: {
       current?: Record<string, Record<string, {
         globalScope: boolean;
@@ -442,9 +608,31 @@ export interface DeltaDebugRecord {
       }>;
     };
   };
+  replay?: ExtractionReplayCapture;
   trace?: string[];
 }
 
+export interface ExtractionReplayCapture {
+  settings: BetterSimTrackerSettings;
+  userName: string;
+  activeCharacters: string[];
+  preferredCharacterName?: string;
+  contextText: string;
+  latestMessageText?: string;
+  latestUserMessageText?: string;
+  previousStatistics: Statistics | null;
+  previousCustomStatistics: CustomStatistics | null;
+  previousCustomStatisticsRaw: CustomStatistics | null;
+  previousCustomNonNumericStatistics: CustomNonNumericStatistics | null;
+  previousPairStatistics?: PairStatistics | null;
+  presenceCandidates?: string[];
+  hasPriorTrackerData: boolean;
+  history: TrackerData[];
+  bypassConfidenceControls: boolean;
+  ownerStatDisabled: Record<string, string[]>;
+  responses: Record<string, string>;
+}
+
 declare global {
   interface Window {
     BetterSimTracker?: {
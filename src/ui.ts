@@ -1,13 +1,14 @@
 import { CUSTOM_STAT_ID_REGEX, GLOBAL_TRACKER_KEY, MAX_CUSTOM_STATS, RESERVED_CUSTOM_STAT_IDS, STYLE_ID, USER_TRACKER_KEY } from "./constants";
+import { applyActiveCharacterPinsToNames } from "./activity";
 import { resolveCharacterDefaultsEntry } from "./characterDefaults";
 import { generateJson } from "./generator";
 import { logDebug } from "./settings";
 import type {
+  ActiveCharacterPin,
   BetterSimTrackerSettings,
   BuiltInNumericStatUiSettings,
   ConnectionProfileOption,
   CustomNonNumericValue,
-  CustomStatKind,
   CustomStatDefinition,
   DateTimeMode,
   DeltaDebugRecord,
@@ -50,6 +51,7 @@ import { closeMoodImageModal, openMoodImageModal } from "./moodImageModal";
 import { closeEditStatsModal, openEditStatsModal, type EditStatsPayload } from "./editStatsModal";
 import { closeGraphModal, openGraphModal } from "./graphModal";
 import { getAllNumericStatDefinitions } from "./statRegistry";
+import { describeStatChange, findStatChangeLogEntry } from "./changeLog";
 import { getDateTimeStructuredParts, normalizeDateTimeValue, toDateTimeInputValue } from "./dateTime";
 import { renderThoughtMarkup } from "./uiThought";
 import { formatDateTimeTimestampDisplay, renderDateTimeStructuredChips } from "./uiDateTimeDisplay";
@@ -66,11 +68,14 @@ import {
   MAX_CUSTOM_ARRAY_ITEMS,
   normalizeCustomEnumOptions,
   normalizeCustomStatDefaultValue,
+  normalizeComputedStatResult,
   normalizeCustomStatKind,
   normalizeCustomTextMaxLength,
   normalizeNonNumericArrayItems,
+  resolveCustomStatValueKind,
   resolveEnumOption,
   hasScriptLikeContent,
+  type CustomStatValueKind,
 } from "./customStatRuntime";
 
 type UiNumericStatDefinition = {
@@ -89,7 +94,8 @@ type UiNumericStatDefinition = {
 type UiNonNumericStatDefinition = {
   id: string;
   label: string;
-  kind: Exclude<CustomStatKind, "numeric">;
+  kind: Exclude<CustomStatValueKind, "numeric">;
+  computed: boolean;
   defaultValue: string | boolean | string[];
   enumOptions: string[];
   booleanTrueLabel: string;
@@ -170,14 +176,14 @@ export function getNonNumericStatDefinitions(settings: BetterSimTrackerSettings)
   const defs = Array.isArray(settings.customStats) ? settings.customStats : [];
   return defs
     .filter(def => {
-      if (normalizeCustomStatKind(def.kind) === "numeric") return false;
+      if (resolveCustomStatValueKind(def) === "numeric") return false;
       const track = Boolean(def.track);
       const trackCharacters = Boolean(def.trackCharacters ?? def.track);
       const trackUser = Boolean(def.trackUser ?? def.track);
       return track && (trackCharacters || trackUser);
     })
     .map(def => {
-      const kind = normalizeCustomStatKind(def.kind) as Exclude<CustomStatKind, "numeric">;
+      const kind = resolveCustomStatValueKind(def) as Exclude<CustomStatValueKind, "numeric">;
       const trackCharacters = Boolean(def.trackCharacters ?? def.track);
       const trackUser = Boolean(def.trackUser ?? def.track);
       const enumOptions = normalizeCustomEnumOptions(def.enumOptions);
@@ -196,6 +202,7 @@ export function getNonNumericStatDefinitions(settings: BetterSimTrackerSettings)
         id: String(def.id ?? "").trim().toLowerCase(),
         label: String(def.label ?? "").trim() || String(def.id ?? "").trim(),
         kind,
+        computed: def.kind === "computed",
         defaultValue,
         enumOptions,
         booleanTrueLabel,
@@ -441,6 +448,7 @@ const expandedTrackerMessages = new Set<number>();
 const collapsedSceneMessages = new Set<number>();
 const expandedThoughtKeys = new Set<string>();
 const expandedArrayValueKeys = new Set<string>();
+const expandedChangeKeys = new Set<string>();
 const renderedCardKeys = new Set<string>();
 export const EDIT_STATS_BACKDROP_CLASS = "bst-edit-backdrop";
 export const EDIT_STATS_MODAL_CLASS = "bst-edit-modal";
@@ -754,6 +762,16 @@ function getResolvedCardColor(settings: BetterSimTrackerSettings, characterName:
   return normalizeHexColor((entry as Record<string, unknown>).cardColor);
 }
 
+export function resolveOwnerGraphColor(settings: BetterSimTrackerSettings, owner: string): string {
+  const cardColor = (owner === USER_TRACKER_KEY ? normalizeHexColor(settings.userCardColor) : null)
+    ?? (owner === GLOBAL_TRACKER_KEY ? normalizeHexColor(settings.sceneCardColor) : null)
+    ?? getResolvedCardColor(settings, owner)
+    ?? getStableAutoCardColor(owner);
+  const rgb = hexToRgb(cardColor);
+  if (!rgb) return cardColor;
+  return relativeLuminance(rgb) < 0.2 ? rgbToHex(mixRgb(rgb, { r: 255, g: 255, b: 255 }, 0.45)) : cardColor;
+}
+
 function thoughtKey(messageIndex: number, characterName: string): string {
   return `${messageIndex}:${normalizeName(characterName)}`;
 }
@@ -810,6 +828,7 @@ function sanitizeStExpressionImageOptions(raw: unknown, fallback: StExpressionIm
 
 export function cloneCustomStatDefinition(definition: CustomStatDefinition): CustomStatDefinition {
   const kind = normalizeCustomStatKind(definition.kind);
+  const valueKind = resolveCustomStatValueKind(definition);
   const enumOptions = normalizeCustomEnumOptions(definition.enumOptions);
   const textMaxLength = normalizeCustomTextMaxLength(definition.textMaxLength);
   const booleanTrueLabel = String(definition.booleanTrueLabel ?? "enabled").trim().slice(0, 40) || "enabled";
@@ -827,24 +846,29 @@ export function cloneCustomStatDefinition(definition: CustomStatDefinition): Cus
       enumOptions,
       textMaxLength,
       dateTimeMode: definition.dateTimeMode,
+      computedResult: definition.computedResult,
     }),
     maxDeltaPerTurn: kind === "numeric"
       ? (definition.maxDeltaPerTurn === undefined ? undefined : Number(definition.maxDeltaPerTurn))
       : undefined,
     enumOptions: kind === "enum_single" ? enumOptions : undefined,
-    booleanTrueLabel: kind === "boolean" ? booleanTrueLabel : undefined,
-    booleanFalseLabel: kind === "boolean" ? booleanFalseLabel : undefined,
-    textMaxLength: kind === "text_short" || kind === "array" ? textMaxLength : undefined,
+    booleanTrueLabel: valueKind === "boolean" ? booleanTrueLabel : undefined,
+    booleanFalseLabel: valueKind === "boolean" ? booleanFalseLabel : undefined,
+    textMaxLength: valueKind === "text_short" || kind === "array" ? textMaxLength : undefined,
     dateTimeMode: kind === "date_time"
       ? (definition.dateTimeMode === "structured" ? "structured" : "timestamp")
       : undefined,
+    formula: kind === "computed" ? String(definition.formula ?? "") : undefined,
+    computedResult: kind === "computed" ? normalizeComputedStatResult(definition.computedResult) : undefined,
+    decay: kind === "numeric" && definition.decay ? { ...definition.decay } : undefined,
+    constraints: definition.constraints?.map(constraint => ({ ...constraint })),
     track: Boolean(definition.track),
     trackCharacters: Boolean(definition.globalScope ? true : (definition.trackCharacters ?? definition.track)),
     trackUser: Boolean(definition.globalScope ? true : (definition.trackUser ?? definition.track)),
     globalScope: Boolean(definition.globalScope),
     privateToOwner: Boolean(definition.globalScope ? false : definition.privateToOwner),
     showOnCard: Boolean(definition.showOnCard),
-    showInGraph: kind === "numeric" && Boolean(definition.showInGraph),
+    showInGraph: valueKind === "numeric" && Boolean(definition.showInGraph),
     includeInInjection: Boolean(definition.includeInInjection),
     color: typeof definition.color === "string" ? definition.color : undefined,
     promptOverride: typeof definition.promptOverride === "string"
@@ -1448,7 +1472,8 @@ export function ensureStyles(): void {
     0 10px 20px rgba(0,0,0,0.33),
     0 0 0 1px rgba(255,255,255,0.07) inset;
 }
-.bst-root-actions .bst-root-action-summary {
+.bst-root-actions .bst-root-action-summary,
+.bst-root-actions .bst-root-action-pins {
   width: 32px;
   min-width: 32px;
   height: 32px;
@@ -1464,14 +1489,24 @@ export function ensureStyles(): void {
     0 8px 18px rgba(0,0,0,0.30),
     0 0 0 1px rgba(255,255,255,0.06) inset;
 }
-.bst-root-actions .bst-root-action-summary:hover {
+.bst-root-actions .bst-root-action-summary:hover,
+.bst-root-actions .bst-root-action-pins:hover {
   border-color: color-mix(in srgb, var(--bst-accent) 76%, #ffffff 24%);
   filter: brightness(1.07);
   transform: translateY(-1px);
 }
-.bst-root-actions .bst-root-action-summary:active {
+.bst-root-actions .bst-root-action-summary:active,
+.bst-root-actions .bst-root-action-pins:active {
   transform: translateY(1px);
 }
+.bst-root-actions .bst-root-action-pins {
+  font-size: 12px;
+  opacity: 0.8;
+}
+.bst-root-actions .bst-root-action-pins.is-pinned {
+  opacity: 1;
+  color: var(--bst-accent);
+}
 .bst-root-actions .bst-root-action-summary.is-loading {
   cursor: progress;
   opacity: 0.86;
@@ -1508,6 +1543,7 @@ export function ensureStyles(): void {
 }
 .bst-root-actions .bst-root-action-retrack:focus-visible,
 .bst-root-actions .bst-root-action-summary:focus-visible,
+.bst-root-actions .bst-root-action-pins:focus-visible,
 .bst-root-actions .bst-root-action-main:focus-visible {
   outline: 2px solid rgba(125, 211, 252, 0.88);
   outline-offset: 1px;
@@ -1554,6 +1590,14 @@ export function ensureStyles(): void {
   align-items: center;
   transform: translateY(1px);
 }
+.bst-pin-icon {
+  margin-left: 6px;
+  font-size: 10px;
+  opacity: 0.85;
+}
+.bst-state.is-pinned {
+  box-shadow: 0 0 0 1px color-mix(in srgb, var(--bst-accent) 70%, transparent);
+}
 .bst-head {
   display: flex;
   align-items: center;
@@ -1666,6 +1710,40 @@ export function ensureStyles(): void {
   font-size: 11px;
   opacity: 0.75;
 }
+.bst-change-why {
+  margin-left: 6px;
+  width: 16px;
+  height: 16px;
+  padding: 0;
+  border-radius: 50%;
+  border: 1px solid rgba(255,255,255,0.28);
+  background: rgba(255,255,255,0.06);
+  color: inherit;
+  font-size: 10px;
+  line-height: 14px;
+  cursor: pointer;
+  opacity: 0.75;
+}
+.bst-change-why:hover,
+.bst-change-why[aria-expanded="true"] {
+  opacity: 1;
+  border-color: var(--bst-accent);
+}
+.bst-change-popover {
+  margin-top: 6px;
+  padding: 6px 8px;
+  border-radius: 8px;
+  border: 1px solid rgba(255,255,255,0.16);
+  background: rgba(0,0,0,0.35);
+  font-size: 0.85em;
+  line-height: 1.35;
+  display: grid;
+  gap: 2px;
+}
+.bst-change-popover-title {
+  font-weight: 600;
+  opacity: 0.85;
+}
 .bst-array-toggle {
   border: 1px solid rgba(255,255,255,0.34);
   background: rgba(14, 20, 30, 0.82);
@@ -2736,6 +2814,38 @@ export function ensureStyles(): void {
 .bst-custom-stats-status.is-info {
   color: #b8cae8;
 }
+.bst-active-overrides-state.is-inactive {
+  opacity: 0.7;
+}
+.bst-active-overrides-reason {
+  font-size: 11px;
+  opacity: 0.8;
+  text-align: left;
+}
+.bst-activity-cue-bench {
+  grid-column: 1 / -1;
+}
+.bst-activity-cue-results {
+  display: grid;
+  gap: 6px;
+  margin-top: 8px;
+}
+.bst-activity-cue-result {
+  display: flex;
+  flex-wrap: wrap;
+  align-items: baseline;
+  gap: 4px 10px;
+  padding: 6px 10px;
+  border-radius: 8px;
+  border-left: 3px solid #7bf2b6;
+  background: rgba(255, 255, 255, 0.04);
+}
+.bst-activity-cue-result.is-inactive {
+  border-left-color: #ff9ea0;
+}
+.bst-activity-cue-result .bst-help-line {
+  flex-basis: 100%;
+}
 .bst-custom-import-box {
   width: min(860px, 94vw);
   max-width: 100%;
@@ -2780,6 +2890,17 @@ export function ensureStyles(): void {
   border: 1px solid rgba(255,255,255,0.12);
   background: rgba(11, 16, 27, 0.58);
 }
+.bst-route-fields {
+  min-width: 0;
+  display: grid;
+  grid-template-columns: repeat(4, minmax(0, 1fr));
+  gap: 8px;
+}
+.bst-route-fields label {
+  display: grid;
+  gap: 4px;
+  font-size: 12px;
+}
 .bst-custom-stat-main {
   min-width: 0;
   display: grid;
@@ -3438,6 +3559,90 @@ export function ensureStyles(): void {
   border-radius: 10px;
   background: #0d1220;
 }
+.bst-graph-svg {
+  cursor: crosshair;
+  touch-action: pan-y;
+  user-select: none;
+}
+.bst-graph-export {
+  display: inline-flex;
+  align-items: center;
+  gap: 4px;
+  font-size: 11px;
+}
+.bst-graph-export .bst-btn {
+  font-size: 11px;
+  padding: 3px 8px;
+}
+.bst-graph-hint {
+  margin-top: 4px;
+  min-height: 14px;
+  font-size: 11px;
+  opacity: 0.7;
+}
+.bst-relations-section {
+  margin-bottom: 12px;
+  overflow-x: auto;
+}
+.bst-relations-stat {
+  font-size: 13px;
+  font-weight: 600;
+  margin-bottom: 6px;
+}
+.bst-relations-table {
+  border-collapse: collapse;
+  font-size: 12px;
+}
+.bst-relations-table th,
+.bst-relations-table td {
+  border: 1px solid rgba(255,255,255,0.12);
+  padding: 4px 8px;
+  text-align: center;
+  white-space: nowrap;
+}
+.bst-relations-table th[scope="row"] {
+  text-align: left;
+}
+.bst-relations-self,
+.bst-relations-empty {
+  opacity: 0.45;
+}
+.bst-relations-web-svg {
+  width: 100%;
+  height: auto;
+  border: 1px solid rgba(255,255,255,0.12);
+  border-radius: 10px;
+  background: #0d1220;
+}
+.bst-relations-web-node text {
+  fill: #f3f5f9;
+  font-size: 12px;
+}
+.bst-relations-web-node.is-inactive {
+  opacity: 0.4;
+}
+.bst-relations-web-timeline {
+  display: flex;
+  align-items: center;
+  gap: 10px;
+  margin-top: 8px;
+  font-size: 12px;
+}
+.bst-relations-web-scrubber {
+  flex: 1;
+}
+.bst-graph-zoom-reset {
+  font-size: 11px;
+  padding: 3px 8px;
+}
+.bst-graph-lanes {
+  display: block;
+  width: 100%;
+  margin-top: 6px;
+  border: 1px solid rgba(255,255,255,0.12);
+  border-radius: 10px;
+  background: #0d1220;
+}
 .bst-graph-tooltip {
   position: absolute;
   pointer-events: none;
@@ -3504,6 +3709,83 @@ export function ensureStyles(): void {
   align-items: center;
   gap: 5px;
 }
+.bst-graph-milestones {
+  margin-top: 12px;
+  border-top: 1px solid rgba(255,255,255,0.12);
+  padding-top: 10px;
+}
+.bst-graph-milestones-head {
+  display: flex;
+  align-items: baseline;
+  justify-content: space-between;
+  gap: 8px;
+  margin-bottom: 6px;
+}
+.bst-graph-milestones-title {
+  font-size: 13px;
+  font-weight: 600;
+}
+.bst-graph-milestones-status {
+  font-size: 11px;
+  opacity: 0.75;
+}
+.bst-graph-milestone-list {
+  display: grid;
+  gap: 4px;
+  max-height: 220px;
+  overflow-y: auto;
+}
+.bst-graph-milestone {
+  display: grid;
+  grid-template-columns: auto 1fr auto;
+  align-items: center;
+  gap: 8px;
+  text-align: left;
+  font-size: 12px;
+  color: inherit;
+  background: rgba(255,255,255,0.04);
+  border: 1px solid rgba(255,255,255,0.08);
+  border-radius: 8px;
+  padding: 5px 8px;
+  cursor: pointer;
+}
+.bst-graph-milestone:hover {
+  background: rgba(255,255,255,0.1);
+}
+.bst-graph-milestone-index {
+  font-variant-numeric: tabular-nums;
+  opacity: 0.7;
+}
+.bst-graph-milestone-detail {
+  opacity: 0.8;
+  font-variant-numeric: tabular-nums;
+}
+.bst-graph-milestones-empty {
+  font-size: 11px;
+  opacity: 0.7;
+}
+.bst-message-flash {
+  outline: 2px solid rgba(255,255,255,0.45);
+  outline-offset: 2px;
+  border-radius: 8px;
+  transition: outline-color 0.6s ease;
+}
+.bst-graph-legend-toggle {
+  display: inline-flex;
+  align-items: center;
+  gap: 5px;
+  font-size: 11px;
+  color: inherit;
+  background: rgba(255,255,255,0.05);
+  border: 1px solid rgba(255,255,255,0.12);
+  border-radius: 999px;
+  padding: 2px 8px;
+  cursor: pointer;
+}
+.bst-graph-legend-toggle.is-hidden {
+  opacity: 0.45;
+  text-decoration: line-through;
+}
 .bst-legend-dot {
   width: 9px;
   height: 9px;
@@ -3711,7 +3993,8 @@ export function ensureStyles(): void {
     min-width: 28px;
     height: 28px;
   }
-  .bst-root-action-summary {
+  .bst-root-action-summary,
+  .bst-root-action-pins {
     width: 28px;
     min-width: 28px;
     height: 28px;
@@ -3835,6 +4118,9 @@ export function ensureStyles(): void {
   .bst-custom-stat-row {
     grid-template-columns: minmax(0, 1fr);
   }
+  .bst-route-fields {
+    grid-template-columns: repeat(2, minmax(0, 1fr));
+  }
   .bst-custom-stat-actions {
     width: 100%;
     display: grid;
@@ -3927,6 +4213,22 @@ export function safeSetLocalStorage(key: string, value: string): void {
   }
 }
 
+export function downloadTextFile(fileName: string, text: string, mimeType = "text/plain"): void {
+  downloadBlobFile(fileName, new Blob([text], { type: `${mimeType};charset=utf-8` }));
+}
+
+export function downloadBlobFile(fileName: string, blob: Blob): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.style.display = "none";
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
 function findMessageContainer(messageIndex: number | null): HTMLElement | null {
   if (messageIndex == null) return null;
   const selectors = [
@@ -3942,6 +4244,15 @@ function findMessageContainer(messageIndex: number | null): HTMLElement | null {
   return null;
 }
 
+export function scrollToChatMessage(messageIndex: number): boolean {
+  const container = findMessageContainer(messageIndex);
+  if (!container) return false;
+  container.scrollIntoView({ behavior: "smooth", block: "center" });
+  container.classList.add("bst-message-flash");
+  setTimeout(() => container.classList.remove("bst-message-flash"), 1600);
+  return true;
+}
+
 function getPreferredTrackerMount(anchor: HTMLElement): HTMLElement {
   return (
     (anchor.querySelector(".mes_block") as HTMLElement | null) ??
@@ -4016,6 +4327,8 @@ export function renderTracker(
   resolveEntryData?: (messageIndex: number) => TrackerData | null,
   onRequestRerender?: () => void,
   onRecoverTracker?: (messageIndex: number) => void,
+  activePins?: Record<string, ActiveCharacterPin>,
+  onOpenActiveOverrides?: () => void,
 ): void {
   ensureStyles();
   const palette = allocateCharacterColors(allCharacters);
@@ -4272,6 +4585,19 @@ export function renderTracker(
           }
           return;
         }
+        const changeToggle = target?.closest('[data-bst-action="explain-change"]') as HTMLElement | null;
+        if (changeToggle) {
+          const key = String(changeToggle.getAttribute("data-bst-change-key") ?? "").trim();
+          if (!key) return;
+          if (expandedChangeKeys.has(key)) {
+            expandedChangeKeys.delete(key);
+          } else {
+            expandedChangeKeys.add(key);
+          }
+          root.dataset.bstRenderSignature = "";
+          onRequestRerender?.();
+          return;
+        }
         const arrayToggle = target?.closest('[data-bst-action="toggle-array-values"]') as HTMLElement | null;
         if (arrayToggle) {
           const key = String(arrayToggle.getAttribute("data-bst-array-key") ?? "").trim();
@@ -4330,6 +4656,11 @@ export function renderTracker(
           }
           return;
         }
+        const overrides = target?.closest('[data-bst-action="active-overrides"]') as HTMLElement | null;
+        if (overrides) {
+          onOpenActiveOverrides?.();
+          return;
+        }
         const recover = target?.closest('[data-bst-action="recover-tracker"]') as HTMLElement | null;
         if (recover) {
           const idx = Number(root.dataset.messageIndex);
@@ -4571,7 +4902,11 @@ export function renderTracker(
     const summaryBusy = Boolean(showSummaryAction && summaryBusyMessageIndices?.has(entry.messageIndex));
     const userMessageEntry = Boolean(isUserMessageIndex?.(entry.messageIndex));
     const collapsed = isMessageCollapsed(entry.messageIndex);
-    const activeSet = new Set(data.activeCharacters.map(normalizeName));
+    const entryPins = !userMessageEntry && entry.messageIndex === latestTrackedAiMessageIndex ? activePins ?? {} : {};
+    const pinByName = new Map(Object.entries(entryPins).map(([name, pin]) => [normalizeName(name), pin]));
+    const effectiveActiveCharacters = applyActiveCharacterPinsToNames(data.activeCharacters, entryPins);
+    const activeSet = new Set(effectiveActiveCharacters.map(normalizeName));
+    const showOverridesAction = Boolean(onOpenActiveOverrides) && !userMessageEntry && entry.messageIndex === latestTrackedAiMessageIndex;
     const allNumericDefs = getNumericStatDefinitions(settings);
     const cardNumericDefs = allNumericDefs.filter(def => def.showOnCard);
     const allNonNumericDefs = getNonNumericStatDefinitions(settings);
@@ -4646,9 +4981,9 @@ export function renderTracker(
           ? mergedCharacters
           : dataCharacterNames.length > 0
             ? dataCharacterNames
-            : data.activeCharacters)
-        : (data.activeCharacters.length > 0
-          ? data.activeCharacters
+            : effectiveActiveCharacters)
+        : (effectiveActiveCharacters.length > 0
+          ? effectiveActiveCharacters
           : dataCharacterNames);
     const scopedDisplayPool = userMessageEntry
       ? displayPool.filter(name => normalizeName(name) === normalizeName(USER_TRACKER_KEY))
@@ -4677,6 +5012,7 @@ export function renderTracker(
       `summary:${showSummaryAction ? "1" : "0"}`,
       `retrackUser:${retrackTargetsUserMessage ? "1" : "0"}`,
       `summarybusy:${summaryBusy ? "1" : "0"}`,
+      `overrides:${showOverridesAction ? "1" : "0"}:${JSON.stringify(entryPins)}`,
       `collapseDefault:${settings.collapseCardsByDefault ? "1" : "0"}`,
       `inactive:${settings.showInactive ? "1" : "0"}`,
       `thought:${settings.showLastThought ? "1" : "0"}`,
@@ -4687,6 +5023,7 @@ export function renderTracker(
     for (const name of targets) {
       const isActive = activeSet.has(normalizeName(name));
       if (!isActive && !settings.showInactive) continue;
+      const pin = pinByName.get(normalizeName(name));
       const displayName = resolveDisplayName?.(name)
         ?? (name === USER_TRACKER_KEY ? "User" : name);
       const isUserCard = name === USER_TRACKER_KEY;
@@ -4755,7 +5092,7 @@ export function renderTracker(
           <div class="bst-actions">
             ${!isUserCard ? `<button class="bst-mini-btn" data-bst-action="graph" data-character="${name}" title="Open relationship graph"><span aria-hidden="true">&#128200;</span> <span class="bst-graph-label">Graph</span></button>` : ""}
             ${canEdit ? `<button class="bst-mini-btn bst-mini-btn-icon" data-bst-action="edit-stats" data-bst-edit-message="${entry.messageIndex}" data-bst-edit-character="${escapeHtml(name)}" title="Edit last tracker stats for ${escapeHtml(displayName)}" aria-label="Edit last tracker stats for ${escapeHtml(displayName)}"><span aria-hidden="true">&#9998;</span></button>` : ""}
-            ${!isUserCard ? `<div class="bst-state" title="${isActive ? "Active" : settings.inactiveLabel}">${isActive ? "Active" : `${settings.inactiveLabel} <span class="fa-solid fa-ghost bst-inactive-icon" aria-hidden="true"></span>`}</div>` : ""}
+            ${!isUserCard ? `<div class="bst-state${pin ? " is-pinned" : ""}" title="${escapeHtml(`${isActive ? "Active" : settings.inactiveLabel}${pin ? " (pinned for this chat)" : ""}`)}">${isActive ? "Active" : `${settings.inactiveLabel} <span class="fa-solid fa-ghost bst-inactive-icon" aria-hidden="true"></span>`}${pin ? `<span class="fa-solid fa-thumbtack bst-pin-icon" aria-hidden="true"></span>` : ""}</div>` : ""}
           </div>
         </div>
         ${enabledNumeric.length || enabledNonNumeric.length || showCollapsedMood ? `
@@ -4778,10 +5115,20 @@ export function renderTracker(
           const deltaClass = delta > 0 ? "bst-delta bst-delta-up" : delta < 0 ? "bst-delta bst-delta-down" : "bst-delta bst-delta-flat";
           const showDelta = latestAiIndex != null && entry.messageIndex === latestAiIndex && hasPrevValue && hasCurrentValue;
           const rowClass = showDelta && delta !== 0 ? "bst-row bst-row-changed" : "bst-row";
+          const change = findStatChangeLogEntry(data, isNumericGlobalScope(key) ? GLOBAL_TRACKER_KEY : name, key);
+          const changeKey = `${entry.messageIndex}:${normalizeName(name)}:${key}`;
+          const changeExpanded = Boolean(change) && expandedChangeKeys.has(changeKey);
+          const changeButton = change
+            ? `<button type="button" class="bst-change-why" data-bst-action="explain-change" data-bst-change-key="${escapeHtml(changeKey)}" aria-expanded="${changeExpanded ? "true" : "false"}" title="Why did this change?" aria-label="Why did ${escapeHtml(label)} change?">?</button>`
+            : "";
+          const changePopover = change && changeExpanded
+            ? `<div class="bst-change-popover" role="note"><div class="bst-change-popover-title">Why did this change?</div>${describeStatChange(change, label, hasCurrentValue ? currentValueRaw : undefined).map(line => `<div>${escapeHtml(line)}</div>`).join("")}</div>`
+            : "";
           return `
             <div class="${rowClass}">
-              <div class="bst-label"><span>${label}</span><span>${value}%${showDelta ? `<span class="${deltaClass}">${formatDelta(delta)}</span>` : ""}</span></div>
+              <div class="bst-label"><span>${label}</span><span>${value}%${showDelta ? `<span class="${deltaClass}">${formatDelta(delta)}</span>` : ""}${changeButton}</span></div>
               <div class="bst-track"><div class="bst-fill" style="width:${value}%;--bst-stat-color:${color};"></div></div>
+              ${changePopover}
             </div>
           `;
         }).join("")}
@@ -5120,6 +5467,7 @@ export function renderTracker(
         <span class="bst-root-action-label">${collapseLabel}</span>
       </button>
       ${showSummaryAction ? `<button class="bst-mini-btn bst-mini-btn-icon bst-root-action-summary${summaryBusy ? " is-loading" : ""}" data-bst-action="send-summary" data-loading="${summaryBusy ? "true" : "false"}" title="${summaryBusy ? "Generating prose summary of current tracked stats..." : "Generate prose summary of current tracked stats and post as a Note"}" aria-label="${summaryBusy ? "Generating prose summary of current tracked stats..." : "Generate prose summary of current tracked stats and post as a Note"}"${summaryBusy ? " disabled" : ""}><span aria-hidden="true">${summaryBusy ? "&#8987;" : "&#128221;"}</span></button>` : ""}
+      ${showOverridesAction ? `<button class="bst-mini-btn bst-mini-btn-icon bst-root-action-pins${Object.keys(entryPins).length ? " is-pinned" : ""}" data-bst-action="active-overrides" title="Pin characters as always active or inactive in this chat" aria-label="Active character overrides"><span class="fa-solid fa-thumbtack" aria-hidden="true"></span></button>` : ""}
       ${showRetrackAction ? `<button class="bst-mini-btn bst-mini-btn-icon bst-mini-btn-accent bst-root-action-retrack" data-bst-action="retrack" title="${retrackTargetsUserMessage ? "Retrack this user message" : "Retrack this AI message"}" aria-label="${retrackTargetsUserMessage ? "Retrack this user message" : "Retrack this AI message"}"><span aria-hidden="true">&#x21BB;</span></button>` : ""}
     `;
     root.appendChild(actions);
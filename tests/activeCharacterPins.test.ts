@@ -0,0 +1,87 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import {
+  ACTIVE_PINS_METADATA_KEY,
+  clearActiveCharacterPins,
+  mergePresenceAnalysis,
+  readActiveCharacterPins,
+  resolveActiveCharacterAnalysis,
+  setActiveCharacterPin,
+} from "../src/activity";
+import { __testables } from "../src/promptInjection";
+import { sanitizeSettings } from "../src/settings";
+import type { STContext, TrackerData } from "../src/types";
+
+function makeGroupContext(): STContext {
+  return {
+    name1: "Alex",
+    groupId: "g1",
+    groups: [{ id: "g1", members: ["alice.png", "bob.png", "carol.png"] }],
+    characters: [
+      { name: "Alice", avatar: "alice.png" },
+      { name: "Bob", avatar: "bob.png" },
+      { name: "Carol", avatar: "carol.png" },
+    ],
+    chat: [
+      { name: "Bob", mes: "Hi." },
+      { name: "Alice", mes: "Hello." },
+    ],
+    chatMetadata: {},
+  };
+}
+
+test("active character pins persist in chat metadata and override the heuristic", () => {
+  const context = makeGroupContext();
+  let saves = 0;
+  context.saveMetadataDebounced = () => { saves += 1; };
+  const settings = sanitizeSettings({});
+
+  setActiveCharacterPin(context, "Bob", "inactive");
+  setActiveCharacterPin(context, "Carol", "active");
+  setActiveCharacterPin(context, "Alice", "active");
+  setActiveCharacterPin(context, "Alice", null);
+  assert.deepEqual(context.chatMetadata?.[ACTIVE_PINS_METADATA_KEY], { Bob: "inactive", Carol: "active" });
+  assert.equal(saves, 4);
+
+  const analysis = resolveActiveCharacterAnalysis(context, settings);
+  assert.deepEqual(analysis.activeCharacters, ["Alice", "Carol"]);
+  assert.deepEqual(analysis.pins, { Bob: "inactive", Carol: "active" });
+  assert.equal(analysis.reasons.Bob, "pinned inactive for this chat; heuristic: spoke in last 5 messages");
+  assert.equal(analysis.reasons.Carol, "pinned active for this chat; heuristic: not seen in recent activity window (5)");
+  assert.deepEqual(
+    resolveActiveCharacterAnalysis(context, { ...settings, autoDetectActive: false }).activeCharacters,
+    ["Alice", "Carol"],
+  );
+
+  const merged = mergePresenceAnalysis(analysis, {
+    Bob: { present: true, reason: "talking" },
+    Carol: { present: false, reason: "asleep" },
+    Alice: { present: false, reason: "left" },
+  }, "prefer_model");
+  assert.deepEqual(merged.activeCharacters, ["Carol"]);
+
+  assert.equal(clearActiveCharacterPins(context), 2);
+  assert.deepEqual(readActiveCharacterPins(context), {});
+  assert.deepEqual(resolveActiveCharacterAnalysis(context, settings).activeCharacters, ["Bob", "Alice"]);
+});
+
+test("prompt injection follows active character pins", () => {
+  const context = makeGroupContext();
+  const settings = sanitizeSettings({ trackAffection: true, trackTrust: false, trackDesire: false, trackConnection: false, trackMood: false, trackLastThought: false });
+  const data: TrackerData = {
+    timestamp: 1,
+    activeCharacters: ["Alice", "Bob"],
+    statistics: { affection: { Alice: 60, Bob: 40, Carol: 70 }, trust: {}, desire: {}, connection: {}, mood: {}, lastThought: {} },
+  };
+  const before = __testables.buildPrompt(data, settings, context);
+  assert.match(before, /- Bob:/);
+  assert.doesNotMatch(before, /- Carol:/);
+
+  setActiveCharacterPin(context, "Bob", "inactive");
+  setActiveCharacterPin(context, "Carol", "active");
+  const after = __testables.buildPrompt(data, settings, context);
+  assert.match(after, /- Alice:/);
+  assert.doesNotMatch(after, /- Bob:/);
+  assert.match(after, /- Carol:/);
+});
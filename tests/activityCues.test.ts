@@ -0,0 +1,68 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { simulateActivityMessage } from "../src/activity";
+import { detectActivityCue, resolveActivityCues, sanitizeActivityCueList } from "../src/activityCues";
+import { sanitizeActivityCueLanguages, sanitizeSettings } from "../src/settings";
+import type { STContext } from "../src/types";
+
+test("activity cue packs match departures, arrivals and negations across languages", () => {
+  const english = resolveActivityCues(sanitizeSettings({}));
+  assert.deepEqual(detectActivityCue("Alice went back to her room.", "Alice", english), {
+    kind: "departure",
+    verb: "went",
+    place: "her room",
+  });
+  assert.equal(detectActivityCue("Alice did not go to her room.", "Alice", english), null);
+  assert.equal(detectActivityCue("Alice wentworth stayed by the outside wall", "Alice", english), null);
+  assert.deepEqual(detectActivityCue("Alice went home. Later she walks in again", "Alice", english), {
+    kind: "arrival",
+    verb: "walks in",
+  });
+  assert.equal(detectActivityCue("Bob went home.", "Alice", english), null);
+
+  const settings = sanitizeSettings({
+    activityCueLanguages: "ja, pl, xx",
+    activityCuePlaces: "Biblioteki\nbiblioteki\n",
+  } as never);
+  assert.deepEqual(settings.activityCueLanguages, ["ja", "pl"]);
+  assert.deepEqual(settings.activityCuePlaces, ["biblioteki"]);
+  const mixed = resolveActivityCues(settings);
+  assert.equal(detectActivityCue("Alice went home.", "Alice", mixed), null);
+  assert.deepEqual(detectActivityCue("アリスは部屋に戻った。", "アリス", mixed), { kind: "departure", verb: "戻っ", place: "部屋" });
+  assert.equal(detectActivityCue("アリスは部屋に戻らなかった。", "アリス", mixed), null);
+  assert.deepEqual(detectActivityCue("Ala poszła do biblioteki.", "Ala", mixed), { kind: "departure", verb: "poszła", place: "biblioteki" });
+  assert.deepEqual(detectActivityCue("Ala weszła do kuchni.", "Ala", mixed), { kind: "arrival", verb: "weszła" });
+  assert.deepEqual(sanitizeActivityCueLanguages([]), ["en"]);
+  assert.deepEqual(sanitizeActivityCueList(["  Went  Off ", "went off", ""], 5), ["went off"]);
+});
+
+test("activity test bench simulates a user message against the current chat", () => {
+  const settings = sanitizeSettings({ activityLookback: 2 });
+  const context: STContext = {
+    name1: "Alex",
+    groupId: "g1",
+    groups: [{ id: "g1", members: ["alice.png", "bob.png", "carol.png"] }],
+    characters: [
+      { name: "Alice", avatar: "alice.png" },
+      { name: "Bob", avatar: "bob.png" },
+      { name: "Carol", avatar: "carol.png" },
+    ],
+    chat: [
+      { name: "Alice", mes: "Hello." },
+      { name: "Bob", mes: "Hi." },
+      { name: "Alex", is_user: true, mes: "I sit down by the fire." },
+    ],
+  };
+
+  const departure = simulateActivityMessage(context, settings, "Alice went back to her room.");
+  assert.deepEqual([...departure.before.activeCharacters].sort(), ["Alice", "Bob"]);
+  assert.deepEqual(departure.after.activeCharacters, ["Bob"]);
+  assert.equal(departure.after.reasons.Alice, "departure cue \"went\" + \"her room\" at message 3, no speech after");
+  assert.equal(context.chat.length, 3);
+
+  const arrival = simulateActivityMessage(context, settings, "Carol comes back with tea.");
+  assert.equal(arrival.before.reasons.Carol, "not seen in recent activity window (2)");
+  assert.deepEqual([...arrival.after.activeCharacters].sort(), ["Alice", "Bob", "Carol"]);
+  assert.equal(arrival.after.reasons.Carol, "arrival cue \"comes back\" at message 3");
+});
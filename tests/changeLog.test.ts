@@ -0,0 +1,137 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { EXTENSION_KEY, GLOBAL_TRACKER_KEY } from "../src/constants";
+import {
+  buildStatChangeLogEntry,
+  describeStatChange,
+  findStatChangeLogEntry,
+  markStatChangeLogEdits,
+  normalizeStatChangeLog,
+} from "../src/changeLog";
+import { explainConfidenceScaledDelta } from "../src/extractorHelpers";
+import { getTrackerDataFromMessage } from "../src/storage";
+import type { TrackerData } from "../src/types";
+
+function makeTracker(changeLog: unknown): TrackerData {
+  return {
+    timestamp: 1000,
+    activeCharacters: ["Seraphina"],
+    statistics: { affection: { Seraphina: 58 }, trust: {}, desire: {}, connection: {}, mood: {}, lastThought: {} },
+    customStatistics: {},
+    customNonNumericStatistics: {},
+    changeLog: changeLog as TrackerData["changeLog"],
+  };
+}
+
+test("buildStatChangeLogEntry records the full delta pipeline", () => {
+  const breakdown = explainConfidenceScaledDelta({
+    previousValue: 50,
+    delta: 12,
+    confidence: 0.5,
+    confidenceDampening: 0.5,
+    maxDeltaPerTurn: 10,
+  });
+  const entry = buildStatChangeLogEntry({
+    owner: "Seraphina",
+    stat: "affection",
+    previous: 50,
+    rawDelta: 25,
+    confidence: 0.5,
+    breakdown,
+    reason: "  She laughed at the joke.  ",
+  });
+  assert.equal(entry.rawDelta, 25);
+  assert.equal(entry.clampedDelta, 10);
+  assert.equal(entry.maxDelta, 10);
+  assert.equal(entry.final, breakdown.next);
+  assert.equal(entry.scaledDelta, breakdown.next - 50);
+  assert.equal(entry.reason, "She laughed at the joke.");
+
+  const lines = describeStatChange(entry, "Affection", 70);
+  assert.equal(lines[0], `Affection: 50 → ${entry.final} (+${entry.final - 50})`);
+  assert.match(lines.join("\n"), /Model proposed \+25 at confidence 0\.50\./);
+  assert.match(lines.join("\n"), /Capped to \+10 by the ±10 per-turn limit\./);
+  assert.match(lines.join("\n"), /Confidence dampening scaled it to/);
+  assert.match(lines.join("\n"), /Reason: She laughed at the joke\./);
+  assert.equal(lines[lines.length - 1], "Edited afterwards to 70.");
+});
+
+test("describeStatChange notes range clamping and omits unchanged steps", () => {
+  const entry = buildStatChangeLogEntry({
+    owner: GLOBAL_TRACKER_KEY,
+    stat: "tension",
+    previous: 96,
+    confidence: 1,
+    breakdown: explainConfidenceScaledDelta({
+      previousValue: 96,
+      delta: 8,
+      confidence: 1,
+      confidenceDampening: 0,
+      maxDeltaPerTurn: 15,
+    }),
+  });
+  assert.equal(entry.rawDelta, 8);
+  assert.deepEqual(describeStatChange(entry, "Tension", 100), [
+    "Tension: 96 → 100 (+4)",
+    "Model proposed +8 at confidence 1.00.",
+    "Clamped to the 0-100 range.",
+  ]);
+});
+
+test("normalizeStatChangeLog drops malformed entries and survives storage round-trip", () => {
+  const normalized = normalizeStatChangeLog([
+    { owner: "Seraphina", stat: "affection", previous: 50, final: 58, rawDelta: 8, confidence: 0.9, reason: 42 },
+    { owner: "", stat: "trust", previous: 1, final: 2 },
+    { owner: "Seraphina", stat: "trust", previous: "x", final: 2 },
+    "nope",
+  ]);
+  assert.equal(normalized.length, 1);
+  assert.equal(normalized[0].clampedDelta, 8);
+  assert.equal(normalized[0].reason, undefined);
+
+  const message = {
+    mes: "Reply",
+    is_user: false,
+    is_system: false,
+    extra: { [EXTENSION_KEY]: makeTracker(normalized) },
+  };
+  const stored = getTrackerDataFromMessage(message);
+  assert.deepEqual(stored?.changeLog, normalized);
+  assert.equal(findStatChangeLogEntry(stored, "Seraphina", "affection")?.final, 58);
+  assert.equal(findStatChangeLogEntry(stored, "Seraphina", "trust"), null);
+
+  const withoutLog = getTrackerDataFromMessage({ ...message, extra: { [EXTENSION_KEY]: makeTracker(undefined) } });
+  assert.equal(withoutLog?.changeLog, undefined);
+});
+
+test("manual edits keep the message change log and tag the edited entries", () => {
+  const log = normalizeStatChangeLog([
+    { owner: "Seraphina", stat: "affection", previous: 50, final: 58, rawDelta: 8, confidence: 0.9 },
+    { owner: "Seraphina", stat: "trust", previous: 40, final: 45, rawDelta: 5, confidence: 0.8 },
+    { owner: GLOBAL_TRACKER_KEY, stat: "tension", previous: 20, final: 30, rawDelta: 10, confidence: 1 },
+  ]);
+  const edited = markStatChangeLogEdits(log, [
+    { owner: "Seraphina", stat: "affection" },
+    { owner: GLOBAL_TRACKER_KEY, stat: "tension" },
+  ]);
+  assert.equal(edited?.length, 3);
+  assert.deepEqual(edited?.map(entry => entry.edited ?? false), [true, false, true]);
+  assert.equal(log[0].edited, undefined);
+  assert.equal(markStatChangeLogEdits(undefined, [{ owner: "Seraphina", stat: "affection" }]), undefined);
+
+  const message = {
+    mes: "Reply",
+    is_user: false,
+    is_system: false,
+    extra: { [EXTENSION_KEY]: makeTracker(edited) },
+  };
+  const stored = getTrackerDataFromMessage(message);
+  assert.equal(stored?.changeLog?.length, 3);
+  const affection = findStatChangeLogEntry(stored, "Seraphina", "affection");
+  assert.equal(affection?.edited, true);
+  assert.equal(describeStatChange(affection!, "Affection", 70).at(-1), "Edited afterwards to 70.");
+  const tension = findStatChangeLogEntry(stored, GLOBAL_TRACKER_KEY, "tension");
+  assert.equal(describeStatChange(tension!, "Tension").at(-1), "Cleared afterwards.");
+  assert.equal(describeStatChange(findStatChangeLogEntry(stored, "Seraphina", "trust")!, "Trust", 45).at(-1), "Model proposed +5 at confidence 0.80.");
+});
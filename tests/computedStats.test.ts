@@ -0,0 +1,105 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import {
+  applyComputedStatsToTrackerData,
+  findPerOwnerFormulaReferences,
+  orderComputedStatDefinitions,
+  toComputedStatValue,
+} from "../src/computedStats";
+import { GLOBAL_TRACKER_KEY } from "../src/constants";
+import type { TrackerData } from "../src/types";
+import { charactersReply, deterministicSettings, runScriptedExtraction, scriptedGenerate, statistics } from "./helpers/extraction";
+
+const computedSettings = () => deterministicSettings({
+  customStats: [
+    {
+      id: "bond",
+      kind: "computed",
+      formula: "round((affection + trust) / 2)",
+      label: "Bond",
+      description: "Average of affection and trust.",
+      defaultValue: 50,
+      track: true,
+      showOnCard: true,
+      showInGraph: true,
+      includeInInjection: true,
+    },
+    {
+      id: "smitten",
+      kind: "computed",
+      computedResult: "boolean",
+      formula: "desire > 60 && bond >= 50",
+      label: "Smitten",
+      description: "Whether desire and bond are both high.",
+      defaultValue: false,
+      track: true,
+      showOnCard: true,
+      showInGraph: true,
+      includeInInjection: true,
+    },
+  ],
+});
+
+test("computed stat values are coerced to their declared result", () => {
+  const settings = computedSettings();
+  const [bond, smitten] = settings.customStats;
+  assert.equal(bond.defaultValue, 50);
+  assert.equal(bond.showInGraph, true);
+  assert.equal(smitten.showInGraph, false);
+  assert.equal(toComputedStatValue(bond, 140.6), 100);
+  assert.equal(toComputedStatValue(bond, true), 1);
+  assert.equal(toComputedStatValue(bond, "soft"), undefined);
+  assert.equal(toComputedStatValue(smitten, "false"), false);
+  assert.equal(toComputedStatValue({ ...smitten, computedResult: "text" }, ["a", "b"]), "a, b");
+  assert.equal(toComputedStatValue(bond, null), undefined);
+
+  const data: TrackerData = {
+    timestamp: 0,
+    activeCharacters: ["Mira"],
+    statistics: { affection: { Mira: 80 }, trust: { Mira: 41 }, desire: { Mira: 70 }, connection: {}, mood: {}, lastThought: {} },
+    customStatistics: { bond: { Mira: 10 } },
+    customNonNumericStatistics: {},
+  };
+  applyComputedStatsToTrackerData(settings, data, ["Mira"]);
+  assert.equal(data.customStatistics?.bond?.Mira, 61);
+  assert.equal(data.customNonNumericStatistics?.smitten?.Mira, true);
+
+  const computed = (id: string, formula: string, extra: Record<string, unknown> = {}) => ({
+    ...bond, id, label: id, formula, ...extra,
+  });
+  const ordering = deterministicSettings({
+    customStats: [
+      computed("warmth", "bond + 10"),
+      bond,
+      computed("loop_a", "loop_b + 1"),
+      computed("loop_b", "loop_a + 1"),
+      computed("room_heat", "affection + 1", { globalScope: true }),
+    ],
+  });
+  const { ordered, blocked } = orderComputedStatDefinitions(ordering);
+  assert.deepEqual(ordered.map(def => def.id), ["bond", "room_heat", "warmth"]);
+  assert.deepEqual(blocked, ["loop_a", "loop_b"]);
+  assert.deepEqual(findPerOwnerFormulaReferences(ordering, ordering.customStats[4]), ["affection"]);
+  const reordered: TrackerData = { ...data, customStatistics: {}, customNonNumericStatistics: {} };
+  applyComputedStatsToTrackerData(ordering, reordered, ["Mira"]);
+  assert.deepEqual(reordered.customStatistics, { bond: { Mira: 61 }, warmth: { Mira: 71 } });
+});
+
+test("extractor derives computed stats after deltas without requesting them", async () => {
+  const settings = computedSettings();
+  const prompts: string[] = [];
+  const result = await runScriptedExtraction({
+    generate: scriptedGenerate(charactersReply([{ name: "Mira", confidence: 1, delta: { affection: 6, trust: 4, desire: 5, connection: 0 } }]), prompts),
+    settings,
+    contextText: "Alex: Stay a while.\nMira: *smiles and sits closer*",
+    previousStatistics: statistics({ affection: { Mira: 50 }, trust: { Mira: 40 }, desire: { Mira: 58 }, connection: { Mira: 30 } }),
+    previousCustomStatistics: { bond: { Mira: 45 } },
+  });
+
+  assert.ok(prompts.length > 0);
+  assert.ok(prompts.every(prompt => !prompt.includes("Average of affection and trust") && !prompt.includes("smitten")));
+  assert.equal(result.customStatistics.bond?.Mira, 50);
+  assert.equal(result.customNonNumericStatistics.smitten?.Mira, true);
+  assert.equal(result.customNonNumericStatistics.smitten?.[GLOBAL_TRACKER_KEY], undefined);
+});
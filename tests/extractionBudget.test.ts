@@ -0,0 +1,93 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { MAX_CUSTOM_STATS } from "../src/constants";
+import {
+  estimateExtractionBudget,
+  formatExtractionBudgetSummary,
+  getExtractionBudgetWarnings,
+} from "../src/extractionBudget";
+import { defaultSettings, sanitizeSettings } from "../src/settings";
+import type { BetterSimTrackerSettings, CustomStatDefinition } from "../src/types";
+
+function numericStat(id: string, group = ""): CustomStatDefinition {
+  return {
+    id,
+    label: id,
+    kind: "numeric",
+    description: `Tracks ${id}.`,
+    defaultValue: 50,
+    track: true,
+    showOnCard: true,
+    showInGraph: true,
+    includeInInjection: true,
+    sequentialGroup: group || undefined,
+  };
+}
+
+function makeSettings(overrides: Partial<BetterSimTrackerSettings> = {}): BetterSimTrackerSettings {
+  return { ...defaultSettings, ...overrides };
+}
+
+test("estimateExtractionBudget counts sequential requests by group and active characters", () => {
+  const customStats = [numericStat("rivalry", "social"), numericStat("fear", "social"), numericStat("loyalty")];
+  const ungrouped = estimateExtractionBudget(makeSettings({ sequentialExtraction: true, customStats }), 2);
+  assert.equal(ungrouped.requests, 6 + 3);
+  assert.equal(ungrouped.maxRequestsWithRetries, 9 * 3);
+
+  const grouped = estimateExtractionBudget(
+    makeSettings({ sequentialExtraction: true, enableSequentialStatGroups: true, customStats }),
+    2,
+  );
+  assert.equal(grouped.requests, 6 + 2);
+  assert.ok(grouped.promptChars < ungrouped.promptChars);
+
+  const privateThoughts = estimateExtractionBudget(
+    makeSettings({ sequentialExtraction: true, lastThoughtPrivate: true, customStats: [] }),
+    3,
+  );
+  assert.equal(privateThoughts.requests, 5 + 3);
+
+  const unified = estimateExtractionBudget(makeSettings({ customStats }), 2);
+  assert.equal(unified.requests, 1);
+  assert.equal(unified.largestRequestChars, unified.promptChars);
+});
+
+test("estimateExtractionBudget grows prompt size with context, cards and stat descriptions", () => {
+  const base = estimateExtractionBudget(makeSettings(), 1);
+  assert.ok(estimateExtractionBudget(makeSettings({ contextMessages: 20 }), 1).promptChars > base.promptChars);
+  assert.ok(estimateExtractionBudget(makeSettings({ includeCharacterCardsInPrompt: true }), 1).promptChars > base.promptChars);
+  const verbose = { ...numericStat("focus"), behaviorGuidance: "x".repeat(500) };
+  assert.ok(estimateExtractionBudget(makeSettings({ customStats: [verbose] }), 1).promptChars > base.promptChars + 500);
+  assert.equal(estimateExtractionBudget(makeSettings(), 0).characterCount, 1);
+});
+
+test("getExtractionBudgetWarnings only warns when a configured budget is exceeded", () => {
+  const settings = makeSettings({
+    sequentialExtraction: true,
+    customStats: Array.from({ length: 12 }, (_, index) => numericStat(`stat_${index}`)),
+  });
+  const estimate = estimateExtractionBudget(settings, 1);
+  assert.deepEqual(getExtractionBudgetWarnings(settings, estimate), []);
+
+  const warnings = getExtractionBudgetWarnings(
+    { ...settings, extractionBudgetMaxRequests: 10, extractionBudgetMaxPromptChars: 1000 },
+    estimate,
+  );
+  assert.equal(warnings.length, 3);
+  assert.match(warnings[0], /18 requests per extraction exceeds the budget of 10/);
+  assert.match(warnings[2], /sequential stat groups/);
+  assert.match(formatExtractionBudgetSummary(estimate), /\(1 character\): ~18 requests \(up to 54 with retries\)/);
+});
+
+test("sanitizeSettings keeps up to MAX_CUSTOM_STATS custom stats and clamps budgets", () => {
+  assert.equal(MAX_CUSTOM_STATS, 32);
+  const sanitized = sanitizeSettings({
+    customStats: Array.from({ length: 40 }, (_, index) => numericStat(`stat_${index}`)),
+    extractionBudgetMaxRequests: 999,
+    extractionBudgetMaxPromptChars: -5,
+  });
+  assert.equal(sanitized.customStats.length, MAX_CUSTOM_STATS);
+  assert.equal(sanitized.extractionBudgetMaxRequests, 200);
+  assert.equal(sanitized.extractionBudgetMaxPromptChars, 0);
+});
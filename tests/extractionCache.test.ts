@@ -0,0 +1,81 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import {
+  buildExtractionCacheKey,
+  isExtractionCacheEntryFresh,
+  selectExtractionCacheEvictions,
+} from "../src/extractionCache";
+import type { CacheExtractionResponse, GenerateJson } from "../src/generator";
+import { charactersReply, deterministicSettings, runScriptedExtraction } from "./helpers/extraction";
+
+test("buildExtractionCacheKey changes with prompt, profile, limits and schema", () => {
+  const base = { prompt: "Track trust for Seraphina.", profileId: "profile-a", maxTokens: 300, truncationLength: 8192 };
+  const key = buildExtractionCacheKey(base);
+
+  assert.equal(buildExtractionCacheKey({ ...base }), key);
+  assert.notEqual(buildExtractionCacheKey({ ...base, prompt: "Track trust for Lyra." }), key);
+  assert.notEqual(buildExtractionCacheKey({ ...base, profileId: "profile-b" }), key);
+  assert.notEqual(buildExtractionCacheKey({ ...base, maxTokens: 301 }), key);
+  assert.notEqual(buildExtractionCacheKey({ ...base, truncationLength: undefined }), key);
+  assert.notEqual(buildExtractionCacheKey({ ...base, jsonSchema: { type: "object" } }), key);
+  assert.equal(buildExtractionCacheKey({ ...base, jsonSchema: null }), key);
+});
+
+test("selectExtractionCacheEvictions drops expired entries then least recently used overflow", () => {
+  const hour = 60 * 60 * 1000;
+  const now = 100 * hour;
+  const entries = [
+    { key: "expired", createdAt: now - 25 * hour, lastUsedAt: now },
+    { key: "old-use", createdAt: now - hour, lastUsedAt: now - 3 * hour },
+    { key: "mid-use", createdAt: now - 2 * hour, lastUsedAt: now - 2 * hour },
+    { key: "recent", createdAt: now - 5 * hour, lastUsedAt: now - 1000 },
+  ];
+
+  assert.equal(isExtractionCacheEntryFresh(entries[0], now, 24 * hour), false);
+  assert.equal(isExtractionCacheEntryFresh(entries[1], now, 24 * hour), true);
+  assert.deepEqual(selectExtractionCacheEvictions(entries, now, 24 * hour, 2), ["expired", "old-use"]);
+  assert.deepEqual(selectExtractionCacheEvictions(entries, now, 24 * hour, 10), ["expired"]);
+  assert.deepEqual(selectExtractionCacheEvictions(entries, now, 0, 10), ["expired", "old-use", "mid-use", "recent"]);
+});
+
+test("extractor caches only covered first answers and retries always reach the model", async () => {
+  const store = new Map<string, string>();
+  const modelReplies: string[] = [];
+  const cacheFlags: boolean[] = [];
+  const generate: GenerateJson = async (prompt, _settings, options) => {
+    cacheFlags.push(Boolean(options?.useCache));
+    const meta = { profileId: "test", promptChars: prompt.length, maxTokens: 0, durationMs: 0, timestamp: 0 };
+    const cached = options?.useCache ? store.get(prompt) : undefined;
+    if (cached !== undefined) return { text: cached, meta: { ...meta, outputChars: cached.length, cacheHit: true, cacheKey: prompt } };
+    const text = modelReplies.shift() ?? "";
+    return { text, meta: { ...meta, outputChars: text.length, ...(options?.useCache ? { cacheHit: false, cacheKey: prompt } : {}) } };
+  };
+  const cacheResponse: CacheExtractionResponse = async response => {
+    if (response.meta.cacheKey && !response.meta.cacheHit) store.set(response.meta.cacheKey, response.text);
+  };
+  const valid = charactersReply([{ name: "Mira", confidence: 1, delta: { affection: 3, trust: 1, desire: 0, connection: 2 } }]);
+  const run = () => runScriptedExtraction({
+    generate,
+    cacheResponse,
+    settings: deterministicSettings({ maxRetriesPerStat: 2, strictJsonRepair: true }),
+    contextText: "Alex: Thanks for waiting.\nMira: *smiles*",
+  });
+
+  modelReplies.push("{\"characters\": [", "not json either", valid);
+  const repaired = await run();
+  assert.deepEqual(cacheFlags, [true, false, false]);
+  assert.equal(modelReplies.length, 0);
+  assert.equal(repaired.statistics.affection.Mira, 53);
+  assert.equal(store.size, 0);
+
+  cacheFlags.length = 0;
+  modelReplies.push(valid);
+  await run();
+  assert.deepEqual(cacheFlags, [true]);
+  assert.equal(store.size, 1);
+
+  const cachedRun = await run();
+  assert.deepEqual(cachedRun.debug?.meta?.cache, { enabled: true, forceFresh: false, hits: 1, misses: 0 });
+  assert.equal(cachedRun.statistics.affection.Mira, 53);
+});
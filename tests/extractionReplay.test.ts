@@ -0,0 +1,86 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { readdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+
+import { extractStatisticsParallel } from "../src/extractor";
+import {
+  readReplayCaptureFromDiagnostics,
+  replayExtraction,
+  type ExtractionReplayExpectation,
+} from "../src/extractionReplay";
+import { sanitizeSettings } from "../src/settings";
+import type { GenerateJson } from "../src/generator";
+import type { Statistics } from "../src/types";
+
+const FIXTURE_DIR = join(process.cwd(), "tests", "fixtures", "replay");
+
+function previousStatistics(): Statistics {
+  return {
+    affection: { Seraphina: 50, Lyra: 40 },
+    trust: { Seraphina: 50, Lyra: 60 },
+    desire: {},
+    connection: {},
+    mood: { Seraphina: "Neutral", Lyra: "Anxious" },
+    lastThought: {},
+  };
+}
+
+test("replayExtraction reproduces a recorded run, including repair retries, without a model", async () => {
+  let calls = 0;
+  const scripted: GenerateJson = async prompt => {
+    calls += 1;
+    const text = calls === 1
+      ? "I cannot comply with that format."
+      : prompt.includes("Lyra")
+        ? "{\"characters\": [{\"name\": \"Seraphina\", \"confidence\": 0.9, \"delta\": {\"affection\": 6, \"trust\": -4}, \"mood\": \"Happy\", \"lastThought\": \"He came back.\"}, {\"name\": \"Lyra\", \"confidence\": 0.4, \"delta\": {\"affection\": 2, \"trust\": 9}, \"mood\": \"Hopeful\", \"lastThought\": \"Maybe.\"}]}"
+        : "{\"characters\": []}";
+    return { text, meta: { profileId: "live", promptChars: prompt.length, maxTokens: 0, durationMs: 5, outputChars: text.length, timestamp: Date.now() } };
+  };
+  const settings = sanitizeSettings({ includeContextInDiagnostics: true, trackDesire: false, trackConnection: false });
+  const live = await extractStatisticsParallel({
+    generate: scripted,
+    settings,
+    userName: "Alex",
+    activeCharacters: ["Seraphina", "Lyra"],
+    contextText: "Alex: I'm back.\nSeraphina: You came back!\nLyra: ...Welcome.",
+    previousStatistics: previousStatistics(),
+    hasPriorTrackerData: true,
+    history: [],
+    isOwnerStatEnabled: (owner, statId) => !(owner === "Lyra" && statId === "lastThought"),
+  });
+
+  assert.equal(live.debug?.meta?.retryUsed, true);
+  const capture = readReplayCaptureFromDiagnostics({ lastDebugRecord: JSON.parse(JSON.stringify(live.debug)) });
+  assert.ok(capture);
+  assert.equal(Object.keys(capture.responses).length, calls);
+  assert.deepEqual(capture.ownerStatDisabled, { Lyra: ["lastThought"] });
+
+  const replayed = await replayExtraction(capture);
+  assert.deepEqual(replayed.misses, []);
+  assert.deepEqual(replayed.statistics, live.statistics);
+  assert.deepEqual(replayed.customStatistics, live.customStatistics);
+  assert.equal(replayed.statistics.lastThought.Lyra, undefined);
+  assert.equal(readReplayCaptureFromDiagnostics({ lastDebugRecord: { rawModelOutput: "" } }), null);
+});
+
+test("recorded replay fixtures still produce their expected statistics", async () => {
+  const files = readdirSync(FIXTURE_DIR).filter(file => file.endsWith(".json"));
+  assert.ok(files.length > 0);
+  for (const file of files) {
+    const fixture = JSON.parse(readFileSync(join(FIXTURE_DIR, file), "utf8")) as { report: unknown; expected: ExtractionReplayExpectation };
+    const capture = readReplayCaptureFromDiagnostics(fixture.report);
+    assert.ok(capture, `${file}: no replay capture in report`);
+    const replayed = await replayExtraction(capture);
+    assert.deepEqual(replayed.misses, [], `${file}: prompts changed since the fixture was recorded`);
+    for (const [stat, byOwner] of Object.entries(fixture.expected.statistics ?? {})) {
+      assert.deepEqual(replayed.statistics[stat as keyof Statistics], byOwner, `${file}: ${stat}`);
+    }
+    for (const [stat, byOwner] of Object.entries(fixture.expected.customStatistics ?? {})) {
+      assert.deepEqual(replayed.customStatistics[stat], byOwner, `${file}: ${stat}`);
+    }
+    for (const [stat, byOwner] of Object.entries(fixture.expected.customNonNumericStatistics ?? {})) {
+      assert.deepEqual(replayed.customNonNumericStatistics[stat], byOwner, `${file}: ${stat}`);
+    }
+  }
+});
@@ -1,15 +1,20 @@
 import test from "node:test";
 import assert from "node:assert/strict";
 
-import { defaultSettings } from "../src/settings";
+import { defaultSettings, sanitizeConnectionProfileRoutes } from "../src/settings";
 import {
   applyConfidenceScaledDelta,
+  countExtractionRequests,
   enabledBuiltInAndTextStats,
   enabledCustomStats,
+  fillMissingEntries,
+  findMissingStatOwners,
   groupCustomStatsForSequential,
+  isFreshExtractionReason,
   isManualExtractionReason,
   normalizeSequentialGroupId,
   resolveBaselineBeforeIndex,
+  resolveConnectionProfileRoute,
   resolveMoodWithConfidence,
   shouldBypassConfidenceControls,
 } from "../src/extractorHelpers";
@@ -66,6 +71,46 @@ test("enabledCustomStats returns tracked-only custom definitions", () => {
   );
 });
 
+test("resolveConnectionProfileRoute matches stat ids and sequential groups in route order", () => {
+  const routes = sanitizeConnectionProfileRoutes([
+    { target: "lastThought", profileId: "fast", maxTokens: 120 },
+    { target: "group: Appearance", profileId: "vision", truncationLength: 8000 },
+    { target: "mood", profileId: "active" },
+    { target: "LASTTHOUGHT", profileId: "duplicate" },
+    { target: "bad id!", profileId: "ignored" },
+  ]);
+  assert.deepEqual(routes, [
+    { target: "lastthought", profileId: "fast", maxTokens: 120, truncationLength: 0 },
+    { target: "group:appearance", profileId: "vision", maxTokens: 0, truncationLength: 8000 },
+    { target: "mood", profileId: "", maxTokens: 0, truncationLength: 0 },
+  ]);
+
+  const stats = [textStat("clothes", "appearance"), textStat("goal")];
+  assert.equal(resolveConnectionProfileRoute(routes, ["mood", "lastThought"], stats)?.profileId, "fast");
+  assert.equal(resolveConnectionProfileRoute(routes, ["clothes"], stats)?.target, "group:appearance");
+  assert.equal(resolveConnectionProfileRoute(routes, ["mood"], stats)?.target, "mood");
+  assert.equal(resolveConnectionProfileRoute(routes, ["affection", "goal"], stats), null);
+});
+
+test("findMissingStatOwners reports per-owner gaps that fillMissingEntries can backfill", () => {
+  const trust: Record<string, number> = { Seraphina: 3 };
+  const mood: Record<string, string> = { Seraphina: "Happy", Lyra: "Sad" };
+  const values = (stat: string): Record<string, unknown> | undefined => (stat === "trust" ? trust : stat === "mood" ? mood : undefined);
+  const requested = [
+    { stat: "trust", owners: ["Seraphina", "Lyra"] },
+    { stat: "mood", owners: ["Seraphina", "Lyra"] },
+    { stat: "stage", owners: ["Lyra"] },
+  ];
+
+  assert.deepEqual(findMissingStatOwners(requested, values), [
+    { stat: "trust", owners: ["Lyra"] },
+    { stat: "stage", owners: ["Lyra"] },
+  ]);
+  fillMissingEntries(trust, { Seraphina: -5, Lyra: 2 });
+  assert.deepEqual(trust, { Seraphina: 3, Lyra: 2 });
+  assert.deepEqual(findMissingStatOwners(requested.slice(0, 2), values), []);
+});
+
 test("groupCustomStatsForSequential groups by sanitized group id when enabled", () => {
   const stats = [
     textStat("clothes", "appearance"),
@@ -91,10 +136,19 @@ test("groupCustomStatsForSequential keeps one-stat groups when disabled", () =>
 test("isManualExtractionReason only allows manual refresh flows", () => {
   assert.equal(isManualExtractionReason("manual_refresh"), true);
   assert.equal(isManualExtractionReason("manual_refresh_retry"), true);
+  assert.equal(isManualExtractionReason("manual_refresh_fresh"), true);
+  assert.equal(isManualExtractionReason("manual_refresh_fresh_retry"), true);
   assert.equal(isManualExtractionReason("GENERATION_ENDED"), false);
   assert.equal(isManualExtractionReason("USER_MESSAGE_RENDERED"), false);
 });
 
+test("isFreshExtractionReason only matches force-fresh retrack flows", () => {
+  assert.equal(isFreshExtractionReason("manual_refresh_fresh"), true);
+  assert.equal(isFreshExtractionReason("manual_refresh_fresh_retry"), true);
+  assert.equal(isFreshExtractionReason("manual_refresh"), false);
+  assert.equal(isFreshExtractionReason("SWIPE_GENERATION_ENDED"), false);
+});
+
 test("shouldBypassConfidenceControls covers retrack and edited-message flows", () => {
   assert.equal(shouldBypassConfidenceControls("manual_refresh"), true);
   assert.equal(shouldBypassConfidenceControls("manual_refresh_retry"), true);
@@ -162,3 +216,23 @@ test("resolveBaselineBeforeIndex excludes the current message for retrack baseli
     4,
   );
 });
+
+test("countExtractionRequests mirrors unified batches and sequential passes", () => {
+  const base = {
+    characterCount: 3,
+    builtInPublicStats: 4,
+    builtInPrivateStats: 1,
+    customPublicStats: 5,
+    customPrivateStats: 2,
+    customPublicGroups: 3,
+    customPrivateGroups: 2,
+  };
+  assert.equal(countExtractionRequests({ ...base, sequential: false }), 4);
+  assert.equal(countExtractionRequests({ ...base, sequential: true }), 4 + 3 + 3 + 6);
+  assert.equal(countExtractionRequests({
+    ...base,
+    sequential: false,
+    builtInPrivateStats: 0,
+    customPrivateStats: 0,
+  }), 1);
+});
@@ -0,0 +1,52 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { buildGraphCsv, buildGraphExportSvg, graphExportFileName } from "../src/graphExport";
+
+test("buildGraphCsv writes one row per displayed point with series and lane columns", () => {
+  const csv = buildGraphCsv({
+    points: [
+      { messageIndex: 3, timestamp: Date.UTC(2026, 2, 1, 10, 0), storyTime: "2026-03-01 21:30" },
+      { timestamp: 0 },
+    ],
+    series: [
+      { label: "Trust", values: [40, 45.3333] },
+      { label: "Affection, raw", values: [50] },
+    ],
+    lanes: [{ label: "Mood", values: ["Happy", ""] }],
+  });
+
+  assert.deepEqual(csv.split("\n"), [
+    "point,message_index,timestamp,story_time,Trust,\"Affection, raw\",Mood",
+    "1,3,2026-03-01T10:00:00.000Z,2026-03-01 21:30,40,50,Happy",
+    "2,,,,45.33,,",
+  ]);
+});
+
+test("buildGraphExportSvg produces a standalone SVG with title, chart, lanes and wrapped legend", () => {
+  const exported = buildGraphExportSvg({
+    title: "Trust <Comparison>",
+    subtitle: "12 snapshots",
+    width: 300,
+    chartHeight: 100,
+    chartMarkup: "<polyline points=\"0,0 10,10\"></polyline>",
+    laneMarkup: "<rect></rect>",
+    laneHeight: 30,
+    legend: [
+      { label: "Seraphina", color: "#ff0000", value: 61.6 },
+      { label: "Lilith", color: "#00ff00", value: 40 },
+      { label: "Very Long Owner Name", color: "#0000ff", value: null },
+    ],
+  });
+
+  assert.match(exported.svg, /^<svg xmlns="http:\/\/www\.w3\.org\/2000\/svg" width="300"/);
+  assert.match(exported.svg, /Trust &lt;Comparison&gt;/);
+  assert.match(exported.svg, /<polyline points="0,0 10,10"><\/polyline>/);
+  assert.match(exported.svg, /Seraphina 62/);
+  assert.match(exported.svg, />Very Long Owner Name</);
+  assert.equal(exported.height, 44 + 100 + 6 + 30 + 10 + 2 * 20 + 12);
+  assert.equal(
+    graphExportFileName("Trust Comparison", "png", new Date(Date.UTC(2026, 2, 1))),
+    "bettersimtracker-graph-trust-comparison-2026-03-01T00-00-00-000Z.png",
+  );
+});
@@ -0,0 +1,91 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { GLOBAL_TRACKER_KEY } from "../src/constants";
+import {
+  buildLaneSegments,
+  buildLaneValues,
+  buildStoryTimeline,
+  formatLaneValue,
+  formatStoryTime,
+  parseStoryTime,
+  type GraphLaneDefinition,
+} from "../src/graphLanes";
+import { buildTimelineXPositions } from "../src/graphSeries";
+import type { TrackerData } from "../src/types";
+
+function makeTracker(
+  timestamp: number,
+  mood?: string,
+  custom: Record<string, Record<string, string | boolean | string[]>> = {},
+): TrackerData {
+  return {
+    timestamp,
+    activeCharacters: ["Seraphina"],
+    statistics: {
+      affection: {},
+      trust: {},
+      desire: {},
+      connection: {},
+      mood: mood ? { Seraphina: mood } : {},
+      lastThought: {},
+    },
+    customStatistics: {},
+    customNonNumericStatistics: custom,
+  };
+}
+
+test("lane values carry forward and merge into segments per value", () => {
+  const timeline = [
+    makeTracker(1, undefined, { stage: { Seraphina: "strangers" } }),
+    makeTracker(2, "Happy"),
+    makeTracker(3, "happy", { stage: { Seraphina: "friends" } }),
+    makeTracker(4, "Sad", { stage: { Seraphina: "friends" } }),
+  ];
+  const mood: GraphLaneDefinition = { id: "mood", label: "Mood", kind: "mood", globalScope: false };
+  const stage: GraphLaneDefinition = { id: "stage", label: "Stage", kind: "enum", globalScope: false };
+
+  assert.deepEqual(buildLaneValues(timeline, "Seraphina", mood), [undefined, "Happy", "happy", "Sad"]);
+  assert.deepEqual(buildLaneSegments(buildLaneValues(timeline, "Seraphina", mood)), [
+    { start: 1, end: 2, value: "Happy" },
+    { start: 3, end: 3, value: "Sad" },
+  ]);
+  assert.deepEqual(buildLaneSegments(buildLaneValues(timeline, "Seraphina", stage)), [
+    { start: 0, end: 1, value: "strangers" },
+    { start: 2, end: 3, value: "friends" },
+  ]);
+});
+
+test("boolean and array lanes read custom values and format them for display", () => {
+  const timeline = [
+    makeTracker(1, undefined, { armed: { Seraphina: true }, items: { Seraphina: ["sword"] } }),
+    makeTracker(2, undefined, { armed: { Seraphina: false }, items: { Seraphina: ["sword", "map"] } }),
+  ];
+  const armed: GraphLaneDefinition = { id: "armed", label: "Armed", kind: "boolean", globalScope: false, booleanTrueLabel: "armed" };
+  const items: GraphLaneDefinition = { id: "items", label: "Items", kind: "array", globalScope: false };
+
+  const armedSegments = buildLaneSegments(buildLaneValues(timeline, "Seraphina", armed));
+  assert.deepEqual(armedSegments.map(segment => segment.value), [true, false]);
+  assert.equal(formatLaneValue(armed, true), "armed");
+  assert.equal(formatLaneValue(armed, false), "disabled");
+  assert.equal(buildLaneSegments(buildLaneValues(timeline, "Seraphina", items)).length, 2);
+  assert.equal(formatLaneValue(items, ["sword", "map"]), "2 items: sword, map");
+});
+
+test("story timeline orders snapshots by an in-story date_time stat", () => {
+  const timeline = [
+    makeTracker(1),
+    makeTracker(2, undefined, { story_time: { [GLOBAL_TRACKER_KEY]: "2026-03-02 08:00" } }),
+    makeTracker(3),
+    makeTracker(4, undefined, { story_time: { [GLOBAL_TRACKER_KEY]: "2026-03-01 21:30" } }),
+  ];
+  const story = buildStoryTimeline(timeline, "Seraphina", { id: "story_time", globalScope: true });
+
+  assert.deepEqual(story.map(item => item.entry.timestamp), [4, 2, 3]);
+  assert.equal(formatStoryTime(story[0]?.storyTime ?? 0), "2026-03-01 21:30");
+  assert.equal(parseStoryTime("not a date"), null);
+
+  const xs = buildTimelineXPositions(3, 100, 10, story.map(item => item.storyTime));
+  assert.deepEqual(xs, [10, 90, 90]);
+  assert.deepEqual(buildTimelineXPositions(3, 100, 10), [10, 50, 90]);
+});
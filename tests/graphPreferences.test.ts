@@ -2,9 +2,13 @@ import test from "node:test";
 import assert from "node:assert/strict";
 
 import {
+  getGraphCompareStatPreference,
+  getGraphModePreference,
   getGraphPreferences,
   getGraphSmoothingPreference,
   getGraphWindowPreference,
+  setGraphCompareStatPreference,
+  setGraphModePreference,
   setGraphSmoothingPreference,
   setGraphWindowPreference,
 } from "../src/graphPreferences";
@@ -56,6 +60,15 @@ test("graph preference setters/readers persist and normalize values", () => {
 
     bucket.set("bst-graph-window", "invalid");
     assert.equal(getGraphWindowPreference(), "all");
+
+    assert.equal(getGraphModePreference(), "owner");
+    assert.equal(getGraphCompareStatPreference(), "");
+    setGraphModePreference("compare");
+    setGraphCompareStatPreference("trust");
+    assert.equal(getGraphModePreference(), "compare");
+    assert.equal(getGraphCompareStatPreference(), "trust");
+    bucket.set("bst-graph-mode", "invalid");
+    assert.equal(getGraphModePreference(), "owner");
   });
 });
 
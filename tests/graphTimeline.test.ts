@@ -1,7 +1,7 @@
 import test from "node:test";
 import assert from "node:assert/strict";
 
-import { buildStatSeries, hasNumericSnapshot, type GraphNumericStatDefinition } from "../src/graphTimeline";
+import { buildStatSeries, collectGraphOwners, hasNumericSnapshot, type GraphNumericStatDefinition } from "../src/graphTimeline";
 import { GLOBAL_TRACKER_KEY, USER_TRACKER_KEY } from "../src/constants";
 import type { TrackerData } from "../src/types";
 
@@ -57,3 +57,19 @@ test("buildStatSeries carries previous value and clamps range", () => {
   const series = buildStatSeries([t1, t2, t3, t4], "Seraphina", def);
   assert.deepEqual(series, [50, 65, 65, 100]);
 });
+
+test("collectGraphOwners lists characters, then user and scene owners with values for a stat", () => {
+  const first = makeTracker(1);
+  first.statistics.trust = { Seraphina: 40, [USER_TRACKER_KEY]: 55 };
+  const second = makeTracker(2);
+  second.statistics.trust = { Lilith: 30, seraphina: 45 };
+  second.customStatistics = { tension: { [GLOBAL_TRACKER_KEY]: 70, Lilith: 20 } };
+
+  assert.deepEqual(collectGraphOwners([first, second], "trust"), ["Seraphina", "Lilith", USER_TRACKER_KEY]);
+  assert.deepEqual(collectGraphOwners([first, second], "tension"), ["Lilith", GLOBAL_TRACKER_KEY]);
+  assert.deepEqual(collectGraphOwners([first, second], "missing"), []);
+  assert.deepEqual(
+    buildStatSeries([first, second], GLOBAL_TRACKER_KEY, { key: "tension", defaultValue: 50, globalScope: false }),
+    [50, 70],
+  );
+});
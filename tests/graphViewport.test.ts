@@ -0,0 +1,21 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { clampGraphRange, panGraphRange, zoomGraphRange } from "../src/graphViewport";
+
+test("zoomGraphRange selects an ordered range and ignores tiny or full selections", () => {
+  assert.deepEqual(zoomGraphRange(null, 200, 80, 40), { start: 40, end: 80 });
+  assert.equal(zoomGraphRange(null, 200, 40, 40), null);
+  assert.deepEqual(zoomGraphRange({ start: 10, end: 20 }, 200, 12, 12), { start: 10, end: 20 });
+  assert.equal(zoomGraphRange({ start: 10, end: 20 }, 200, 0, 199), null);
+});
+
+test("panGraphRange shifts the zoomed range and clamps it to the timeline", () => {
+  assert.deepEqual(panGraphRange({ start: 40, end: 80 }, 200, 10.4), { start: 50, end: 90 });
+  assert.deepEqual(panGraphRange({ start: 40, end: 80 }, 200, -100), { start: 0, end: 40 });
+  assert.deepEqual(panGraphRange({ start: 40, end: 80 }, 200, 500), { start: 159, end: 199 });
+  assert.equal(panGraphRange(null, 200, 5), null);
+  assert.deepEqual(clampGraphRange({ start: 190, end: 209 }, 200), { start: 180, end: 199 });
+  assert.equal(clampGraphRange({ start: 0, end: 500 }, 200), null);
+  assert.equal(clampGraphRange({ start: 3, end: 6 }, 2), null);
+});
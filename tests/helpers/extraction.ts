@@ -0,0 +1,39 @@
+import { extractStatisticsParallel } from "../../src/extractor";
+import type { GenerateJson } from "../../src/generator";
+import { sanitizeSettings } from "../../src/settings";
+import type { BetterSimTrackerSettings, Statistics } from "../../src/types";
+
+type ExtractionInput = Parameters<typeof extractStatisticsParallel>[0];
+
+export function scriptedGenerate(reply: string | ((prompt: string) => string), prompts: string[] = []): GenerateJson {
+  return async prompt => {
+    prompts.push(prompt);
+    const text = typeof reply === "function" ? reply(prompt) : reply;
+    return { text, meta: { profileId: "test", promptChars: prompt.length, maxTokens: 0, durationMs: 0, outputChars: text.length, timestamp: 0 } };
+  };
+}
+
+export function charactersReply(rows: Array<Record<string, unknown>>, extra: Record<string, unknown> = {}): string {
+  return JSON.stringify({ characters: rows, ...extra });
+}
+
+export function deterministicSettings(overrides: Partial<BetterSimTrackerSettings> = {}): BetterSimTrackerSettings {
+  return sanitizeSettings({ trackMood: false, trackLastThought: false, confidenceDampening: 0, ...overrides });
+}
+
+export function statistics(values: Partial<Statistics> = {}): Statistics {
+  return { affection: {}, trust: {}, desire: {}, connection: {}, mood: {}, lastThought: {}, ...values };
+}
+
+export function runScriptedExtraction(
+  input: Pick<ExtractionInput, "generate" | "settings" | "contextText"> & Partial<ExtractionInput>,
+): ReturnType<typeof extractStatisticsParallel> {
+  return extractStatisticsParallel({
+    userName: "Alex",
+    activeCharacters: ["Mira"],
+    previousStatistics: null,
+    hasPriorTrackerData: true,
+    history: [],
+    ...input,
+  });
+}
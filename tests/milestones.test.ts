@@ -0,0 +1,84 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { buildRelationshipMilestones, type MilestoneHistoryEntry } from "../src/milestones";
+import type { TrackerData } from "../src/types";
+
+function makeEntry(
+  messageIndex: number,
+  values: { trust?: number; mood?: string; stage?: string },
+): MilestoneHistoryEntry {
+  const data: TrackerData = {
+    timestamp: messageIndex * 1000,
+    activeCharacters: ["Seraphina"],
+    statistics: {
+      affection: {},
+      trust: values.trust === undefined ? {} : { Seraphina: values.trust },
+      desire: {},
+      connection: {},
+      mood: values.mood === undefined ? {} : { Seraphina: values.mood },
+      lastThought: {},
+    },
+    customStatistics: {},
+    customNonNumericStatistics: values.stage === undefined ? {} : { relationship_stage: { Seraphina: values.stage } },
+  };
+  return { data, messageIndex };
+}
+
+const trustStat = { key: "trust", label: "Trust", defaultValue: 50, globalScope: false };
+
+test("buildRelationshipMilestones flags the biggest change and the first high-band entry per stat", () => {
+  const milestones = buildRelationshipMilestones({
+    entries: [
+      makeEntry(9, { trust: 40 }),
+      makeEntry(1, { trust: 52 }),
+      makeEntry(3, { trust: 58 }),
+      makeEntry(5, { trust: 64 }),
+      makeEntry(7, { trust: 55 }),
+      makeEntry(11, { trust: 70 }),
+    ],
+    character: "Seraphina",
+    numericStats: [trustStat],
+  });
+
+  assert.deepEqual(
+    milestones.map(item => [item.kind, item.messageIndex, item.detail]),
+    [
+      ["entered_high", 5, "58 → 64"],
+      ["biggest_change", 11, "40 → 70 (+30)"],
+    ],
+  );
+  assert.equal(milestones[1]?.title, "Biggest Trust rise");
+});
+
+test("buildRelationshipMilestones reports enum transitions and mood streaks", () => {
+  const milestones = buildRelationshipMilestones({
+    entries: [
+      makeEntry(0, { stage: "strangers", mood: "Neutral" }),
+      makeEntry(2, { stage: "strangers", mood: "Happy" }),
+      makeEntry(4, { stage: "friends", mood: "happy" }),
+      makeEntry(6, { mood: "Happy" }),
+      makeEntry(8, { stage: "Friends", mood: "Sad" }),
+      makeEntry(10, { stage: "dating", mood: "Sad" }),
+    ],
+    character: "Seraphina",
+    numericStats: [],
+    enumStats: [{ id: "relationship_stage", label: "Relationship Stage", globalScope: false }],
+    includeMood: true,
+  });
+
+  assert.deepEqual(
+    milestones.map(item => [item.kind, item.messageIndex, item.detail]),
+    [
+      ["mood_streak", 2, "3 tracked messages in a row (#2-#6)"],
+      ["enum_change", 4, "strangers → friends"],
+      ["enum_change", 10, "Friends → dating"],
+    ],
+  );
+  assert.equal(buildRelationshipMilestones({
+    entries: [makeEntry(0, { mood: "Sad" }), makeEntry(1, { mood: "Sad" })],
+    character: "Seraphina",
+    numericStats: [],
+    includeMood: true,
+  }).length, 0);
+});
@@ -0,0 +1,64 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { extractStatisticsParallel } from "../src/extractor";
+import {
+  createMockCompletionService,
+  createMockGenerate,
+  parseMockCompletionScript,
+  type MockCompletionService,
+} from "../src/mockCompletion";
+import { sanitizeSettings } from "../src/settings";
+import type { Statistics } from "../src/types";
+
+function previousStatistics(): Statistics {
+  return {
+    affection: { Seraphina: 50 },
+    trust: { Seraphina: 50 },
+    desire: {},
+    connection: {},
+    mood: { Seraphina: "Neutral" },
+    lastThought: {},
+  };
+}
+
+function runMockExtraction(service: MockCompletionService, signal?: AbortSignal) {
+  return extractStatisticsParallel({
+    generate: createMockGenerate(service, signal),
+    settings: sanitizeSettings({ trackDesire: false, trackConnection: false, moodStickiness: 0 }),
+    userName: "Alex",
+    activeCharacters: ["Seraphina"],
+    contextText: "Alex: Thank you for staying, I promise to keep you safe.\nSeraphina: *smiles and hugs him*",
+    previousStatistics: previousStatistics(),
+    hasPriorTrackerData: true,
+    history: [],
+  });
+}
+
+test("mock backend answers extraction prompts with rule-based JSON and drives repair retries", async () => {
+  const service = createMockCompletionService({ script: parseMockCompletionScript("malformed, rules") });
+  const result = await runMockExtraction(service);
+
+  assert.deepEqual(service.calls.map(call => call.kind), ["malformed", "rules"]);
+  assert.equal(result.debug?.meta?.retryUsed, true);
+  assert.ok(Number(result.statistics.affection.Seraphina) > 50);
+  assert.ok(Number(result.statistics.trust.Seraphina) > 50);
+  assert.equal(result.statistics.mood.Seraphina, "Happy");
+  assert.equal(result.statistics.lastThought.Seraphina, "Seraphina takes in what just happened.");
+});
+
+test("mock backend errors go through transport retries and aborts cancel the run", async () => {
+  const flaky = createMockCompletionService({ script: [{ kind: "error" }] });
+  const recovered = await runMockExtraction(flaky);
+  assert.deepEqual(flaky.calls.map(call => call.kind), ["error", "rules"]);
+  assert.equal(recovered.debug?.meta?.requests?.[0]?.retryType.endsWith("_transport_retry_1"), true);
+
+  const hanging = createMockCompletionService({ script: [{ kind: "hang" }] });
+  const controller = new AbortController();
+  const pending = runMockExtraction(hanging, controller.signal);
+  setTimeout(() => controller.abort(), 20);
+  await assert.rejects(pending, (error: Error) => error.name === "AbortError");
+  assert.equal(hanging.calls[0].aborted, true);
+
+  assert.deepEqual(parseMockCompletionScript("truncated:250 bogus empty loop"), [{ kind: "truncated", delayMs: 250 }, { kind: "empty" }]);
+});
@@ -0,0 +1,88 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { buildPairwiseInjectionLines, buildRelationshipMatrices, listCharacterPairs, parsePairKey, toPairKey } from "../src/pairwise";
+import { parsePairwiseDeltaResponse } from "../src/parse";
+import { sanitizePairwiseStats } from "../src/settings";
+import type { TrackerData } from "../src/types";
+import { charactersReply, deterministicSettings, runScriptedExtraction, scriptedGenerate, statistics } from "./helpers/extraction";
+
+const pairSettings = () => deterministicSettings({
+  pairwiseStats: ["Trust", "affection", "trust", "not-a-stat!"],
+});
+
+test("pair keys, pair listing and pairwise parsing stay directional", () => {
+  assert.deepEqual(sanitizePairwiseStats("Trust, affection, trust, not-a-stat!"), ["trust", "affection"]);
+  assert.deepEqual(parsePairKey(toPairKey("Alice", "Bob")), { source: "Alice", target: "Bob" });
+  assert.equal(parsePairKey("Alice"), null);
+  const pairs = listCharacterPairs(["Alice", "__bst_user__", "Bob", "Alice"]);
+  assert.deepEqual(pairs, [{ source: "Alice", target: "Bob" }, { source: "Bob", target: "Alice" }]);
+
+  const parsed = parsePairwiseDeltaResponse(
+    "{\"pairs\": [{\"source\": \"alice\", \"target\": \"Bob\", \"confidence\": 0.9, \"delta\": {\"trust\": 40}}, {\"source\": \"Bob\", \"target\": \"Carol\", \"delta\": {\"trust\": 3}}]}",
+    pairs,
+    ["trust", "affection"],
+    10,
+  );
+  assert.deepEqual(parsed.delta, { trust: { [toPairKey("Alice", "Bob")]: 10 } });
+  assert.deepEqual(parsed.rawDelta, { trust: { [toPairKey("Alice", "Bob")]: 40 } });
+  assert.deepEqual(parsed.confidence, { [toPairKey("Alice", "Bob")]: 0.9 });
+});
+
+test("extractor tracks pairwise deltas and injection lists the speaker's pairs", async () => {
+  const settings = pairSettings();
+  const prompts: string[] = [];
+  const generate = scriptedGenerate(prompt => prompt.includes("\"pairs\"")
+    ? JSON.stringify({ pairs: [{ source: "Alice", target: "Bob", confidence: 1, delta: { trust: -6, affection: 2 } }] })
+    : charactersReply([
+      { name: "Alice", confidence: 1, delta: { affection: 1, trust: 1, desire: 0, connection: 0 } },
+      { name: "Bob", confidence: 1, delta: { affection: 0, trust: 0, desire: 0, connection: 0 } },
+    ]), prompts);
+  const result = await runScriptedExtraction({
+    generate,
+    settings,
+    activeCharacters: ["Alice", "Bob"],
+    contextText: "Bob: *pockets Alice's ring*\nAlice: You liar.",
+    previousPairStatistics: { trust: { [toPairKey("Alice", "Bob")]: 60 } },
+  });
+
+  const pairPrompt = prompts.find(prompt => prompt.includes("<BST_PAIRWISE_STATS>"));
+  assert.ok(pairPrompt);
+  assert.ok(pairPrompt.includes("- Alice -> Bob: trust=60, affection=50"));
+  assert.ok(pairPrompt.includes("not toward Alex"));
+  assert.deepEqual(result.pairStatistics, {
+    trust: { [toPairKey("Alice", "Bob")]: 54 },
+    affection: { [toPairKey("Alice", "Bob")]: 52 },
+  });
+  assert.equal(result.statistics.trust.Alice, 51);
+
+  const failed = await runScriptedExtraction({
+    generate: async (prompt, options) => {
+      if (prompt.includes("\"pairs\"")) throw new Error("pairwise backend down");
+      return generate(prompt, options);
+    },
+    settings,
+    activeCharacters: ["Alice", "Bob"],
+    contextText: "Bob: *pockets Alice's ring*",
+    previousPairStatistics: { trust: { [toPairKey("Alice", "Bob")]: 60 } },
+  });
+  assert.deepEqual(failed.pairStatistics, {});
+  assert.equal(failed.debug?.meta?.pairwiseError, "pairwise backend down");
+
+  const data: TrackerData = {
+    timestamp: 0,
+    activeCharacters: ["Alice", "Bob", "Carol"],
+    statistics: statistics(),
+    pairStatistics: {
+      trust: { [toPairKey("Alice", "Bob")]: 54, [toPairKey("Carol", "Alice")]: 70, [toPairKey("Bob", "Carol")]: 20 },
+    },
+  };
+  assert.deepEqual(buildPairwiseInjectionLines(settings, data, "Alice"), [
+    "- Alice → Bob: trust=54",
+    "- Carol → Alice: trust=70",
+  ]);
+  assert.deepEqual(buildPairwiseInjectionLines({ ...settings, pairwiseStats: [] }, data, "Alice"), []);
+  const [matrix] = buildRelationshipMatrices(settings, data);
+  assert.equal(matrix.stat.id, "trust");
+  assert.deepEqual(matrix.rows[0].cells.map(cell => cell.value), [null, 54, null]);
+});
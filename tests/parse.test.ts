@@ -91,6 +91,32 @@ test("parseCustomDeltaResponse resolves delta from nested or flat values", () =>
   const parsed = parseCustomDeltaResponse(raw, ["Alice", "Bob"], "satisfaction", 7);
   assert.deepEqual(parsed.confidence, { Alice: 0.75, Bob: 0.1 });
   assert.deepEqual(parsed.delta, { Alice: 4, Bob: -7 });
+  assert.deepEqual(parsed.rawDelta, { Alice: 4, Bob: -20 });
+});
+
+test("delta parsers keep unclamped deltas and optional change reasons", () => {
+  const unified = parseUnifiedDeltaResponse(
+    JSON.stringify({
+      characters: [
+        { name: "Alice", confidence: 0.8, delta: { affection: 30 }, reason: "  Bob defended her.  " },
+        { name: "Bob", confidence: 0.5, delta: { affection: -2 } },
+      ],
+    }),
+    ["Alice", "Bob"],
+    ["affection"],
+    10,
+  );
+  assert.deepEqual(unified.deltas.affection, { Alice: 10, Bob: -2 });
+  assert.deepEqual(unified.rawDeltas.affection, { Alice: 30, Bob: -2 });
+  assert.deepEqual(unified.reasons, { Alice: "Bob defended her." });
+
+  const custom = parseCustomDeltaResponse(
+    JSON.stringify({ characters: [{ name: "Alice", confidence: 0.6, delta: { fear: 3 }, reason: "The storm worsened." }] }),
+    ["Alice"],
+    "fear",
+    5,
+  );
+  assert.deepEqual(custom.reasons, { Alice: "The storm worsened." });
 });
 
 test("parseCustomValueResponse handles enum, array, and date_time kinds", () => {
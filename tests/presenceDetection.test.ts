@@ -0,0 +1,64 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { mergePresenceAnalysis, type ActiveCharacterAnalysis } from "../src/activity";
+import { filterStatChangeLogToOwners } from "../src/changeLog";
+import { parsePresenceResponse } from "../src/parse";
+import { charactersReply, deterministicSettings, runScriptedExtraction, scriptedGenerate } from "./helpers/extraction";
+
+const heuristic = (): ActiveCharacterAnalysis => ({
+  allCharacterNames: ["Alice", "Bob", "Carol"],
+  activeCharacters: ["Alice", "Bob"],
+  reasons: { Alice: "spoke in last 5 messages", Bob: "spoke in last 5 messages", Carol: "not seen in recent activity window (5)" },
+  lookback: 5,
+});
+
+test("presence answers merge with the heuristic by policy and record reasons", () => {
+  const presence = parsePresenceResponse(
+    "{\"characters\": [], \"presence\": [{\"name\": \"carol\", \"present\": true, \"reason\": \"listening from the corner\"}, {\"name\": \"Bob\", \"present\": \"no\", \"reason\": \"left for the market\"}, {\"name\": \"Dave\", \"present\": true}, {\"name\": \"Alice\", \"present\": \"maybe\"}]}",
+    ["Alice", "Bob", "Carol"],
+  );
+  assert.deepEqual(presence, {
+    Carol: { present: true, reason: "listening from the corner" },
+    Bob: { present: false, reason: "left for the market" },
+  });
+
+  const preferModel = mergePresenceAnalysis(heuristic(), presence, "prefer_model");
+  assert.deepEqual(preferModel.activeCharacters, ["Alice", "Carol"]);
+  assert.equal(preferModel.reasons.Alice, "spoke in last 5 messages");
+  assert.equal(
+    preferModel.reasons.Carol,
+    "model: present (listening from the corner); heuristic: not seen in recent activity window (5); prefer_model -> active",
+  );
+  assert.deepEqual(mergePresenceAnalysis(heuristic(), presence, "union").activeCharacters, ["Alice", "Bob", "Carol"]);
+  assert.deepEqual(mergePresenceAnalysis(heuristic(), presence, "intersection").activeCharacters, ["Alice"]);
+  assert.deepEqual(mergePresenceAnalysis(heuristic(), {}, "prefer_model"), heuristic());
+});
+
+test("extractor folds the presence question into the unified request", async () => {
+  const prompts: string[] = [];
+  const reply = charactersReply([
+    { name: "Alice", confidence: 1, delta: { affection: 1, trust: 0, desire: 0, connection: 0 } },
+    { name: "Carol", confidence: 1, delta: { affection: 0, trust: 2, desire: 0, connection: 0 } },
+  ], {
+    presence: [{ name: "Alice", present: true, reason: "speaking" }, { name: "Carol", present: false, reason: "asleep upstairs" }],
+  });
+  const result = await runScriptedExtraction({
+    generate: scriptedGenerate(reply, prompts),
+    settings: deterministicSettings({ modelAssistedPresence: true }),
+    activeCharacters: ["Alice", "Carol"],
+    presenceCandidates: ["Alice", "Carol"],
+    contextText: "Alice: Carol went to bed early.",
+  });
+
+  assert.equal(prompts.length, 1);
+  assert.ok(prompts[0].includes("top-level \"presence\" array"));
+  assert.ok(prompts[0].includes("for each of Alice, Carol"));
+  assert.deepEqual(result.presence, {
+    Alice: { present: true, reason: "speaking" },
+    Carol: { present: false, reason: "asleep upstairs" },
+  });
+  assert.ok(result.changeLog.some(entry => entry.owner === "Carol"));
+  const present = mergePresenceAnalysis(heuristic(), result.presence ?? {}, "prefer_model").activeCharacters;
+  assert.deepEqual([...new Set(filterStatChangeLogToOwners(result.changeLog, present).map(entry => entry.owner))], ["Alice"]);
+});
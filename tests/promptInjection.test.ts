@@ -325,3 +325,14 @@ test("buildPrompt filters reserved system owner names and avoids fake fallback v
   assert.match(prompt, /- Seraphina:/);
   assert.match(prompt, /affection=12/);
 });
+
+test("buildPrompt appends pending one-shot trigger notes inside the inject block", () => {
+  const settings = makeSettings({ trackTrust: true });
+  const data = makeTracker({
+    statistics: { affection: {}, trust: { Seraphina: 80 }, desire: {}, connection: {}, mood: {}, lastThought: {} },
+  });
+  const context = makeContext({ chatMetadata: { bstPendingTriggerNotes: ["Seraphina reveals her past."] } });
+  const prompt = __testables.buildPrompt(data, settings, context);
+  assert.match(prompt, /<BST_TRIGGER_NOTES>\nOne-time story notes \(apply to this reply only\):\n- Seraphina reveals her past\.\n<\/BST_TRIGGER_NOTES>\n<\/bst_inject_block>$/);
+  assert.doesNotMatch(__testables.buildPrompt(data, settings, makeContext()), /BST_TRIGGER_NOTES/);
+});
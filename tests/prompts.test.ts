@@ -2,6 +2,8 @@ import test from "node:test";
 import assert from "node:assert/strict";
 
 import {
+  CHANGE_REASON_RULE_LINE,
+  applyChangeReasonRequest,
   buildBuiltInSequentialPromptGenerationPrompt,
   buildCustomStatBehaviorGuidanceGenerationPrompt,
   buildSequentialCustomNumericPrompt,
@@ -361,3 +363,12 @@ test("buildCustomStatBehaviorGuidanceGenerationPrompt asks for continuity-aware
   assert.match(prompt, /Keep the guidance anchored to the current Pose state instead of generic label synonyms\./);
   assert.match(prompt, /describe how the model should remain consistent with an already-established pose value across nearby turns/i);
 });
+
+test("applyChangeReasonRequest adds the reason rule before the JSON-only rule", () => {
+  const prompt = buildUnifiedPrompt(["affection"], "User", ["Alice"], "Alice smiles.", null);
+  const withReason = applyChangeReasonRequest(prompt);
+  const reasonIndex = withReason.indexOf(CHANGE_REASON_RULE_LINE);
+  assert.ok(reasonIndex > 0);
+  assert.ok(reasonIndex < withReason.lastIndexOf("- output JSON only, no commentary."));
+  assert.equal(applyChangeReasonRequest("Custom prompt"), `Custom prompt\n${CHANGE_REASON_RULE_LINE}`);
+});
@@ -0,0 +1,61 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { USER_TRACKER_KEY } from "../src/constants";
+import { toPairKey } from "../src/pairwise";
+import { buildRelationshipWeb, relationshipWebStrokeWidth, resolveRelationshipWebStats } from "../src/relationshipWeb";
+import { sanitizeSettings } from "../src/settings";
+import type { TrackerData } from "../src/types";
+
+const emptyStatistics = (): TrackerData["statistics"] => ({
+  affection: {},
+  trust: {},
+  desire: {},
+  connection: {},
+  mood: {},
+  lastThought: {},
+});
+
+test("relationship web stats fall back to affection color and connection thickness", () => {
+  const settings = sanitizeSettings({});
+  const defaults = resolveRelationshipWebStats(settings);
+  assert.equal(defaults?.color.id, "affection");
+  assert.equal(defaults?.width.id, "connection");
+  const preferred = resolveRelationshipWebStats(settings, { color: "trust", width: "missing" });
+  assert.equal(preferred?.color.id, "trust");
+  assert.equal(preferred?.width.id, "connection");
+  assert.equal(resolveRelationshipWebStats({ ...settings, trackConnection: false })?.width.id, "affection");
+  assert.equal(relationshipWebStrokeWidth(null), 1.5);
+  assert.equal(relationshipWebStrokeWidth(0), 1);
+  assert.equal(relationshipWebStrokeWidth(100), 8);
+});
+
+test("relationship web frames replay user and pairwise edges with carried values", () => {
+  const settings = sanitizeSettings({ pairwiseStats: ["affection"] });
+  const first: TrackerData = {
+    timestamp: 100,
+    activeCharacters: ["Alice", "Bob"],
+    statistics: { ...emptyStatistics(), affection: { Alice: 40, [USER_TRACKER_KEY]: 90 }, connection: { Alice: 20 } },
+  };
+  const second: TrackerData = {
+    timestamp: 200,
+    activeCharacters: ["Alice"],
+    statistics: { ...emptyStatistics(), affection: { Alice: 55 } },
+    pairStatistics: { affection: { [toPairKey("Bob", "Alice")]: 70 } },
+  };
+  const web = buildRelationshipWeb(settings, [second, first], {
+    colorStat: "affection",
+    widthStat: "connection",
+    userName: "Alex",
+  });
+
+  assert.deepEqual(web.nodes.map(node => node.label), ["Alex", "Alice", "Bob"]);
+  assert.equal(web.nodes[0].user, true);
+  assert.deepEqual(web.frames.map(frame => frame.timestamp), [100, 200]);
+  assert.deepEqual(web.frames[0].edges, [{ source: "Alice", target: USER_TRACKER_KEY, color: 40, width: 20 }]);
+  assert.deepEqual(web.frames[1].activeCharacters, ["Alice"]);
+  assert.deepEqual(web.frames[1].edges, [
+    { source: "Alice", target: USER_TRACKER_KEY, color: 55, width: 20 },
+    { source: "Bob", target: "Alice", color: 70, width: null },
+  ]);
+});
@@ -0,0 +1,93 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { GLOBAL_TRACKER_KEY } from "../src/constants";
+import { describeStatChange } from "../src/changeLog";
+import { formatStatConstraint, parseStatConstraint, parseStatConstraintLines } from "../src/statConstraints";
+import { compileStatExpression, validateStatExpression } from "../src/statExpression";
+import { charactersReply, deterministicSettings, runScriptedExtraction, scriptedGenerate, statistics } from "./helpers/extraction";
+
+test("stat expressions evaluate safely and constraint lines round-trip", () => {
+  const values: Record<string, number | string | boolean> = { affection: 70, trust: 40, mood: "Happy", is_hostile: true };
+  const resolve = (name: string) => values[name];
+  assert.equal(compileStatExpression("round((affection + trust) / 3)").evaluate(resolve), 37);
+  assert.equal(compileStatExpression("trust > 30 && mood == \"happy\"").evaluate(resolve), true);
+  assert.equal(compileStatExpression("is_hostile ? min(affection, 30) : affection").evaluate(resolve), 30);
+  assert.equal(compileStatExpression("missing + 1").evaluate(resolve), null);
+  assert.equal(compileStatExpression("affection / 0").evaluate(resolve), null);
+  assert.throws(() => compileStatExpression("constructor(1)"), /Unknown function/);
+  assert.throws(() => compileStatExpression("affection +"), /Unexpected end/);
+  assert.equal(validateStatExpression("trust + favor", ["trust"]), "Unknown stat \"favor\".");
+
+  const constraint = parseStatConstraint("Affection <= 30 when is_hostile == true");
+  assert.deepEqual(constraint, { stat: "affection", bound: "max", expression: "30", when: "is_hostile == true" });
+  assert.equal(formatStatConstraint(constraint), "affection <= 30 when is_hostile == true");
+  assert.deepEqual(parseStatConstraintLines("desire <= trust + 20\n\nconnection ~ 5").errors, [
+    "Constraint line 3: Use the form: stat <= expression, stat >= expression or stat = expression.",
+  ]);
+});
+
+test("extractor enforces built-in and custom constraints after deltas and records the corrections", async () => {
+  const settings = deterministicSettings({
+    trackConnection: false,
+    builtInStatConstraints: {
+      desire: [{ stat: "desire", bound: "max", expression: "trust + 20", when: "" }],
+      connection: [{ stat: "connection", bound: "equals", expression: "(affection + trust) / 2", when: "" }],
+    },
+    customStats: [{
+      id: "is_hostile",
+      kind: "boolean",
+      label: "Hostile",
+      description: "Whether the character is openly hostile.",
+      defaultValue: false,
+      track: true,
+      globalScope: true,
+      showOnCard: true,
+      showInGraph: false,
+      includeInInjection: true,
+      constraints: [
+        { stat: "affection", bound: "max", expression: "30", when: "is_hostile" },
+        { stat: "trust", bound: "min", expression: "bogus(", when: "" },
+      ],
+    }, {
+      id: "rivalry",
+      kind: "numeric",
+      label: "Rivalry",
+      description: "Competitive tension, currently not tracked.",
+      defaultValue: 50,
+      track: false,
+      showOnCard: false,
+      showInGraph: false,
+      includeInInjection: false,
+      constraints: [
+        { stat: "trust", bound: "min", expression: "35", when: "" },
+        { stat: "rivalry", bound: "max", expression: "40", when: "" },
+      ],
+    }],
+  });
+  assert.equal(settings.customStats[0].constraints?.length, 1);
+  assert.equal(settings.builtInStatConstraints.desire?.length, 1);
+  const result = await runScriptedExtraction({
+    generate: scriptedGenerate(charactersReply([
+      { name: "Mira", confidence: 1, delta: { affection: 4, trust: 0, desire: 6, connection: 0 }, value: { is_hostile: true } },
+    ])),
+    settings,
+    contextText: "Alex: Hands off.\nMira: *glares and draws a knife*",
+    previousStatistics: statistics({ affection: { Mira: 50 }, trust: { Mira: 30 }, desire: { Mira: 48 }, connection: { Mira: 10 } }),
+    previousCustomStatistics: { rivalry: { Mira: 70 } },
+    previousCustomNonNumericStatistics: { is_hostile: { [GLOBAL_TRACKER_KEY]: false } },
+  });
+
+  assert.equal(result.statistics.desire.Mira, 50);
+  assert.equal(result.statistics.connection.Mira, 42);
+  assert.equal(result.statistics.affection.Mira, 30);
+  assert.equal(result.statistics.trust.Mira, 35);
+  assert.equal(result.customStatistics.rivalry?.Mira, 40);
+  const desire = result.changeLog.find(entry => entry.stat === "desire");
+  assert.ok(desire);
+  assert.deepEqual(describeStatChange(desire, "Desire"), [
+    "Desire: 48 → 50 (+2)",
+    "Model proposed +6 at confidence 1.00.",
+    "Constraint \"desire <= trust + 20\": -4.",
+  ]);
+});
@@ -0,0 +1,87 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { GLOBAL_TRACKER_KEY } from "../src/constants";
+import { describeStatChange } from "../src/changeLog";
+import { minutesBetweenDateTimes } from "../src/dateTime";
+import { sanitizeSettings } from "../src/settings";
+import {
+  decayStatValue,
+  describeTurnDecayDriftConflict,
+  findTurnDecayDriftConflicts,
+  formatElapsedMinutes,
+  resolveDecayClockStat,
+} from "../src/statDecay";
+import { charactersReply, deterministicSettings, runScriptedExtraction, scriptedGenerate, statistics } from "./helpers/extraction";
+
+test("decayStatValue drifts toward the baseline per turn or per elapsed in-story time", () => {
+  const perTurn = { mode: "turns" as const, baseline: 20, amount: 5, intervalHours: 1 };
+  assert.equal(decayStatValue(80, perTurn, null), 75);
+  assert.equal(decayStatValue(22, perTurn, null), 20);
+  assert.equal(decayStatValue(10, perTurn, null), 15);
+
+  const perTime = { mode: "time" as const, baseline: 0, amount: 10, intervalHours: 2 };
+  assert.equal(decayStatValue(60, perTime, null), 60);
+  assert.equal(decayStatValue(60, perTime, -30), 60);
+  assert.equal(decayStatValue(60, perTime, 90), 52);
+  assert.equal(decayStatValue(60, perTime, 3 * 24 * 60), 0);
+
+  assert.equal(minutesBetweenDateTimes("2026-01-01 22:30", "2026-01-02 07:00"), 510);
+  assert.equal(minutesBetweenDateTimes("", "2026-01-02 07:00"), null);
+  assert.equal(formatElapsedMinutes(510), "8h 30m");
+  assert.equal(formatElapsedMinutes(3 * 1440 + 125), "3d 2h");
+
+  const turnDecay = { mode: "turns" as const, baseline: 50, amount: 2, intervalHours: 1 };
+  const drift = { id: "cool", label: "Cool down", enabled: true, stat: "Trust", owner: "", kind: "drift", phase: "after", baseline: 50, amount: 3 };
+  const conflicts = findTurnDecayDriftConflicts({
+    ...sanitizeSettings({ builtInStatDecay: { trust: turnDecay } }),
+    statRules: sanitizeSettings({ statRules: [drift] } as never).statRules,
+  });
+  assert.deepEqual(conflicts.map(conflict => [conflict.statId, conflict.rule.id]), [["trust", "cool"]]);
+  assert.match(describeTurnDecayDriftConflict(conflicts[0]), /"trust" already decays per turn, so drift rule "Cool down" would move it twice/);
+  const sanitized = sanitizeSettings({
+    builtInStatDecay: { trust: turnDecay, affection: turnDecay, desire: { ...turnDecay, mode: "time" } },
+    statRules: [drift, { ...drift, id: "warm", stat: "affection", enabled: false }, { ...drift, id: "ease", stat: "desire" }],
+  } as never);
+  assert.deepEqual(Object.keys(sanitized.builtInStatDecay).sort(), ["affection", "desire"]);
+  assert.equal(sanitized.statRules.length, 3);
+});
+
+test("extractor applies time-based decay from the in-story clock after model deltas", async () => {
+  const settings = deterministicSettings({
+    trackTrust: false,
+    trackDesire: false,
+    trackConnection: false,
+    builtInStatDecay: { affection: { mode: "time", baseline: 40, amount: 4, intervalHours: 1 } },
+    customStats: [{
+      id: "clock",
+      kind: "date_time",
+      label: "Clock",
+      description: "Current in-story date and time.",
+      defaultValue: "",
+      track: true,
+      globalScope: true,
+      showOnCard: true,
+      showInGraph: false,
+      includeInInjection: true,
+    }],
+  });
+  assert.equal(resolveDecayClockStat(settings)?.id, "clock");
+  const result = await runScriptedExtraction({
+    generate: scriptedGenerate(charactersReply([{ name: "Mira", confidence: 1, delta: { affection: 2 }, value: { clock: "2026-01-02 01:00" } }])),
+    settings,
+    contextText: "Alex: Let's sleep on it.\nMira: *three hours later she wakes up*",
+    previousStatistics: statistics({ affection: { Mira: 70 } }),
+    previousCustomNonNumericStatistics: { clock: { [GLOBAL_TRACKER_KEY]: "2026-01-01 22:00" } },
+  });
+
+  assert.equal(result.customNonNumericStatistics.clock?.[GLOBAL_TRACKER_KEY], "2026-01-02 01:00");
+  assert.equal(result.statistics.affection.Mira, 60);
+  const entry = result.changeLog.find(item => item.stat === "affection");
+  assert.ok(entry);
+  assert.deepEqual(describeStatChange(entry, "Affection"), [
+    "Affection: 70 → 60 (-10)",
+    "Model proposed +2 at confidence 1.00.",
+    "Decay over 3h: -12.",
+  ]);
+});
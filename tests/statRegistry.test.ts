@@ -0,0 +1,97 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { applyBuiltInStatMeanings, buildUnifiedPrompt } from "../src/prompts";
+import { defaultSettings, sanitizeSettings } from "../src/settings";
+import {
+  getAllNumericStatDefinitions,
+  getBuiltInStatDefinition,
+  getBuiltInStatPromptMeanings,
+  getTrackedBuiltInStatKeys,
+  resolveStatReference,
+  withBuiltInStatTracked,
+} from "../src/statRegistry";
+import type { BetterSimTrackerSettings } from "../src/types";
+
+const rivalrySettings: BetterSimTrackerSettings = {
+  ...defaultSettings,
+  builtInStatOverrides: {
+    desire: { label: "Rivalry", description: "Competitive tension and urge to outdo the user.", color: "#ff4444" },
+    trust: { color: "#00aaff" },
+  },
+  customStats: [
+    {
+      id: "fear",
+      kind: "numeric",
+      label: "Fear",
+      defaultValue: 20,
+      maxDeltaPerTurn: 10,
+      track: true,
+      showOnCard: true,
+      showInGraph: true,
+      includeInInjection: true,
+    },
+  ],
+};
+
+test("built-in stat definitions resolve overrides while keeping stable ids", () => {
+  const desire = getBuiltInStatDefinition(rivalrySettings, "desire");
+  assert.equal(desire.id, "desire");
+  assert.equal(desire.label, "Rivalry");
+  assert.equal(desire.color, "#ff4444");
+  assert.equal(desire.promptMeaning, "Competitive tension and urge to outdo the user.");
+  assert.equal(desire.relabeled, true);
+  assert.equal(desire.recolored, true);
+  assert.equal(getBuiltInStatDefinition(rivalrySettings, "connection").recolored, false);
+
+  const trust = getBuiltInStatDefinition(rivalrySettings, "trust");
+  assert.equal(trust.label, "Trust");
+  assert.equal(trust.relabeled, false);
+  assert.equal(trust.recolored, true);
+  assert.equal(trust.customized, true);
+
+  const numeric = getAllNumericStatDefinitions(rivalrySettings);
+  assert.deepEqual(numeric.map(def => def.label), ["Affection", "Trust", "Rivalry", "Connection", "Fear"]);
+
+  assert.deepEqual(Object.keys(getBuiltInStatPromptMeanings(rivalrySettings)), ["desire"]);
+  assert.deepEqual(getBuiltInStatPromptMeanings(defaultSettings), {});
+});
+
+test("resolveStatReference matches ids, aliases and labels", () => {
+  assert.deepEqual(resolveStatReference(rivalrySettings, "DESIRE"), { builtIn: "desire" });
+  assert.deepEqual(resolveStatReference(rivalrySettings, "rivalry"), { builtIn: "desire" });
+  assert.deepEqual(resolveStatReference(rivalrySettings, "last_thought"), { builtIn: "lastThought" });
+  assert.deepEqual(resolveStatReference(rivalrySettings, "Last Thought"), { builtIn: "lastThought" });
+  assert.equal(resolveStatReference(rivalrySettings, "fear")?.custom?.id, "fear");
+  assert.equal(resolveStatReference(rivalrySettings, "loyalty"), null);
+
+  const toggled = withBuiltInStatTracked(rivalrySettings, "desire", false);
+  assert.equal(toggled.trackDesire, false);
+  assert.equal(getTrackedBuiltInStatKeys(toggled).includes("desire"), false);
+});
+
+test("applyBuiltInStatMeanings rewrites stat meanings and drops romance-only desire rules", () => {
+  const prompt = buildUnifiedPrompt(["affection", "desire"], "User", ["Seraphina"], "Seraphina glares.", null);
+  assert.match(prompt, /Only increase desire if the relationship is explicitly romantic/);
+
+  const rewritten = applyBuiltInStatMeanings(prompt, getBuiltInStatPromptMeanings(rivalrySettings));
+  assert.match(rewritten, /- desire \("Rivalry"\): Competitive tension and urge to outdo the user\./);
+  assert.doesNotMatch(rewritten, /explicitly romantic/);
+  assert.doesNotMatch(rewritten, /Do not infer romance from affection or playfulness/);
+  assert.equal(applyBuiltInStatMeanings(prompt, {}), prompt);
+});
+
+test("sanitizeSettings keeps valid built-in overrides and drops empty or invalid values", () => {
+  const sanitized = sanitizeSettings({
+    builtInStatOverrides: {
+      desire: { label: "  Rivalry  ", description: "", color: "red" },
+      trust: { label: "", description: "", color: "" },
+      lastThought: { label: "Inner Voice", color: "#123456" },
+      bogus: { label: "Nope" },
+    } as unknown as BetterSimTrackerSettings["builtInStatOverrides"],
+  });
+  assert.deepEqual(sanitized.builtInStatOverrides, {
+    desire: { label: "Rivalry" },
+    lastThought: { label: "Inner Voice" },
+  });
+});
@@ -0,0 +1,101 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { describeStatChange } from "../src/changeLog";
+import { sanitizeSettings, sanitizeStatRules } from "../src/settings";
+import { evaluateStatRules, matchesStatRulePattern } from "../src/statRules";
+import type { StatRule } from "../src/types";
+import { charactersReply, deterministicSettings, runScriptedExtraction, scriptedGenerate, statistics } from "./helpers/extraction";
+
+function makeRule(overrides: Partial<StatRule>): StatRule {
+  return {
+    id: "rule",
+    label: "",
+    enabled: true,
+    stat: "trust",
+    owner: "{{char}}",
+    kind: "match",
+    phase: "after",
+    source: "latest",
+    pattern: "",
+    delta: 0,
+    baseline: 50,
+    amount: 5,
+    capStat: "",
+    capOffset: 0,
+    capMode: "at_most",
+    ...overrides,
+  };
+}
+
+test("evaluateStatRules applies matches, drift, and caps in order against live values", () => {
+  const settings = sanitizeSettings({
+    statRules: [
+      makeRule({ id: "lie", stat: "trust", source: "user", pattern: "[lie]", delta: -10, phase: "before" }),
+      makeRule({ id: "insult", stat: "trust", pattern: "/\\bidiot\\b/i", delta: -5 }),
+      makeRule({ id: "cooldown", stat: "desire", kind: "drift", baseline: 20, amount: 5 }),
+      makeRule({ id: "desire_cap", stat: "desire", kind: "cap", capStat: "trust", capOffset: 10, capMode: "at_most", phase: "before" }),
+      makeRule({ id: "disabled", stat: "affection", pattern: "hello", delta: 5, enabled: false }),
+    ],
+  });
+  assert.equal(settings.statRules.find(rule => rule.id === "desire_cap")?.phase, "after");
+  assert.equal(sanitizeStatRules([{ stat: "trust", kind: "match", pattern: "", delta: 5 }]).length, 0);
+
+  const values: Record<string, number> = { "Mira:trust": 60, "Mira:desire": 90, "Mira:affection": 50 };
+  const run = (phase: "before" | "after", latest: string, user: string) => evaluateStatRules({
+    settings,
+    phase,
+    texts: { latest, user },
+    ownersForStat: () => ["Mira"],
+    readValue: (owner, stat) => values[`${owner}:${stat}`],
+    writeValue: (owner, stat, value) => { values[`${owner}:${stat}`] = value; },
+  });
+
+  const before = run("before", "Mira: You're an IDIOT.", "Alex: I was home all night [lie]");
+  assert.deepEqual(before.map(item => [item.ruleId, item.delta]), [["lie", -10]]);
+  const after = run("after", "Mira: You're an IDIOT.", "Alex: I was home all night [lie]");
+  assert.deepEqual(after.map(item => [item.ruleId, item.previous, item.next]), [
+    ["insult", 50, 45],
+    ["cooldown", 90, 85],
+    ["desire_cap", 85, 55],
+  ]);
+  assert.equal(matchesStatRulePattern("/[unclosed/", "[unclosed"), false);
+  assert.equal(matchesStatRulePattern("Lie", "a [LIE] tag"), true);
+});
+
+test("extractor applies rules around model deltas and records them separately", async () => {
+  const result = await runScriptedExtraction({
+    generate: scriptedGenerate(charactersReply([{ name: "Mira", confidence: 1, delta: { affection: 0, trust: 4 } }])),
+    settings: deterministicSettings({
+      trackDesire: false,
+      trackConnection: false,
+      statRules: [
+        makeRule({ id: "lie", label: "Lie penalty", source: "user", pattern: "[lie]", delta: -10, phase: "before" }),
+        makeRule({ id: "warmth", stat: "affection", kind: "drift", baseline: 50, amount: 3 }),
+      ],
+    }),
+    contextText: "Alex: I never saw her. [lie]\nMira: Okay.",
+    latestMessageText: "Mira: Okay.",
+    latestUserMessageText: "Alex: I never saw her. [lie]",
+    previousStatistics: statistics({ affection: { Mira: 60 }, trust: { Mira: 60 } }),
+  });
+
+  assert.equal(result.statistics.trust.Mira, 54);
+  assert.equal(result.statistics.affection.Mira, 57);
+  assert.deepEqual(result.debug?.meta?.ruleAdjustments?.map(item => [item.ruleId, item.phase, item.delta]), [
+    ["lie", "before", -10],
+    ["warmth", "after", -3],
+  ]);
+  const trustEntry = result.changeLog.find(entry => entry.stat === "trust");
+  assert.ok(trustEntry);
+  assert.equal(trustEntry.previous, 60);
+  assert.deepEqual(describeStatChange(trustEntry, "Trust"), [
+    "Trust: 60 → 54 (-6)",
+    "Rule \"Lie penalty\" before the model: -10.",
+    "Model proposed +4 at confidence 1.00.",
+  ]);
+  const affectionEntry = result.changeLog.find(entry => entry.stat === "affection");
+  assert.ok(affectionEntry);
+  assert.equal(affectionEntry.previous, 60);
+  assert.deepEqual(describeStatChange(affectionEntry, "Affection").slice(-1), ["Rule \"warmth\" after the model: -3."]);
+});
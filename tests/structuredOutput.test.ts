@@ -0,0 +1,77 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import {
+  buildExtractionJsonSchema,
+  isStructuredOutputRejection,
+  resolveProfileStructuredOutputTarget,
+  resolveStructuredOutputTarget,
+} from "../src/structuredOutput";
+import type { CustomStatDefinition } from "../src/types";
+
+function customStat(id: string, overrides: Partial<CustomStatDefinition> = {}): CustomStatDefinition {
+  return {
+    id,
+    label: id,
+    defaultValue: 50,
+    track: true,
+    includeInInjection: true,
+    showOnCard: true,
+    showInGraph: true,
+    ...overrides,
+  };
+}
+
+type SchemaNode = { properties: Record<string, SchemaNode>; required?: string[]; items: SchemaNode } & Record<string, unknown>;
+
+test("buildExtractionJsonSchema mirrors the requested stats in the protocol shape", () => {
+  const schema = buildExtractionJsonSchema({
+    statList: ["trust", "mood", "tension", "stage", "armed", "items", "unknown"],
+    customStats: [
+      customStat("tension", { maxDeltaPerTurn: 5 }),
+      customStat("stage", { kind: "enum_single", defaultValue: "strangers", enumOptions: ["strangers", "friends", "strangers"] }),
+      customStat("armed", { kind: "boolean", defaultValue: false }),
+      customStat("items", { kind: "array", defaultValue: [], textMaxLength: 40 }),
+    ],
+    maxDeltaPerTurn: 12,
+    includeReason: true,
+  }) as unknown as SchemaNode;
+
+  const row = schema.properties.characters.items;
+  assert.deepEqual(row.required, ["name", "confidence", "mood", "delta", "reason", "value"]);
+  assert.deepEqual(row.properties.delta.properties.trust, { type: "integer", minimum: -12, maximum: 12 });
+  assert.deepEqual(row.properties.delta.properties.tension, { type: "integer", minimum: -5, maximum: 5 });
+  assert.deepEqual(row.properties.value.properties.stage, { type: "string", enum: ["strangers", "friends"] });
+  assert.deepEqual(row.properties.value.properties.armed, { type: "boolean" });
+  assert.deepEqual(row.properties.value.properties.items, { type: "array", items: { type: "string", maxLength: 40 }, maxItems: 30 });
+  assert.equal(row.additionalProperties, false);
+
+  const thoughtOnly = buildExtractionJsonSchema({ statList: ["lastThought"], customStats: [], maxDeltaPerTurn: 15, includeReason: true }) as unknown as SchemaNode;
+  assert.deepEqual(thoughtOnly.properties.characters.items.required, ["name", "confidence", "lastThought"]);
+  assert.equal(buildExtractionJsonSchema({ statList: ["missing"], customStats: [], maxDeltaPerTurn: 15 }), null);
+});
+
+test("resolveStructuredOutputTarget only enables schema-capable backends", () => {
+  assert.equal(resolveStructuredOutputTarget({ mainApi: "openai", chatCompletionSource: "openrouter" }), "chat_completion");
+  assert.equal(resolveStructuredOutputTarget({ mainApi: "openai", chatCompletionSource: "claude" }), null);
+  assert.equal(resolveStructuredOutputTarget({ mainApi: "textgenerationwebui", textCompletionType: "llamacpp" }), "text_completion");
+  assert.equal(resolveStructuredOutputTarget({ mainApi: "textgenerationwebui", textCompletionType: "koboldcpp" }), null);
+  assert.equal(resolveStructuredOutputTarget({ mainApi: "kobold" }), null);
+});
+
+test("connection profiles resolve a schema target and only schema rejections trigger the plain retry", () => {
+  assert.equal(resolveProfileStructuredOutputTarget({ mode: "cc", api: "openrouter" }), "chat_completion");
+  assert.equal(resolveProfileStructuredOutputTarget({ mode: "cc", api: "claude" }), null);
+  assert.equal(resolveProfileStructuredOutputTarget({ mode: "tc", api: "tabby" }), "text_completion");
+  assert.equal(resolveProfileStructuredOutputTarget({ api: "openai" }), null);
+  assert.equal(resolveProfileStructuredOutputTarget(null), null);
+
+  assert.equal(isStructuredOutputRejection(new Error("HTTP 400 Bad Request: invalid schema")), true);
+  assert.equal(isStructuredOutputRejection(new Error("HTTP 422: unprocessable")), true);
+  assert.equal(isStructuredOutputRejection(new Error("response_format json_schema is not supported by this model")), true);
+  assert.equal(isStructuredOutputRejection(new Error("HTTP 429 Too Many Requests: json_schema quota")), false);
+  assert.equal(isStructuredOutputRejection(new Error("HTTP 401 Unauthorized")), false);
+  assert.equal(isStructuredOutputRejection(new Error("HTTP 503: upstream unavailable")), false);
+  assert.equal(isStructuredOutputRejection(new Error("Failed to fetch")), false);
+  assert.equal(isStructuredOutputRejection(Object.assign(new Error("HTTP 400"), { name: "AbortError" })), false);
+});
@@ -0,0 +1,61 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { parseTolerantJson } from "../src/tolerantJson";
+import { parseUnifiedDeltaResponse } from "../src/parse";
+
+test("parseTolerantJson repairs loose JSON syntax inside prose and code fences", () => {
+  const raw = [
+    "Sure, here is the update:",
+    "```json",
+    "{",
+    "  // tracker output",
+    "  characters: [",
+    "    {name: 'Seraphina', confidence: 0.8, delta: {trust: 3, affection: -1,}, mood: Happy, lastThought: 'She said \"stay\" and didn\\'t mean it.',},",
+    "  ],",
+    "}",
+    "```",
+  ].join("\n");
+  const result = parseTolerantJson(raw);
+
+  assert.equal(result.repaired, true);
+  assert.equal(result.truncated, false);
+  assert.deepEqual(result.value, {
+    characters: [{
+      name: "Seraphina",
+      confidence: 0.8,
+      delta: { trust: 3, affection: -1 },
+      mood: "Happy",
+      lastThought: "She said \"stay\" and didn't mean it.",
+    }],
+  });
+  assert.deepEqual(parseTolerantJson("{\"characters\": []}"), { value: { characters: [] }, repaired: false, truncated: false, blocks: 1 });
+  assert.equal(parseTolerantJson("no json here").value, null);
+});
+
+test("parseTolerantJson merges multiple blocks and salvages complete rows from truncated output", () => {
+  const multi = parseTolerantJson([
+    "{\"characters\": [{\"name\": \"Seraphina\", \"delta\": {\"trust\": 2}}]}",
+    "{\"name\": \"Lyra\", \"delta\": {\"trust\": -4}}",
+  ].join("\n"));
+  assert.equal(multi.blocks, 2);
+  assert.deepEqual((multi.value as { characters: Array<{ name: string }> }).characters.map(row => row.name), ["Seraphina", "Lyra"]);
+
+  const truncatedRaw = "{\"characters\": [{\"name\": \"Seraphina\", \"confidence\": 0.9, \"delta\": {\"trust\": 4, \"affection\": 2}, \"mood\": \"Happy\"}, {\"name\": \"Lyra\", \"confidence\": 0.7, \"delta\": {\"trust\": -3, \"affect";
+  const truncated = parseTolerantJson(truncatedRaw);
+  assert.equal(truncated.truncated, true);
+  assert.deepEqual(truncated.value, {
+    characters: [
+      { name: "Seraphina", confidence: 0.9, delta: { trust: 4, affection: 2 }, mood: "Happy" },
+      { name: "Lyra", confidence: 0.7, delta: { trust: -3 } },
+    ],
+  });
+
+  const parsed = parseUnifiedDeltaResponse(truncatedRaw, ["Seraphina", "Lyra"], ["trust", "affection", "mood"], 15);
+  assert.deepEqual(parsed.deltas.trust, { Seraphina: 4, Lyra: -3 });
+  assert.deepEqual(parsed.deltas.affection, { Seraphina: 2 });
+  assert.deepEqual(parsed.mood, { Seraphina: "Happy" });
+
+  const cutString = parseTolerantJson("{\"characters\": [{\"name\": \"Lyra\", \"mood\": \"Sad\", \"lastThought\": \"I wonder if");
+  assert.deepEqual(cutString.value, { characters: [{ name: "Lyra", mood: "Sad" }] });
+});
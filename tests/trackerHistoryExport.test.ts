@@ -0,0 +1,151 @@
+import test, { afterEach } from "node:test";
+import assert from "node:assert/strict";
+
+import { EXTENSION_KEY, USER_TRACKER_KEY } from "../src/constants";
+import { defaultSettings } from "../src/settings";
+import { getTrackerDataFromMessage, getTrackerSwipeEntriesFromMessage, writeTrackerDataToMessage } from "../src/storage";
+import {
+  applyTrackerHistoryImport,
+  buildTrackerHistoryExport,
+  parseTrackerHistoryImport,
+  trackerHistoryExportToCsv,
+} from "../src/trackerHistoryExport";
+import type { BetterSimTrackerSettings, STContext, TrackerData } from "../src/types";
+
+class MemoryStorage {
+  private map = new Map<string, string>();
+  getItem(key: string): string | null {
+    return this.map.has(key) ? this.map.get(key)! : null;
+  }
+  setItem(key: string, value: string): void {
+    this.map.set(key, value);
+  }
+  removeItem(key: string): void {
+    this.map.delete(key);
+  }
+  clear(): void {
+    this.map.clear();
+  }
+}
+
+const localStorageMock = new MemoryStorage();
+(globalThis as unknown as { localStorage: MemoryStorage }).localStorage = localStorageMock;
+
+afterEach(() => {
+  localStorageMock.clear();
+});
+
+function makeTracker(timestamp: number, affection: number): TrackerData {
+  return {
+    timestamp,
+    activeCharacters: ["Seraphina"],
+    statistics: {
+      affection: { Seraphina: affection },
+      trust: {},
+      desire: {},
+      connection: {},
+      mood: { Seraphina: "Happy" },
+      lastThought: { Seraphina: "She said \"hi\", then left" },
+    },
+    customStatistics: { focus: { Seraphina: 40 } },
+    customNonNumericStatistics: { outfit: { [USER_TRACKER_KEY]: ["coat", "boots"] } },
+  };
+}
+
+function makeContext(): STContext {
+  return {
+    chat: [
+      { mes: "Greeting", name: "Seraphina", is_user: false, is_system: false, extra: {} },
+      { mes: "Hi", name: "User", is_user: true, is_system: false, extra: {} },
+      { mes: "Reply", name: "Seraphina", is_user: false, is_system: false, swipe_id: 1, swipes: ["First reply", "Reply"], extra: {} },
+    ],
+    chatId: "chat-a",
+    characterId: 1,
+    chatMetadata: {},
+  };
+}
+
+const settings: BetterSimTrackerSettings = {
+  ...defaultSettings,
+  customStats: [
+    {
+      id: "focus",
+      kind: "numeric",
+      label: "Focus",
+      defaultValue: 50,
+      maxDeltaPerTurn: 10,
+      track: true,
+      showOnCard: true,
+      showInGraph: true,
+      includeInInjection: true,
+    },
+  ],
+};
+
+test("buildTrackerHistoryExport includes every swipe snapshot with hashes and stat definitions", () => {
+  const context = makeContext();
+  context.chat[2].extra = {
+    [EXTENSION_KEY]: { "0": makeTracker(1000, 40), "1": makeTracker(2000, 55) },
+  };
+  const payload = buildTrackerHistoryExport(context, settings, 5000);
+
+  assert.equal(payload.format, "bettersimtracker-history");
+  assert.equal(payload.chatId, "chat-a");
+  assert.equal(payload.customStats[0].id, "focus");
+  assert.deepEqual(payload.entries.map(entry => [entry.messageIndex, entry.swipeId, entry.activeSwipe]), [
+    [2, 0, false],
+    [2, 1, true],
+  ]);
+  assert.notEqual(payload.entries[0].messageHash, payload.entries[1].messageHash);
+
+  const csv = trackerHistoryExportToCsv(payload).split("\r\n");
+  assert.equal(csv[0], "message_index,swipe_id,active_swipe,speaker,timestamp,owner,stat,value");
+  assert.ok(csv.includes("2,1,true,Seraphina,1970-01-01T00:00:02.000Z,Seraphina,affection,55"));
+  assert.ok(csv.includes("2,1,true,Seraphina,1970-01-01T00:00:02.000Z,Seraphina,lastThought,\"She said \"\"hi\"\", then left\""));
+  assert.ok(csv.includes(`2,0,false,Seraphina,1970-01-01T00:00:01.000Z,${USER_TRACKER_KEY},outfit,coat | boots`));
+});
+
+test("applyTrackerHistoryImport re-attaches by index, falls back to hash, and keeps existing data", () => {
+  const source = makeContext();
+  writeTrackerDataToMessage(source, makeTracker(1000, 30), 0);
+  writeTrackerDataToMessage(source, makeTracker(2000, 60), 2);
+  const parsed = parseTrackerHistoryImport(JSON.stringify(buildTrackerHistoryExport(source, settings)));
+  assert.equal(parsed.error, null);
+  assert.ok(parsed.payload);
+
+  const target = makeContext();
+  target.chat.splice(1, 0, { mes: "(inserted note)", name: "User", is_user: true, is_system: false, extra: {} });
+  writeTrackerDataToMessage(target, makeTracker(500, 10), 0);
+
+  const result = applyTrackerHistoryImport(target, parsed.payload!, { ...defaultSettings, customStats: [] });
+  assert.equal(result.total, 2);
+  assert.equal(result.kept, 1);
+  assert.equal(result.remapped, 1);
+  assert.deepEqual(result.missingCustomStatIds, ["focus", "outfit"]);
+  assert.equal(getTrackerDataFromMessage(target.chat[0])?.statistics.affection.Seraphina, 10);
+  assert.equal(getTrackerDataFromMessage(target.chat[3])?.statistics.affection.Seraphina, 60);
+  assert.deepEqual(getTrackerSwipeEntriesFromMessage(target.chat[2]), []);
+
+  const overwritten = applyTrackerHistoryImport(target, parsed.payload!, settings, { overwrite: true });
+  assert.equal(overwritten.attached, 1);
+  assert.equal(getTrackerDataFromMessage(target.chat[0])?.statistics.affection.Seraphina, 30);
+});
+
+test("parseTrackerHistoryImport rejects foreign payloads and skips malformed entries", () => {
+  assert.match(parseTrackerHistoryImport("").error ?? "", /empty/);
+  assert.match(parseTrackerHistoryImport("{").error ?? "", /invalid JSON/);
+  assert.match(parseTrackerHistoryImport(JSON.stringify({ customStats: [] })).error ?? "", /format/);
+
+  const parsed = parseTrackerHistoryImport(JSON.stringify({
+    format: "bettersimtracker-history",
+    version: 1,
+    entries: [
+      { messageIndex: -1, swipeId: 0, data: makeTracker(1000, 10) },
+      { messageIndex: 2, swipeId: 0, data: { statistics: {} } },
+      { messageIndex: 2, swipeId: 0, messageHash: "", data: makeTracker(1000, 10) },
+    ],
+  }));
+  assert.equal(parsed.error, null);
+  assert.equal(parsed.payload?.entries.length, 1);
+  assert.equal(parsed.warnings.length, 2);
+});
@@ -0,0 +1,180 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { GLOBAL_TRACKER_KEY, USER_TRACKER_KEY } from "../src/constants";
+import { defaultSettings, sanitizeTriggerRules } from "../src/settings";
+import {
+  applyTriggerSetStatAction,
+  clearPendingTriggerNotes,
+  evaluateTriggerRules,
+  queueTriggerNotes,
+  readPendingTriggerNotes,
+  readTriggerHistory,
+  rearmTriggers,
+  recordTriggerFirings,
+  renderTriggerText,
+} from "../src/triggers";
+import type { BetterSimTrackerSettings, STContext, TrackerData, TriggerRule } from "../src/types";
+
+function makeTracker(overrides: Partial<TrackerData> = {}): TrackerData {
+  return {
+    timestamp: 1000,
+    activeCharacters: ["Alice", "Bob"],
+    statistics: { affection: {}, trust: {}, desire: {}, connection: {}, mood: {}, lastThought: {} },
+    customStatistics: {},
+    customNonNumericStatistics: {},
+    ...overrides,
+  };
+}
+
+function makeRule(overrides: Partial<TriggerRule> = {}): TriggerRule {
+  return {
+    id: "trust_milestone",
+    label: "Trust milestone",
+    enabled: true,
+    stat: "trust",
+    owner: "{{char}}",
+    condition: "crosses_above",
+    threshold: 70,
+    value: "",
+    actions: [{ type: "system_message", text: "{{char}} trusts {{user}} ({{previous}} -> {{value}})." }],
+    ...overrides,
+  };
+}
+
+const settings: BetterSimTrackerSettings = {
+  ...defaultSettings,
+  customStats: [
+    {
+      id: "relationship_stage",
+      kind: "enum_single",
+      label: "Stage",
+      defaultValue: "strangers",
+      enumOptions: ["strangers", "friends", "dating"],
+      track: true,
+      globalScope: true,
+      showOnCard: true,
+      showInGraph: false,
+      includeInInjection: true,
+    },
+    {
+      id: "loyalty",
+      kind: "numeric",
+      label: "Loyalty",
+      defaultValue: 50,
+      track: true,
+      showOnCard: true,
+      showInGraph: true,
+      includeInInjection: true,
+    },
+  ],
+};
+
+test("evaluateTriggerRules fires threshold crossings once per owner", () => {
+  const previous = makeTracker({
+    statistics: { ...makeTracker().statistics, trust: { Alice: 65, Bob: 75, [USER_TRACKER_KEY]: 60 } },
+  });
+  const current = makeTracker({
+    statistics: { ...makeTracker().statistics, trust: { Alice: 72, Bob: 80, [USER_TRACKER_KEY]: 90 } },
+  });
+  const ruleSettings = { ...settings, triggerRules: [makeRule()] };
+  const firings = evaluateTriggerRules({ settings: ruleSettings, previous, current, fired: [] });
+  assert.deepEqual(firings.map(firing => firing.owner), ["Alice"]);
+  assert.equal(
+    renderTriggerText(firings[0].rule.actions[0].text, firings[0], { owner: "Alice", user: "Sam" }),
+    "Alice trusts Sam (65 -> 72).",
+  );
+
+  const again = evaluateTriggerRules({
+    settings: ruleSettings,
+    previous,
+    current,
+    fired: [{ ruleId: "trust_milestone", owner: "Alice", messageIndex: 3, firedAt: 1 }],
+  });
+  assert.equal(again.length, 0);
+
+  const below = evaluateTriggerRules({
+    settings: { ...settings, triggerRules: [makeRule({ condition: "crosses_below", threshold: 70, owner: "" })] },
+    previous: current,
+    current: previous,
+    fired: [],
+  });
+  assert.deepEqual(below.map(firing => firing.owner), ["Alice", USER_TRACKER_KEY]);
+});
+
+test("evaluateTriggerRules matches enum becomes on global stats and skips unknown stats", () => {
+  const previous = makeTracker({ customNonNumericStatistics: { relationship_stage: { [GLOBAL_TRACKER_KEY]: "friends" } } });
+  const current = makeTracker({ customNonNumericStatistics: { relationship_stage: { [GLOBAL_TRACKER_KEY]: "dating" } } });
+  const firings = evaluateTriggerRules({
+    settings: {
+      ...settings,
+      triggerRules: [
+        makeRule({ id: "dating", stat: "Stage", condition: "becomes", value: "Dating" }),
+        makeRule({ id: "ghost", stat: "nonexistent" }),
+        makeRule({ id: "off", stat: "relationship_stage", condition: "becomes", value: "dating", enabled: false }),
+      ],
+    },
+    previous,
+    current,
+    fired: [],
+  });
+  assert.deepEqual(firings.map(firing => [firing.rule.id, firing.owner]), [["dating", GLOBAL_TRACKER_KEY]]);
+  assert.equal(evaluateTriggerRules({
+    settings: { ...settings, triggerRules: [makeRule({ id: "dating", stat: "relationship_stage", condition: "becomes", value: "dating" })] },
+    previous: current,
+    current,
+    fired: [],
+  }).length, 0);
+});
+
+test("applyTriggerSetStatAction writes scoped custom values and rejects invalid ones", () => {
+  const data = makeTracker();
+  assert.equal(applyTriggerSetStatAction(data, settings, { type: "set_stat", statId: "relationship_stage", text: "dating" }, "Alice"), true);
+  assert.deepEqual(data.customNonNumericStatistics?.relationship_stage, { [GLOBAL_TRACKER_KEY]: "dating" });
+  assert.equal(applyTriggerSetStatAction(data, settings, { type: "set_stat", statId: "relationship_stage", text: "married" }, "Alice"), false);
+  assert.equal(applyTriggerSetStatAction(data, settings, { type: "set_stat", statId: "loyalty", text: "140" }, "Alice"), true);
+  assert.deepEqual(data.customStatistics?.loyalty, { Alice: 100 });
+  assert.equal(applyTriggerSetStatAction(data, settings, { type: "set_stat", statId: "loyalty", text: "80" }, GLOBAL_TRACKER_KEY), false);
+  assert.equal(applyTriggerSetStatAction(data, settings, { type: "set_stat", statId: "missing", text: "1" }, "Alice"), false);
+});
+
+test("fired history and pending notes persist in chat metadata and can be re-armed", () => {
+  const context: STContext = { chat: [], chatMetadata: {} };
+  const firings = evaluateTriggerRules({
+    settings: { ...settings, triggerRules: [makeRule(), makeRule({ id: "other" })] },
+    previous: makeTracker({ statistics: { ...makeTracker().statistics, trust: { Alice: 10 } } }),
+    current: makeTracker({ statistics: { ...makeTracker().statistics, trust: { Alice: 90 } } }),
+    fired: [],
+  });
+  recordTriggerFirings(context, firings, 4);
+  assert.deepEqual(readTriggerHistory(context).map(record => [record.ruleId, record.owner, record.messageIndex]), [
+    ["trust_milestone", "Alice", 4],
+    ["other", "Alice", 4],
+  ]);
+  assert.equal(rearmTriggers(context, "other"), 1);
+  assert.deepEqual(readTriggerHistory(context).map(record => record.ruleId), ["trust_milestone"]);
+  assert.equal(rearmTriggers(context), 1);
+  assert.deepEqual(readTriggerHistory(context), []);
+
+  queueTriggerNotes(context, ["  Alice shares a secret.  ", ""]);
+  assert.deepEqual(readPendingTriggerNotes(context), ["Alice shares a secret."]);
+  assert.equal(clearPendingTriggerNotes(context), true);
+  assert.equal(clearPendingTriggerNotes(context), false);
+});
+
+test("sanitizeTriggerRules drops rules without actions and repairs ids", () => {
+  const rules = sanitizeTriggerRules([
+    { id: "Trust Up", stat: "trust", condition: "crosses_above", threshold: 140, actions: [{ type: "inject_note", text: " Be warm. " }] },
+    { id: "trust up", stat: "trust", actions: [{ type: "system_message", text: "dup" }, { type: "bogus", text: "x" }] },
+    { stat: "trust", actions: [] },
+    { stat: "", actions: [{ type: "system_message", text: "no stat" }] },
+    { stat: "mood", condition: "weird", actions: [{ type: "set_stat", statId: "Bad Id", text: "1" }, { type: "set_stat", statId: "loyalty", text: "" }] },
+  ]);
+  assert.deepEqual(rules.map(rule => rule.id), ["trust_up", "trigger_2", "trigger_3"]);
+  assert.equal(rules[0].threshold, 100);
+  assert.deepEqual(rules[0].actions, [{ type: "inject_note", text: "Be warm." }]);
+  assert.equal(rules[0].owner, "");
+  assert.deepEqual(rules[1].actions, [{ type: "system_message", text: "dup" }]);
+  assert.equal(rules[2].condition, "crosses_above");
+  assert.deepEqual(rules[2].actions, [{ type: "set_stat", statId: "loyalty", text: "" }]);
+});